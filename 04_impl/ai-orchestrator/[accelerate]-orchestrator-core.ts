@@ -1,7 +1,16 @@
 // [accelerate] AI Orchestrator Core Implementation
 // Based on contract: /03_contract/[clarify]-system-architecture-schema.md
 
-import { systemicLedger, LedgerEntry } from '../systemic-ledger/[accelerate]-ledger-core';
+import { systemicLedger, LedgerEntry, SystemicLedger } from '../systemic-ledger/[accelerate]-ledger-core';
+import { scoreAlignment, AlignmentResult } from '../backend/[accelerate]-alignment-engine';
+import {
+  StorageAdapter,
+  defaultStorageAdapter,
+  getStoredItems,
+  mergeById,
+  setStoredItems,
+  whenStored
+} from '../systemic-ledger/[safeguard]-storage-adapter';
 
 export interface WisdomInsight {
   id: string;
@@ -39,11 +48,32 @@ export class AIOrchestrator {
   };
   private readonly wisdomStorageKey = 'vision-holder-wisdom-memory';
   private readonly preferencesStorageKey = 'vision-holder-user-preferences';
+  private loading: Promise<void> | null = null;
 
-  constructor() {
+  constructor(
+    private storage: StorageAdapter = defaultStorageAdapter(),
+    private readonly ledger: SystemicLedger = systemicLedger
+  ) {
     this.loadFromStorage();
   }
 
+  /**
+   * Resolves once stored wisdom and preferences are loaded (only IndexedDB needs waiting for)
+   */
+  ready(): Promise<void> {
+    return this.loading ?? Promise.resolve();
+  }
+
+  /**
+   * Move to another storage adapter, e.g. a FileStorageAdapter when running in Node
+   */
+  useStorage(storage: StorageAdapter): Promise<void> {
+    this.storage = storage;
+    this.wisdomMemory = [];
+    this.loadFromStorage();
+    return this.ready();
+  }
+
   /**
    * Context Engineering: Generate minimal context prompts for builder AIs
    */
@@ -51,8 +81,8 @@ export class AIOrchestrator {
     task: string,
     builderType: 'code' | 'design' | 'planning' | 'analysis'
   ): ContextPrompt {
-    const mission = systemicLedger.getCurrentMission();
-    const pillars = systemicLedger.getCurrentPillars();
+    const mission = this.ledger.getCurrentMission();
+    const pillars = this.ledger.getCurrentPillars();
     const relevantWisdom = this.getRelevantWisdom(task, builderType);
 
     // Build minimal context
@@ -124,7 +154,7 @@ export class AIOrchestrator {
   performLiveAlignmentCheck(
     entry: Omit<LedgerEntry, 'id' | 'timestamp'>
   ): { aligned: boolean; reasons: string[]; suggestions: string[] } {
-    const alignment = systemicLedger.checkAlignment(entry);
+    const alignment = this.ledger.checkAlignment(entry);
     const suggestions: string[] = [];
 
     if (!alignment.aligned) {
@@ -150,9 +180,9 @@ export class AIOrchestrator {
    * Generate summary report for context continuity
    */
   generateSummaryReport(): string {
-    const mission = systemicLedger.getCurrentMission();
-    const pillars = systemicLedger.getCurrentPillars();
-    const recentEntries = systemicLedger.getEntries().slice(0, 10);
+    const mission = this.ledger.getCurrentMission();
+    const pillars = this.ledger.getCurrentPillars();
+    const recentEntries = this.ledger.getEntries().slice(0, 10);
     const topWisdom = this.wisdomMemory
       .sort((a, b) => b.usage_count - a.usage_count)
       .slice(0, 5);
@@ -210,30 +240,8 @@ Generated: ${new Date().toISOString()}
     task: string,
     mission: LedgerEntry | null,
     pillars: LedgerEntry[]
-  ): { aligned: boolean; reasons: string[] } {
-    const reasons: string[] = [];
-
-    if (!mission) {
-      reasons.push('No active mission to align with');
-      return { aligned: false, reasons };
-    }
-
-    // Simple keyword-based alignment check
-    const taskKeywords = task.toLowerCase().split(' ');
-    const missionKeywords = mission.seek.toLowerCase().split(' ');
-
-    const hasCommonKeywords = taskKeywords.some(tk => 
-      missionKeywords.some(mk => mk.includes(tk) || tk.includes(mk))
-    );
-
-    if (!hasCommonKeywords) {
-      reasons.push(`Task may not align with mission seek: "${mission.seek}"`);
-    }
-
-    return {
-      aligned: reasons.length === 0,
-      reasons
-    };
+  ): AlignmentResult {
+    return scoreAlignment({ seek: task }, mission, pillars);
   }
 
   private generateBuilderInstructions(
@@ -301,28 +309,40 @@ Generated: ${new Date().toISOString()}
   }
 
   private saveToStorage(): void {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(this.wisdomStorageKey, JSON.stringify(this.wisdomMemory));
-      localStorage.setItem(this.preferencesStorageKey, JSON.stringify(this.userPreferences));
+    // Writing before an asynchronous read finishes would replace what is stored
+    if (this.loading) {
+      void this.loading.then(() => this.saveToStorage());
+      return;
     }
+
+    setStoredItems(this.storage, {
+      [this.wisdomStorageKey]: JSON.stringify(this.wisdomMemory),
+      [this.preferencesStorageKey]: JSON.stringify(this.userPreferences)
+    }, 'orchestrator data');
   }
 
   private loadFromStorage(): void {
-    if (typeof window !== 'undefined') {
+    const { storage } = this;
+
+    const loading = whenStored(getStoredItems(storage, [this.wisdomStorageKey, this.preferencesStorageKey]), ([storedWisdom, storedPreferences]) => {
+      if (storage !== this.storage) return;
+
       try {
-        const storedWisdom = localStorage.getItem(this.wisdomStorageKey);
         if (storedWisdom) {
-          this.wisdomMemory = JSON.parse(storedWisdom);
+          this.wisdomMemory = mergeById(JSON.parse(storedWisdom), this.wisdomMemory);
         }
 
-        const storedPreferences = localStorage.getItem(this.preferencesStorageKey);
         if (storedPreferences) {
           this.userPreferences = { ...this.userPreferences, ...JSON.parse(storedPreferences) };
         }
       } catch (error) {
         console.error('Failed to load orchestrator data from storage:', error);
       }
-    }
+    }, 'orchestrator data');
+
+    this.loading = loading && loading.then(() => {
+      if (storage === this.storage) this.loading = null;
+    });
   }
 }
 
@@ -4,8 +4,76 @@
 import express from 'express';
 import cors from 'cors';
 import { v4 as uuidv4 } from 'uuid';
-import { aiService } from './[accelerate]-ai-service-integration';
+import { aiService, AIServiceFactory } from './[accelerate]-ai-service-integration';
 import { setupSecurityMiddleware, rateLimits } from './[safeguard]-security-middleware';
+import { evaluateAlignment, AIAlignmentScorer, AlignmentResult } from './[accelerate]-alignment-engine';
+import {
+  PROJECT_ID_HEADER,
+  ProjectScoped,
+  projectScopeMiddleware,
+  mountProjectLifecycle,
+  requestProjectId
+} from './[clarify]-project-scope';
+import { USER_ID_HEADER, requestUserId, userIdentityMiddleware } from './[clarify]-user-identity';
+import { createOnboardingStorage } from './[safeguard]-onboarding-storage';
+import {
+  InsightSource,
+  currentRelevance,
+  markInsightsUsed,
+  mergeInsightInto,
+  pruneWisdom,
+  rememberInsight,
+  searchWisdom
+} from './[accelerate]-wisdom-memory';
+import { WisdomStorage, createWisdomStorage } from './[safeguard]-wisdom-storage';
+import { ChatStorage, createChatStorage } from './[safeguard]-chat-storage';
+import {
+  ChatThread,
+  DEFAULT_THREAD_TITLE,
+  GENERAL_THREAD_ID,
+  MAX_TITLE_LENGTH,
+  createGeneralThread,
+  createThread,
+  searchThreads,
+  summarizeThread,
+  threadMessages,
+  titleFromMessage
+} from './[accelerate]-chat-threads';
+import {
+  ContextBudgetReport,
+  ContextSection,
+  TokenCounter,
+  assembleContext,
+  createTokenCounter,
+  resolveContextBudget
+} from './[accelerate]-context-budget';
+import {
+  BUILDER_TYPES,
+  FALLBACK_TEMPLATE_BODY,
+  PROFILE_KEYS,
+  PromptTemplate,
+  RenderedPrompt,
+  TEMPLATE_ID_PATTERN,
+  TEMPLATE_VARIABLES,
+  TemplateProfile,
+  addVersion,
+  createTemplate,
+  findVersion,
+  renderTemplate,
+  selectTemplate,
+  syncTemplateDefinitions,
+  templateVariables,
+  unknownVariables
+} from './[accelerate]-prompt-templates';
+import { createPromptTemplateStorage, loadTemplateDefinitions } from './[safeguard]-prompt-template-storage';
+import {
+  CHAT_ACTION_INSTRUCTIONS,
+  ChatActionProposal,
+  KnownEntry,
+  extractChatActions,
+  streamableLength,
+  summarizeAction
+} from './[accelerate]-chat-actions';
 
 // Load environment variables
 import dotenv from 'dotenv';
@@ -20,13 +88,19 @@ export interface WisdomInsight {
   user_preference: Record<string, any>;
   timestamp: string;
   usage_count: number;
+  pinned: boolean; // pinned insights never fade or get forgotten
+  last_used_at: string | null;
+  merged_count: number;
+  sources: InsightSource[]; // e.g. the chat message it was drawn from
 }
 
 export interface ContextPrompt {
   minimal_context: string;
+  context_budget: ContextBudgetReport; // what made it into minimal_context, and what was dropped
   alignment_check: boolean;
   wisdom_injected: WisdomInsight[];
   builder_instructions: string;
+  template: { id: string; version: number } | null; // the prompt template builder_instructions came from
 }
 
 export interface UserPreference {
@@ -74,15 +148,27 @@ export interface ChatMessage {
   content: string;
   timestamp: string;
   attachments?: Array<{name: string; size: number; type: string}>;
+  thread_id?: string; // absent on messages from before threads, which belong to the general thread
+  stopped?: boolean; // the user stopped a streamed reply part way
+  actions?: ChatActionProposal[]; // roadmap changes a reply proposes, awaiting the user's decision
   context?: {
     systemic_ledger?: any;
     wisdom_insights?: WisdomInsight[];
     user_preferences?: UserPreference;
+    context_report?: ContextBudgetReport; // on replies: the context the AI was given
   };
 }
 
-// In-memory storage (replace with database in production)
-let wisdomMemory: WisdomInsight[] = [];
+// Wisdom and chat belong to a project; preferences and onboarding belong to the user.
+// Wisdom (WISDOM_STORAGE) and chat threads, history and proposed actions (CHAT_STORAGE) are kept on disk.
+interface ProjectMemory {
+  wisdomMemory: WisdomInsight[];
+  wisdomStorage: WisdomStorage;
+  chatHistory: ChatMessage[]; // every thread's messages, in the order they were sent
+  threads: ChatThread[];
+  chatStorage: ChatStorage;
+}
+
 let userPreferences: UserPreference = {
   communication_style: 'mixed',
   detail_level: 'medium',
@@ -91,14 +177,13 @@ let userPreferences: UserPreference = {
   preferred_feedback: []
 };
 
-// Chat history storage
-let chatHistory: ChatMessage[] = [];
-
 // Knowledge base context retrieval helper
-const getRelevantContextFromKnowledgeBase = async (userMessage: string, limit: number = 3): Promise<any> => {
+const getRelevantContextFromKnowledgeBase = async (userMessage: string, projectId: string, limit: number = 3): Promise<any> => {
   try {
-    // Search knowledge base for relevant chat sessions
-    const searchResponse = await fetch(`http://localhost:3003/knowledge/search?q=${encodeURIComponent(userMessage)}&type=all&limit=${limit}`);
+    // Search the project's knowledge base for relevant chat sessions
+    const searchResponse = await fetch(`http://localhost:3003/knowledge/search?q=${encodeURIComponent(userMessage)}&type=all&limit=${limit}`, {
+      headers: { [PROJECT_ID_HEADER]: projectId }
+    });
     const searchData = await searchResponse.json();
     
     if (searchData.documents && searchData.documents.length > 0) {
@@ -122,9 +207,28 @@ const getRelevantContextFromKnowledgeBase = async (userMessage: string, limit: n
   }
 };
 
-// Onboarding storage
+// Open roadmap entries of the project, so the AI can refer to them and propose changes.
+// The chat carries on without them when the Systemic Ledger API is unreachable.
+const getRoadmapEntries = async (projectId: string): Promise<KnownEntry[]> => {
+  try {
+    const response = await fetch('http://localhost:3001/ledger/entries?status=proposed,active,blocked,dormant&limit=50', {
+      headers: { [PROJECT_ID_HEADER]: projectId }
+    });
+    const data = await response.json() as { entries?: any[] };
+    return Array.isArray(data.entries)
+      ? data.entries.map(entry => ({ id: entry.id, level: entry.level, status: entry.status, seek: entry.seek }))
+      : [];
+  } catch (error) {
+    console.error('[accelerate] Roadmap entries unavailable for chat:', error);
+    return [];
+  }
+};
+
+// Onboarding storage. Progress belongs to the user named by X-User-Id and is kept on disk
+// (ONBOARDING_STORAGE), so the wizard and tooltips pick up where the user left off.
 let onboardingSteps: OnboardingStep[] = [];
-let userOnboardingStates: UserOnboardingState[] = [];
+const onboardingStorage = createOnboardingStorage();
+const userOnboardingStates: UserOnboardingState[] = onboardingStorage.load() ?? [];
 
 // Initialize with default onboarding steps
 const initializeDefaultOnboardingSteps = () => {
@@ -171,9 +275,9 @@ const initializeDefaultOnboardingSteps = () => {
 // Initialize default onboarding steps
 initializeDefaultOnboardingSteps();
 
-// Initialize with default wisdom insights
-const initializeDefaultWisdom = () => {
-  const defaultInsights: Omit<WisdomInsight, 'id' | 'timestamp' | 'usage_count'>[] = [
+// Default wisdom insights describe the user, so every new project starts with them
+const createDefaultWisdom = (): WisdomInsight[] => {
+  const defaultInsights: Pick<WisdomInsight, 'insight' | 'relevance_score' | 'context_triggers' | 'user_preference'>[] = [
     {
       insight: 'User prefers visual feedback over text-heavy interfaces',
       relevance_score: 0.9,
@@ -194,18 +298,56 @@ const initializeDefaultWisdom = () => {
     }
   ];
 
-  defaultInsights.forEach(insight => {
-    wisdomMemory.push({
-      ...insight,
-      id: uuidv4(),
-      timestamp: new Date().toISOString(),
-      usage_count: 0
-    });
-  });
+  return defaultInsights.map(insight => ({
+    ...insight,
+    id: uuidv4(),
+    timestamp: new Date().toISOString(),
+    usage_count: 0,
+    pinned: false,
+    last_used_at: null,
+    merged_count: 0,
+    sources: [{ kind: 'default', at: new Date().toISOString() }]
+  }));
+};
+
+// A project's stored wisdom, minus anything that faded while the service was down, and its chat
+const createProjectMemory = (projectId: string): ProjectMemory => {
+  const wisdomStorage = createWisdomStorage(projectId);
+  const stored = wisdomStorage.load();
+  const wisdomMemory = stored ?? createDefaultWisdom();
+  pruneWisdom(wisdomMemory);
+  if (!stored) {
+    // Keep the defaults' ids stable across restarts
+    wisdomStorage.save(wisdomMemory);
+  }
+  const chatStorage = createChatStorage(projectId);
+  const chat = chatStorage.load();
+  return {
+    wisdomMemory,
+    wisdomStorage,
+    chatHistory: chat?.messages ?? [],
+    threads: chat?.threads ?? [createGeneralThread()],
+    chatStorage
+  };
+};
+
+const saveWisdom = (memory: ProjectMemory): void => {
+  memory.wisdomStorage.save(memory.wisdomMemory);
+};
+
+const saveChat = (memory: ProjectMemory): void => {
+  memory.chatStorage.save({ threads: memory.threads, messages: memory.chatHistory });
 };
 
-// Initialize default wisdom
-initializeDefaultWisdom();
+const projectMemory = new ProjectScoped<ProjectMemory>(createProjectMemory);
+
+// Builder prompt templates belong to the team, like preferences. Template files edited while
+// the service was down become new versions now.
+const promptTemplateStorage = createPromptTemplateStorage();
+const promptTemplates: PromptTemplate[] = promptTemplateStorage.load() ?? [];
+if (syncTemplateDefinitions(promptTemplates, loadTemplateDefinitions())) {
+  promptTemplateStorage.save(promptTemplates);
+}
 
 const app = express();
 const PORT = process.env['PORT'] || 3002;
@@ -215,14 +357,19 @@ app.use(cors({
   origin: ['http://localhost:3000', 'http://localhost:3001'],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'x-mock-user']
+  allowedHeaders: ['Content-Type', 'Authorization', USER_ID_HEADER, PROJECT_ID_HEADER]
 }));
 
 // JSON parsing middleware
 app.use(express.json());
 
 // Security middleware
-setupSecurityMiddleware(app);
+// Template bodies are prompt text (words like "select" or "update", <placeholders>), so they are
+// taken verbatim: the routes check them with templateBodyError, and prompts only ever go out as
+// JSON strings
+setupSecurityMiddleware(app, {
+  rawBodyPaths: ['/orchestrator/prompt-templates', '/orchestrator/prompt-templates/preview', /^\/orchestrator\/prompt-templates\/[^/]+$/]
+});
 
 // Rate limiting
 app.use('/onboarding', rateLimits.general);
@@ -230,223 +377,285 @@ app.use('/wisdom', rateLimits.api);
 app.use('/context', rateLimits.api);
 app.use('/chat', rateLimits.api);
 
+// Wisdom and chat routes use the request's project (X-Project-Id); archived projects are read-only
+app.use(['/orchestrator', '/health'], projectScopeMiddleware(projectMemory));
+
+// Onboarding progress belongs to the user (X-User-Id) whichever project is open
+app.use('/onboarding/state', userIdentityMiddleware);
+
+// Clone, archive and restore, called by the Systemic Ledger API for the whole project
+mountProjectLifecycle(app, projectMemory, (source, projectId) => {
+  const copy: ProjectMemory = {
+    wisdomMemory: source.wisdomMemory.map(insight => ({ ...insight, id: uuidv4() })),
+    wisdomStorage: createWisdomStorage(projectId),
+    chatHistory: source.chatHistory.map(message => message.actions
+      ? { ...message, actions: message.actions.map(action => ({ ...action })) }
+      : { ...message }),
+    threads: source.threads.map(thread => ({ ...thread })),
+    chatStorage: createChatStorage(projectId)
+  };
+  saveWisdom(copy);
+  saveChat(copy);
+  return copy;
+});
+
 // Helper functions
-const getRelevantWisdom = (task: string, builderType: string): WisdomInsight[] => {
+
+/**
+ * Up to three insights whose triggers match the task, most relevant now first. Returned
+ * insights count as used, which keeps them from fading, unless `markUsed` is false (e.g. for
+ * a preview); callers save the project's wisdom.
+ */
+const getRelevantWisdom = (
+  wisdomMemory: WisdomInsight[],
+  task: string,
+  builderType: string,
+  { markUsed = true }: { markUsed?: boolean } = {}
+): WisdomInsight[] => {
   const taskKeywords = task.toLowerCase().split(' ');
   const builderKeywords = builderType.toLowerCase().split(' ');
+  const now = Date.now();
+
+  const relevant = wisdomMemory
+    .filter(wisdom => wisdom.context_triggers.some(trigger => 
+      taskKeywords.some(keyword => 
+        keyword.includes(trigger.toLowerCase()) || trigger.toLowerCase().includes(keyword)
+      ) ||
+      builderKeywords.some(keyword => 
+        keyword.includes(trigger.toLowerCase()) || trigger.toLowerCase().includes(keyword)
+      )
+    ))
+    .sort((a, b) => currentRelevance(b, now) - currentRelevance(a, now))
+    .slice(0, 3); // Return top 3 most relevant insights
 
-  return wisdomMemory
-    .filter(wisdom => {
-      const triggerMatch = wisdom.context_triggers.some(trigger => 
-        taskKeywords.some(keyword => 
-          keyword.includes(trigger.toLowerCase()) || trigger.toLowerCase().includes(keyword)
-        ) ||
-        builderKeywords.some(keyword => 
-          keyword.includes(trigger.toLowerCase()) || trigger.toLowerCase().includes(keyword)
-        )
-      );
+  if (markUsed) markInsightsUsed(relevant, new Date(now).toISOString());
+  return relevant;
+};
 
-      if (triggerMatch) {
-        wisdom.usage_count++;
-        return true;
-      }
-      return false;
-    })
-    .sort((a, b) => b.relevance_score - a.relevance_score)
-    .slice(0, 3); // Return top 3 most relevant insights
+// Context sent with chat messages and builder tasks, in tokens; a request's context_budget overrides it
+const DEFAULT_CONTEXT_BUDGET = parseInt(process.env['CONTEXT_TOKEN_BUDGET'] || '2000') || 2000;
+// Older messages than this are never offered for the chat context
+const MAX_HISTORY_SECTIONS = 20;
+
+interface ContextBudget {
+  budget: number;
+  counter: TokenCounter;
+}
+
+/**
+ * The token budget for a request's context, counted the way the configured provider and
+ * model count, or the error to answer with when the requested budget is not a positive integer
+ */
+const contextBudgetFor = (requested: unknown): ContextBudget | { error: string } => {
+  if (requested !== undefined && (typeof requested !== 'number' || !Number.isInteger(requested) || requested <= 0)) {
+    return { error: 'context_budget must be a positive integer' };
+  }
+  const { provider, model, maxTokens } = AIServiceFactory.getConfig();
+  return {
+    budget: resolveContextBudget(typeof requested === 'number' ? requested : DEFAULT_CONTEXT_BUDGET, provider, model, maxTokens),
+    counter: createTokenCounter(provider, model)
+  };
 };
 
 const buildMinimalContext = (
   mission: LedgerEntry | null,
   pillars: LedgerEntry[],
   task: string,
-  builderType: string
-): string => {
-  let context = `Task: ${task}\nBuilder Type: ${builderType}\n`;
+  builderType: string,
+  { budget, counter }: ContextBudget
+): { text: string; report: ContextBudgetReport } => {
+  const sections: ContextSection[] = [
+    { id: 'task', kind: 'task', label: 'Task', text: `${task}\nBuilder Type: ${builderType}`, priority: 100, required: true }
+  ];
 
   if (mission) {
-    context += `Mission: ${mission.seek} (${mission.why})\n`;
+    sections.push({ id: mission.id || 'mission', kind: 'ledger', label: 'Mission', text: `Mission: ${mission.seek} (${mission.why})`, priority: 90 });
   }
 
-  if (pillars.length > 0) {
-    context += `Active Pillars:\n`;
-    pillars.forEach(pillar => {
-      context += `- ${pillar.seek}: ${pillar.why}\n`;
+  // Pillars keep the order they were given in, earlier ones first when space runs out
+  pillars.forEach((pillar, index) => {
+    sections.push({
+      id: pillar.id || `pillar-${index + 1}`,
+      kind: 'ledger',
+      label: `Pillar: ${pillar.seek}`,
+      text: `Pillar: ${pillar.seek}: ${pillar.why}`,
+      priority: 80 - index
     });
-  }
+  });
 
-  return context;
+  return assembleContext(sections, budget, counter);
 };
 
-const performAlignmentCheck = (
-  task: string,
-  mission: LedgerEntry | null,
-  pillars: LedgerEntry[]
-): { aligned: boolean; reasons: string[] } => {
-  const reasons: string[] = [];
-  let aligned = true;
-
-  if (!mission) {
-    reasons.push('No mission defined to check alignment against');
-    aligned = false;
-    return { aligned, reasons };
-  }
-
-  const taskKeywords = task.toLowerCase().split(' ');
-  const missionKeywords = mission.seek.toLowerCase().split(' ');
+// Ask the configured AI provider to score borderline proposals against mission and pillars
+const aiAlignmentScorer: AIAlignmentScorer = async (proposal, targets) => {
+  const goals = targets.map(t => `- id: ${t.id}\n  title: ${t.title}\n  text: ${t.text}`).join('\n');
+  const response = await aiService.generateText(
+    `Rate from 0.0 to 1.0 how well this proposal supports each goal, with a one-sentence explanation.
+Respond with JSON only: {"scores": {"<goal id>": {"score": 0.0, "explanation": "..."}}}
 
-  // Check mission alignment
-  const missionAlignment = taskKeywords.some(keyword =>
-    missionKeywords.some(missionKeyword =>
-      keyword.includes(missionKeyword) || missionKeyword.includes(keyword)
-    )
+Proposal: ${proposal}`,
+    `Goals:\n${goals}`
   );
 
-  if (!missionAlignment) {
-    reasons.push('Task does not appear to align with current mission focus');
-    aligned = false;
-  }
-
-  // Check pillar alignment
-  if (pillars.length > 0) {
-    const pillarAlignment = pillars.some(pillar => {
-      const pillarKeywords = pillar.seek.toLowerCase().split(' ');
-      return taskKeywords.some(keyword =>
-        pillarKeywords.some(pillarKeyword =>
-          keyword.includes(pillarKeyword) || pillarKeyword.includes(keyword)
-        )
-      );
-    });
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
 
-    if (!pillarAlignment) {
-      reasons.push('Task does not align with any active pillars');
-      aligned = false;
-    }
+  try {
+    const parsed = JSON.parse(jsonMatch[0]);
+    return parsed.scores && typeof parsed.scores === 'object' ? parsed.scores : null;
+  } catch {
+    return null;
   }
-
-  return { aligned, reasons };
 };
 
-const generateBuilderInstructions = async (
-  task: string,
-  builderType: string,
-  wisdom: WisdomInsight[]
-): Promise<string> => {
-  try {
-    // Use AI to generate contextual instructions
-    const wisdomContext = wisdom.map(w => w.insight).join('. ');
-    const contextualPrompt = `Task: ${task}\nBuilder Type: ${builderType}\nUser Insights: ${wisdomContext}`;
-    
-    const aiInstructions = await aiService.generateText(
-      `Generate specific, actionable instructions for a ${builderType} builder to complete this task: ${task}`,
-      contextualPrompt
-    );
-    
-    return aiInstructions;
-  } catch (error) {
-    console.error('AI instruction generation failed, using fallback:', error);
-    
-    // Fallback to original implementation
-    let instructions = `Please complete the following task: ${task}\n\n`;
-
-    // Add wisdom-based instructions
-    if (wisdom.length > 0) {
-      instructions += `User Preferences & Insights:\n`;
-      wisdom.forEach(w => {
-        instructions += `- ${w.insight}\n`;
-      });
-      instructions += '\n';
-    }
-
-    // Add builder-specific instructions
-    switch (builderType) {
-      case 'code':
-        instructions += 'Please provide clean, well-documented code with accessibility considerations.';
-        break;
-      case 'design':
-        instructions += 'Please focus on accessibility, clarity, and progressive disclosure.';
-        break;
-      case 'planning':
-        instructions += 'Please provide structured, step-by-step plans with clear milestones.';
-        break;
-      case 'analysis':
-        instructions += 'Please provide clear, actionable insights with visual organization.';
-        break;
-    }
+const performAlignmentCheck = async (
+  proposal: { seek: string; why?: string; content?: Record<string, any> },
+  mission: LedgerEntry | null,
+  pillars: LedgerEntry[]
+): Promise<AlignmentResult> => {
+  return evaluateAlignment(proposal, mission, pillars, { aiScorer: aiAlignmentScorer });
+};
 
-    return instructions;
+/**
+ * The instructions handed to a builder AI: a template body filled from the task, its budgeted
+ * context, the ledger, relevant wisdom and the user's preferences
+ */
+const renderBuilderPrompt = (
+  body: string,
+  input: { task: string; builderType: string; context: string; mission: LedgerEntry | null; pillars: LedgerEntry[]; wisdom: WisdomInsight[] }
+): RenderedPrompt =>
+  renderTemplate(body, templateVariables({ ...input, preferences: userPreferences }));
+
+// What is wrong with a template body sent to the API, if anything
+const templateBodyError = (body: unknown): string | null => {
+  if (typeof body !== 'string' || body.trim() === '') {
+    return 'body must be a non-empty string';
   }
+  const unknown = unknownVariables(body);
+  return unknown.length > 0
+    ? `Unknown template variables: ${unknown.join(', ')}. Available: ${Object.keys(TEMPLATE_VARIABLES).join(', ')}`
+    : null;
 };
 
-// Enhanced context engineering with Knowledge Base integration
+const summarizeTemplate = (template: PromptTemplate) => ({
+  id: template.id,
+  builder_type: template.builder_type,
+  profile: template.profile,
+  description: template.description,
+  active_version: template.active_version,
+  version_count: template.versions.length,
+  body: findVersion(template)?.body ?? '',
+  // Whether /orchestrator/context picks this template for the current preferences
+  in_use: selectTemplate(promptTemplates, template.builder_type, userPreferences) === template
+});
+
+/**
+ * Enhanced context engineering with Knowledge Base integration. The user message, ledger,
+ * related knowledge base sessions, this conversation's recent messages and wisdom are ranked
+ * and fitted into the token budget before the AI condenses them; the report lists what went in.
+ * `instructions` go to the reply model after the condensed context, so they take their share
+ * of the budget first.
+ */
 const generateEnhancedContext = async (
+  projectId: string,
   userMessage: string,
-  systemicLedger?: any,
-  conversationHistory: ChatMessage[] = []
-): Promise<string> => {
-  try {
-    // Get relevant wisdom insights
-    const relevantWisdom = getRelevantWisdom(userMessage, 'chat');
-    
-    // Get relevant context from knowledge base instead of full conversation history
-    const knowledgeBaseContext = await getRelevantContextFromKnowledgeBase(userMessage, 2);
-    
-    // Build context from Systemic Ledger
-    let ledgerContext = '';
-    if (systemicLedger) {
-      if (systemicLedger.mission) {
-        ledgerContext += `Current Mission: ${systemicLedger.mission.text}\n`;
-        ledgerContext += `Mission Goal: ${systemicLedger.mission.seek}\n`;
-        ledgerContext += `Mission Purpose: ${systemicLedger.mission.why}\n\n`;
-      }
-      
-      if (systemicLedger.pillars && systemicLedger.pillars.length > 0) {
-        ledgerContext += `Active Pillars:\n`;
-        systemicLedger.pillars.forEach((pillar: any) => {
-          ledgerContext += `- ${pillar.text}: ${pillar.seek} (${pillar.why})\n`;
-        });
-        ledgerContext += '\n';
-      }
-    }
+  systemicLedger: any,
+  conversationHistory: ChatMessage[],
+  roadmapEntries: KnownEntry[],
+  instructions: string,
+  { budget, counter }: ContextBudget
+): Promise<{ context: string; report: ContextBudgetReport }> => {
+  // Get relevant wisdom insights
+  const relevantWisdom = getRelevantWisdom(projectMemory.get(projectId).wisdomMemory, userMessage, 'chat');
+
+  // Get relevant context from knowledge base instead of full conversation history
+  const knowledgeBaseContext = await getRelevantContextFromKnowledgeBase(userMessage, projectId, 2);
+
+  const sections: ContextSection[] = [
+    { id: 'message', kind: 'message', label: 'Your message', text: userMessage, priority: 100, required: true },
+    { id: 'instructions', kind: 'task', label: 'Reply instructions', text: instructions, priority: 100, required: true }
+  ];
 
-    // Build minimal recent conversation context (only last 3 messages)
-    const recentHistory = conversationHistory
-      .slice(-3)
-      .map(msg => `${msg.role}: ${msg.content.slice(0, 100)}...`)
-      .join('\n');
+  // Systemic Ledger: the mission, then pillars in the order given
+  if (systemicLedger?.mission) {
+    const mission = systemicLedger.mission;
+    sections.push({
+      id: mission.id || 'mission',
+      kind: 'ledger',
+      label: 'Mission',
+      text: `Current Mission: ${mission.text}\nMission Goal: ${mission.seek}\nMission Purpose: ${mission.why}`,
+      priority: 90
+    });
+  }
+  (systemicLedger?.pillars || []).forEach((pillar: any, index: number) => {
+    sections.push({
+      id: pillar.id || `pillar-${index + 1}`,
+      kind: 'ledger',
+      label: `Pillar: ${pillar.text}`,
+      text: `- Pillar: ${pillar.text}: ${pillar.seek} (${pillar.why})`,
+      priority: 80 - index
+    });
+  });
 
-    // Build knowledge base context
-    let kbContext = '';
-    if (knowledgeBaseContext.relevant_sessions.length > 0) {
-      kbContext += `Relevant Previous Conversations:\n`;
-      knowledgeBaseContext.relevant_sessions.forEach((session: any) => {
-        kbContext += `- ${session.summary} (relevance: ${session.relevance_score})\n`;
-        if (session.key_points.length > 0) {
-          kbContext += `  Key points: ${session.key_points.join(', ')}\n`;
-        }
-      });
-      kbContext += '\n';
-    }
+  // Open roadmap entries, with the ids the AI needs to propose changes to them
+  roadmapEntries.forEach(entry => {
+    sections.push({
+      id: entry.id,
+      kind: 'ledger',
+      label: `Roadmap ${entry.level}: ${entry.seek}`,
+      text: `- Roadmap entry ${entry.id}: ${entry.level} (${entry.status}): ${entry.seek}`,
+      priority: 50
+    });
+  });
 
-    // Generate enhanced context using AI
-    const contextPrompt = `
-User Message: ${userMessage}
+  // Knowledge base sessions, the more relevant the sooner
+  knowledgeBaseContext.relevant_sessions.forEach((session: any, index: number) => {
+    const keyPoints = session.key_points.length > 0 ? `\n  Key points: ${session.key_points.join(', ')}` : '';
+    sections.push({
+      id: `knowledge-${index + 1}`,
+      kind: 'knowledge',
+      label: `Previous conversation: ${session.name || session.summary}`,
+      text: `- ${session.summary} (relevance: ${session.relevance_score})${keyPoints}`,
+      priority: 40 + session.relevance_score * 20
+    });
+  });
 
-${ledgerContext ? `Systemic Ledger Context:\n${ledgerContext}` : ''}
+  // Recent messages in full, newest first when space runs out
+  const recentHistory = conversationHistory.slice(-MAX_HISTORY_SECTIONS);
+  recentHistory.forEach((msg, index) => {
+    const age = recentHistory.length - 1 - index;
+    sections.push({
+      id: msg.id,
+      kind: 'history',
+      label: `${msg.role} message from ${msg.timestamp}`,
+      text: `${msg.role}: ${msg.content}`,
+      priority: Math.max(10, 60 - age * 5)
+    });
+  });
 
-${kbContext ? `Knowledge Base Context:\n${kbContext}` : ''}
+  relevantWisdom.forEach(wisdom => {
+    sections.push({
+      id: wisdom.id,
+      kind: 'wisdom',
+      label: `Insight: ${wisdom.insight}`,
+      text: wisdom.insight,
+      priority: 70 + wisdom.relevance_score * 10
+    });
+  });
 
-${recentHistory ? `Recent Conversation:\n${recentHistory}\n` : ''}
+  const { text, report } = assembleContext(sections, budget, counter);
 
-${relevantWisdom.length > 0 ? `User Insights:\n${relevantWisdom.map(w => w.insight).join('\n')}\n` : ''}
+  try {
+    // Generate enhanced context using AI
+    const contextPrompt = `${text}
 
 Generate a comprehensive context that helps provide the most relevant and helpful response to the user's message.`;
 
     const enhancedContext = await aiService.generateContext(userMessage, [contextPrompt]);
-    return enhancedContext;
+    return { context: enhancedContext, report };
   } catch (error) {
     console.error('Enhanced context generation failed:', error);
-    return `User is asking: ${userMessage}`;
+    return { context: `User is asking: ${userMessage}`, report };
   }
 };
 
@@ -459,7 +668,7 @@ app.get('/health', (req, res) => {
     service: 'AI Orchestrator API',
     timestamp: new Date().toISOString(),
     ai_service: aiService ? 'configured' : 'not configured',
-    wisdom_memory_count: wisdomMemory.length,
+    wisdom_memory_count: projectMemory.of(res).wisdomMemory.length,
     user_preferences: userPreferences
   });
 });
@@ -467,7 +676,7 @@ app.get('/health', (req, res) => {
 // POST /orchestrator/context - Generate minimal context prompt
 app.post('/orchestrator/context', async (req, res) => {
   try {
-    const { task, builderType, mission, pillars } = req.body;
+    const { task, builderType, mission, pillars, context_budget } = req.body;
 
     if (!task || typeof task !== 'string') {
       return res.status(400).json({
@@ -475,22 +684,40 @@ app.post('/orchestrator/context', async (req, res) => {
       });
     }
 
-    if (!builderType || !['code', 'design', 'planning', 'analysis'].includes(builderType)) {
+    if (!builderType || !BUILDER_TYPES.includes(builderType)) {
       return res.status(400).json({
-        error: 'builderType must be one of: code, design, planning, analysis'
+        error: `builderType must be one of: ${BUILDER_TYPES.join(', ')}`
       });
     }
 
-    const relevantWisdom = getRelevantWisdom(task, builderType);
-    const context = buildMinimalContext(mission, pillars || [], task, builderType);
-    const alignmentCheck = performAlignmentCheck(task, mission, pillars || []);
-    const builderInstructions = await generateBuilderInstructions(task, builderType, relevantWisdom);
+    const budget = contextBudgetFor(context_budget);
+    if ('error' in budget) {
+      return res.status(400).json({ error: budget.error });
+    }
+
+    const memory = projectMemory.of(res);
+    const relevantWisdom = getRelevantWisdom(memory.wisdomMemory, task, builderType);
+    saveWisdom(memory);
+    const context = buildMinimalContext(mission || null, pillars || [], task, builderType, budget);
+    const alignmentCheck = await performAlignmentCheck({ seek: task }, mission || null, pillars || []);
+    const template = selectTemplate(promptTemplates, builderType, userPreferences);
+    const version = template ? findVersion(template) : undefined;
+    const builderInstructions = renderBuilderPrompt(version?.body ?? FALLBACK_TEMPLATE_BODY, {
+      task,
+      builderType,
+      context: context.text,
+      mission: mission || null,
+      pillars: pillars || [],
+      wisdom: relevantWisdom
+    });
 
     const contextPrompt: ContextPrompt = {
-      minimal_context: context,
+      minimal_context: context.text,
+      context_budget: context.report,
       alignment_check: alignmentCheck.aligned,
       wisdom_injected: relevantWisdom,
-      builder_instructions: builderInstructions
+      builder_instructions: builderInstructions.text,
+      template: template && version ? { id: template.id, version: version.version } : null
     };
 
     res.json(contextPrompt);
@@ -503,6 +730,102 @@ app.post('/orchestrator/context', async (req, res) => {
   }
 });
 
+// One line per attached file, for the context prompt
+const describeAttachments = (attachments: ChatMessage['attachments'] = []): string =>
+  attachments.length > 0
+    ? `\nUser uploaded ${attachments.length} file(s):\n` +
+      attachments.map(att => `- ${att.name} (${att.type}, ${att.size} bytes)`).join('\n')
+    : '';
+
+/**
+ * The thread a chat request names (the general thread when it names none), or the error to
+ * answer with when it is unknown or archived
+ */
+const findChatThread = (memory: ProjectMemory, threadId: unknown): { thread: ChatThread } | { status: number; error: string } => {
+  if (threadId !== undefined && typeof threadId !== 'string') {
+    return { status: 400, error: 'thread_id must be a string' };
+  }
+  const id = threadId || GENERAL_THREAD_ID;
+  const thread = memory.threads.find(candidate => candidate.id === id);
+  if (!thread) {
+    return { status: 404, error: `Thread ${id} not found` };
+  }
+  if (thread.archived_at) {
+    return { status: 409, error: `Thread ${id} is archived; restore it to continue the conversation` };
+  }
+  return { thread };
+};
+
+// Add a message to a thread's history; an untitled thread takes its first message as its title
+const recordChatMessage = (memory: ProjectMemory, thread: ChatThread, message: Omit<ChatMessage, 'id' | 'timestamp' | 'thread_id'>): ChatMessage => {
+  const stored: ChatMessage = {
+    ...message,
+    id: uuidv4(),
+    timestamp: new Date().toISOString(),
+    thread_id: thread.id
+  };
+  if (message.role === 'user' && thread.title === DEFAULT_THREAD_TITLE && threadMessages(memory.chatHistory, thread.id).length === 0) {
+    thread.title = titleFromMessage(message.content);
+  }
+  memory.chatHistory.push(stored);
+  thread.updated_at = stored.timestamp;
+  saveChat(memory);
+  return stored;
+};
+
+/**
+ * Split the roadmap changes a reply proposes from its text. Proposals the contract or the
+ * entries' statuses rule out are logged and dropped.
+ */
+const proposeChatActions = (aiResponse: string, roadmapEntries: KnownEntry[]): { text: string; actions: ChatActionProposal[] } => {
+  const { text, actions, rejected } = extractChatActions(aiResponse, roadmapEntries);
+  rejected.forEach(({ action, error }) => {
+    console.warn('[accelerate] Dropped a chat action the AI proposed:', error, action);
+  });
+  return {
+    text,
+    actions: actions.map(action => ({
+      ...action,
+      id: uuidv4(),
+      summary: summarizeAction(action, roadmapEntries),
+      decision: 'pending',
+      decided_at: null,
+      result_entry_id: null
+    }))
+  };
+};
+
+/**
+ * Extract insights from one question and answer and store them in wisdom memory. Restated
+ * insights reinforce the one they repeat.
+ */
+const learnFromExchange = async (
+  memory: ProjectMemory,
+  userMessage: ChatMessage,
+  aiResponse: string
+): Promise<void> => {
+  const newInsights = await aiService.extractInsights(`${userMessage.content}\n${aiResponse}`);
+
+  newInsights.forEach(insight => {
+    const wisdomInsight: WisdomInsight = {
+      id: uuidv4(),
+      insight: insight.insight,
+      relevance_score: insight.relevance_score,
+      context_triggers: [insight.context_trigger],
+      user_preference: { category: insight.category },
+      timestamp: new Date().toISOString(),
+      usage_count: 0,
+      pinned: false,
+      last_used_at: null,
+      merged_count: 0,
+      sources: [{ kind: 'chat', at: userMessage.timestamp, message_id: userMessage.id, excerpt: userMessage.content.substring(0, 200) }]
+    };
+    rememberInsight(memory.wisdomMemory, wisdomInsight);
+  });
+  pruneWisdom(memory.wisdomMemory);
+  saveWisdom(memory);
+};
+
 // POST /orchestrator/chat - Real AI chat with attachment support
 app.post('/orchestrator/chat', async (req, res) => {
   try {
@@ -517,7 +840,9 @@ app.post('/orchestrator/chat', async (req, res) => {
     console.log('Body keys:', Object.keys(req.body || {}));
     console.log('Received chat request body:', JSON.stringify(req.body, null, 2));
     
-    const { message, systemicLedger, attachments = [] } = req.body;
+    const { message, systemicLedger, attachments = [], thread_id, context_budget } = req.body;
+    const memory = projectMemory.of(res);
+    const { wisdomMemory, chatHistory } = memory;
 
     console.log('Extracted fields:', { 
       message, 
@@ -543,89 +868,221 @@ app.post('/orchestrator/chat', async (req, res) => {
       });
     }
 
-    // Process attachment context
-    let attachmentContext = '';
-    if (attachments && attachments.length > 0) {
-      attachmentContext = `\nUser uploaded ${attachments.length} file(s):\n` +
-        attachments.map((att: any) => `- ${att.name} (${att.type}, ${att.size} bytes)`).join('\n');
+    const budget = contextBudgetFor(context_budget);
+    if ('error' in budget) {
+      return res.status(400).json({ error: budget.error });
+    }
+
+    const found = findChatThread(memory, thread_id);
+    if (!('thread' in found)) {
+      return res.status(found.status).json({ error: found.error });
     }
+    const { thread } = found;
 
     // Store user message with attachments
-    const userMessage: ChatMessage = {
-      id: uuidv4(),
+    const userMessage = recordChatMessage(memory, thread, {
       role: 'user',
       content: message,
-      timestamp: new Date().toISOString(),
-      attachments: attachments,
+      attachments,
       context: { systemic_ledger: systemicLedger }
-    };
-    chatHistory.push(userMessage);
+    });
 
-    // Generate enhanced context with attachment info
-    const enhancedContext = await generateEnhancedContext(
-      message + attachmentContext, 
-      systemicLedger, 
-      chatHistory
+    // Generate enhanced context with attachment info, from this thread's earlier messages only
+    const roadmapEntries = await getRoadmapEntries(requestProjectId(res));
+    const { context: enhancedContext, report: contextReport } = await generateEnhancedContext(
+      requestProjectId(res),
+      message + describeAttachments(attachments),
+      systemicLedger,
+      threadMessages(chatHistory, thread.id).filter(msg => msg.id !== userMessage.id),
+      roadmapEntries,
+      CHAT_ACTION_INSTRUCTIONS,
+      budget
     );
 
     // Get relevant wisdom insights
-    const relevantWisdom = getRelevantWisdom(message, 'chat');
+    const relevantWisdom = getRelevantWisdom(wisdomMemory, message, 'chat');
 
-    // Generate AI response
-    const aiResponse = await aiService.generateText(message, enhancedContext);
+    // Generate AI response, with any roadmap changes it proposes taken out of the text
+    const reply = proposeChatActions(
+      await aiService.generateText(message, `${enhancedContext}\n\n${CHAT_ACTION_INSTRUCTIONS}`),
+      roadmapEntries
+    );
 
     // Store AI response
-    const assistantMessage: ChatMessage = {
-      id: uuidv4(),
+    recordChatMessage(memory, thread, {
       role: 'assistant',
-      content: aiResponse,
-      timestamp: new Date().toISOString(),
+      content: reply.text,
+      ...(reply.actions.length > 0 ? { actions: reply.actions } : {}),
       context: {
         systemic_ledger: systemicLedger,
         wisdom_insights: relevantWisdom,
-        user_preferences: userPreferences
+        user_preferences: userPreferences,
+        context_report: contextReport
       }
-    };
-    chatHistory.push(assistantMessage);
-
-    // Extract new insights from the conversation
-    const conversationText = `${message}\n${aiResponse}`;
-    const newInsights = await aiService.extractInsights(conversationText);
-    
-    // Store new insights in wisdom memory
-    newInsights.forEach(insight => {
-      const wisdomInsight: WisdomInsight = {
-        id: uuidv4(),
-        insight: insight.insight,
-        relevance_score: insight.relevance_score,
-        context_triggers: [insight.context_trigger],
-        user_preference: { category: insight.category },
-        timestamp: new Date().toISOString(),
-        usage_count: 0
-      };
-      wisdomMemory.push(wisdomInsight);
     });
 
     res.json({
-      response: aiResponse,
+      thread_id: thread.id,
+      response: reply.text,
+      actions: reply.actions,
       context: enhancedContext,
-      wisdom_insights: relevantWisdom,
-      new_insights_count: newInsights.length
+      context_report: contextReport,
+      wisdom_insights: relevantWisdom
     });
 
+    // Insights are extracted after the reply is out, so they never hold it up
+    learnFromExchange(memory, userMessage, reply.text).catch(error => {
+      console.error('Error learning from chat:', error);
+    });
+    return;
+
   } catch (error) {
     console.error('Error in chat:', error);
-    res.status(500).json({
+    return res.status(500).json({
       error: 'Internal server error',
       message: 'Failed to generate AI response'
     });
   }
 });
 
+// POST /orchestrator/chat/stream - Same request as /orchestrator/chat, answered as Server-Sent
+// Events: start, then a token per piece of the reply, then done. Closing the connection stops
+// the provider, and the partial reply is kept in history marked as stopped.
+app.post('/orchestrator/chat/stream', async (req, res) => {
+  const { message, systemicLedger, attachments = [], thread_id, context_budget } = req.body;
+
+  if (!message || typeof message !== 'string' || message.trim() === '') {
+    return res.status(400).json({
+      error: 'message field is required and must be a non-empty string'
+    });
+  }
+  if (!Array.isArray(attachments)) {
+    return res.status(400).json({
+      error: 'attachments must be an array'
+    });
+  }
+  const budget = contextBudgetFor(context_budget);
+  if ('error' in budget) {
+    return res.status(400).json({ error: budget.error });
+  }
+
+  const memory = projectMemory.of(res);
+  const found = findChatThread(memory, thread_id);
+  if (!('thread' in found)) {
+    return res.status(found.status).json({ error: found.error });
+  }
+  const { thread } = found;
+
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abort.abort();
+  });
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    const userMessage = recordChatMessage(memory, thread, {
+      role: 'user',
+      content: message,
+      attachments,
+      context: { systemic_ledger: systemicLedger }
+    });
+    const roadmapEntries = await getRoadmapEntries(requestProjectId(res));
+    const { context: enhancedContext, report: contextReport } = await generateEnhancedContext(
+      requestProjectId(res),
+      message + describeAttachments(attachments),
+      systemicLedger,
+      threadMessages(memory.chatHistory, thread.id).filter(msg => msg.id !== userMessage.id),
+      roadmapEntries,
+      CHAT_ACTION_INSTRUCTIONS,
+      budget
+    );
+    const relevantWisdom = getRelevantWisdom(memory.wisdomMemory, message, 'chat');
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    send('start', {
+      thread_id: thread.id,
+      thread_title: thread.title,
+      message_id: userMessage.id,
+      context: enhancedContext,
+      context_report: contextReport,
+      wisdom_insights: relevantWisdom
+    });
+
+    // Tokens of the ledger-actions block are held back; its proposals come with done
+    let aiResponse = '';
+    let shown = 0;
+    for await (const text of aiService.streamText(message, `${enhancedContext}\n\n${CHAT_ACTION_INSTRUCTIONS}`, abort.signal)) {
+      aiResponse += text;
+      const showable = streamableLength(aiResponse);
+      if (showable > shown) {
+        send('token', { text: aiResponse.slice(shown, showable) });
+        shown = showable;
+      }
+    }
+
+    // A reply stopped before its first token leaves nothing to keep
+    if (!aiResponse) {
+      if (!abort.signal.aborted) {
+        send('done', { message_id: null, response: '' });
+        res.end();
+      }
+      return;
+    }
+
+    const stopped = abort.signal.aborted;
+    const reply = proposeChatActions(aiResponse, roadmapEntries);
+    if (!stopped && reply.text.length > shown) {
+      send('token', { text: reply.text.slice(shown) });
+    }
+    const assistantMessage = recordChatMessage(memory, thread, {
+      role: 'assistant',
+      content: reply.text,
+      ...(stopped ? { stopped: true } : {}),
+      ...(reply.actions.length > 0 ? { actions: reply.actions } : {}),
+      context: {
+        systemic_ledger: systemicLedger,
+        wisdom_insights: relevantWisdom,
+        user_preferences: userPreferences,
+        context_report: contextReport
+      }
+    });
+
+    if (!stopped) {
+      send('done', { message_id: assistantMessage.id, response: reply.text, actions: reply.actions });
+      res.end();
+    }
+
+    // Insights are extracted after the reply is out, so they never hold it up
+    learnFromExchange(memory, userMessage, reply.text).catch(error => {
+      console.error('Error learning from chat:', error);
+    });
+    return;
+  } catch (error) {
+    console.error('Error in streaming chat:', error);
+    if (!res.headersSent) {
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to generate AI response'
+      });
+    }
+    send('error', { error: 'Failed to generate AI response' });
+    return res.end();
+  }
+});
+
 // GET /orchestrator/chat/history - Get chat history
 app.get('/orchestrator/chat/history', (req, res) => {
-  const { limit = '50' } = req.query;
+  const { limit = '50', thread_id } = req.query;
   const limitNum = parseInt(limit as string) || 50;
+  const { chatHistory: allMessages } = projectMemory.of(res);
+  const chatHistory = typeof thread_id === 'string' ? threadMessages(allMessages, thread_id) : allMessages;
   
   const recentHistory = chatHistory
     .slice(-limitNum)
@@ -633,7 +1090,11 @@ app.get('/orchestrator/chat/history', (req, res) => {
       id: msg.id,
       role: msg.role,
       content: msg.content,
-      timestamp: msg.timestamp
+      timestamp: msg.timestamp,
+      thread_id: msg.thread_id ?? GENERAL_THREAD_ID,
+      ...(msg.stopped ? { stopped: true } : {}),
+      ...(msg.context?.context_report ? { context_report: msg.context.context_report } : {}),
+      ...(msg.actions ? { actions: msg.actions } : {})
     }));
 
   res.json({
@@ -642,126 +1103,798 @@ app.get('/orchestrator/chat/history', (req, res) => {
   });
 });
 
-// POST /orchestrator/wisdom - Store new wisdom insight
-app.post('/orchestrator/wisdom', (req, res) => {
+// POST /orchestrator/chat/actions/:id - Record the user's decision on a proposed roadmap change.
+// The client makes a confirmed change through the Systemic Ledger API first and sends the entry's id.
+app.post('/orchestrator/chat/actions/:id', (req, res) => {
   try {
-    const { insight, context_triggers, user_preference } = req.body;
+    const { decision, entry_id = null } = req.body;
+    const memory = projectMemory.of(res);
 
-    if (!insight || typeof insight !== 'string') {
+    if (decision !== 'confirmed' && decision !== 'declined') {
       return res.status(400).json({
-        error: 'insight field is required and must be a string'
+        error: 'decision must be confirmed or declined'
       });
     }
 
-    if (!context_triggers || !Array.isArray(context_triggers)) {
+    if (decision === 'confirmed' && (typeof entry_id !== 'string' || entry_id.trim() === '')) {
       return res.status(400).json({
-        error: 'context_triggers field is required and must be an array'
+        error: 'entry_id must name the entry that was created or changed'
       });
     }
 
-    if (!user_preference || typeof user_preference !== 'object') {
-      return res.status(400).json({
-        error: 'user_preference field is required and must be an object'
+    const action = memory.chatHistory
+      .flatMap(message => message.actions ?? [])
+      .find(candidate => candidate.id === req.params.id);
+    if (!action) {
+      return res.status(404).json({
+        error: 'Action not found'
       });
     }
 
-    const newInsight: WisdomInsight = {
-      id: uuidv4(),
-      insight,
-      relevance_score: 1.0,
-      context_triggers,
-      user_preference,
-      timestamp: new Date().toISOString(),
-      usage_count: 0
-    };
+    if (action.decision !== 'pending') {
+      return res.status(409).json({
+        error: `Action was already ${action.decision}`,
+        action
+      });
+    }
 
-    wisdomMemory.push(newInsight);
+    action.decision = decision;
+    action.decided_at = new Date().toISOString();
+    action.result_entry_id = decision === 'confirmed' ? entry_id : null;
+    saveChat(memory);
 
-    res.status(201).json({
-      message: 'Wisdom insight stored successfully',
-      insight: newInsight
+    return res.json({
+      message: `Action ${decision}`,
+      action
     });
 
   } catch (error) {
-    console.error('Error storing wisdom insight:', error);
-    res.status(500).json({
+    console.error('Error recording chat action decision:', error);
+    return res.status(500).json({
       error: 'Internal server error'
     });
   }
 });
 
-// PUT /orchestrator/preferences - Update user preferences
-app.put('/orchestrator/preferences', (req, res) => {
-  try {
-    const updates = req.body;
+// GET /orchestrator/threads - Conversation threads, most recently active first
+app.get('/orchestrator/threads', (req, res) => {
+  const { q, entry_id, archived = 'false' } = req.query;
+  const { threads, chatHistory } = projectMemory.of(res);
 
-    // Validate updates
-    if (updates.communication_style && !['visual', 'text', 'voice', 'mixed'].includes(updates.communication_style)) {
-      return res.status(400).json({
-        error: 'communication_style must be one of: visual, text, voice, mixed'
-      });
-    }
+  if (archived !== 'true' && archived !== 'false' && archived !== 'all') {
+    return res.status(400).json({
+      error: 'archived must be one of: true, false, all'
+    });
+  }
 
-    if (updates.detail_level && !['high', 'medium', 'low'].includes(updates.detail_level)) {
+  const listed = searchThreads(threads, chatHistory, typeof q === 'string' ? q : '')
+    .filter(thread => archived === 'all' || (thread.archived_at !== null) === (archived === 'true'))
+    .filter(thread => typeof entry_id !== 'string' || thread.entry_id === entry_id);
+
+  return res.json({
+    threads: listed,
+    matched: listed.length,
+    total: threads.length
+  });
+});
+
+// POST /orchestrator/threads - Start a conversation thread, optionally about a ledger entry
+app.post('/orchestrator/threads', (req, res) => {
+  try {
+    const { title, entry_id = null } = req.body;
+    const memory = projectMemory.of(res);
+
+    if (title !== undefined && typeof title !== 'string') {
       return res.status(400).json({
-        error: 'detail_level must be one of: high, medium, low'
+        error: 'title must be a string'
       });
     }
 
-    if (updates.learning_pace && !['fast', 'moderate', 'slow'].includes(updates.learning_pace)) {
+    if (entry_id !== null && (typeof entry_id !== 'string' || entry_id.trim() === '')) {
       return res.status(400).json({
-        error: 'learning_pace must be one of: fast, moderate, slow'
+        error: 'entry_id must be a ledger entry id or null'
       });
     }
 
-    // Update preferences
-    userPreferences = { ...userPreferences, ...updates };
+    const thread = createThread(uuidv4(), { title, entry_id });
+    memory.threads.push(thread);
+    saveChat(memory);
 
-    res.json({
-      message: 'User preferences updated successfully',
-      preferences: userPreferences
+    return res.status(201).json({
+      message: 'Thread created',
+      thread: summarizeThread(thread, memory.chatHistory)
     });
 
   } catch (error) {
-    console.error('Error updating user preferences:', error);
-    res.status(500).json({
+    console.error('Error creating thread:', error);
+    return res.status(500).json({
       error: 'Internal server error'
     });
   }
 });
 
-// GET /orchestrator/preferences - Get user preferences
-app.get('/orchestrator/preferences', (req, res) => {
-  res.json(userPreferences);
-});
+// GET /orchestrator/threads/:id - A thread and its latest messages
+app.get('/orchestrator/threads/:id', (req, res) => {
+  const { limit = '50' } = req.query;
+  const limitNum = parseInt(limit as string) || 50;
+  const { threads, chatHistory } = projectMemory.of(res);
 
-// GET /orchestrator/wisdom - Get wisdom insights
-app.get('/orchestrator/wisdom', (req, res) => {
-  const { limit = '10', sort = 'usage' } = req.query;
-  
-  let sortedWisdom = [...wisdomMemory];
-  
-  if (sort === 'usage') {
-    sortedWisdom.sort((a, b) => b.usage_count - a.usage_count);
-  } else if (sort === 'relevance') {
-    sortedWisdom.sort((a, b) => b.relevance_score - a.relevance_score);
-  } else if (sort === 'timestamp') {
-    sortedWisdom.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  const thread = threads.find(candidate => candidate.id === req.params.id);
+  if (!thread) {
+    return res.status(404).json({
+      error: 'Thread not found'
+    });
+  }
+
+  const messages = threadMessages(chatHistory, thread.id)
+    .slice(-limitNum)
+    .map(msg => ({
+      id: msg.id,
+      role: msg.role,
+      content: msg.content,
+      timestamp: msg.timestamp,
+      ...(msg.stopped ? { stopped: true } : {}),
+      ...(msg.context?.context_report ? { context_report: msg.context.context_report } : {}),
+      ...(msg.actions ? { actions: msg.actions } : {})
+    }));
+
+  return res.json({
+    thread: summarizeThread(thread, chatHistory),
+    messages
+  });
+});
+
+// PUT /orchestrator/threads/:id - Rename a thread or change the ledger entry it is about
+app.put('/orchestrator/threads/:id', (req, res) => {
+  try {
+    const { title, entry_id } = req.body;
+    const memory = projectMemory.of(res);
+
+    if (title !== undefined && (typeof title !== 'string' || title.trim() === '')) {
+      return res.status(400).json({
+        error: 'title must be a non-empty string'
+      });
+    }
+
+    if (entry_id !== undefined && entry_id !== null && (typeof entry_id !== 'string' || entry_id.trim() === '')) {
+      return res.status(400).json({
+        error: 'entry_id must be a ledger entry id or null'
+      });
+    }
+
+    const thread = memory.threads.find(candidate => candidate.id === req.params.id);
+    if (!thread) {
+      return res.status(404).json({
+        error: 'Thread not found'
+      });
+    }
+
+    if (title !== undefined) thread.title = title.trim().slice(0, MAX_TITLE_LENGTH);
+    if (entry_id !== undefined) thread.entry_id = entry_id;
+    thread.updated_at = new Date().toISOString();
+    saveChat(memory);
+
+    return res.json({
+      message: 'Thread updated',
+      thread: summarizeThread(thread, memory.chatHistory)
+    });
+
+  } catch (error) {
+    console.error('Error updating thread:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// POST /orchestrator/threads/:id/archive and /restore - Archived threads are kept and
+// searchable but take no new messages
+const setThreadArchived = (archive: boolean): express.RequestHandler => (req, res) => {
+  const memory = projectMemory.of(res);
+
+  const thread = memory.threads.find(candidate => candidate.id === req.params['id']);
+  if (!thread) {
+    res.status(404).json({
+      error: 'Thread not found'
+    });
+    return;
+  }
+
+  if (archive && thread.id === GENERAL_THREAD_ID) {
+    res.status(400).json({
+      error: 'The general thread cannot be archived'
+    });
+    return;
+  }
+
+  thread.archived_at = archive ? thread.archived_at ?? new Date().toISOString() : null;
+  saveChat(memory);
+
+  res.json({
+    message: archive ? 'Thread archived' : 'Thread restored',
+    thread: summarizeThread(thread, memory.chatHistory)
+  });
+};
+
+app.post('/orchestrator/threads/:id/archive', setThreadArchived(true));
+app.post('/orchestrator/threads/:id/restore', setThreadArchived(false));
+
+// Triggers are matched against chat text, so each must be a non-empty string
+const isTriggerList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(trigger => typeof trigger === 'string' && trigger.trim() !== '');
+
+// POST /orchestrator/wisdom - Store new wisdom insight
+app.post('/orchestrator/wisdom', (req, res) => {
+  try {
+    const { insight, context_triggers, user_preference, pinned = false } = req.body;
+    const memory = projectMemory.of(res);
+
+    if (!insight || typeof insight !== 'string') {
+      return res.status(400).json({
+        error: 'insight field is required and must be a string'
+      });
+    }
+
+    if (!isTriggerList(context_triggers)) {
+      return res.status(400).json({
+        error: 'context_triggers field is required and must be an array of non-empty strings'
+      });
+    }
+
+    if (!user_preference || typeof user_preference !== 'object') {
+      return res.status(400).json({
+        error: 'user_preference field is required and must be an object'
+      });
+    }
+
+    if (typeof pinned !== 'boolean') {
+      return res.status(400).json({
+        error: 'pinned must be a boolean'
+      });
+    }
+
+    const newInsight: WisdomInsight = {
+      id: uuidv4(),
+      insight,
+      relevance_score: 1.0,
+      context_triggers: context_triggers.map((trigger: string) => trigger.trim()),
+      user_preference,
+      timestamp: new Date().toISOString(),
+      usage_count: 0,
+      pinned,
+      last_used_at: null,
+      merged_count: 0,
+      sources: [{ kind: 'manual', at: new Date().toISOString() }]
+    };
+
+    // A near-duplicate of a stored insight reinforces that one instead of adding another
+    const { insight: stored, merged } = rememberInsight(memory.wisdomMemory, newInsight);
+    if (merged) {
+      stored.user_preference = { ...stored.user_preference, ...user_preference };
+    }
+    pruneWisdom(memory.wisdomMemory);
+    saveWisdom(memory);
+
+    return res.status(merged ? 200 : 201).json({
+      message: merged ? 'Wisdom insight merged into a similar one' : 'Wisdom insight stored successfully',
+      insight: stored,
+      merged
+    });
+
+  } catch (error) {
+    console.error('Error storing wisdom insight:', error);
+    res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// PUT /orchestrator/preferences - Update user preferences
+app.put('/orchestrator/preferences', (req, res) => {
+  try {
+    const updates = req.body;
+
+    // Validate updates
+    if (updates.communication_style && !['visual', 'text', 'voice', 'mixed'].includes(updates.communication_style)) {
+      return res.status(400).json({
+        error: 'communication_style must be one of: visual, text, voice, mixed'
+      });
+    }
+
+    if (updates.detail_level && !['high', 'medium', 'low'].includes(updates.detail_level)) {
+      return res.status(400).json({
+        error: 'detail_level must be one of: high, medium, low'
+      });
+    }
+
+    if (updates.learning_pace && !['fast', 'moderate', 'slow'].includes(updates.learning_pace)) {
+      return res.status(400).json({
+        error: 'learning_pace must be one of: fast, moderate, slow'
+      });
+    }
+
+    for (const field of ['accessibility_needs', 'preferred_feedback']) {
+      const list = updates[field];
+      if (list !== undefined && (!Array.isArray(list) || !list.every((item: unknown) => typeof item === 'string'))) {
+        return res.status(400).json({
+          error: `${field} must be an array of strings`
+        });
+      }
+    }
+
+    // Update preferences
+    userPreferences = { ...userPreferences, ...updates };
+
+    res.json({
+      message: 'User preferences updated successfully',
+      preferences: userPreferences
+    });
+
+  } catch (error) {
+    console.error('Error updating user preferences:', error);
+    res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /orchestrator/preferences - Get user preferences
+app.get('/orchestrator/preferences', (req, res) => {
+  res.json(userPreferences);
+});
+
+// GET /orchestrator/prompt-templates - Builder prompt templates and the variables they can use
+app.get('/orchestrator/prompt-templates', (req, res) => {
+  const { builder_type } = req.query;
+
+  const templates = promptTemplates
+    .filter(template => typeof builder_type !== 'string' || template.builder_type === builder_type)
+    .map(summarizeTemplate);
+
+  res.json({
+    templates,
+    variables: TEMPLATE_VARIABLES
+  });
+});
+
+// POST /orchestrator/prompt-templates - Add a template, e.g. for another preference profile
+app.post('/orchestrator/prompt-templates', (req, res) => {
+  try {
+    const { id, builder_type, profile = {}, description = '', body } = req.body;
+
+    if (typeof id !== 'string' || !TEMPLATE_ID_PATTERN.test(id)) {
+      return res.status(400).json({
+        error: 'id must be lowercase letters and digits, with words joined by -'
+      });
+    }
+
+    if (!BUILDER_TYPES.includes(builder_type)) {
+      return res.status(400).json({
+        error: `builder_type must be one of: ${BUILDER_TYPES.join(', ')}`
+      });
+    }
+
+    if (typeof profile !== 'object' || profile === null || Array.isArray(profile) ||
+        !Object.entries(profile).every(([key, value]) => (PROFILE_KEYS as readonly string[]).includes(key) && typeof value === 'string')) {
+      return res.status(400).json({
+        error: `profile must map ${PROFILE_KEYS.join(', ')} to preference values`
+      });
+    }
+
+    if (typeof description !== 'string') {
+      return res.status(400).json({
+        error: 'description must be a string'
+      });
+    }
+
+    const bodyError = templateBodyError(body);
+    if (bodyError) {
+      return res.status(400).json({ error: bodyError });
+    }
+
+    if (promptTemplates.some(template => template.id === id)) {
+      return res.status(409).json({
+        error: `Template ${id} already exists; PUT a new version instead`
+      });
+    }
+
+    const template = createTemplate({ id, builder_type, profile: profile as TemplateProfile, description, body: body.trim() }, 'api');
+    promptTemplates.push(template);
+    promptTemplateStorage.save(promptTemplates);
+
+    return res.status(201).json({
+      message: 'Template created',
+      template
+    });
+
+  } catch (error) {
+    console.error('Error creating prompt template:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// POST /orchestrator/prompt-templates/preview - Render the prompt a builder would be handed,
+// from the active template, a chosen version, or an unsaved body
+app.post('/orchestrator/prompt-templates/preview', (req, res) => {
+  try {
+    const { task, builderType, mission, pillars, template_id, version, body, context_budget } = req.body;
+    const memory = projectMemory.of(res);
+
+    if (!task || typeof task !== 'string') {
+      return res.status(400).json({
+        error: 'task field is required and must be a string'
+      });
+    }
+
+    if (!builderType || !BUILDER_TYPES.includes(builderType)) {
+      return res.status(400).json({
+        error: `builderType must be one of: ${BUILDER_TYPES.join(', ')}`
+      });
+    }
+
+    if (body !== undefined && (typeof body !== 'string' || body.trim() === '')) {
+      return res.status(400).json({
+        error: 'body must be a non-empty string'
+      });
+    }
+
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({
+        error: 'version must be an integer'
+      });
+    }
+
+    const budget = contextBudgetFor(context_budget);
+    if ('error' in budget) {
+      return res.status(400).json({ error: budget.error });
+    }
+
+    const template = template_id === undefined
+      ? selectTemplate(promptTemplates, builderType, userPreferences)
+      : promptTemplates.find(candidate => candidate.id === template_id) ?? null;
+    if (template_id !== undefined && !template) {
+      return res.status(404).json({
+        error: `Template ${template_id} not found`
+      });
+    }
+
+    const chosen = template ? findVersion(template, version ?? template.active_version) : undefined;
+    if (template && !chosen) {
+      return res.status(404).json({
+        error: `Template ${template.id} has no version ${version}`
+      });
+    }
+
+    // A preview leaves wisdom as it was: the insights it shows are not counted as used
+    const relevantWisdom = getRelevantWisdom(memory.wisdomMemory, task, builderType, { markUsed: false });
+    const context = buildMinimalContext(mission || null, pillars || [], task, builderType, budget);
+    const rendered = renderBuilderPrompt(body ?? chosen?.body ?? FALLBACK_TEMPLATE_BODY, {
+      task,
+      builderType,
+      context: context.text,
+      mission: mission || null,
+      pillars: pillars || [],
+      wisdom: relevantWisdom
+    });
+
+    return res.json({
+      template: template && chosen && body === undefined ? { id: template.id, version: chosen.version } : null,
+      prompt: rendered.text,
+      used_variables: rendered.used,
+      unknown_variables: rendered.unknown,
+      context_budget: context.report
+    });
+
+  } catch (error) {
+    console.error('Error previewing prompt template:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /orchestrator/prompt-templates/:id - A template with every version
+app.get('/orchestrator/prompt-templates/:id', (req, res) => {
+  const template = promptTemplates.find(candidate => candidate.id === req.params.id);
+  if (!template) {
+    return res.status(404).json({
+      error: 'Template not found'
+    });
+  }
+
+  return res.json({ template });
+});
+
+// PUT /orchestrator/prompt-templates/:id - Save a new version of a template and use it
+app.put('/orchestrator/prompt-templates/:id', (req, res) => {
+  try {
+    const { body, note = null } = req.body;
+
+    const bodyError = templateBodyError(body);
+    if (bodyError) {
+      return res.status(400).json({ error: bodyError });
+    }
+
+    if (note !== null && typeof note !== 'string') {
+      return res.status(400).json({
+        error: 'note must be a string'
+      });
+    }
+
+    const template = promptTemplates.find(candidate => candidate.id === req.params.id);
+    if (!template) {
+      return res.status(404).json({
+        error: 'Template not found'
+      });
+    }
+
+    const version = addVersion(template, body.trim(), 'api', note);
+    promptTemplateStorage.save(promptTemplates);
+
+    return res.json({
+      message: `Template saved as version ${version.version}`,
+      template
+    });
+
+  } catch (error) {
+    console.error('Error saving prompt template:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// POST /orchestrator/prompt-templates/:id/activate - Go back (or forward) to another version
+app.post('/orchestrator/prompt-templates/:id/activate', (req, res) => {
+  try {
+    const { version } = req.body;
+
+    if (!Number.isInteger(version)) {
+      return res.status(400).json({
+        error: 'version must be an integer'
+      });
+    }
+
+    const template = promptTemplates.find(candidate => candidate.id === req.params.id);
+    if (!template) {
+      return res.status(404).json({
+        error: 'Template not found'
+      });
+    }
+
+    if (!findVersion(template, version)) {
+      return res.status(404).json({
+        error: `Template ${template.id} has no version ${version}`
+      });
+    }
+
+    template.active_version = version;
+    promptTemplateStorage.save(promptTemplates);
+
+    return res.json({
+      message: `Template now uses version ${version}`,
+      template
+    });
+
+  } catch (error) {
+    console.error('Error activating prompt template version:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /orchestrator/wisdom - Get wisdom insights, optionally searched with ?q=
+app.get('/orchestrator/wisdom', (req, res) => {
+  const { limit = '10', sort = 'usage', q, pinned } = req.query;
+  const { wisdomMemory } = projectMemory.of(res);
+  const now = Date.now();
+
+  let sortedWisdom = typeof q === 'string' && q.trim() ? searchWisdom(wisdomMemory, q, now) : [...wisdomMemory];
+  if (pinned === 'true' || pinned === 'false') {
+    sortedWisdom = sortedWisdom.filter(insight => insight.pinned === (pinned === 'true'));
+  }
+  const matched = sortedWisdom.length;
+  
+  if (sort === 'usage') {
+    sortedWisdom.sort((a, b) => b.usage_count - a.usage_count);
+  } else if (sort === 'relevance') {
+    sortedWisdom.sort((a, b) => currentRelevance(b, now) - currentRelevance(a, now));
+  } else if (sort === 'timestamp') {
+    sortedWisdom.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }
 
   const limitNum = parseInt(limit as string) || 10;
   const limitedWisdom = sortedWisdom.slice(0, limitNum);
 
     return res.json({
-      insights: limitedWisdom,
+      insights: limitedWisdom.map(insight => ({ ...insight, current_relevance: currentRelevance(insight, now) })),
+      matched,
       total: wisdomMemory.length
     });
 });
 
+// PUT /orchestrator/wisdom/{id} - Edit an insight's wording, triggers, score or preference
+app.put('/orchestrator/wisdom/:id', (req, res) => {
+  try {
+    const { insight: text, context_triggers, relevance_score, user_preference } = req.body;
+    const memory = projectMemory.of(res);
+
+    if (text !== undefined && (typeof text !== 'string' || text.trim() === '')) {
+      return res.status(400).json({
+        error: 'insight must be a non-empty string'
+      });
+    }
+
+    if (context_triggers !== undefined && !isTriggerList(context_triggers)) {
+      return res.status(400).json({
+        error: 'context_triggers must be an array of non-empty strings'
+      });
+    }
+
+    if (relevance_score !== undefined && (typeof relevance_score !== 'number' || relevance_score < 0 || relevance_score > 1)) {
+      return res.status(400).json({
+        error: 'relevance_score must be a number from 0 to 1'
+      });
+    }
+
+    if (user_preference !== undefined && (!user_preference || typeof user_preference !== 'object' || Array.isArray(user_preference))) {
+      return res.status(400).json({
+        error: 'user_preference must be an object'
+      });
+    }
+
+    const insight = memory.wisdomMemory.find(candidate => candidate.id === req.params.id);
+    if (!insight) {
+      return res.status(404).json({
+        error: 'Wisdom insight not found'
+      });
+    }
+
+    if (text !== undefined) insight.insight = text.trim();
+    if (context_triggers !== undefined) {
+      insight.context_triggers = context_triggers.map((trigger: string) => trigger.trim());
+    }
+    if (user_preference !== undefined) insight.user_preference = user_preference;
+    // A score set by hand is the score now, so the fade starts again from here
+    if (relevance_score !== undefined) {
+      insight.relevance_score = relevance_score;
+      insight.last_used_at = new Date().toISOString();
+    }
+    saveWisdom(memory);
+
+    return res.json({
+      message: 'Wisdom insight updated',
+      insight: { ...insight, current_relevance: currentRelevance(insight) }
+    });
+
+  } catch (error) {
+    console.error('Error updating wisdom insight:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// POST /orchestrator/wisdom/{id}/merge - Fold another insight (source_id) into this one
+app.post('/orchestrator/wisdom/:id/merge', (req, res) => {
+  try {
+    const { source_id } = req.body;
+    const memory = projectMemory.of(res);
+
+    if (!source_id || typeof source_id !== 'string') {
+      return res.status(400).json({
+        error: 'source_id field is required and must be a string'
+      });
+    }
+
+    if (source_id === req.params.id) {
+      return res.status(400).json({
+        error: 'An insight cannot be merged into itself'
+      });
+    }
+
+    const target = memory.wisdomMemory.find(candidate => candidate.id === req.params.id);
+    const sourceIndex = memory.wisdomMemory.findIndex(candidate => candidate.id === source_id);
+    const source = memory.wisdomMemory[sourceIndex];
+    if (!target || !source) {
+      return res.status(404).json({
+        error: target ? `Wisdom insight ${source_id} not found` : 'Wisdom insight not found'
+      });
+    }
+
+    mergeInsightInto(target, source);
+    target.user_preference = { ...source.user_preference, ...target.user_preference };
+    memory.wisdomMemory.splice(sourceIndex, 1);
+    saveWisdom(memory);
+
+    return res.json({
+      message: 'Wisdom insights merged',
+      insight: { ...target, current_relevance: currentRelevance(target) },
+      merged_id: source_id
+    });
+
+  } catch (error) {
+    console.error('Error merging wisdom insights:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// PUT /orchestrator/wisdom/{id}/pin - Pin an insight so it never fades, or unpin it
+app.put('/orchestrator/wisdom/:id/pin', (req, res) => {
+  try {
+    const { pinned } = req.body;
+    const memory = projectMemory.of(res);
+
+    if (typeof pinned !== 'boolean') {
+      return res.status(400).json({
+        error: 'pinned field is required and must be a boolean'
+      });
+    }
+
+    const insight = memory.wisdomMemory.find(candidate => candidate.id === req.params.id);
+    if (!insight) {
+      return res.status(404).json({
+        error: 'Wisdom insight not found'
+      });
+    }
+
+    // Unpinning starts the fade from now rather than from when the insight was last used
+    if (insight.pinned && !pinned) {
+      insight.last_used_at = new Date().toISOString();
+    }
+    insight.pinned = pinned;
+    saveWisdom(memory);
+
+    return res.json({
+      message: pinned ? 'Wisdom insight pinned' : 'Wisdom insight unpinned',
+      insight: { ...insight, current_relevance: currentRelevance(insight) }
+    });
+
+  } catch (error) {
+    console.error('Error pinning wisdom insight:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// DELETE /orchestrator/wisdom/{id} - Forget an insight
+app.delete('/orchestrator/wisdom/:id', (req, res) => {
+  try {
+    const memory = projectMemory.of(res);
+    const index = memory.wisdomMemory.findIndex(candidate => candidate.id === req.params.id);
+    if (index === -1) {
+      return res.status(404).json({
+        error: 'Wisdom insight not found'
+      });
+    }
+
+    const [insight] = memory.wisdomMemory.splice(index, 1);
+    saveWisdom(memory);
+
+    return res.json({
+      message: 'Wisdom insight forgotten',
+      insight
+    });
+
+  } catch (error) {
+    console.error('Error forgetting wisdom insight:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
 // POST /orchestrator/alignment - Perform live alignment check
-app.post('/orchestrator/alignment', (req, res) => {
+app.post('/orchestrator/alignment', async (req, res) => {
   try {
     const { entry, mission, pillars } = req.body;
+    const { wisdomMemory } = projectMemory.of(res);
 
     if (!entry) {
       return res.status(400).json({
@@ -769,7 +1902,11 @@ app.post('/orchestrator/alignment', (req, res) => {
       });
     }
 
-    const alignmentCheck = performAlignmentCheck(entry.seek || '', mission, pillars || []);
+    const alignmentCheck = await performAlignmentCheck(
+      { seek: entry.seek || '', why: entry.why || '', content: entry.content || {} },
+      mission || null,
+      pillars || []
+    );
     const suggestions: string[] = [];
 
     if (!alignmentCheck.aligned) {
@@ -787,7 +1924,11 @@ app.post('/orchestrator/alignment', (req, res) => {
     res.json({
       aligned: alignmentCheck.aligned,
       reasons: alignmentCheck.reasons,
-      suggestions
+      suggestions,
+      score: alignmentCheck.score,
+      mission_score: alignmentCheck.mission,
+      pillar_scores: alignmentCheck.pillars,
+      method: alignmentCheck.method
     });
 
   } catch (error) {
@@ -801,6 +1942,7 @@ app.post('/orchestrator/alignment', (req, res) => {
 // GET /orchestrator/summary - Generate summary report
 app.get('/orchestrator/summary', (req, res) => {
   try {
+    const { wisdomMemory } = projectMemory.of(res);
     const topWisdom = wisdomMemory
       .sort((a, b) => b.usage_count - a.usage_count)
       .slice(0, 5);
@@ -827,7 +1969,7 @@ app.get('/health', (req, res) => {
   res.json({
     status: 'healthy',
     timestamp: new Date().toISOString(),
-    wisdom_insights_count: wisdomMemory.length,
+    wisdom_insights_count: projectMemory.of(res).wisdomMemory.length,
     user_preferences_configured: Object.keys(userPreferences).length > 0
   });
 });
@@ -848,38 +1990,79 @@ app.get('/onboarding/steps', (_req, res) => {
   }
 });
 
+// The state an onboarding update leaves the user in, or why the update is not valid.
+// Completed steps are kept in step order without repeats.
+const validateOnboardingUpdate = (
+  body: unknown,
+  userId: string
+): { update: Pick<UserOnboardingState, 'current_step' | 'completed_steps' | 'completed_at'> } | { error: string } => {
+  if (typeof body !== 'object' || body === null) {
+    return { error: 'Invalid onboarding state data' };
+  }
+  const candidate = body as Record<string, unknown>;
+
+  if (candidate['user_id'] !== undefined && candidate['user_id'] !== userId) {
+    return { error: `user_id does not match the ${USER_ID_HEADER} header` };
+  }
+
+  const currentStep = candidate['current_step'];
+  if (typeof currentStep !== 'string' || !onboardingSteps.some(s => s.id === currentStep)) {
+    return { error: 'Invalid current_step' };
+  }
+
+  const completedSteps = candidate['completed_steps'];
+  if (!Array.isArray(completedSteps)) {
+    return { error: 'completed_steps must be an array of step ids' };
+  }
+  for (const stepId of completedSteps) {
+    if (!onboardingSteps.some(s => s.id === stepId)) {
+      return { error: `Invalid completed step: ${stepId}` };
+    }
+  }
+
+  const completedAt = candidate['completed_at'] ?? null;
+  if (completedAt !== null && (typeof completedAt !== 'string' || Number.isNaN(Date.parse(completedAt)))) {
+    return { error: 'completed_at must be a date-time or null' };
+  }
+
+  return {
+    update: {
+      current_step: currentStep,
+      completed_steps: [...onboardingSteps]
+        .sort((a, b) => a.order - b.order)
+        .filter(step => completedSteps.includes(step.id))
+        .map(step => step.id),
+      completed_at: completedAt === null ? null : new Date(completedAt).toISOString()
+    }
+  };
+};
+
 // GET /onboarding/state - Get current onboarding state for user
-app.get('/onboarding/state', (req, res) => {
+app.get('/onboarding/state', (_req, res) => {
   try {
-    const userId = req.headers['x-mock-user'] as string;
-    if (!userId) {
-      return res.status(400).json({
-        error: 'x-mock-user header is required'
-      });
+    const userId = requestUserId(res);
+    const state = userOnboardingStates.find(s => s.user_id === userId);
+    if (state) {
+      return res.json({ data: state });
     }
 
-    let state = userOnboardingStates.find(s => s.user_id === userId);
-    
-    if (!state) {
-      // Initialize new state for first-time user
-      const firstStep = onboardingSteps[0];
-      if (!firstStep) {
-        return res.status(500).json({
-          error: 'No onboarding steps defined'
-        });
-      }
+    // A first-time user starts at the first step; nothing is stored until the first POST
+    const firstStep = [...onboardingSteps].sort((a, b) => a.order - b.order)[0];
+    if (!firstStep) {
+      return res.status(500).json({
+        error: 'No onboarding steps defined'
+      });
+    }
 
-      state = {
+    res.json({
+      data: {
         user_id: userId,
         current_step: firstStep.id,
         completed_steps: [],
         started_at: new Date().toISOString(),
         completed_at: null
-      };
-      userOnboardingStates.push(state);
-    }
-
-    res.json({ data: state });
+      }
+    });
   } catch (error) {
     console.error('Error fetching onboarding state:', error);
     res.status(500).json({
@@ -891,62 +2074,33 @@ app.get('/onboarding/state', (req, res) => {
 // POST /onboarding/state - Update onboarding state for user
 app.post('/onboarding/state', (req, res) => {
   try {
-    const userId = req.headers['x-mock-user'] as string;
-    if (!userId) {
-      return res.status(400).json({
-        error: 'x-mock-user header is required'
-      });
-    }
-
-    const newState = req.body as UserOnboardingState;
-    if (!newState || !newState.current_step || !Array.isArray(newState.completed_steps)) {
+    const userId = requestUserId(res);
+    const validation = validateOnboardingUpdate(req.body, userId);
+    if ('error' in validation) {
       return res.status(400).json({
-        error: 'Invalid onboarding state data'
+        error: validation.error
       });
     }
 
-    // Validate current_step exists
-    if (!onboardingSteps.some(s => s.id === newState.current_step)) {
-      return res.status(400).json({
-        error: 'Invalid current_step'
-      });
-    }
-
-    // Validate completed_steps exist
-    for (const stepId of newState.completed_steps) {
-      if (!onboardingSteps.some(s => s.id === stepId)) {
-        return res.status(400).json({
-          error: `Invalid completed step: ${stepId}`
-        });
-      }
-    }
-
     const existingStateIndex = userOnboardingStates.findIndex(s => s.user_id === userId);
+    const existingState = userOnboardingStates[existingStateIndex];
+    const { current_step, completed_steps, completed_at } = validation.update;
+    const state: UserOnboardingState = {
+      user_id: userId,
+      current_step,
+      completed_steps,
+      started_at: existingState?.started_at ?? new Date().toISOString(),
+      completed_at
+    };
+
     if (existingStateIndex >= 0) {
-      // Update existing state
-      const existingState = userOnboardingStates[existingStateIndex];
-      if (!existingState) {
-        return res.status(500).json({
-          error: 'Failed to update onboarding state'
-        });
-      }
-      
-      userOnboardingStates[existingStateIndex] = {
-        ...newState,
-        user_id: userId,
-        started_at: existingState.started_at
-      };
-      res.json({ data: userOnboardingStates[existingStateIndex] });
+      userOnboardingStates[existingStateIndex] = state;
     } else {
-      // Create new state
-      const state: UserOnboardingState = {
-        ...newState,
-        user_id: userId,
-        started_at: new Date().toISOString()
-      };
       userOnboardingStates.push(state);
-      res.status(201).json({ data: state });
     }
+    onboardingStorage.save(userOnboardingStates);
+
+    res.status(existingState ? 200 : 201).json({ data: state });
   } catch (error) {
     console.error('Error updating onboarding state:', error);
     res.status(500).json({
@@ -960,6 +2114,9 @@ app.listen(PORT, () => {
   console.log(`[accelerate] AI Orchestrator API running on port ${PORT}`);
   console.log(`[clarify] Health check: http://localhost:${PORT}/health`);
   console.log(`[clarify] Context generation: http://localhost:${PORT}/orchestrator/context`);
+
+  // Projects archived while this service was down; retried on the next write if the ledger API is not up yet
+  projectMemory.syncArchived();
 });
 
 export default app; 
\ No newline at end of file
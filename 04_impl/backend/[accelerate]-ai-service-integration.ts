@@ -18,6 +18,8 @@ interface AIConfig {
 // AI Service Interface
 export interface AIService {
   generateText(prompt: string, context?: string): Promise<string>;
+  // The same answer as generateText, yielded piece by piece as the provider produces it
+  streamText(prompt: string, context?: string, signal?: AbortSignal): AsyncIterable<string>;
   analyzeDocument(content: string, type: string): Promise<DocumentAnalysis>;
   generateContext(query: string, history: string[]): Promise<string>;
   extractInsights(text: string): Promise<WisdomInsight[]>;
@@ -114,7 +116,33 @@ class AIConfigManager {
   }
 }
 
+/**
+ * Yield a provider's tokens until the stream ends or `signal` aborts. A failure before the
+ * first token yields `apology`, as generateText would return it; one part way through an
+ * answer is rethrown so the caller can report it.
+ */
+async function* guardStream(tokens: AsyncIterable<string>, apology: string, provider: string, signal?: AbortSignal): AsyncGenerator<string> {
+  let started = false;
+  try {
+    for await (const text of tokens) {
+      if (signal?.aborted) return;
+      started = true;
+      yield text;
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    console.error(`${provider} streaming error:`, error);
+    if (started) throw error;
+    yield apology;
+  }
+}
+
+// Request options for SDKs that accept an AbortSignal
+const abortable = (signal?: AbortSignal): { signal?: AbortSignal } => signal ? { signal } : {};
+
 // OpenAI Integration
+const OPENAI_APOLOGY = 'I apologize, but I\'m having trouble connecting to my AI service right now. Please try again in a moment, or check your internet connection.';
+
 class OpenAIService implements AIService {
   private client: OpenAI;
   private config: AIConfig;
@@ -126,12 +154,11 @@ class OpenAIService implements AIService {
     });
   }
 
-  async generateText(prompt: string, context?: string): Promise<string> {
-    try {
-      const messages: any[] = [
-        {
-          role: 'system',
-          content: `You are a Co-Vision Holder AI assistant, specifically designed to support visionary users with dyslexia and ADHD. 
+  private chatMessages(prompt: string, context?: string): any[] {
+    const messages: any[] = [
+      {
+        role: 'system',
+        content: `You are a Co-Vision Holder AI assistant, specifically designed to support visionary users with dyslexia and ADHD. 
 
 Your role is to:
 - Provide clear, concise, and actionable insights
@@ -141,24 +168,28 @@ Your role is to:
 - Learn from user interactions to provide increasingly personalized assistance
 
 Always be encouraging, patient, and focused on helping the user move their vision forward.`
-        }
-      ];
-
-      if (context) {
-        messages.push({
-          role: 'user',
-          content: `Context: ${context}\n\nQuery: ${prompt}`
-        });
-      } else {
-        messages.push({
-          role: 'user',
-          content: prompt
-        });
       }
+    ];
 
+    if (context) {
+      messages.push({
+        role: 'user',
+        content: `Context: ${context}\n\nQuery: ${prompt}`
+      });
+    } else {
+      messages.push({
+        role: 'user',
+        content: prompt
+      });
+    }
+    return messages;
+  }
+
+  async generateText(prompt: string, context?: string): Promise<string> {
+    try {
       const response = await this.client.chat.completions.create({
         model: this.config.model,
-        messages,
+        messages: this.chatMessages(prompt, context),
         max_tokens: this.config.maxTokens,
         temperature: this.config.temperature,
         stream: false,
@@ -168,7 +199,26 @@ Always be encouraging, patient, and focused on helping the user move their visio
     } catch (error) {
       console.error('OpenAI API error:', error);
       // Provide a helpful fallback response
-      return 'I apologize, but I\'m having trouble connecting to my AI service right now. Please try again in a moment, or check your internet connection.';
+      return OPENAI_APOLOGY;
+    }
+  }
+
+  streamText(prompt: string, context?: string, signal?: AbortSignal): AsyncIterable<string> {
+    return guardStream(this.tokens(prompt, context, signal), OPENAI_APOLOGY, 'OpenAI', signal);
+  }
+
+  private async *tokens(prompt: string, context?: string, signal?: AbortSignal): AsyncGenerator<string> {
+    const stream = await this.client.chat.completions.create({
+      model: this.config.model,
+      messages: this.chatMessages(prompt, context),
+      max_tokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      stream: true,
+    }, abortable(signal));
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) yield text;
     }
   }
 
@@ -314,6 +364,8 @@ Provide insights in JSON format:
 // Gemini Integration
 import { GoogleGenerativeAI } from '@google/generative-ai';
 
+const GEMINI_APOLOGY = 'I apologize, but I\'m having trouble connecting to the Gemini AI service right now. Please try again in a moment.';
+
 class GeminiService implements AIService {
   private client: GoogleGenerativeAI;
   private config: AIConfig;
@@ -323,20 +375,34 @@ class GeminiService implements AIService {
     this.client = new GoogleGenerativeAI(config.apiKey);
   }
 
+  private fullPrompt(prompt: string, context?: string): string {
+    return context
+      ? `Context: ${context}\n\nUser Query: ${prompt}\n\nPlease provide a helpful, clear response that addresses the user's question while considering the provided context.`
+      : prompt;
+  }
+
   async generateText(prompt: string, context?: string): Promise<string> {
     try {
       const model = this.client.getGenerativeModel({ model: this.config.model });
-      
-      const fullPrompt = context 
-        ? `Context: ${context}\n\nUser Query: ${prompt}\n\nPlease provide a helpful, clear response that addresses the user's question while considering the provided context.`
-        : prompt;
-
-      const result = await model.generateContent(fullPrompt);
+      const result = await model.generateContent(this.fullPrompt(prompt, context));
       const response = await result.response;
       return response.text() || 'No response generated';
     } catch (error) {
       console.error('Gemini API error:', error);
-      return 'I apologize, but I\'m having trouble connecting to the Gemini AI service right now. Please try again in a moment.';
+      return GEMINI_APOLOGY;
+    }
+  }
+
+  streamText(prompt: string, context?: string, signal?: AbortSignal): AsyncIterable<string> {
+    return guardStream(this.tokens(prompt, context, signal), GEMINI_APOLOGY, 'Gemini', signal);
+  }
+
+  private async *tokens(prompt: string, context?: string, signal?: AbortSignal): AsyncGenerator<string> {
+    const model = this.client.getGenerativeModel({ model: this.config.model });
+    const result = await model.generateContentStream(this.fullPrompt(prompt, context), abortable(signal));
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) yield text;
     }
   }
 
@@ -449,6 +515,8 @@ Provide insights in JSON format:
 }
 
 // Claude Integration (Anthropic)
+const CLAUDE_APOLOGY = 'I apologize, but I\'m having trouble connecting to Claude right now. Please try again in a moment.';
+
 class ClaudeService implements AIService {
   private client: Anthropic;
   private config: AIConfig;
@@ -460,12 +528,14 @@ class ClaudeService implements AIService {
     });
   }
 
+  private fullPrompt(prompt: string, context?: string): string {
+    return context
+      ? `Context: ${context}\n\nHuman: ${prompt}\n\nAssistant:`
+      : `Human: ${prompt}\n\nAssistant:`;
+  }
+
   async generateText(prompt: string, context?: string): Promise<string> {
     try {
-      const fullPrompt = context 
-        ? `Context: ${context}\n\nHuman: ${prompt}\n\nAssistant:`
-        : `Human: ${prompt}\n\nAssistant:`;
-
       const response = await this.client.messages.create({
         model: this.config.model,
         max_tokens: this.config.maxTokens,
@@ -473,7 +543,7 @@ class ClaudeService implements AIService {
         messages: [
           {
             role: 'user',
-            content: fullPrompt
+            content: this.fullPrompt(prompt, context)
           }
         ]
       });
@@ -487,7 +557,32 @@ class ClaudeService implements AIService {
       return 'No response generated';
     } catch (error) {
       console.error('Claude API error:', error);
-      return 'I apologize, but I\'m having trouble connecting to Claude right now. Please try again in a moment.';
+      return CLAUDE_APOLOGY;
+    }
+  }
+
+  streamText(prompt: string, context?: string, signal?: AbortSignal): AsyncIterable<string> {
+    return guardStream(this.tokens(prompt, context, signal), CLAUDE_APOLOGY, 'Claude', signal);
+  }
+
+  private async *tokens(prompt: string, context?: string, signal?: AbortSignal): AsyncGenerator<string> {
+    const stream = await this.client.messages.create({
+      model: this.config.model,
+      max_tokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      messages: [
+        {
+          role: 'user',
+          content: this.fullPrompt(prompt, context)
+        }
+      ],
+      stream: true
+    }, abortable(signal));
+
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield event.delta.text;
+      }
     }
   }
 
@@ -654,10 +749,12 @@ class OllamaService implements AIService {
     this.baseUrl = config.baseUrl || 'http://localhost:11434';
   }
 
+  private fullPrompt(prompt: string, context?: string): string {
+    return context ? `${context}\n\nUser: ${prompt}\nAssistant:` : prompt;
+  }
+
   async generateText(prompt: string, context?: string): Promise<string> {
     try {
-      const fullPrompt = context ? `${context}\n\nUser: ${prompt}\nAssistant:` : prompt;
-      
       const response = await fetch(`${this.baseUrl}/api/generate`, {
         method: 'POST',
         headers: {
@@ -665,7 +762,7 @@ class OllamaService implements AIService {
         },
         body: JSON.stringify({
           model: this.config.model,
-          prompt: fullPrompt,
+          prompt: this.fullPrompt(prompt, context),
           stream: false,
           options: {
             temperature: this.config.temperature,
@@ -686,6 +783,52 @@ class OllamaService implements AIService {
     }
   }
 
+  streamText(prompt: string, context?: string, signal?: AbortSignal): AsyncIterable<string> {
+    const apology = '[Ollama Error] I\'m having trouble connecting to the local AI service. Please check if Ollama is running.';
+    return guardStream(this.tokens(prompt, context, signal), apology, 'Ollama', signal);
+  }
+
+  // Ollama streams one JSON object per line, each carrying the next piece of the response
+  private async *tokens(prompt: string, context?: string, signal?: AbortSignal): AsyncGenerator<string> {
+    const response = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        prompt: this.fullPrompt(prompt, context),
+        stream: true,
+        options: {
+          temperature: this.config.temperature,
+          num_predict: this.config.maxTokens,
+        }
+      }),
+      ...abortable(signal)
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Ollama API error: ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split('\n');
+      buffered = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const data = JSON.parse(line);
+        if (data.error) throw new Error(data.error);
+        if (data.response) yield data.response as string;
+      }
+      if (done) return;
+    }
+  }
+
   async analyzeDocument(content: string, type: string): Promise<DocumentAnalysis> {
     const prompt = `Analyze this ${type} document and provide insights:\n\n${content}`;
     const analysis = await this.generateText(prompt);
@@ -729,6 +872,16 @@ class FallbackService implements AIService {
     return `[Simulated Response] Thank you for your question: "${prompt}". This is a simulated response as no AI service is configured. Please set up API keys for OpenAI, Gemini, or Claude to enable real AI responses.`;
   }
 
+  // Word by word, so the streaming UI can be tried without a provider
+  async *streamText(prompt: string, context?: string, signal?: AbortSignal): AsyncGenerator<string> {
+    const words = (await this.generateText(prompt, context)).split(/(?<=\s)/);
+    for (const word of words) {
+      if (signal?.aborted) return;
+      yield word;
+      await new Promise(resolve => setTimeout(resolve, 30));
+    }
+  }
+
   async analyzeDocument(content: string, type: string): Promise<DocumentAnalysis> {
     return {
       summary: `${type} document containing ${content.length} characters. This is a simulated analysis.`,
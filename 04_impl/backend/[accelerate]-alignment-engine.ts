@@ -0,0 +1,281 @@
+// [accelerate] Semantic Alignment Engine
+// Scores a proposal against the mission and each pillar with TF-IDF cosine similarity,
+// so alignment works offline; an optional AI scorer settles borderline cases.
+// Pure module (no Node or network imports) so browser code can share it.
+
+export interface AlignmentTargetSource {
+  id: string;
+  level: string;
+  seek: string;
+  why: string;
+  content?: Record<string, any>;
+}
+
+export interface AlignmentProposal {
+  seek: string;
+  why?: string;
+  content?: Record<string, any>;
+}
+
+export interface TargetScore {
+  target_id: string;
+  level: string;
+  title: string;
+  score: number; // 0..1
+  matched_terms: string[];
+  explanation: string;
+}
+
+export interface AlignmentResult {
+  aligned: boolean;
+  score: number;
+  mission: TargetScore | null;
+  pillars: TargetScore[];
+  reasons: string[];
+  method: 'tfidf' | 'tfidf+ai';
+}
+
+// Returns a 0..1 score and explanation per target id, or null when the AI cannot help
+export type AIAlignmentScorer = (
+  proposal: string,
+  targets: Array<{ id: string; title: string; text: string }>
+) => Promise<Record<string, { score: number; explanation: string }> | null>;
+
+export interface AlignmentOptions {
+  threshold?: number;
+  aiScorer?: AIAlignmentScorer;
+}
+
+// Scores at or above this count as aligned; between the uncertain floor and it, the AI is asked
+export const ALIGNMENT_THRESHOLD = 0.12;
+const UNCERTAIN_FLOOR = 0.04;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'into', 'is', 'it',
+  'its', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'will', 'with',
+  'each', 'every', 'all', 'can', 'should', 'must', 'them', 'they', 'who', 'what', 'which', 'while', 'both'
+]);
+
+// Purpose vocabulary from the six purpose tags. Proposal terms that belong to a purpose
+// pull in that purpose's vocabulary, so "write docs" meets a "clarify" mission.
+const PURPOSE_LEXICON: Record<string, string[]> = {
+  clarify: ['clarify', 'clear', 'document', 'docs', 'documentation', 'explain', 'understand', 'write', 'readme', 'guide', 'define', 'describe', 'communicate', 'intent', 'purpose'],
+  accelerate: ['accelerate', 'speed', 'fast', 'optimize', 'improve', 'automate', 'implement', 'build', 'performance', 'efficient', 'streamline', 'generate'],
+  safeguard: ['safeguard', 'protect', 'secure', 'security', 'defend', 'validate', 'test', 'verify', 'boundary', 'prevent', 'guard', 'reliable', 'backup'],
+  monetize: ['monetize', 'revenue', 'pricing', 'billing', 'customer', 'sell', 'business', 'market', 'subscription'],
+  empathize: ['empathize', 'user', 'support', 'help', 'accessibility', 'accessible', 'adhd', 'dyslexia', 'need', 'vision', 'feedback', 'understand', 'alignment'],
+  delight: ['delight', 'enjoy', 'please', 'polish', 'experience', 'beautiful', 'celebrate', 'satisfy', 'living', 'evolve'],
+  establish: ['establish', 'create', 'initiate', 'found', 'foundation', 'initialize', 'setup', 'structure', 'canonical', 'start']
+};
+
+// Light stemming: good enough to match "documenting"/"documentation"/"documents"
+const stem = (word: string): string => {
+  const rules: Array<[RegExp, string]> = [
+    [/ational$/, 'ate'],
+    [/(ation|ations)$/, ''],
+    [/(ness|ment|ments)$/, ''],
+    [/(ities|ity)$/, ''],
+    [/(izing|ized|izes|ize)$/, ''],
+    [/(ing|ings)$/, ''],
+    [/(ies)$/, 'y'],
+    [/(ed|es|s)$/, '']
+  ];
+
+  for (const [pattern, replacement] of rules) {
+    if (pattern.test(word) && word.length - (word.match(pattern)?.[0].length ?? 0) >= 3) {
+      return word.replace(pattern, replacement);
+    }
+  }
+  return word;
+};
+
+const STEMMED_LEXICON: Record<string, Set<string>> = Object.fromEntries(
+  Object.entries(PURPOSE_LEXICON).map(([purpose, words]) => [purpose, new Set(words.map(stem))])
+);
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+
+// Add the vocabulary of every purpose the text touches (at half weight, see vectorize)
+const expandWithPurposes = (tokens: string[]): string[] => {
+  const expansion: string[] = [];
+  Object.values(STEMMED_LEXICON).forEach(words => {
+    if (tokens.some(token => words.has(token))) {
+      words.forEach(word => expansion.push(word));
+    }
+  });
+  return expansion;
+};
+
+const describeTarget = (target: AlignmentTargetSource): string => {
+  const content = target.content || {};
+  return [target.seek, target.why, content['title'], content['statement'], content['description']]
+    .filter((part): part is string => typeof part === 'string')
+    .join(' ');
+};
+
+const targetTitle = (target: AlignmentTargetSource): string => {
+  const title = target.content?.['title'];
+  return typeof title === 'string' && title ? title : `${target.level}: ${target.seek}`;
+};
+
+type Vector = Map<string, number>;
+
+const vectorize = (tokens: string[], expansion: string[], idf: Map<string, number>): Vector => {
+  const tf = new Map<string, number>();
+  tokens.forEach(token => tf.set(token, (tf.get(token) || 0) + 1));
+  expansion.forEach(token => tf.set(token, (tf.get(token) || 0) + 0.5));
+
+  const vector: Vector = new Map();
+  tf.forEach((count, token) => {
+    vector.set(token, count * (idf.get(token) ?? 1));
+  });
+  return vector;
+};
+
+const cosine = (a: Vector, b: Vector): number => {
+  let dot = 0;
+  a.forEach((value, token) => {
+    dot += value * (b.get(token) || 0);
+  });
+  const norm = (v: Vector) => Math.sqrt(Array.from(v.values()).reduce((sum, x) => sum + x * x, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+};
+
+const explain = (score: number, matched: string[], title: string, threshold: number): string => {
+  if (matched.length === 0) {
+    return `No shared concepts with "${title}"`;
+  }
+  const strength = score >= threshold * 2 ? 'Strongly supports' : score >= threshold ? 'Supports' : 'Weakly related to';
+  return `${strength} "${title}" through: ${matched.slice(0, 5).join(', ')}`;
+};
+
+/**
+ * Score a proposal locally (synchronous, no network)
+ */
+export const scoreAlignment = (
+  proposal: AlignmentProposal,
+  mission: AlignmentTargetSource | null,
+  pillars: AlignmentTargetSource[],
+  threshold: number = ALIGNMENT_THRESHOLD
+): AlignmentResult => {
+  const reasons: string[] = [];
+
+  if (!mission) {
+    reasons.push('No active mission found');
+    return { aligned: false, score: 0, mission: null, pillars: [], reasons, method: 'tfidf' };
+  }
+
+  const targets = [mission, ...pillars];
+  const proposalText = [proposal.seek, proposal.why, proposal.content?.['title'], proposal.content?.['description']]
+    .filter((part): part is string => typeof part === 'string')
+    .join(' ');
+
+  const proposalTokens = tokenize(proposalText);
+  const proposalExpansion = expandWithPurposes(proposalTokens);
+  const targetTokens = targets.map(target => tokenize(describeTarget(target)));
+
+  // Document frequency over the mission, pillars and the proposal itself
+  const documents = [...targetTokens, proposalTokens];
+  const df = new Map<string, number>();
+  documents.forEach(tokens => new Set(tokens).forEach(token => df.set(token, (df.get(token) || 0) + 1)));
+  const idf = new Map<string, number>();
+  df.forEach((count, token) => idf.set(token, Math.log((documents.length + 1) / (count + 1)) + 1));
+
+  const proposalVector = vectorize(proposalTokens, proposalExpansion, idf);
+
+  const scores: TargetScore[] = targets.map((target, index) => {
+    const tokens = targetTokens[index] ?? [];
+    const targetVector = vectorize(tokens, expandWithPurposes(tokens), idf);
+    const score = Math.round(cosine(proposalVector, targetVector) * 1000) / 1000;
+    const matched = Array.from(new Set(tokens.filter(token => proposalVector.has(token))));
+    const title = targetTitle(target);
+
+    return {
+      target_id: target.id,
+      level: target.level,
+      title,
+      score,
+      matched_terms: matched,
+      explanation: explain(score, matched, title, threshold)
+    };
+  });
+
+  const [missionScore, ...pillarScores] = scores;
+  const best = Math.max(...scores.map(s => s.score));
+
+  if (missionScore && missionScore.score < threshold) {
+    reasons.push(`Entry may not align with mission "${missionScore.title}" (score ${missionScore.score})`);
+  }
+  if (pillarScores.length > 0 && pillarScores.every(s => s.score < threshold)) {
+    reasons.push('Entry does not clearly support any active pillar');
+  }
+
+  return {
+    aligned: best >= threshold,
+    score: best,
+    mission: missionScore ?? null,
+    pillars: pillarScores,
+    reasons: best >= threshold ? [] : reasons,
+    method: 'tfidf'
+  };
+};
+
+/**
+ * Score a proposal locally, asking the AI scorer when the local result is borderline
+ */
+export const evaluateAlignment = async (
+  proposal: AlignmentProposal,
+  mission: AlignmentTargetSource | null,
+  pillars: AlignmentTargetSource[],
+  options: AlignmentOptions = {}
+): Promise<AlignmentResult> => {
+  const threshold = options.threshold ?? ALIGNMENT_THRESHOLD;
+  const local = scoreAlignment(proposal, mission, pillars, threshold);
+
+  if (!options.aiScorer || !mission || local.aligned || local.score < UNCERTAIN_FLOOR) {
+    return local;
+  }
+
+  try {
+    const targets = [mission, ...pillars].map(target => ({
+      id: target.id,
+      title: targetTitle(target),
+      text: describeTarget(target)
+    }));
+    const aiScores = await options.aiScorer(`${proposal.seek}. ${proposal.why || ''}`.trim(), targets);
+    if (!aiScores) {
+      return local;
+    }
+
+    const merge = (score: TargetScore): TargetScore => {
+      const ai = aiScores[score.target_id];
+      if (!ai || typeof ai.score !== 'number') return score;
+      const merged = Math.round(Math.max(score.score, Math.min(Math.max(ai.score, 0), 1)) * 1000) / 1000;
+      return { ...score, score: merged, explanation: ai.explanation || score.explanation };
+    };
+
+    const missionScore = local.mission ? merge(local.mission) : null;
+    const pillarScores = local.pillars.map(merge);
+    const best = Math.max(missionScore?.score ?? 0, ...pillarScores.map(s => s.score));
+    const aligned = best >= threshold;
+
+    return {
+      aligned,
+      score: best,
+      mission: missionScore,
+      pillars: pillarScores,
+      reasons: aligned ? [] : local.reasons,
+      method: 'tfidf+ai'
+    };
+  } catch (error) {
+    console.error('AI alignment scoring failed, using local scores:', error);
+    return local;
+  }
+};
@@ -0,0 +1,160 @@
+// [accelerate] Chat Actions
+// Roadmap changes the AI proposes from a conversation, e.g. "let's try a probe for voice
+// commands" becomes a probe to create. The AI lists them in a fenced ledger-actions block at
+// the end of its reply, which works the same for every provider, streaming or not. Nothing
+// reaches the Systemic Ledger until the user confirms the proposal.
+// No Node or network imports; validation uses the ledger contract schemas.
+
+import type { LedgerEntryInput, Status } from './[safeguard]-ledger-schemas';
+import { validateLedgerEntryInput, validateLedgerStatus, formatFieldErrors } from './[safeguard]-ledger-validation';
+import { checkStatusTransition } from './[safeguard]-ledger-status-machine';
+
+export type ChatAction =
+  | { type: 'create_entry'; entry: LedgerEntryInput }
+  | { type: 'update_status'; entry_id: string; status: Status; reason: string };
+
+export type ChatActionProposal = ChatAction & {
+  id: string;
+  summary: string; // e.g. 'Create probe "Voice commands"'
+  decision: 'pending' | 'confirmed' | 'declined';
+  decided_at: string | null;
+  result_entry_id: string | null; // the entry created or changed, once confirmed
+};
+
+// The part of a ledger entry proposals are checked against
+export interface KnownEntry {
+  id: string;
+  level: string;
+  status: Status;
+  seek: string;
+}
+
+export interface ExtractedActions {
+  text: string; // the reply without the ledger-actions block
+  actions: ChatAction[];
+  rejected: Array<{ action: unknown; error: string }>;
+}
+
+export const ACTIONS_FENCE = '```ledger-actions';
+
+// At most this many proposals are taken from one reply
+export const MAX_ACTIONS_PER_REPLY = 5;
+
+/**
+ * How the AI proposes roadmap changes, added to the context of every chat reply
+ */
+export const CHAT_ACTION_INSTRUCTIONS = `You can propose changes to the user's roadmap (the Systemic Ledger). The user confirms or declines each proposal, so only propose changes they asked for or agreed to, and say in your reply what you are proposing. To propose, end your reply with a block like this (JSON array, nothing after it):
+${ACTIONS_FENCE}
+[
+  {"type": "create_entry", "entry": {"level": "probe", "purpose_tag": "[accelerate]", "seek": "Try voice commands", "why": "See whether speaking is faster than typing", "parent_id": null, "content": {"title": "Voice commands", "hypothesis": "Users plan faster by voice", "timebox": "3d"}}},
+  {"type": "update_status", "entry_id": "<id of a roadmap entry>", "status": "blocked", "reason": "Waiting on the design review"}
+]
+\`\`\`
+Levels: mission, pillar, epic, saga, probe. Content needs a title; a mission also needs a statement, and a probe a hypothesis and a timebox such as 4h, 3d or 2w. Purpose tags: [clarify], [accelerate], [safeguard], [monetize], [empathize], [delight]. Statuses: proposed, active, blocked, integrated, archived, dormant. Use ids from the roadmap entries you were given for update_status and parent_id.`;
+
+const describeEntry = (entries: KnownEntry[], id: string): string => {
+  const entry = entries.find(candidate => candidate.id === id);
+  return entry ? `${entry.level} "${entry.seek}"` : `entry ${id}`;
+};
+
+export const summarizeAction = (action: ChatAction, entries: KnownEntry[] = []): string =>
+  action.type === 'create_entry'
+    ? `Create ${action.entry.level} "${action.entry.seek}"`
+    : `Mark ${describeEntry(entries, action.entry_id)} as ${action.status}`;
+
+/**
+ * Check one proposed action against the ledger contract and, for status changes, the
+ * entry's current status. Returns the action to offer, or why it cannot be offered.
+ */
+export const validateChatAction = (raw: unknown, entries: KnownEntry[]): { action: ChatAction } | { error: string } => {
+  if (typeof raw !== 'object' || raw === null) {
+    return { error: 'an action must be an object' };
+  }
+  const candidate = raw as Record<string, unknown>;
+
+  if (candidate['type'] === 'create_entry') {
+    const validation = validateLedgerEntryInput(candidate['entry']);
+    if (!validation.success) {
+      return { error: formatFieldErrors(validation.fields) };
+    }
+    const parentId = validation.data.parent_id;
+    if (parentId && entries.length > 0 && !entries.some(entry => entry.id === parentId)) {
+      return { error: `parent ${parentId} is not a roadmap entry` };
+    }
+    return { action: { type: 'create_entry', entry: validation.data } };
+  }
+
+  if (candidate['type'] === 'update_status') {
+    const entryId = candidate['entry_id'];
+    const reason = candidate['reason'];
+    const status = validateLedgerStatus(candidate['status']);
+    if (typeof entryId !== 'string' || entryId.trim() === '') {
+      return { error: 'entry_id must be a roadmap entry id' };
+    }
+    if (!status.success) {
+      return { error: formatFieldErrors(status.fields) };
+    }
+    if (typeof reason !== 'string' || reason.trim() === '') {
+      return { error: 'reason must explain the status change' };
+    }
+    const entry = entries.find(known => known.id === entryId);
+    if (!entry) {
+      return { error: `${entryId} is not a roadmap entry` };
+    }
+    const transition = checkStatusTransition(entry.status, status.data);
+    if (!transition.allowed) {
+      return { error: transition.reason ?? `Cannot move to ${status.data}` };
+    }
+    return { action: { type: 'update_status', entry_id: entryId, status: status.data, reason: reason.trim() } };
+  }
+
+  return { error: 'type must be create_entry or update_status' };
+};
+
+/**
+ * Take the ledger-actions block off the end of a reply and check what it proposes. A block
+ * that is cut off (e.g. a stopped reply) or not valid JSON proposes nothing.
+ */
+export const extractChatActions = (reply: string, entries: KnownEntry[]): ExtractedActions => {
+  const start = reply.indexOf(ACTIONS_FENCE);
+  if (start < 0) {
+    return { text: reply, actions: [], rejected: [] };
+  }
+
+  const text = reply.slice(0, start).trimEnd();
+  const afterFence = reply.slice(start + ACTIONS_FENCE.length);
+  const end = afterFence.indexOf('```');
+  if (end < 0) {
+    return { text, actions: [], rejected: [] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(afterFence.slice(0, end));
+  } catch {
+    return { text, actions: [], rejected: [{ action: afterFence.slice(0, end).trim(), error: 'not valid JSON' }] };
+  }
+
+  const actions: ChatAction[] = [];
+  const rejected: ExtractedActions['rejected'] = [];
+  (Array.isArray(parsed) ? parsed : [parsed]).slice(0, MAX_ACTIONS_PER_REPLY).forEach(raw => {
+    const result = validateChatAction(raw, entries);
+    if ('action' in result) actions.push(result.action);
+    else rejected.push({ action: raw, error: result.error });
+  });
+
+  return { text, actions, rejected };
+};
+
+/**
+ * How much of a reply streamed so far can be shown: everything before the ledger-actions
+ * block, holding back a tail that may turn out to be the start of it
+ */
+export const streamableLength = (reply: string): number => {
+  const start = reply.indexOf(ACTIONS_FENCE);
+  if (start >= 0) return start;
+  for (let overlap = Math.min(ACTIONS_FENCE.length - 1, reply.length); overlap > 0; overlap--) {
+    if (ACTIONS_FENCE.startsWith(reply.slice(-overlap))) return reply.length - overlap;
+  }
+  return reply.length;
+};
@@ -0,0 +1,105 @@
+// [accelerate] Chat Threads
+// Named conversations within a project's chat, each optionally about one ledger entry. Messages
+// carry the id of their thread, so one topic's history never leaks into another's context.
+// Pure module (no Node or network imports), like the wisdom memory helpers.
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  entry_id: string | null; // the ledger entry the conversation is about
+  created_at: string;
+  updated_at: string; // last message, rename or re-tie
+  archived_at: string | null;
+}
+
+// The part of a chat message threads need
+export interface ThreadedMessage {
+  thread_id?: string;
+  role: string;
+  content: string;
+  timestamp: string;
+}
+
+export interface ThreadSummary extends ChatThread {
+  message_count: number;
+  last_message: string | null; // excerpt of the latest message
+  match?: string; // excerpt of the first message matching a search
+}
+
+// Every project has this thread. Messages from before threads existed belong to it.
+export const GENERAL_THREAD_ID = 'general';
+export const DEFAULT_THREAD_TITLE = 'New conversation';
+export const MAX_TITLE_LENGTH = 80;
+
+const EXCERPT_LENGTH = 120;
+
+export const createThread = (
+  id: string,
+  fields: { title?: string | undefined; entry_id?: string | null | undefined } = {},
+  now: string = new Date().toISOString()
+): ChatThread => ({
+  id,
+  title: fields.title?.trim().slice(0, MAX_TITLE_LENGTH) || DEFAULT_THREAD_TITLE,
+  entry_id: fields.entry_id ?? null,
+  created_at: now,
+  updated_at: now,
+  archived_at: null
+});
+
+export const createGeneralThread = (now?: string): ChatThread =>
+  createThread(GENERAL_THREAD_ID, { title: 'General' }, now);
+
+export const messageThreadId = (message: ThreadedMessage): string => message.thread_id ?? GENERAL_THREAD_ID;
+
+export const threadMessages = <M extends ThreadedMessage>(history: M[], threadId: string): M[] =>
+  history.filter(message => messageThreadId(message) === threadId);
+
+/**
+ * A thread still called DEFAULT_THREAD_TITLE is named after its first message
+ */
+export const titleFromMessage = (message: string): string => {
+  const firstLine = message.trim().split('\n')[0] ?? '';
+  return firstLine.length > MAX_TITLE_LENGTH
+    ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 3).trimEnd()}...`
+    : firstLine || DEFAULT_THREAD_TITLE;
+};
+
+const excerpt = (text: string, around: number = 0): string => {
+  const start = Math.max(0, around - EXCERPT_LENGTH / 2);
+  const piece = text.slice(start, start + EXCERPT_LENGTH).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '...' : ''}${piece}${start + EXCERPT_LENGTH < text.length ? '...' : ''}`;
+};
+
+export const summarizeThread = (thread: ChatThread, history: ThreadedMessage[]): ThreadSummary => {
+  const messages = threadMessages(history, thread.id);
+  const last = messages[messages.length - 1];
+  return {
+    ...thread,
+    message_count: messages.length,
+    last_message: last ? excerpt(last.content) : null
+  };
+};
+
+/**
+ * Threads whose title or messages contain `query` (case-insensitive), most recently active
+ * first. Each carries an excerpt of the first matching message, if its title did not match.
+ */
+export const searchThreads = (threads: ChatThread[], history: ThreadedMessage[], query: string): ThreadSummary[] => {
+  const needle = query.trim().toLowerCase();
+  return threads
+    .map(thread => {
+      const summary = summarizeThread(thread, history);
+      if (!needle || thread.title.toLowerCase().includes(needle)) {
+        return summary;
+      }
+      for (const message of threadMessages(history, thread.id)) {
+        const at = message.content.toLowerCase().indexOf(needle);
+        if (at >= 0) {
+          return { ...summary, match: excerpt(message.content, at) };
+        }
+      }
+      return null;
+    })
+    .filter((summary): summary is ThreadSummary => summary !== null)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+};
@@ -0,0 +1,206 @@
+// [accelerate] Context Budget
+// Builds the context sent with a prompt from ranked sections (the message or task, ledger,
+// knowledge base, chat history, wisdom) so it fits a token budget. The most important sections go in whole, a
+// section that only partly fits is trimmed, and the rest are dropped. The report says which,
+// so users can see why the AI knew or forgot something.
+// Pure module (no Node or network imports), like the wisdom memory helpers.
+
+export type ContextSectionKind = 'message' | 'task' | 'ledger' | 'knowledge' | 'history' | 'wisdom';
+
+export interface ContextSection {
+  id: string;
+  kind: ContextSectionKind;
+  label: string; // what the report calls it, e.g. "Mission" or "user message at 10:02"
+  text: string;
+  priority: number; // higher goes in first
+  required?: boolean; // always included, trimmed if it alone exceeds the budget
+}
+
+export interface ContextReportItem {
+  id: string;
+  kind: ContextSectionKind;
+  label: string;
+  priority: number;
+  tokens: number; // as included; 0 when dropped
+  original_tokens: number;
+  status: 'included' | 'trimmed' | 'dropped';
+}
+
+export interface ContextBudgetReport {
+  provider: string;
+  model: string;
+  budget: number;
+  used: number;
+  included: number;
+  trimmed: number;
+  dropped: number;
+  items: ContextReportItem[]; // in priority order
+}
+
+export interface TokenCounter {
+  provider: string;
+  model: string;
+  count(text: string): number;
+  // The longest prefix of `text` that fits in `tokens`
+  truncate(text: string, tokens: number): string;
+}
+
+// Roughly how many characters of English text make one token for each tokenizer family.
+// No tokenizer library ships with the backend, so counts are estimates that err on the high side.
+const CHARS_PER_TOKEN: Record<string, number> = {
+  openai: 4,
+  gemini: 4,
+  claude: 3.5,
+  ollama: 3.6
+};
+
+// Context windows in tokens, matched against the model name; the first match wins
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/^gpt-4o|^gpt-4\.1|^gpt-4-turbo|^o\d/, 128000],
+  [/^gpt-4/, 8192],
+  [/^gpt-3\.5/, 16385],
+  [/^claude/, 200000],
+  [/^gemini-(1\.5|2)/, 1000000],
+  [/^gemini/, 32000]
+];
+// Ollama serves models with a 2048-token window unless told otherwise
+const OLLAMA_WINDOW = 2048;
+const DEFAULT_WINDOW = 8192;
+
+// Below this, a trimmed section says too little to be worth including
+export const MIN_TRIMMED_TOKENS = 24;
+
+const TRIM_MARKER = ' [...]';
+
+const HEADINGS: Record<ContextSectionKind, string> = {
+  message: 'User Message',
+  task: 'Task',
+  ledger: 'Systemic Ledger Context',
+  knowledge: 'Knowledge Base Context',
+  history: 'Recent Conversation',
+  wisdom: 'User Insights'
+};
+const KIND_ORDER: ContextSectionKind[] = ['message', 'task', 'ledger', 'knowledge', 'history', 'wisdom'];
+
+export const createTokenCounter = (provider: string, model: string): TokenCounter => {
+  const charsPerToken = CHARS_PER_TOKEN[provider] ?? 3.5;
+  // Characters outside ASCII (accents, CJK, emoji) usually take a token or more each
+  const count = (text: string): number => {
+    let ascii = 0;
+    let other = 0;
+    for (const char of text) {
+      if (char.charCodeAt(0) < 128) ascii++;
+      else other++;
+    }
+    return Math.ceil(ascii / charsPerToken) + other;
+  };
+
+  const truncate = (text: string, tokens: number): string => {
+    if (count(text) <= tokens) return text;
+    const room = tokens - count(TRIM_MARKER);
+    if (room <= 0) return '';
+    // Start from the character estimate and back off until it fits, ending on a word
+    let end = Math.min(text.length, Math.floor(room * charsPerToken));
+    while (end > 0 && count(text.slice(0, end)) > room) {
+      end = Math.floor(end * 0.9);
+    }
+    const cut = text.slice(0, end);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${lastSpace > end * 0.6 ? cut.slice(0, lastSpace) : cut}${TRIM_MARKER}`;
+  };
+
+  return { provider, model, count, truncate };
+};
+
+export const contextWindowFor = (provider: string, model: string): number => {
+  if (provider === 'ollama') return OLLAMA_WINDOW;
+  const match = CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+  return match ? match[1] : DEFAULT_WINDOW;
+};
+
+/**
+ * The budget to use: the one asked for, capped so the context and the reply (`replyTokens`)
+ * both fit in the model's window. The reply is given at most half the window, so a small
+ * local model still gets some context.
+ */
+export const resolveContextBudget = (requested: number, provider: string, model: string, replyTokens: number): number => {
+  const window = contextWindowFor(provider, model);
+  return Math.max(MIN_TRIMMED_TOKENS, Math.min(requested, window - Math.min(replyTokens, Math.floor(window / 2))));
+};
+
+/**
+ * Fit sections into `budget` tokens, highest priority first (required ones before all others).
+ * The text keeps each kind under its heading, in the order the sections were given.
+ */
+export const assembleContext = (
+  sections: ContextSection[],
+  budget: number,
+  counter: TokenCounter
+): { text: string; report: ContextBudgetReport } => {
+  const headingTokens = (kind: ContextSectionKind) => counter.count(`${HEADINGS[kind]}:\n\n`);
+  const ranked = sections
+    .map((section, order) => ({ section, order }))
+    .sort((a, b) =>
+      Number(b.section.required ?? false) - Number(a.section.required ?? false) ||
+      b.section.priority - a.section.priority ||
+      a.order - b.order
+    );
+
+  let remaining = budget;
+  const headed = new Set<ContextSectionKind>();
+  const kept = new Map<ContextSection, string>();
+  const items: ContextReportItem[] = ranked.map(({ section }) => {
+    const originalTokens = counter.count(section.text);
+    const overhead = headed.has(section.kind) ? 1 : headingTokens(section.kind) + 1;
+    const item: ContextReportItem = {
+      id: section.id,
+      kind: section.kind,
+      label: section.label,
+      priority: section.priority,
+      tokens: 0,
+      original_tokens: originalTokens,
+      status: 'dropped'
+    };
+
+    let text: string | null = null;
+    if (originalTokens + overhead <= remaining) {
+      text = section.text;
+      item.status = 'included';
+    } else if (remaining - overhead >= MIN_TRIMMED_TOKENS || section.required) {
+      text = counter.truncate(section.text, Math.max(0, remaining - overhead));
+      item.status = 'trimmed';
+    }
+
+    if (text) {
+      item.tokens = counter.count(text);
+      remaining -= item.tokens + overhead;
+      headed.add(section.kind);
+      kept.set(section, text);
+    } else {
+      item.status = 'dropped';
+    }
+    return item;
+  });
+
+  const text = KIND_ORDER
+    .map(kind => {
+      const lines = sections.filter(section => section.kind === kind && kept.has(section)).map(section => kept.get(section));
+      return lines.length > 0 ? `${HEADINGS[kind]}:\n${lines.join('\n')}` : '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    text,
+    report: {
+      provider: counter.provider,
+      model: counter.model,
+      budget,
+      used: counter.count(text),
+      included: items.filter(item => item.status === 'included').length,
+      trimmed: items.filter(item => item.status === 'trimmed').length,
+      dropped: items.filter(item => item.status === 'dropped').length,
+      items
+    }
+  };
+};
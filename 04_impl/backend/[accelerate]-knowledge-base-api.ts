@@ -17,6 +17,12 @@ import fileUploadSecurity, {
   getAuditLog,
   SECURITY_CONFIG 
 } from './[accelerate]-file-upload-security';
+import {
+  DEFAULT_PROJECT_ID,
+  ProjectScoped,
+  projectScopeMiddleware,
+  mountProjectLifecycle
+} from './[clarify]-project-scope';
 
 // Types based on contract schema
 export interface KnowledgeDocument {
@@ -152,11 +158,8 @@ const upload = multer({
   }
 });
 
-// In-memory storage (replace with database in production)
-let documents: KnowledgeDocument[] = [];
-
-// Initialize with sample documents
-const initializeSampleDocuments = () => {
+// Sample documents describe Vision Holder itself, so only the default project gets them
+const createSampleDocuments = (): KnowledgeDocument[] => {
   const sampleDocs: Omit<KnowledgeDocument, 'id' | 'uploaded_at'>[] = [
     {
       name: 'Project Blueprint.pdf',
@@ -230,15 +233,31 @@ const initializeSampleDocuments = () => {
     }
   ];
 
-  sampleDocs.forEach(doc => {
-    documents.push({
-      ...doc,
-      id: uuidv4(),
-      uploaded_at: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString()
-    });
-  });
+  return sampleDocs.map(doc => ({
+    ...doc,
+    id: uuidv4(),
+    uploaded_at: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString()
+  }));
 };
 
+// In-memory storage, one document list per project (replace with database in production)
+const projectDocuments = new ProjectScoped<KnowledgeDocument[]>(projectId =>
+  projectId === DEFAULT_PROJECT_ID ? createSampleDocuments() : []
+);
+
+// A cloned project gets its own copy of every stored file, so deleting in one project leaves the other intact
+const copyDocuments = (source: KnowledgeDocument[]): KnowledgeDocument[] =>
+  source.map(doc => {
+    const sourcePath = path.join(storageDir, path.basename(doc.url));
+    if (!doc.url.startsWith('/uploads/') || !fs.existsSync(sourcePath)) {
+      return { ...doc, id: uuidv4() };
+    }
+
+    const filename = `${uuidv4()}_${path.basename(doc.url).replace(/^[0-9a-f-]{36}_/, '')}`;
+    fs.copyFileSync(sourcePath, path.join(storageDir, filename));
+    return { ...doc, id: uuidv4(), url: `/uploads/${filename}` };
+  });
+
 const app = express();
 const PORT = process.env['PORT'] || 3003;
 
@@ -251,6 +270,12 @@ app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(securityMiddleware);
 
+// Documents belong to the request's project (X-Project-Id); archived projects are read-only
+app.use(['/knowledge', '/health'], projectScopeMiddleware(projectDocuments));
+
+// Clone, archive and restore, called by the Systemic Ledger API for the whole project
+mountProjectLifecycle(app, projectDocuments, copyDocuments);
+
 // Apply rate limiting to upload endpoints
 app.use('/knowledge/upload', uploadRateLimit);
 
@@ -369,7 +394,7 @@ app.get('/health', (req, res) => {
   res.json({ 
     status: 'healthy', 
     service: 'Knowledge Base API',
-    documents_count: documents.length,
+    documents_count: projectDocuments.of(res).length,
     security_enabled: true,
     timestamp: new Date().toISOString()
   });
@@ -403,6 +428,7 @@ app.get('/security/audit', (req, res) => {
 // Get all documents
 app.get('/knowledge/documents', (req, res) => {
   try {
+    const documents = projectDocuments.of(res);
     const { search, type, sort_by, sort_order, include_quarantined } = req.query;
     
     let filteredDocs = [...documents];
@@ -470,6 +496,7 @@ app.get('/knowledge/documents', (req, res) => {
 // Get specific document
 app.get('/knowledge/documents/:id', (req, res) => {
   try {
+    const documents = projectDocuments.of(res);
     const { id } = req.params;
     const document = documents.find(doc => doc.id === id);
     
@@ -489,6 +516,7 @@ app.post('/knowledge/upload', upload.single('file'), async (req, res) => {
   let tempFilePath = '';
   
   try {
+    const documents = projectDocuments.of(res);
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' });
     }
@@ -571,6 +599,7 @@ app.post('/knowledge/upload', upload.single('file'), async (req, res) => {
 // Analyze document with AI
 app.post('/knowledge/analyze/:id', async (req, res) => {
   try {
+    const documents = projectDocuments.of(res);
     const { id } = req.params;
     const document = documents.find(doc => doc.id === id);
     
@@ -612,6 +641,7 @@ app.post('/knowledge/analyze/:id', async (req, res) => {
 // Update document metadata
 app.put('/knowledge/documents/:id', (req, res) => {
   try {
+    const documents = projectDocuments.of(res);
     const { id } = req.params;
     const { name, description, tags } = req.body;
     
@@ -643,6 +673,7 @@ app.put('/knowledge/documents/:id', (req, res) => {
 // Delete document
 app.delete('/knowledge/documents/:id', (req, res) => {
   try {
+    const documents = projectDocuments.of(res);
     const { id } = req.params;
     const documentIndex = documents.findIndex(doc => doc.id === id);
     
@@ -674,6 +705,7 @@ app.delete('/knowledge/documents/:id', (req, res) => {
 // Search documents
 app.get('/knowledge/search', (req, res) => {
   try {
+    const documents = projectDocuments.of(res);
     const { q, type, limit = '10' } = req.query;
     
     if (!q || typeof q !== 'string') {
@@ -720,6 +752,7 @@ app.get('/knowledge/search', (req, res) => {
 // Get document statistics
 app.get('/knowledge/stats', (req, res) => {
   try {
+    const documents = projectDocuments.of(res);
     const stats = {
       total_documents: documents.length,
       total_size: documents.reduce((sum, doc) => sum + doc.size, 0),
@@ -793,9 +826,10 @@ app.listen(PORT, () => {
   console.log(`Quarantine directory: ${quarantineDir}`);
   console.log(`Security features enabled: File scanning, quarantine, audit logging`);
   
-  // Initialize sample documents
-  initializeSampleDocuments();
-  console.log(`Sample documents loaded: ${documents.length}`);
+  console.log(`Sample documents loaded: ${projectDocuments.get(DEFAULT_PROJECT_ID).length}`);
+
+  // Projects archived while this service was down; retried on the next write if the ledger API is not up yet
+  projectDocuments.syncArchived();
 });
 
 // Graceful shutdown
@@ -0,0 +1,120 @@
+// [accelerate] Ledger Change Feed
+// Server-Sent Events stream of ledger changes, so roadmap and dashboard views update live
+
+import type { Request, Response } from 'express';
+import type { LedgerEntry } from './[accelerate]-systemic-ledger-api';
+import type { LedgerEvent } from './[safeguard]-ledger-storage';
+import type { EntryLink } from './[accelerate]-ledger-dependencies';
+
+// One stream message per stored event. seq is the event's 1-based position in the log
+// and doubles as the SSE id, so reconnecting clients resume with Last-Event-ID.
+export interface LedgerChange {
+  seq: number;
+  event_id: string;
+  type: LedgerEvent['type'];
+  timestamp: string;
+  actor: string;
+  entry: LedgerEntry;
+  from?: LedgerEntry['status'];
+  reason?: string;
+  changed?: Array<'seek' | 'why' | 'content'>; // fields an amendment replaced
+  link?: EntryLink; // the link added or removed
+}
+
+// Comment line sent to idle connections so proxies do not close them
+const HEARTBEAT_INTERVAL = 25000;
+const RECONNECT_DELAY = 3000;
+
+export const toLedgerChange = (seq: number, event: LedgerEvent, entry: LedgerEntry): LedgerChange => {
+  const change: LedgerChange = {
+    seq,
+    event_id: event.id,
+    type: event.type,
+    timestamp: event.timestamp,
+    actor: event.actor,
+    entry
+  };
+
+  if (event.type === 'status_changed') {
+    change.from = event.from;
+    change.reason = event.reason;
+  } else if (event.type === 'entry_amended') {
+    change.changed = Object.keys(event.changes) as NonNullable<LedgerChange['changed']>;
+    change.reason = event.reason;
+  } else if (event.type === 'link_added' || event.type === 'link_removed') {
+    change.link = event.link;
+    if (event.reason) change.reason = event.reason;
+  }
+
+  return change;
+};
+
+export class LedgerChangeFeed {
+  private clients = new Set<Response>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Open an event stream, sending any changes the client missed first
+   */
+  subscribe(req: Request, res: Response, missed: LedgerChange[] = []): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write(`retry: ${RECONNECT_DELAY}\n\n`);
+
+    missed.forEach(change => this.send(res, change));
+    this.clients.add(res);
+    this.startHeartbeat();
+
+    req.on('close', () => {
+      this.clients.delete(res);
+      if (this.clients.size === 0) {
+        this.stopHeartbeat();
+      }
+    });
+  }
+
+  publish(change: LedgerChange): void {
+    this.clients.forEach(res => this.send(res, change));
+  }
+
+  /**
+   * Send a message that is not a stored event (e.g. probe_expired). It carries no id,
+   * so reconnecting clients do not lose their place in the event log.
+   */
+  notify(type: string, data: unknown): void {
+    this.clients.forEach(res => res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`));
+  }
+
+  close(): void {
+    this.clients.forEach(res => res.end());
+    this.clients.clear();
+    this.stopHeartbeat();
+  }
+
+  private send(res: Response, change: LedgerChange): void {
+    res.write(`id: ${change.seq}\nevent: ${change.type}\ndata: ${JSON.stringify(change)}\n\n`);
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      this.clients.forEach(res => res.write(': heartbeat\n\n'));
+    }, HEARTBEAT_INTERVAL);
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
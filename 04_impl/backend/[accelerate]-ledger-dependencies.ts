@@ -0,0 +1,240 @@
+// [accelerate] Ledger Dependencies
+// Typed links between entries: what blocks what, cycle checks, the critical path through
+// unfinished work, and what can be picked up right now.
+// Pure module (no Node or network imports) so the browser ledger can share it.
+
+import { LedgerLevel, LedgerStatus, QueryableEntry } from './[accelerate]-ledger-query';
+
+export const LINK_TYPES = ['blocks', 'depends_on', 'relates_to'] as const;
+export type LinkType = typeof LINK_TYPES[number];
+
+// Held by the entry the link starts from: A blocks B, A depends_on B, A relates_to B
+export interface EntryLink {
+  id: string;
+  type: LinkType;
+  target_id: string;
+  created_at: string;
+  reason?: string;
+}
+
+type LedgerEntry = QueryableEntry & { links?: EntryLink[] };
+
+// blocks and depends_on both order work; the edge always points from blocker to blocked
+export interface DependencyEdge {
+  blocker_id: string;
+  blocked_id: string;
+  link_id: string;
+  holder_id: string; // the entry whose links hold it
+  type: Exclude<LinkType, 'relates_to'>;
+}
+
+export interface Blocker<T extends LedgerEntry = LedgerEntry> {
+  entry: T;
+  link_id: string;
+  type: DependencyEdge['type'];
+}
+
+export interface BlockedEntry<T extends LedgerEntry = LedgerEntry> {
+  entry: T;
+  blocked_by: Blocker<T>[]; // unfinished entries it waits on; empty when only its status says blocked
+}
+
+export interface WorkableEntry<T extends LedgerEntry = LedgerEntry> {
+  entry: T;
+  unblocks: number; // unfinished entries waiting on it, directly or further down the chain
+}
+
+export interface DependencyGraph<T extends LedgerEntry = LedgerEntry> {
+  edges: DependencyEdge[];
+  related: Array<{ from_id: string; to_id: string; link_id: string }>;
+  blocked: BlockedEntry<T>[];
+  critical_path: T[];
+}
+
+// Finished work no longer blocks anything
+const DONE_STATUSES: LedgerStatus[] = ['integrated', 'archived'];
+
+// Missions and pillars are principles, not work to pick up
+const WORK_LEVELS: LedgerLevel[] = ['epic', 'saga', 'probe'];
+
+export const isDone = (entry: Pick<LedgerEntry, 'status'>): boolean => DONE_STATUSES.includes(entry.status);
+
+export const toDependencyEdge = (holderId: string, link: Pick<EntryLink, 'id' | 'type' | 'target_id'>): DependencyEdge | null => {
+  if (link.type === 'blocks') {
+    return { blocker_id: holderId, blocked_id: link.target_id, link_id: link.id, holder_id: holderId, type: 'blocks' };
+  }
+  if (link.type === 'depends_on') {
+    return { blocker_id: link.target_id, blocked_id: holderId, link_id: link.id, holder_id: holderId, type: 'depends_on' };
+  }
+  return null;
+};
+
+/**
+ * Every ordering edge between entries that exist (links to unknown entries are skipped)
+ */
+export const dependencyEdges = (entries: LedgerEntry[]): DependencyEdge[] => {
+  const ids = new Set(entries.map(entry => entry.id));
+  return entries.flatMap(entry => (entry.links ?? [])
+    .map(link => toDependencyEdge(entry.id, link))
+    .filter((edge): edge is DependencyEdge => edge !== null && ids.has(edge.blocker_id) && ids.has(edge.blocked_id))
+  );
+};
+
+/**
+ * The cycle a new link would close, as entry ids from the blocker round to itself, or null.
+ * relates_to links never form cycles.
+ */
+export const findDependencyCycle = (
+  entries: LedgerEntry[],
+  holderId: string,
+  link: Pick<EntryLink, 'type' | 'target_id'>
+): string[] | null => {
+  const edge = toDependencyEdge(holderId, { ...link, id: '' });
+  if (!edge) {
+    return null;
+  }
+
+  const next = new Map<string, string[]>();
+  dependencyEdges(entries).forEach(({ blocker_id, blocked_id }) => {
+    next.set(blocker_id, [...(next.get(blocker_id) ?? []), blocked_id]);
+  });
+
+  // The new edge closes a cycle if its blocker is already reachable from what it blocks
+  const cameFrom = new Map<string, string>([[edge.blocked_id, edge.blocker_id]]);
+  const queue = [edge.blocked_id];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === edge.blocker_id) {
+      const path = [current];
+      let step = cameFrom.get(current);
+      while (step !== undefined && step !== edge.blocker_id) {
+        path.unshift(step);
+        step = cameFrom.get(step);
+      }
+      return [edge.blocker_id, ...path];
+    }
+    (next.get(current) ?? []).forEach(following => {
+      if (!cameFrom.has(following)) {
+        cameFrom.set(following, current);
+        queue.push(following);
+      }
+    });
+  }
+  return null;
+};
+
+/**
+ * Unfinished entries blocking each entry, by the blocked entry's id
+ */
+export const openBlockers = <T extends LedgerEntry>(entries: T[]): Map<string, Blocker<T>[]> => {
+  const byId = new Map(entries.map(entry => [entry.id, entry]));
+  const blockers = new Map<string, Blocker<T>[]>();
+
+  dependencyEdges(entries).forEach(edge => {
+    const blocker = byId.get(edge.blocker_id);
+    if (!blocker || isDone(blocker)) return;
+    blockers.set(edge.blocked_id, [...(blockers.get(edge.blocked_id) ?? []), { entry: blocker, link_id: edge.link_id, type: edge.type }]);
+  });
+
+  return blockers;
+};
+
+/**
+ * Unfinished entries that wait on others or are marked blocked, with what blocks them
+ */
+export const findBlockedEntries = <T extends LedgerEntry>(entries: T[]): BlockedEntry<T>[] => {
+  const blockers = openBlockers(entries);
+  return entries
+    .filter(entry => !isDone(entry) && (entry.status === 'blocked' || blockers.has(entry.id)))
+    .map(entry => ({ entry, blocked_by: blockers.get(entry.id) ?? [] }));
+};
+
+// How many unfinished entries wait on each entry, counting the whole chain
+const downstreamCounts = (entries: LedgerEntry[]): Map<string, number> => {
+  const open = new Set(entries.filter(entry => !isDone(entry)).map(entry => entry.id));
+  const next = new Map<string, string[]>();
+  dependencyEdges(entries)
+    .filter(edge => open.has(edge.blocker_id) && open.has(edge.blocked_id))
+    .forEach(({ blocker_id, blocked_id }) => next.set(blocker_id, [...(next.get(blocker_id) ?? []), blocked_id]));
+
+  const counts = new Map<string, number>();
+  open.forEach(id => {
+    const seen = new Set<string>();
+    const stack = [...(next.get(id) ?? [])];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (seen.has(current) || current === id) continue;
+      seen.add(current);
+      stack.push(...(next.get(current) ?? []));
+    }
+    counts.set(id, seen.size);
+  });
+  return counts;
+};
+
+/**
+ * What can be worked on now: active epics, sagas and probes with no unfinished children and
+ * nothing unfinished blocking them, the ones that unblock the most first
+ */
+export const findWorkableEntries = <T extends LedgerEntry>(entries: T[]): WorkableEntry<T>[] => {
+  const blockers = openBlockers(entries);
+  const withOpenChildren = new Set(entries
+    .filter(entry => entry.parent_id && !isDone(entry))
+    .map(entry => entry.parent_id as string));
+  const unblocks = downstreamCounts(entries);
+
+  return entries
+    .filter(entry => entry.status === 'active' && WORK_LEVELS.includes(entry.level))
+    .filter(entry => !withOpenChildren.has(entry.id) && !blockers.has(entry.id))
+    .map(entry => ({ entry, unblocks: unblocks.get(entry.id) ?? 0 }))
+    .sort((a, b) => b.unblocks - a.unblocks || a.entry.timestamp.localeCompare(b.entry.timestamp));
+};
+
+/**
+ * The longest chain of unfinished entries that must be done one after another, blocker first.
+ * Edges that would loop back (possible in imported data) are ignored.
+ */
+export const findCriticalPath = <T extends LedgerEntry>(entries: T[]): T[] => {
+  const byId = new Map(entries.filter(entry => !isDone(entry)).map(entry => [entry.id, entry]));
+  const next = new Map<string, string[]>();
+  dependencyEdges(entries)
+    .filter(edge => byId.has(edge.blocker_id) && byId.has(edge.blocked_id))
+    .forEach(({ blocker_id, blocked_id }) => next.set(blocker_id, [...(next.get(blocker_id) ?? []), blocked_id]));
+
+  // Longest chain starting at each entry, memoised; `visiting` guards against cycles
+  const longest = new Map<string, string[]>();
+  const visiting = new Set<string>();
+  const chainFrom = (id: string): string[] => {
+    const known = longest.get(id);
+    if (known) return known;
+    visiting.add(id);
+    let best: string[] = [];
+    (next.get(id) ?? []).forEach(following => {
+      if (visiting.has(following)) return;
+      const chain = chainFrom(following);
+      if (chain.length > best.length) best = chain;
+    });
+    visiting.delete(id);
+    const chain = [id, ...best];
+    longest.set(id, chain);
+    return chain;
+  };
+
+  let path: string[] = [];
+  byId.forEach((_entry, id) => {
+    const chain = chainFrom(id);
+    if (chain.length > path.length) path = chain;
+  });
+
+  // A single entry with no dependencies is not a path
+  return path.length > 1 ? path.map(id => byId.get(id)!) : [];
+};
+
+export const buildDependencyGraph = <T extends LedgerEntry>(entries: T[]): DependencyGraph<T> => ({
+  edges: dependencyEdges(entries),
+  related: entries.flatMap(entry => (entry.links ?? [])
+    .filter(link => link.type === 'relates_to')
+    .map(link => ({ from_id: entry.id, to_id: link.target_id, link_id: link.id }))),
+  blocked: findBlockedEntries(entries),
+  critical_path: findCriticalPath(entries)
+});
@@ -0,0 +1,147 @@
+// [accelerate] Ledger Hierarchy
+// Parent/child links between mission, pillar, epic, saga and probe entries.
+// Pure module (no Node or network imports) so the browser ledger can share it.
+
+import type { LedgerLevel, LedgerStatus } from './[accelerate]-ledger-query';
+
+// The entry fields the hierarchy reads
+export interface HierarchyEntry {
+  id: string;
+  timestamp: string;
+  level: LedgerLevel;
+  status: LedgerStatus;
+  parent_id?: string | null;
+}
+
+// Lower number = higher in the hierarchy
+export const LEVEL_ORDER: Record<LedgerLevel, number> = {
+  mission: 0,
+  pillar: 1,
+  epic: 2,
+  saga: 3,
+  probe: 4
+};
+
+export interface LedgerRollup {
+  progress: number; // 0..1, integrated share of non-archived work below (or of the entry itself for leaves)
+  descendant_count: number;
+  status_counts: Record<LedgerStatus, number>;
+}
+
+export interface LedgerTreeNode<T extends HierarchyEntry = HierarchyEntry> {
+  entry: T;
+  children: LedgerTreeNode<T>[];
+  rollup: LedgerRollup;
+}
+
+const emptyStatusCounts = (): Record<LedgerStatus, number> => ({
+  proposed: 0,
+  active: 0,
+  blocked: 0,
+  integrated: 0,
+  archived: 0,
+  dormant: 0
+});
+
+/**
+ * Check that a parent reference respects level order.
+ * Returns an error message, or null when the link is valid.
+ */
+export const validateParent = (
+  level: LedgerLevel,
+  parentId: string | null | undefined,
+  entries: HierarchyEntry[]
+): string | null => {
+  if (!parentId) {
+    return null;
+  }
+
+  if (level === 'mission') {
+    return 'A mission cannot have a parent';
+  }
+
+  const parent = entries.find(entry => entry.id === parentId);
+  if (!parent) {
+    return `Parent entry ${parentId} not found`;
+  }
+
+  if (LEVEL_ORDER[parent.level] >= LEVEL_ORDER[level]) {
+    return `A ${level} cannot sit under a ${parent.level}. Parents must be at a higher level.`;
+  }
+
+  if (parent.status === 'archived') {
+    return 'Cannot add children to an archived entry';
+  }
+
+  return null;
+};
+
+const byLevelThenTime = (a: HierarchyEntry, b: HierarchyEntry) =>
+  LEVEL_ORDER[a.level] - LEVEL_ORDER[b.level] || a.timestamp.localeCompare(b.timestamp);
+
+const buildNode = <T extends HierarchyEntry>(entry: T, childrenByParent: Map<string, T[]>): LedgerTreeNode<T> => {
+  const children = (childrenByParent.get(entry.id) || [])
+    .sort(byLevelThenTime)
+    .map(child => buildNode(child, childrenByParent));
+
+  const statusCounts = emptyStatusCounts();
+  let descendantCount = 0;
+  children.forEach(child => {
+    statusCounts[child.entry.status]++;
+    descendantCount += 1 + child.rollup.descendant_count;
+    (Object.keys(child.rollup.status_counts) as LedgerStatus[]).forEach(status => {
+      statusCounts[status] += child.rollup.status_counts[status];
+    });
+  });
+
+  // Archived children are abandoned work and do not count towards progress
+  const counted = children.filter(child => child.entry.status !== 'archived');
+  const progress = counted.length > 0
+    ? counted.reduce((sum, child) => sum + child.rollup.progress, 0) / counted.length
+    : entry.status === 'integrated' ? 1 : 0;
+
+  return {
+    entry,
+    children,
+    rollup: {
+      progress: entry.status === 'integrated' ? 1 : Math.round(progress * 1000) / 1000,
+      descendant_count: descendantCount,
+      status_counts: statusCounts
+    }
+  };
+};
+
+/**
+ * Build the nested roadmap. Entries without a (known) parent become roots.
+ */
+export const buildLedgerTree = <T extends HierarchyEntry>(entries: T[]): LedgerTreeNode<T>[] => {
+  const ids = new Set(entries.map(entry => entry.id));
+  const childrenByParent = new Map<string, T[]>();
+  const roots: T[] = [];
+
+  entries.forEach(entry => {
+    if (entry.parent_id && ids.has(entry.parent_id)) {
+      const siblings = childrenByParent.get(entry.parent_id) || [];
+      siblings.push(entry);
+      childrenByParent.set(entry.parent_id, siblings);
+    } else {
+      roots.push(entry);
+    }
+  });
+
+  return roots
+    .sort(byLevelThenTime)
+    .map(entry => buildNode(entry, childrenByParent));
+};
+
+/**
+ * Find a node (and its subtree) by entry id
+ */
+export const findTreeNode = <T extends HierarchyEntry>(tree: LedgerTreeNode<T>[], id: string): LedgerTreeNode<T> | null => {
+  for (const node of tree) {
+    if (node.entry.id === id) return node;
+    const found = findTreeNode(node.children, id);
+    if (found) return found;
+  }
+  return null;
+};
@@ -0,0 +1,427 @@
+// [accelerate] Ledger Query Engine
+// Free-text search, combined facets, sorting and cursor pagination over ledger entries.
+// Pure module (no Node or network imports) so the browser ledger can share it.
+
+export const LEDGER_LEVELS = ['mission', 'pillar', 'epic', 'saga', 'probe'] as const;
+export const LEDGER_PURPOSE_TAGS = ['[clarify]', '[accelerate]', '[safeguard]', '[monetize]', '[empathize]', '[delight]'] as const;
+export const LEDGER_STATUSES = ['proposed', 'active', 'blocked', 'integrated', 'archived', 'dormant'] as const;
+export const LEDGER_SORT_FIELDS = ['timestamp', 'level', 'status', 'title', 'relevance'] as const;
+
+export type LedgerLevel = typeof LEDGER_LEVELS[number];
+export type LedgerPurposeTag = typeof LEDGER_PURPOSE_TAGS[number];
+export type LedgerStatus = typeof LEDGER_STATUSES[number];
+export type LedgerSortField = typeof LEDGER_SORT_FIELDS[number];
+
+// The entry fields the query engine reads
+export interface QueryableEntry {
+  id: string;
+  timestamp: string;
+  purpose_tag: LedgerPurposeTag;
+  level: LedgerLevel;
+  status: LedgerStatus;
+  seek: string;
+  why: string;
+  content: Record<string, any>;
+  parent_id?: string | null;
+}
+
+/**
+ * q accepts plain words and "quoted phrases" (all must match), -word to exclude,
+ * field filters (level:saga, status:active,blocked, tag:safeguard, parent:<id>)
+ * and field-scoped text (seek:protect, why:"dyslexia", title:roadmap).
+ */
+export interface LedgerQuery {
+  q?: string;
+  level?: LedgerLevel | LedgerLevel[];
+  purpose_tag?: LedgerPurposeTag | LedgerPurposeTag[];
+  status?: LedgerStatus | LedgerStatus[];
+  parent_id?: string;
+  startDate?: string;
+  endDate?: string;
+  sort?: LedgerSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface LedgerFacets {
+  level: Record<LedgerLevel, number>;
+  purpose_tag: Record<LedgerPurposeTag, number>;
+  status: Record<LedgerStatus, number>;
+}
+
+export interface LedgerQueryResult<T extends QueryableEntry> {
+  entries: T[];
+  total: number; // matches before pagination
+  facets: LedgerFacets;
+  next_cursor: string | null;
+}
+
+export class LedgerQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerQueryError';
+  }
+}
+
+export const MAX_QUERY_LIMIT = 500;
+
+const LEVEL_ORDER: Record<LedgerLevel, number> = { mission: 0, pillar: 1, epic: 2, saga: 3, probe: 4 };
+const STATUS_ORDER: Record<LedgerStatus, number> = { active: 0, proposed: 1, blocked: 2, integrated: 3, archived: 4, dormant: 5 };
+
+type TextField = 'any' | 'seek' | 'why' | 'title';
+
+interface TextTerm {
+  field: TextField;
+  value: string;
+  negate: boolean;
+}
+
+interface CompiledQuery {
+  terms: TextTerm[];
+  level: Set<LedgerLevel> | null;
+  purpose_tag: Set<LedgerPurposeTag> | null;
+  status: Set<LedgerStatus> | null;
+  parent_id: string | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+type FacetName = 'level' | 'purpose_tag' | 'status';
+
+const toList = <V extends string>(value: V | V[] | undefined): V[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const normalizeTag = (value: string): string => {
+  const word = value.trim().toLowerCase().replace(/^\[|\]$/g, '');
+  return `[${word}]`;
+};
+
+// Keep only values allowed for a facet; an unknown value is a client error
+const checkValues = <V extends string>(facet: string, values: string[], allowed: readonly V[]): V[] => {
+  values.forEach(value => {
+    if (!(allowed as readonly string[]).includes(value)) {
+      throw new LedgerQueryError(`Invalid ${facet} "${value}". Must be one of: ${allowed.join(', ')}`);
+    }
+  });
+  return values as V[];
+};
+
+// Both explicit parameters and q field filters narrow the result, so the sets intersect
+const mergeFacet = <V extends string>(current: Set<V> | null, values: V[]): Set<V> | null => {
+  if (values.length === 0) return current;
+  const next = new Set(values);
+  return current ? new Set(Array.from(current).filter(value => next.has(value))) : next;
+};
+
+const tokenizeQuery = (q: string): string[] => q.match(/-?(?:\w+:)?"[^"]*"|\S+/g) || [];
+
+const unquote = (value: string): string => value.replace(/^"|"$/g, '');
+
+const compileQuery = (query: LedgerQuery): CompiledQuery => {
+  const compiled: CompiledQuery = {
+    terms: [],
+    level: mergeFacet(null, checkValues('level', toList(query.level), LEDGER_LEVELS)),
+    purpose_tag: mergeFacet(null, checkValues('purpose_tag', toList(query.purpose_tag).map(normalizeTag), LEDGER_PURPOSE_TAGS)),
+    status: mergeFacet(null, checkValues('status', toList(query.status), LEDGER_STATUSES)),
+    parent_id: query.parent_id || null,
+    startDate: query.startDate || null,
+    endDate: query.endDate || null
+  };
+
+  for (const token of tokenizeQuery(query.q || '')) {
+    const negate = token.startsWith('-') && token.length > 1;
+    const body = negate ? token.substring(1) : token;
+    const fieldMatch = body.match(/^(\w+):(.+)$/);
+    const field = fieldMatch?.[1]?.toLowerCase();
+    const rawValue = fieldMatch?.[2];
+
+    if (field && rawValue !== undefined) {
+      const values = unquote(rawValue).split(',').map(value => value.trim()).filter(Boolean);
+
+      switch (field) {
+        case 'level':
+          compiled.level = mergeFacet(compiled.level, checkValues('level', values, LEDGER_LEVELS));
+          continue;
+        case 'status':
+          compiled.status = mergeFacet(compiled.status, checkValues('status', values, LEDGER_STATUSES));
+          continue;
+        case 'tag':
+        case 'purpose':
+        case 'purpose_tag':
+          compiled.purpose_tag = mergeFacet(compiled.purpose_tag, checkValues('purpose_tag', values.map(normalizeTag), LEDGER_PURPOSE_TAGS));
+          continue;
+        case 'parent':
+          compiled.parent_id = values[0] ?? null;
+          continue;
+        case 'seek':
+        case 'why':
+        case 'title':
+          compiled.terms.push({ field, value: unquote(rawValue).toLowerCase(), negate });
+          continue;
+      }
+    }
+
+    const value = unquote(body).toLowerCase();
+    if (value) {
+      compiled.terms.push({ field: 'any', value, negate });
+    }
+  }
+
+  return compiled;
+};
+
+// Flatten content (titles, statements, nested notes) into searchable text
+const contentText = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return value.map(contentText).join(' ');
+  if (value && typeof value === 'object') return Object.values(value).map(contentText).join(' ');
+  return '';
+};
+
+interface SearchDocument {
+  seek: string;
+  why: string;
+  title: string;
+  content: string;
+}
+
+const toDocument = (entry: QueryableEntry): SearchDocument => {
+  const title = entry.content?.['title'];
+  return {
+    seek: entry.seek.toLowerCase(),
+    why: entry.why.toLowerCase(),
+    title: typeof title === 'string' ? title.toLowerCase() : '',
+    content: contentText(entry.content).toLowerCase()
+  };
+};
+
+// Relevance: seek and title hits weigh most, then why, then the rest of the content
+const scoreTerm = (doc: SearchDocument, term: TextTerm): number => {
+  switch (term.field) {
+    case 'seek':
+      return doc.seek.includes(term.value) ? 3 : 0;
+    case 'why':
+      return doc.why.includes(term.value) ? 2 : 0;
+    case 'title':
+      return doc.title.includes(term.value) ? 3 : 0;
+    default:
+      return (doc.seek.includes(term.value) ? 3 : 0) +
+        (doc.title.includes(term.value) ? 3 : 0) +
+        (doc.why.includes(term.value) ? 2 : 0) +
+        (doc.content.includes(term.value) ? 1 : 0);
+  }
+};
+
+const matchesText = (entry: QueryableEntry, terms: TextTerm[]): number | null => {
+  if (terms.length === 0) return 0;
+  const doc = toDocument(entry);
+  let score = 0;
+
+  for (const term of terms) {
+    const termScore = scoreTerm(doc, term);
+    if (term.negate ? termScore > 0 : termScore === 0) {
+      return null;
+    }
+    score += termScore;
+  }
+
+  return score;
+};
+
+const matchesFilters = (entry: QueryableEntry, query: CompiledQuery, skip?: FacetName): boolean =>
+  (skip === 'level' || !query.level || query.level.has(entry.level)) &&
+  (skip === 'purpose_tag' || !query.purpose_tag || query.purpose_tag.has(entry.purpose_tag)) &&
+  (skip === 'status' || !query.status || query.status.has(entry.status)) &&
+  (!query.parent_id || entry.parent_id === query.parent_id) &&
+  (!query.startDate || entry.timestamp >= query.startDate) &&
+  (!query.endDate || entry.timestamp <= query.endDate);
+
+const emptyFacets = (): LedgerFacets => ({
+  level: Object.fromEntries(LEDGER_LEVELS.map(level => [level, 0])) as Record<LedgerLevel, number>,
+  purpose_tag: Object.fromEntries(LEDGER_PURPOSE_TAGS.map(tag => [tag, 0])) as Record<LedgerPurposeTag, number>,
+  status: Object.fromEntries(LEDGER_STATUSES.map(status => [status, 0])) as Record<LedgerStatus, number>
+});
+
+type SortKey = number | string;
+
+const sortKey = (entry: QueryableEntry, sort: LedgerSortField, score: number): SortKey => {
+  switch (sort) {
+    case 'level':
+      return LEVEL_ORDER[entry.level];
+    case 'status':
+      return STATUS_ORDER[entry.status];
+    case 'title': {
+      const title = entry.content?.['title'];
+      return (typeof title === 'string' && title ? title : entry.seek).toLowerCase();
+    }
+    case 'relevance':
+      return score;
+    default:
+      return entry.timestamp;
+  }
+};
+
+// Ties are broken by id so every entry has a fixed place for cursors
+const compareKeys = (a: [SortKey, string], b: [SortKey, string], order: 'asc' | 'desc'): number => {
+  if (a[0] !== b[0]) {
+    const diff = a[0] < b[0] ? -1 : 1;
+    return order === 'asc' ? diff : -diff;
+  }
+  return a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+};
+
+interface CursorState {
+  s: LedgerSortField;
+  o: 'asc' | 'desc';
+  k: SortKey;
+  id: string;
+}
+
+const encodeCursor = (state: CursorState): string =>
+  btoa(encodeURIComponent(JSON.stringify(state))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const decodeCursor = (cursor: string, sort: LedgerSortField, order: 'asc' | 'desc'): CursorState => {
+  try {
+    const state = JSON.parse(decodeURIComponent(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')))) as CursorState;
+    if (state.s !== sort || state.o !== order || typeof state.id !== 'string') {
+      throw new Error('cursor belongs to a different sort');
+    }
+    return state;
+  } catch {
+    throw new LedgerQueryError('Invalid cursor. Start again without a cursor, using the same sort and order.');
+  }
+};
+
+/**
+ * Run a query over entries. Facet counts for one facet ignore that facet's own
+ * filter, so a UI can show how many entries each additional choice would add.
+ */
+export const queryLedgerEntries = <T extends QueryableEntry>(
+  entries: T[],
+  query: LedgerQuery = {}
+): LedgerQueryResult<T> => {
+  const compiled = compileQuery(query);
+  const hasText = compiled.terms.some(term => !term.negate);
+  const sort: LedgerSortField = query.sort ?? (hasText ? 'relevance' : 'timestamp');
+  const order = query.order ?? (sort === 'timestamp' || sort === 'relevance' ? 'desc' : 'asc');
+
+  if (!(LEDGER_SORT_FIELDS as readonly string[]).includes(sort)) {
+    throw new LedgerQueryError(`Invalid sort "${sort}". Must be one of: ${LEDGER_SORT_FIELDS.join(', ')}`);
+  }
+
+  const facets = emptyFacets();
+  const matches: Array<{ entry: T; key: [SortKey, string] }> = [];
+
+  for (const entry of entries) {
+    const score = matchesText(entry, compiled.terms);
+    if (score === null) continue;
+
+    if (matchesFilters(entry, compiled, 'level')) facets.level[entry.level]++;
+    if (matchesFilters(entry, compiled, 'purpose_tag')) facets.purpose_tag[entry.purpose_tag]++;
+    if (matchesFilters(entry, compiled, 'status')) facets.status[entry.status]++;
+
+    if (matchesFilters(entry, compiled)) {
+      matches.push({ entry, key: [sortKey(entry, sort, score), entry.id] });
+    }
+  }
+
+  matches.sort((a, b) => compareKeys(a.key, b.key, order));
+
+  let start = 0;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor, sort, order);
+    const after: [SortKey, string] = [cursor.k, cursor.id];
+    start = matches.findIndex(match => compareKeys(match.key, after, order) > 0);
+    if (start < 0) start = matches.length;
+  }
+
+  const limit = query.limit === undefined
+    ? matches.length
+    : Math.min(Math.max(Math.floor(query.limit), 1), MAX_QUERY_LIMIT);
+  const page = matches.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start + limit < matches.length;
+
+  return {
+    entries: page.map(match => match.entry),
+    total: matches.length,
+    facets,
+    next_cursor: hasMore && last ? encodeCursor({ s: sort, o: order, k: last.key[0], id: last.key[1] }) : null
+  };
+};
+
+/**
+ * Read a query from URL parameters (?status=active,blocked&tag=safeguard&q=...)
+ */
+export const parseLedgerQueryParams = (params: Record<string, unknown>): LedgerQuery => {
+  const list = (name: string): string[] => {
+    const raw = params[name];
+    const values = Array.isArray(raw) ? raw : raw === undefined ? [] : [raw];
+    return values
+      .filter((value): value is string => typeof value === 'string')
+      .flatMap(value => value.split(','))
+      .map(value => value.trim())
+      .filter(Boolean);
+  };
+  const single = (name: string): string | undefined => list(name)[0];
+
+  const query: LedgerQuery = {};
+  const q = params['q'];
+  if (typeof q === 'string' && q.trim() !== '') query.q = q;
+
+  const levels = list('level');
+  if (levels.length > 0) query.level = checkValues('level', levels, LEDGER_LEVELS);
+  const tags = [...list('purpose_tag'), ...list('tag')].map(normalizeTag);
+  if (tags.length > 0) query.purpose_tag = checkValues('purpose_tag', tags, LEDGER_PURPOSE_TAGS);
+  const statuses = list('status');
+  if (statuses.length > 0) query.status = checkValues('status', statuses, LEDGER_STATUSES);
+
+  const parentId = single('parent_id');
+  if (parentId) query.parent_id = parentId;
+  const startDate = single('startDate');
+  if (startDate) query.startDate = startDate;
+  const endDate = single('endDate');
+  if (endDate) query.endDate = endDate;
+
+  const sort = single('sort');
+  if (sort) query.sort = checkValues('sort', [sort], LEDGER_SORT_FIELDS)[0] ?? 'timestamp';
+  const order = single('order');
+  if (order) query.order = checkValues('order', [order], ['asc', 'desc'] as const)[0] ?? 'desc';
+
+  const limit = single('limit');
+  if (limit !== undefined) {
+    const parsed = Number(limit);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new LedgerQueryError('limit must be a positive integer');
+    }
+    query.limit = parsed;
+  }
+  const cursor = single('cursor');
+  if (cursor) query.cursor = cursor;
+
+  return query;
+};
+
+/**
+ * Write a query as URL parameters, the inverse of parseLedgerQueryParams
+ */
+export const formatLedgerQueryParams = (query: LedgerQuery): Record<string, string> => {
+  const params: Record<string, string> = {};
+  const join = (value: string | string[] | undefined) => toList(value).join(',');
+
+  if (query.q) params['q'] = query.q;
+  if (join(query.level)) params['level'] = join(query.level);
+  if (join(query.purpose_tag)) params['purpose_tag'] = join(query.purpose_tag);
+  if (join(query.status)) params['status'] = join(query.status);
+  if (query.parent_id) params['parent_id'] = query.parent_id;
+  if (query.startDate) params['startDate'] = query.startDate;
+  if (query.endDate) params['endDate'] = query.endDate;
+  if (query.sort) params['sort'] = query.sort;
+  if (query.order) params['order'] = query.order;
+  if (query.limit !== undefined) params['limit'] = String(query.limit);
+  if (query.cursor) params['cursor'] = query.cursor;
+
+  return params;
+};
@@ -0,0 +1,161 @@
+// [accelerate] Ledger Timeline
+// The roadmap's history read back from the append-only event log: every creation and
+// status change as a moment to scrub through, and what moved between two dates.
+// Pure module (no Node or network imports) so the browser ledger can share it.
+
+import { LEDGER_STATUSES, LedgerQueryError, LedgerStatus, QueryableEntry } from './[accelerate]-ledger-query';
+import type { EntryAmendment } from './[clarify]-ledger-revisions';
+
+type LedgerEntry = QueryableEntry;
+
+// The ledger events the timeline reads (the storage engine's LedgerEvent fits this)
+type TimelineSourceEvent =
+  | { id: string; type: 'entry_created'; timestamp: string; actor: string; entry: LedgerEntry }
+  | { id: string; type: 'status_changed'; timestamp: string; actor: string; entry_id: string; from: LedgerStatus; status: LedgerStatus; reason: string }
+  | { id: string; type: 'entry_amended'; timestamp: string; actor: string; entry_id: string; changes: EntryAmendment }
+  | { id: string; type: 'link_added' | 'link_removed'; timestamp: string; actor: string; entry_id: string };
+
+// One step of the roadmap's history: an entry appeared, or its status moved
+export interface TimelineMoment {
+  seq: number; // the event's 1-based position in the log, as on /ledger/stream
+  event_id: string;
+  type: 'entry_created' | 'status_changed';
+  timestamp: string;
+  actor: string;
+  entry_id: string;
+  level: LedgerEntry['level'];
+  title: string; // as worded at that moment
+  from: LedgerStatus | null;
+  to: LedgerStatus;
+  reason: string | null;
+}
+
+// An entry whose status moved between two dates, with every step it took in between
+export interface StatusMove<T extends LedgerEntry = LedgerEntry> {
+  entry: T; // as it stood at the later date
+  from: LedgerStatus | null; // null when the entry did not exist yet
+  to: LedgerStatus;
+  transitions: TimelineMoment[];
+}
+
+export interface LedgerComparison<T extends LedgerEntry = LedgerEntry> {
+  from: string;
+  to: string;
+  moves: StatusMove<T>[];
+  reached: Record<LedgerStatus, number>; // entries that reached each status in the window
+  total: number;
+}
+
+const entryTitle = (entry: Pick<LedgerEntry, 'seek' | 'content'>): string =>
+  entry.content['title'] || entry.content['statement'] || entry.seek;
+
+/**
+ * Every creation and status change, oldest first. Amendments and links are not moments of
+ * their own, but later moments carry the amended title.
+ */
+export const buildLedgerTimeline = (events: TimelineSourceEvent[]): TimelineMoment[] => {
+  const known = new Map<string, { level: LedgerEntry['level']; seek: string; content: Record<string, any> }>();
+  const moments: TimelineMoment[] = [];
+
+  events.forEach((event, index) => {
+    if (event.type === 'entry_created') {
+      const { id, level, seek, content, status } = event.entry;
+      known.set(id, { level, seek, content });
+      moments.push({
+        seq: index + 1,
+        event_id: event.id,
+        type: 'entry_created',
+        timestamp: event.timestamp,
+        actor: event.actor,
+        entry_id: id,
+        level,
+        title: entryTitle({ seek, content }),
+        from: null,
+        to: status,
+        reason: null
+      });
+    } else if (event.type === 'entry_amended') {
+      const entry = known.get(event.entry_id);
+      if (entry) {
+        known.set(event.entry_id, { ...entry, ...event.changes });
+      }
+    } else if (event.type === 'status_changed') {
+      const entry = known.get(event.entry_id);
+      if (!entry) return;
+      moments.push({
+        seq: index + 1,
+        event_id: event.id,
+        type: 'status_changed',
+        timestamp: event.timestamp,
+        actor: event.actor,
+        entry_id: event.entry_id,
+        level: entry.level,
+        title: entryTitle(entry),
+        from: event.from,
+        to: event.status,
+        reason: event.reason
+      });
+    }
+  });
+
+  return moments;
+};
+
+/**
+ * What moved between `from` and `to` (after `from`, up to and including `to`), given the
+ * entries as they stood at each date. With `statuses`, only entries that reached one of
+ * them in the window are kept, e.g. ['integrated'] for "what was integrated last week".
+ */
+export const compareLedgerSnapshots = <T extends LedgerEntry>(
+  before: T[],
+  after: T[],
+  timeline: TimelineMoment[],
+  from: string,
+  to: string,
+  statuses: LedgerStatus[] = []
+): LedgerComparison<T> => {
+  const start = Date.parse(from);
+  const end = Date.parse(to);
+  const inWindow = new Map<string, TimelineMoment[]>();
+
+  timeline.forEach(moment => {
+    const time = Date.parse(moment.timestamp);
+    if (time > start && time <= end) {
+      inWindow.set(moment.entry_id, [...(inWindow.get(moment.entry_id) ?? []), moment]);
+    }
+  });
+
+  const statusBefore = new Map(before.map(entry => [entry.id, entry.status]));
+  const reached = Object.fromEntries(LEDGER_STATUSES.map(status => [status, 0])) as Record<LedgerStatus, number>;
+  const moves: StatusMove<T>[] = [];
+
+  after.forEach(entry => {
+    const transitions = inWindow.get(entry.id);
+    if (!transitions) return;
+
+    const statusesReached = new Set(transitions.map(moment => moment.to));
+    if (statuses.length > 0 && !statuses.some(status => statusesReached.has(status))) return;
+
+    statusesReached.forEach(status => reached[status]++);
+    moves.push({ entry, from: statusBefore.get(entry.id) ?? null, to: entry.status, transitions });
+  });
+
+  return { from, to, moves, reached, total: moves.length };
+};
+
+/**
+ * Read ?status= for a comparison: comma-separated statuses, all optional
+ */
+export const parseStatusList = (value: unknown): LedgerStatus[] => {
+  if (value === undefined || value === '') {
+    return [];
+  }
+  const values = (Array.isArray(value) ? value : [value]).flatMap(item => String(item).split(','));
+  return values.map(status => {
+    const trimmed = status.trim();
+    if (!(LEDGER_STATUSES as readonly string[]).includes(trimmed)) {
+      throw new LedgerQueryError(`Invalid status "${trimmed}". Must be one of: ${LEDGER_STATUSES.join(', ')}`);
+    }
+    return trimmed as LedgerStatus;
+  });
+};
@@ -0,0 +1,78 @@
+// [accelerate] Probe Scheduler
+// Checks open probes against their timeboxes and flags the ones that overran as dormant
+// candidates, announcing each once on the project's live feed as a probe_expired message
+
+import type { LedgerEntry } from './[accelerate]-systemic-ledger-api';
+import type { LedgerEvent } from './[safeguard]-ledger-storage';
+import type { LedgerChangeFeed } from './[accelerate]-ledger-change-feed';
+import { buildProbeTimeboxes, ProbeTimebox } from './[accelerate]-probe-timebox';
+
+// The parts of a project ledger the scheduler reads
+export interface ScheduledLedger {
+  entries: LedgerEntry[];
+  events: LedgerEvent[];
+  feed: LedgerChangeFeed;
+}
+
+export interface ProbeExpiry extends ProbeTimebox<LedgerEntry> {
+  project_id: string;
+}
+
+const DEFAULT_INTERVAL = 60 * 1000;
+
+export class ProbeScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  // Expired probes already announced, per project; a probe leaves the set once it is
+  // closed or its deadline is extended, so a later overrun is announced again
+  private flagged = new Map<string, Set<string>>();
+
+  constructor(
+    private readonly openLedgers: () => Promise<Array<[string, ScheduledLedger]>>,
+    private readonly interval: number = Number(process.env['PROBE_CHECK_INTERVAL_MS']) || DEFAULT_INTERVAL
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.check().catch(error => console.error('Error checking probe timeboxes:', error));
+    }, this.interval);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Flag probes whose timebox ran out since the last check, returning the newly expired ones
+   */
+  async check(now: number = Date.now()): Promise<ProbeExpiry[]> {
+    const expired: ProbeExpiry[] = [];
+
+    for (const [projectId, ledger] of await this.openLedgers()) {
+      const previous = this.flagged.get(projectId) ?? new Set<string>();
+      const current = new Set<string>();
+
+      buildProbeTimeboxes(ledger.entries, ledger.events, now)
+        .filter(probe => probe.state === 'expired')
+        .forEach(probe => {
+          current.add(probe.entry.id);
+          if (previous.has(probe.entry.id)) return;
+
+          const expiry: ProbeExpiry = { ...probe, project_id: projectId };
+          ledger.feed.notify('probe_expired', expiry);
+          expired.push(expiry);
+        });
+
+      this.flagged.set(projectId, current);
+    }
+
+    expired.forEach(({ entry, project_id }) => {
+      console.log(`[clarify] Probe "${entry.content['title'] || entry.seek}" in ${project_id} overran its timebox`);
+    });
+    return expired;
+  }
+}
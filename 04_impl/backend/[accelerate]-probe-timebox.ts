@@ -0,0 +1,130 @@
+// [accelerate] Probe Timeboxes
+// Deadlines for probes, the ledger's time-boxed experiments. A probe's timebox runs from the
+// moment it became active unless content.deadline sets (or extends) the end explicitly.
+// Pure module (no Node or network imports) so the browser ledger can share it.
+
+import { LedgerQueryError, LedgerStatus, QueryableEntry } from './[accelerate]-ledger-query';
+
+type LedgerEntry = QueryableEntry;
+
+// The ledger events that start a timebox (the storage engine's LedgerEvent fits this)
+type TimeboxSourceEvent =
+  | { type: 'entry_created'; timestamp: string; entry: LedgerEntry }
+  | { type: 'status_changed'; timestamp: string; entry_id: string; from: LedgerStatus; status: LedgerStatus }
+  | { type: 'entry_amended' | 'link_added' | 'link_removed'; timestamp: string; entry_id: string };
+
+export const PROBE_RESULTS = ['confirmed', 'refuted', 'inconclusive'] as const;
+export type ProbeResult = typeof PROBE_RESULTS[number];
+
+// Where a probe goes once its outcome is recorded, unless the caller picks another status
+export const OUTCOME_STATUS: Record<ProbeResult, LedgerStatus> = {
+  confirmed: 'integrated',
+  refuted: 'archived',
+  inconclusive: 'dormant'
+};
+
+export const PROBE_STATES = ['not_started', 'running', 'expired', 'closed'] as const;
+export type ProbeState = typeof PROBE_STATES[number];
+
+export interface ProbeTimebox<T extends LedgerEntry = LedgerEntry> {
+  entry: T;
+  state: ProbeState; // expired probes are candidates for dormant
+  timebox: string | null;
+  started_at: string | null;
+  deadline: string | null;
+  remaining_ms: number | null; // negative once the deadline has passed
+}
+
+const UNIT_MS = { h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+
+// Probes that are still running their experiment
+const OPEN_STATUSES: LedgerStatus[] = ['active', 'blocked'];
+
+/**
+ * Length of a timebox such as 4h, 3d or 2w in milliseconds, or null if it is not one
+ */
+export const parseTimebox = (timebox: unknown): number | null => {
+  const match = typeof timebox === 'string' ? /^([1-9][0-9]*)([hdw])$/.exec(timebox) : null;
+  return match ? Number(match[1]) * UNIT_MS[match[2] as keyof typeof UNIT_MS] : null;
+};
+
+/**
+ * When each probe's current run started: the last time it was created active or moved to
+ * active from proposed or dormant. Unblocking does not restart the clock.
+ */
+export const probeStartTimes = (events: TimeboxSourceEvent[]): Map<string, string> => {
+  const probes = new Set<string>();
+  const starts = new Map<string, string>();
+
+  events.forEach(event => {
+    if (event.type === 'entry_created') {
+      if (event.entry.level !== 'probe') return;
+      probes.add(event.entry.id);
+      if (event.entry.status === 'active') {
+        starts.set(event.entry.id, event.timestamp);
+      }
+    } else if (event.type === 'status_changed' && probes.has(event.entry_id)) {
+      if (event.status === 'active' && event.from !== 'blocked') {
+        starts.set(event.entry_id, event.timestamp);
+      }
+    }
+  });
+
+  return starts;
+};
+
+/**
+ * Timebox state of one probe at `now`
+ */
+export const probeTimebox = <T extends LedgerEntry>(entry: T, startedAt: string | null, now: number = Date.now()): ProbeTimebox<T> => {
+  const timebox = typeof entry.content['timebox'] === 'string' ? entry.content['timebox'] : null;
+  const length = parseTimebox(timebox);
+  const explicit = typeof entry.content['deadline'] === 'string' ? Date.parse(entry.content['deadline']) : NaN;
+
+  let end: number | null = null;
+  if (!Number.isNaN(explicit)) {
+    end = explicit;
+  } else if (startedAt && length !== null) {
+    end = Date.parse(startedAt) + length;
+  }
+
+  let state: ProbeState;
+  if (!OPEN_STATUSES.includes(entry.status)) {
+    state = entry.status === 'proposed' ? 'not_started' : 'closed';
+  } else {
+    state = end !== null && end <= now ? 'expired' : 'running';
+  }
+
+  return {
+    entry,
+    state,
+    timebox,
+    started_at: startedAt,
+    deadline: end === null ? null : new Date(end).toISOString(),
+    remaining_ms: end === null || state === 'closed' ? null : end - now
+  };
+};
+
+/**
+ * Timeboxes of every probe, most overdue first
+ */
+export const buildProbeTimeboxes = <T extends LedgerEntry>(entries: T[], events: TimeboxSourceEvent[], now: number = Date.now()): ProbeTimebox<T>[] => {
+  const starts = probeStartTimes(events);
+  return entries
+    .filter(entry => entry.level === 'probe')
+    .map(entry => probeTimebox(entry, starts.get(entry.id) ?? null, now))
+    .sort((a, b) => (a.remaining_ms ?? Infinity) - (b.remaining_ms ?? Infinity));
+};
+
+/**
+ * Read ?state= for a probe listing
+ */
+export const parseProbeState = (value: unknown): ProbeState | null => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string' || !(PROBE_STATES as readonly string[]).includes(value)) {
+    throw new LedgerQueryError(`Invalid state. Must be one of: ${PROBE_STATES.join(', ')}`);
+  }
+  return value as ProbeState;
+};
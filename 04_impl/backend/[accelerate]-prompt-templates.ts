@@ -0,0 +1,280 @@
+// [accelerate] Prompt Templates
+// The instructions handed to builder AIs, kept as templates the team can tune without
+// touching TypeScript. There is one template per builder type, plus variants for user
+// preference profiles (e.g. low detail). Every edit is kept as a version, so a tuning that
+// reads worse can be rolled back.
+// Pure module (no Node or network imports), like the wisdom memory helpers.
+
+export type BuilderType = 'code' | 'design' | 'planning' | 'analysis';
+export const BUILDER_TYPES: BuilderType[] = ['code', 'design', 'planning', 'analysis'];
+
+// The user preferences a template can be written for; a template names the values it suits
+export const PROFILE_KEYS = ['communication_style', 'detail_level', 'learning_pace'] as const;
+export type ProfileKey = typeof PROFILE_KEYS[number];
+export type TemplateProfile = Partial<Record<ProfileKey, string>>;
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  created_at: string;
+  source: 'file' | 'api'; // read from prompt-templates/<id>.md, or saved through the API
+  note: string | null;
+}
+
+export interface PromptTemplate {
+  id: string;
+  builder_type: BuilderType;
+  profile: TemplateProfile; // empty for the builder type's default template
+  description: string;
+  active_version: number;
+  versions: PromptTemplateVersion[]; // oldest first
+}
+
+// A template as written in a file, before it has versions
+export interface TemplateDefinition {
+  id: string;
+  builder_type: BuilderType;
+  profile: TemplateProfile;
+  description: string;
+  body: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  used: string[]; // variables the template refers to
+  unknown: string[]; // names that are not variables, usually typos
+}
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+// Every variable a template can use, and where its value comes from
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  task: 'The task given to the builder',
+  builder_type: 'code, design, planning or analysis',
+  context: 'The task, mission and pillars, fitted into the context budget',
+  'mission.seek': 'What the mission seeks',
+  'mission.why': 'Why the mission matters',
+  pillars: 'One line per active pillar: "- seek: why"',
+  wisdom: 'One line per wisdom insight relevant to the task',
+  'preferences.communication_style': 'visual, text, voice or mixed',
+  'preferences.detail_level': 'high, medium or low',
+  'preferences.learning_pace': 'fast, moderate or slow',
+  'preferences.accessibility_needs': 'Comma-separated accessibility needs',
+  'preferences.preferred_feedback': 'Comma-separated feedback preferences'
+};
+
+export const TEMPLATE_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// Used when no template suits a builder type, e.g. when prompt-templates/ is missing
+export const FALLBACK_TEMPLATE_BODY = `Please complete the following task.
+
+{{context}}
+{{#wisdom}}
+
+User Preferences & Insights:
+{{wisdom}}
+{{/wisdom}}`;
+
+// {{#name}}...{{/name}} is kept only when the variable has a value; a tag alone on its line
+// takes its line break with it
+const SECTION_PATTERN = /\{\{#\s*([\w.]+)\s*\}\}\n?([\s\S]*?)\{\{\/\s*\1\s*\}\}\n?/g;
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Read a template file: a header of `key: value` lines between `---` lines, then the body.
+ * The header names the builder type, may describe the template and may give profile values.
+ */
+export const parseTemplateFile = (id: string, raw: string): TemplateDefinition => {
+  const match = raw.replace(/\r\n/g, '\n').match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+  if (!match) {
+    throw new PromptTemplateError(`Template ${id} must start with a header between --- lines`);
+  }
+
+  const header: Record<string, string> = {};
+  for (const line of (match[1] ?? '').split('\n')) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    const colon = line.indexOf(':');
+    if (colon < 0) {
+      throw new PromptTemplateError(`Template ${id}: header line "${line}" is not "key: value"`);
+    }
+    header[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  }
+
+  const builderType = header['builder_type'];
+  if (!builderType || !BUILDER_TYPES.includes(builderType as BuilderType)) {
+    throw new PromptTemplateError(`Template ${id}: builder_type must be one of: ${BUILDER_TYPES.join(', ')}`);
+  }
+
+  const profile: TemplateProfile = {};
+  PROFILE_KEYS.forEach(key => {
+    const value = header[key];
+    if (value) profile[key] = value;
+  });
+
+  return {
+    id,
+    builder_type: builderType as BuilderType,
+    profile,
+    description: header['description'] ?? '',
+    body: (match[2] ?? '').trim()
+  };
+};
+
+export const createTemplate = (
+  definition: TemplateDefinition,
+  source: PromptTemplateVersion['source'],
+  now: string = new Date().toISOString()
+): PromptTemplate => ({
+  id: definition.id,
+  builder_type: definition.builder_type,
+  profile: { ...definition.profile },
+  description: definition.description,
+  active_version: 1,
+  versions: [{ version: 1, body: definition.body, created_at: now, source, note: null }]
+});
+
+/**
+ * Store `body` as the template's next version and make it the active one
+ */
+export const addVersion = (
+  template: PromptTemplate,
+  body: string,
+  source: PromptTemplateVersion['source'],
+  note: string | null = null,
+  now: string = new Date().toISOString()
+): PromptTemplateVersion => {
+  const latest = template.versions[template.versions.length - 1];
+  const version: PromptTemplateVersion = {
+    version: (latest?.version ?? 0) + 1,
+    body,
+    created_at: now,
+    source,
+    note
+  };
+  template.versions.push(version);
+  template.active_version = version.version;
+  return version;
+};
+
+export const findVersion = (template: PromptTemplate, version: number = template.active_version): PromptTemplateVersion | undefined =>
+  template.versions.find(candidate => candidate.version === version);
+
+/**
+ * Bring stored templates in line with the template files. A file not seen before becomes a
+ * template; an edited file becomes a new version, made active unless someone has since
+ * chosen a version saved through the API. Returns whether anything changed.
+ */
+export const syncTemplateDefinitions = (
+  templates: PromptTemplate[],
+  definitions: TemplateDefinition[],
+  now: string = new Date().toISOString()
+): boolean => {
+  let changed = false;
+
+  definitions.forEach(definition => {
+    const template = templates.find(candidate => candidate.id === definition.id);
+    if (!template) {
+      templates.push(createTemplate(definition, 'file', now));
+      changed = true;
+      return;
+    }
+
+    template.builder_type = definition.builder_type;
+    template.profile = { ...definition.profile };
+    template.description = definition.description;
+
+    const fileVersions = template.versions.filter(version => version.source === 'file');
+    const lastFromFile = fileVersions[fileVersions.length - 1];
+    if (lastFromFile?.body === definition.body) return;
+
+    const followsFile = findVersion(template)?.source !== 'api';
+    const previous = template.active_version;
+    addVersion(template, definition.body, 'file', `Updated in prompt-templates/${definition.id}.md`, now);
+    if (!followsFile) template.active_version = previous;
+    changed = true;
+  });
+
+  return changed;
+};
+
+/**
+ * The template for a builder type that best suits the user's preferences: of those whose
+ * profile values all match, the one naming the most values. Ties go to the lower id.
+ */
+export const selectTemplate = (
+  templates: PromptTemplate[],
+  builderType: string,
+  preferences: Partial<Record<ProfileKey, string>>
+): PromptTemplate | null =>
+  templates
+    .filter(template =>
+      template.builder_type === builderType &&
+      Object.entries(template.profile).every(([key, value]) => preferences[key as ProfileKey] === value)
+    )
+    .sort((a, b) =>
+      Object.keys(b.profile).length - Object.keys(a.profile).length ||
+      a.id.localeCompare(b.id)
+    )[0] ?? null;
+
+// Names a body refers to that are not variables
+export const unknownVariables = (body: string): string[] => {
+  const names = new Set<string>();
+  for (const match of body.matchAll(/\{\{\s*[#/]?\s*([\w.]+)\s*\}\}/g)) {
+    const name = match[1] ?? '';
+    if (!(name in TEMPLATE_VARIABLES)) names.add(name);
+  }
+  return [...names];
+};
+
+/**
+ * Fill a template's variables. Sections of empty variables are left out, and unknown names
+ * render as nothing (and are reported) so a typo never reaches the builder as {{...}}.
+ */
+export const renderTemplate = (body: string, variables: Record<string, string>): RenderedPrompt => {
+  const used = new Set<string>();
+  const withSections = body.replace(SECTION_PATTERN, (_whole, name: string, inner: string) => {
+    used.add(name);
+    return variables[name]?.trim() ? inner : '';
+  });
+  const text = withSections.replace(VARIABLE_PATTERN, (_whole, name: string) => {
+    used.add(name);
+    return variables[name] ?? '';
+  });
+
+  return {
+    text: text.replace(/\n{3,}/g, '\n\n').trim(),
+    used: [...used].filter(name => name in TEMPLATE_VARIABLES),
+    unknown: unknownVariables(body)
+  };
+};
+
+// What a builder prompt is made from; the orchestrator gathers it from the ledger and wisdom
+export interface BuilderPromptInput {
+  task: string;
+  builderType: string;
+  context: string;
+  mission: { seek?: string; why?: string } | null;
+  pillars: Array<{ seek?: string; why?: string }>;
+  wisdom: Array<{ insight: string }>;
+  preferences: Partial<Record<ProfileKey, string>> & { accessibility_needs?: string[]; preferred_feedback?: string[] };
+}
+
+export const templateVariables = (input: BuilderPromptInput): Record<string, string> => ({
+  task: input.task,
+  builder_type: input.builderType,
+  context: input.context,
+  'mission.seek': input.mission?.seek ?? '',
+  'mission.why': input.mission?.why ?? '',
+  pillars: input.pillars.map(pillar => `- ${pillar.seek ?? ''}: ${pillar.why ?? ''}`).join('\n'),
+  wisdom: input.wisdom.map(wisdom => `- ${wisdom.insight}`).join('\n'),
+  'preferences.communication_style': input.preferences.communication_style ?? '',
+  'preferences.detail_level': input.preferences.detail_level ?? '',
+  'preferences.learning_pace': input.preferences.learning_pace ?? '',
+  'preferences.accessibility_needs': (input.preferences.accessibility_needs ?? []).join(', '),
+  'preferences.preferred_feedback': (input.preferences.preferred_feedback ?? []).join(', ')
+});
@@ -5,8 +5,67 @@
 
 import express from 'express';
 import cors from 'cors';
+import fs from 'fs';
+import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { setupSecurityMiddleware, rateLimits } from './[safeguard]-security-middleware';
+import {
+  createLedgerStorage,
+  applyLedgerEvent,
+  replayLedgerEvents,
+  replayLedgerEventsAsOf,
+  LedgerEvent,
+  LedgerStorage,
+  LedgerStorageError
+} from './[safeguard]-ledger-storage';
+import { checkStatusTransition } from './[safeguard]-ledger-status-machine';
+import { buildLedgerTree, findTreeNode, validateParent } from './[accelerate]-ledger-hierarchy';
+import { parseBuildJournal, exportBuildJournal } from './[clarify]-build-journal';
+import { LedgerChangeFeed, LedgerChange, toLedgerChange } from './[accelerate]-ledger-change-feed';
+import { queryLedgerEntries, parseLedgerQueryParams, LedgerQuery, LedgerQueryError } from './[accelerate]-ledger-query';
+import {
+  validateLedgerEntryInput,
+  validateLedgerContent,
+  validateLedgerAmendment,
+  validateLedgerStatus,
+  validateProbeOutcome,
+  validateLedgerLink,
+  formatFieldErrors
+} from './[safeguard]-ledger-validation';
+import { buildEntryRevisions, changedFields, diffRevisions, parseAsOf } from './[clarify]-ledger-revisions';
+import { buildLedgerTimeline, compareLedgerSnapshots, parseStatusList } from './[accelerate]-ledger-timeline';
+import { buildProbeTimeboxes, parseProbeState, OUTCOME_STATUS } from './[accelerate]-probe-timebox';
+import { ProbeScheduler } from './[accelerate]-probe-scheduler';
+import {
+  buildDependencyGraph,
+  findDependencyCycle,
+  findWorkableEntries,
+  openBlockers,
+  EntryLink
+} from './[accelerate]-ledger-dependencies';
+import { planLedgerImport, summarizeImportPlan, ImportConflict, LedgerImportResult } from './[safeguard]-ledger-import';
+import {
+  chainHead,
+  createLedgerBackup,
+  isLedgerBackup,
+  sealLedgerEvent,
+  sealLegacyEvents,
+  signLedgerHead,
+  verifyLedgerBackup,
+  verifyLedgerChain,
+  BackupVerification,
+  ChainVerification
+} from './[safeguard]-ledger-integrity';
+import {
+  DEFAULT_PROJECT_ID,
+  ProjectScopeError,
+  getProjectId,
+  isValidProjectId,
+  toProjectId,
+  notifyProjectPeers,
+  sendProjectScopeError
+} from './[clarify]-project-scope';
+import { createProjectRegistry, ProjectRecord } from './[clarify]-project-registry';
 
 // Types based on contract schema
 export interface LedgerEntry {
@@ -18,21 +77,115 @@ export interface LedgerEntry {
   why: string;
   content: Record<string, any>;
   status: 'proposed' | 'active' | 'blocked' | 'integrated' | 'archived' | 'dormant';
+  parent_id?: string | null;
+  // Chain hashes of the last event that changed this entry (GET /ledger/verify checks them)
+  hash?: string;
+  prev_hash?: string;
+  links?: EntryLink[];
 }
 
-export interface LedgerFilter {
-  level?: LedgerEntry['level'];
-  purpose_tag?: LedgerEntry['purpose_tag'];
-  status?: LedgerEntry['status'];
-  startDate?: string;
-  endDate?: string;
+export type LedgerFilter = LedgerQuery;
+
+export interface LedgerHistoryItem {
+  event_id: string;
+  type: 'created' | 'status_changed';
+  timestamp: string;
+  actor: string;
+  from: LedgerEntry['status'] | null;
+  to: LedgerEntry['status'];
+  reason: string | null;
+}
+
+// One ledger per project: durable event storage (LEDGER_STORAGE=jsonl|sqlite|memory),
+// the entries projected from its events, its own change stream, and the hash chain's head
+interface ProjectLedger {
+  storage: LedgerStorage;
+  events: LedgerEvent[];
+  entries: LedgerEntry[];
+  feed: LedgerChangeFeed;
+  head: string;
+  writes: Promise<unknown>; // the last queued recordEvent; each write waits for the one before
 }
 
-// In-memory storage (replace with database in production)
-let ledgerEntries: LedgerEntry[] = [];
+const projects = createProjectRegistry();
+const ledgers = new Map<string, Promise<ProjectLedger>>();
+
+// Open a project's ledger on first use by replaying its stored events
+const loadLedger = (projectId: string): Promise<ProjectLedger> => {
+  let ledger = ledgers.get(projectId);
+  if (!ledger) {
+    ledger = (async () => {
+      const storage = createLedgerStorage(projectId);
+      const stored = await storage.readAll();
+      const chain = verifyLedgerChain(stored);
+      if (!chain.valid) {
+        console.warn(`Ledger "${projectId}" hash chain has ${chain.breaks.length} break(s); see GET /ledger/verify`);
+      }
+      // Events stored before the chain existed are hashed in memory; new events link to them
+      const events = sealLegacyEvents(stored);
+      return { storage, events, entries: replayLedgerEvents(events), feed: new LedgerChangeFeed(), head: chainHead(events), writes: Promise.resolve() };
+    })();
+    ledgers.set(projectId, ledger);
+    // A failed load is retried on the next request
+    ledger.catch(() => ledgers.delete(projectId));
+  }
+  return ledger;
+};
+
+// Flags probes that overran their timebox in every opened project
+const probeScheduler = new ProbeScheduler(async () =>
+  Promise.all(Array.from(ledgers.entries()).map(async ([projectId, opening]) => [projectId, await opening] as [string, ProjectLedger]))
+);
+
+// Seal an event onto the hash chain and persist it before applying it, so memory never runs ahead of storage.
+// Writes to one ledger are queued: two requests sealing onto the same head would fork the chain.
+const recordEvent = (ledger: ProjectLedger, unsealedEvent: LedgerEvent): Promise<LedgerEntry | null> => {
+  const recording = ledger.writes.then(async () => {
+    const event = sealLedgerEvent(unsealedEvent, ledger.head);
+    await ledger.storage.append(event);
+    ledger.events.push(event);
+    ledger.head = event.hash ?? ledger.head;
+    const entry = applyLedgerEvent(ledger.entries, event);
+    if (entry) {
+      ledger.feed.publish(toLedgerChange(ledger.events.length, event, entry));
+    }
+    return entry;
+  });
+  // A failed write is reported to its caller only; the next write still runs
+  ledger.writes = recording.catch(() => undefined);
+  return recording;
+};
+
+// The project's source of truth; the backend normally runs from 04_impl/backend
+const JOURNAL_PATH = process.env['BUILD_JOURNAL_PATH'] || path.resolve(process.cwd(), '../../BUILD_JOURNAL.md');
+
+// Seed an empty ledger from BUILD_JOURNAL.md (mission, pillars, dated sections, sagas, probes)
+const initializeFromJournal = async (ledger: ProjectLedger): Promise<boolean> => {
+  if (!fs.existsSync(JOURNAL_PATH)) {
+    return false;
+  }
+
+  const { entries } = parseBuildJournal(fs.readFileSync(JOURNAL_PATH, 'utf-8'));
+  if (entries.length === 0) {
+    return false;
+  }
+
+  for (const entry of entries) {
+    await recordEvent(ledger, {
+      id: uuidv4(),
+      type: 'entry_created',
+      timestamp: new Date().toISOString(),
+      actor: 'journal',
+      entry
+    });
+  }
+
+  console.log(`[clarify] Seeded ${entries.length} ledger entries from ${JOURNAL_PATH}`);
+  return true;
+};
 
-// Initialize with default mission and pillars from BUILD_JOURNAL.md
-const initializeDefaultEntries = () => {
+// Fallback seed when BUILD_JOURNAL.md is not available: mission and pillars copied from it
+const initializeDefaultEntries = async (ledger: ProjectLedger) => {
   const defaultEntries: Omit<LedgerEntry, 'id' | 'timestamp'>[] = [
     {
       purpose_tag: '[clarify]',
@@ -97,256 +250,1302 @@ const initializeDefaultEntries = () => {
     }
   ];
 
-  defaultEntries.forEach(entry => {
-    ledgerEntries.push({
-      ...entry,
+  // Pillars hang off the mission
+  const missionId = uuidv4();
+
+  for (const entry of defaultEntries) {
+    const timestamp = new Date().toISOString();
+    const isMission = entry.level === 'mission';
+    await recordEvent(ledger, {
       id: uuidv4(),
-      timestamp: new Date().toISOString()
+      type: 'entry_created',
+      timestamp,
+      actor: 'system',
+      entry: {
+        ...entry,
+        id: isMission ? missionId : uuidv4(),
+        timestamp,
+        parent_id: isMission ? null : missionId
+      }
     });
-  });
+  }
 };
 
-// Initialize default entries
-initializeDefaultEntries();
+// Replay the default project on startup; seed it only when empty. New projects start empty.
+const initializeLedger = async () => {
+  const ledger = await loadLedger(DEFAULT_PROJECT_ID);
+
+  if (ledger.events.length === 0 && !(await initializeFromJournal(ledger))) {
+    await initializeDefaultEntries(ledger);
+  }
+
+  console.log(`[safeguard] Replayed ${ledger.events.length} ledger events from ${ledger.storage.kind} storage`);
+  console.log(`[clarify] ${projects.list().length} project(s) registered`);
+};
 
 const app = express();
 const PORT = process.env['PORT'] || 3001;
 
 // Security middleware
-setupSecurityMiddleware(app);
+// Imports carry whole journals and backups; the import route validates them against the contract
+setupSecurityMiddleware(app, { rawBodyPaths: ['/ledger/import'] });
 
 // Rate limiting
 app.use('/ledger', rateLimits.general);
 app.use('/ledger/entries', rateLimits.api);
+app.use('/projects', rateLimits.general);
 
-// Validation middleware
-const validatePurposeTag = (purpose_tag: string): purpose_tag is LedgerEntry['purpose_tag'] => {
-  return ['[clarify]', '[accelerate]', '[safeguard]', '[monetize]', '[empathize]', '[delight]'].includes(purpose_tag);
-};
+// Every /ledger route works on the ledger of the request's project (X-Project-Id or ?project=)
+app.use('/ledger', async (req, res, next) => {
+  try {
+    const projectId = getProjectId(req);
+    const project = projects.get(projectId);
+
+    if (!project) {
+      return res.status(404).json({
+        error: `Project ${projectId} not found`
+      });
+    }
+
+    if (project.archived_at && req.method !== 'GET') {
+      return res.status(409).json({
+        error: `Project ${projectId} is archived and read-only`
+      });
+    }
+
+    res.locals['projectId'] = projectId;
+    res.locals['ledger'] = await loadLedger(projectId);
+    return next();
+
+  } catch (error) {
+    if (error instanceof ProjectScopeError) {
+      return sendProjectScopeError(res, error);
+    }
+    console.error('Error opening project ledger:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
 
-const validateLevel = (level: string): level is LedgerEntry['level'] => {
-  return ['mission', 'pillar', 'epic', 'saga', 'probe'].includes(level);
+const currentLedger = (res: express.Response): ProjectLedger => res.locals['ledger'] as ProjectLedger;
+
+// Current entries, or the entries as they stood at ?as_of= (rebuilt from the events up to then)
+const entriesAsOf = (ledger: ProjectLedger, asOf: string | null): LedgerEntry[] =>
+  asOf ? replayLedgerEventsAsOf(ledger.events, asOf) : ledger.entries;
+
+// Who made the change; the UI sends a display name, scripts may omit it
+const getActor = (req: express.Request): string => {
+  const actor = req.body?.actor;
+  return typeof actor === 'string' && actor.trim() !== '' ? actor.trim().substring(0, 100) : 'anonymous';
 };
 
-const validateStatus = (status: string): status is LedgerEntry['status'] => {
-  return ['proposed', 'active', 'blocked', 'integrated', 'archived', 'dormant'].includes(status);
+// Status timeline for one entry, oldest first
+const buildEntryHistory = (ledger: ProjectLedger, entryId: string): LedgerHistoryItem[] => {
+  const history: LedgerHistoryItem[] = [];
+
+  for (const event of ledger.events) {
+    if (event.type === 'entry_created' && event.entry.id === entryId) {
+      history.push({
+        event_id: event.id,
+        type: 'created',
+        timestamp: event.timestamp,
+        actor: event.actor,
+        from: null,
+        to: event.entry.status,
+        reason: null
+      });
+    } else if (event.type === 'status_changed' && event.entry_id === entryId) {
+      history.push({
+        event_id: event.id,
+        type: 'status_changed',
+        timestamp: event.timestamp,
+        actor: event.actor,
+        from: event.from,
+        to: event.status,
+        reason: event.reason
+      });
+    }
+  }
+
+  return history;
 };
 
 // API Routes
 
 // POST /ledger/entries - Add new entry
-app.post('/ledger/entries', (req, res) => {
+app.post('/ledger/entries', async (req, res) => {
   try {
-    const { purpose_tag, level, seek, why, content, status = 'proposed' } = req.body;
+    const ledger = currentLedger(res);
 
-    // Validation
-    if (!purpose_tag || !validatePurposeTag(purpose_tag)) {
+    // Validate against the contract (/03_contract/ledger.yaml), including the content shape for the level
+    const validation = validateLedgerEntryInput(req.body);
+    if (!validation.success) {
       return res.status(400).json({
-        error: 'Invalid purpose_tag. Must be one of: [clarify], [accelerate], [safeguard], [monetize], [empathize], [delight]'
+        error: `Invalid ledger entry: ${formatFieldErrors(validation.fields)}`,
+        fields: validation.fields
       });
     }
 
-    if (!level || !validateLevel(level)) {
+    const { purpose_tag, level, seek, why, content, status, parent_id } = validation.data;
+
+    const parentError = validateParent(level, parent_id, ledger.entries);
+    if (parentError) {
       return res.status(400).json({
-        error: 'Invalid level. Must be one of: mission, pillar, epic, saga, probe'
+        error: parentError
       });
     }
 
-    if (!seek || typeof seek !== 'string') {
+    // Create new entry
+    const timestamp = new Date().toISOString();
+    const newEntry = await recordEvent(ledger, {
+      id: uuidv4(),
+      type: 'entry_created',
+      timestamp,
+      actor: getActor(req),
+      entry: {
+        id: uuidv4(),
+        timestamp,
+        purpose_tag,
+        level,
+        seek,
+        why,
+        content,
+        status,
+        parent_id
+      }
+    });
+
+    res.status(201).json({
+      message: 'Entry created successfully',
+      entry: newEntry
+    });
+
+  } catch (error) {
+    console.error('Error creating entry:', error);
+    res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /ledger/entries - Search entries with free text, facets, sorting and cursor pagination (?as_of= for a past moment)
+app.get('/ledger/entries', (req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const query = parseLedgerQueryParams(req.query);
+    const result = queryLedgerEntries(entriesAsOf(ledger, parseAsOf(req.query['as_of'])), query);
+
+    return res.json(result);
+
+  } catch (error) {
+    if (error instanceof LedgerQueryError) {
       return res.status(400).json({
-        error: 'seek field is required and must be a string'
+        error: error.message
       });
     }
+    console.error('Error retrieving entries:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// PUT /ledger/entries/{id}/status - Update entry status
+app.put('/ledger/entries/:id/status', async (req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const { id } = req.params;
+    const { reason } = req.body;
 
-    if (!why || typeof why !== 'string') {
+    const statusCheck = validateLedgerStatus(req.body.status);
+    if (!statusCheck.success) {
       return res.status(400).json({
-        error: 'why field is required and must be a string'
+        error: `Invalid status: ${formatFieldErrors(statusCheck.fields)}`,
+        fields: statusCheck.fields
       });
     }
+    const status = statusCheck.data;
 
-    if (!content || typeof content !== 'object') {
+    if (!reason || typeof reason !== 'string' || reason.trim() === '') {
       return res.status(400).json({
-        error: 'content field is required and must be an object'
+        error: 'reason field is required and must explain the status change'
       });
     }
 
-    if (!validateStatus(status)) {
-      return res.status(400).json({
-        error: 'Invalid status. Must be one of: proposed, active, blocked, integrated, archived, dormant'
+    const existing = ledger.entries.find(entry => entry.id === id);
+    
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Entry not found'
       });
     }
 
-    // Create new entry
-    const newEntry: LedgerEntry = {
+    const transition = checkStatusTransition(existing.status, status);
+    if (!transition.allowed) {
+      return res.status(409).json({
+        error: transition.reason,
+        current_status: existing.status,
+        allowed_statuses: transition.allowedNext
+      });
+    }
+
+    // Update status (appended as its own event)
+    const entry = await recordEvent(ledger, {
       id: uuidv4(),
+      type: 'status_changed',
       timestamp: new Date().toISOString(),
-      purpose_tag,
-      level,
-      seek,
-      why,
-      content,
-      status
-    };
-
-    ledgerEntries.push(newEntry);
+      actor: getActor(req),
+      entry_id: existing.id,
+      from: existing.status,
+      status,
+      reason: reason.trim().substring(0, 1000)
+    });
 
-    res.status(201).json({
-      message: 'Entry created successfully',
-      entry: newEntry
+    return res.json({
+      message: 'Status updated successfully',
+      entry: entry
     });
 
   } catch (error) {
-    console.error('Error creating entry:', error);
+    console.error('Error updating entry status:', error);
     res.status(500).json({
       error: 'Internal server error'
     });
   }
 });
 
-// GET /ledger/entries - Retrieve entries with optional filtering
-app.get('/ledger/entries', (req, res) => {
+// POST /ledger/entries/{id}/amend - Replace seek, why or content; earlier values stay as revisions
+app.post('/ledger/entries/:id/amend', async (req, res) => {
   try {
-    const { level, purpose_tag, status, startDate, endDate } = req.query;
-    
-    let filtered = [...ledgerEntries];
+    const ledger = currentLedger(res);
+    const { id } = req.params;
 
-    // Apply filters
-    if (level && validateLevel(level as string)) {
-      filtered = filtered.filter(entry => entry.level === level);
+    const validation = validateLedgerAmendment(req.body);
+    if (validation.success === false) {
+      return res.status(400).json({
+        error: `Invalid amendment: ${formatFieldErrors(validation.fields)}`,
+        fields: validation.fields
+      });
     }
 
-    if (purpose_tag && validatePurposeTag(purpose_tag as string)) {
-      filtered = filtered.filter(entry => entry.purpose_tag === purpose_tag);
-    }
+    const existing = ledger.entries.find(entry => entry.id === id);
 
-    if (status && validateStatus(status as string)) {
-      filtered = filtered.filter(entry => entry.status === status);
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Entry not found'
+      });
     }
 
-    if (startDate && typeof startDate === 'string') {
-      filtered = filtered.filter(entry => entry.timestamp >= startDate);
+    // content replaces the whole content object, so fields can be removed as well as fixed
+    const { seek, why, content, reason } = validation.data;
+    const changes = changedFields(existing, { seek, why, content });
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({
+        error: 'Amendment changes nothing: send a new seek, why or content'
+      });
     }
 
-    if (endDate && typeof endDate === 'string') {
-      filtered = filtered.filter(entry => entry.timestamp <= endDate);
+    // New content must match the shape for the entry's level. Only the amended fields are
+    // checked, so entries seeded from the journal before the per-level shapes stay amendable.
+    if (changes.content !== undefined) {
+      const amended = validateLedgerContent(existing.level, changes.content);
+      if (amended.success === false) {
+        return res.status(400).json({
+          error: `Invalid ledger entry: ${formatFieldErrors(amended.fields)}`,
+          fields: amended.fields
+        });
+      }
     }
 
-    // Sort by timestamp (newest first)
-    filtered.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    const entry = await recordEvent(ledger, {
+      id: uuidv4(),
+      type: 'entry_amended',
+      timestamp: new Date().toISOString(),
+      actor: getActor(req),
+      entry_id: existing.id,
+      changes,
+      reason: reason.trim()
+    });
 
-    res.json({
-      entries: filtered,
-      total: filtered.length
+    return res.json({
+      message: 'Entry amended successfully',
+      revision: buildEntryRevisions(ledger.events, existing.id).length,
+      entry
     });
 
   } catch (error) {
-    console.error('Error retrieving entries:', error);
-    res.status(500).json({
+    console.error('Error amending entry:', error);
+    return res.status(500).json({
       error: 'Internal server error'
     });
   }
 });
 
-// PUT /ledger/entries/{id}/status - Update entry status
-app.put('/ledger/entries/:id/status', (req, res) => {
+// POST /ledger/entries/{id}/outcome - Record what a probe showed and close it
+app.post('/ledger/entries/:id/outcome', async (req, res) => {
   try {
+    const ledger = currentLedger(res);
     const { id } = req.params;
-    const { status } = req.body;
 
-    if (!status || !validateStatus(status)) {
+    const validation = validateProbeOutcome(req.body);
+    if (validation.success === false) {
       return res.status(400).json({
-        error: 'Invalid status. Must be one of: proposed, active, blocked, integrated, archived, dormant'
+        error: `Invalid outcome: ${formatFieldErrors(validation.fields)}`,
+        fields: validation.fields
       });
     }
 
-    const entryIndex = ledgerEntries.findIndex(entry => entry.id === id);
-    
-    if (entryIndex === -1) {
+    const existing = ledger.entries.find(entry => entry.id === id);
+
+    if (!existing) {
       return res.status(404).json({
         error: 'Entry not found'
       });
     }
 
-    // Update status
-    const entry = ledgerEntries[entryIndex];
-    if (!entry) {
+    if (existing.level !== 'probe') {
+      return res.status(400).json({
+        error: 'Only probes record outcomes'
+      });
+    }
+
+    const { result, notes } = validation.data;
+    const status = validation.data.status ?? OUTCOME_STATUS[result];
+
+    // Check the move first, so a refused outcome leaves no half-recorded events
+    const transition = existing.status === status ? null : checkStatusTransition(existing.status, status);
+    if (transition && !transition.allowed) {
+      return res.status(409).json({
+        error: transition.reason,
+        current_status: existing.status,
+        allowed_statuses: transition.allowedNext
+      });
+    }
+
+    const actor = getActor(req);
+    const recordedAt = new Date().toISOString();
+    const outcome = notes?.trim() ? { result, notes: notes.trim(), recorded_at: recordedAt } : { result, recorded_at: recordedAt };
+    const reason = `Probe ${result}${outcome.notes ? `: ${outcome.notes}` : ''}`.substring(0, 1000);
+
+    // The outcome is kept in the probe's content, so it shows in revisions and exports
+    let entry = await recordEvent(ledger, {
+      id: uuidv4(),
+      type: 'entry_amended',
+      timestamp: recordedAt,
+      actor,
+      entry_id: existing.id,
+      changes: { content: { ...existing.content, outcome } },
+      reason
+    });
+
+    if (transition) {
+      entry = await recordEvent(ledger, {
+        id: uuidv4(),
+        type: 'status_changed',
+        timestamp: recordedAt,
+        actor,
+        entry_id: existing.id,
+        from: existing.status,
+        status,
+        reason
+      });
+    }
+
+    return res.json({
+      message: 'Probe outcome recorded successfully',
+      entry
+    });
+
+  } catch (error) {
+    console.error('Error recording probe outcome:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// POST /ledger/entries/{id}/links - Link an entry to another: blocks, depends_on or relates_to
+app.post('/ledger/entries/:id/links', async (req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const { id } = req.params;
+
+    const validation = validateLedgerLink(req.body);
+    if (validation.success === false) {
+      return res.status(400).json({
+        error: `Invalid link: ${formatFieldErrors(validation.fields)}`,
+        fields: validation.fields
+      });
+    }
+    const { type, target_id, reason } = validation.data;
+
+    const existing = ledger.entries.find(entry => entry.id === id);
+    if (!existing) {
       return res.status(404).json({
         error: 'Entry not found'
       });
     }
-    
-    entry.status = status;
 
-    return res.json({
-      message: 'Status updated successfully',
-      entry: entry
+    if (target_id === existing.id) {
+      return res.status(400).json({
+        error: 'An entry cannot link to itself'
+      });
+    }
+
+    if (!ledger.entries.some(entry => entry.id === target_id)) {
+      return res.status(404).json({
+        error: `Target entry ${target_id} not found`
+      });
+    }
+
+    if ((existing.links ?? []).some(link => link.type === type && link.target_id === target_id)) {
+      return res.status(409).json({
+        error: `Entry already ${type.replace('_', ' ')} ${target_id}`
+      });
+    }
+
+    const cycle = findDependencyCycle(ledger.entries, existing.id, { type, target_id });
+    if (cycle) {
+      return res.status(409).json({
+        error: 'Link would create a dependency cycle',
+        cycle
+      });
+    }
+
+    const timestamp = new Date().toISOString();
+    const link: EntryLink = { id: uuidv4(), type, target_id, created_at: timestamp };
+    if (reason?.trim()) {
+      link.reason = reason.trim();
+    }
+
+    const entry = await recordEvent(ledger, {
+      id: uuidv4(),
+      type: 'link_added',
+      timestamp,
+      actor: getActor(req),
+      entry_id: existing.id,
+      link
+    });
+
+    return res.status(201).json({
+      message: 'Link added successfully',
+      link,
+      entry
     });
 
   } catch (error) {
-    console.error('Error updating entry status:', error);
-    res.status(500).json({
+    console.error('Error adding entry link:', error);
+    return res.status(500).json({
       error: 'Internal server error'
     });
   }
 });
 
-// GET /ledger/roadmap - Get roadmap data organized by level
-app.get('/ledger/roadmap', (req, res) => {
+// DELETE /ledger/entries/{id}/links/{linkId} - Remove a link (the event log keeps that it existed)
+app.delete('/ledger/entries/:id/links/:linkId', async (req, res) => {
   try {
-    const roadmapData = {
-      mission: ledgerEntries.filter(entry => entry.level === 'mission'),
-      pillar: ledgerEntries.filter(entry => entry.level === 'pillar'),
-      epic: ledgerEntries.filter(entry => entry.level === 'epic'),
-      saga: ledgerEntries.filter(entry => entry.level === 'saga'),
-      probe: ledgerEntries.filter(entry => entry.level === 'probe')
-    };
+    const ledger = currentLedger(res);
+    const { id, linkId } = req.params;
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim().substring(0, 1000) : '';
+
+    const existing = ledger.entries.find(entry => entry.id === id);
+    const link = existing?.links?.find(candidate => candidate.id === linkId);
+    if (!existing || !link) {
+      return res.status(404).json({
+        error: existing ? 'Link not found' : 'Entry not found'
+      });
+    }
 
-    res.json(roadmapData);
+    const entry = await recordEvent(ledger, {
+      id: uuidv4(),
+      type: 'link_removed',
+      timestamp: new Date().toISOString(),
+      actor: getActor(req),
+      entry_id: existing.id,
+      link,
+      ...(reason ? { reason } : {})
+    });
+
+    return res.json({
+      message: 'Link removed successfully',
+      entry
+    });
 
   } catch (error) {
-    console.error('Error retrieving roadmap data:', error);
-    res.status(500).json({
+    console.error('Error removing entry link:', error);
+    return res.status(500).json({
       error: 'Internal server error'
     });
   }
 });
 
-// GET /ledger/entries/{id} - Get specific entry
-app.get('/ledger/entries/:id', (req, res) => {
+// GET /ledger/entries/{id}/links - An entry's own links, links pointing at it, and what blocks it
+app.get('/ledger/entries/:id/links', (req, res) => {
   try {
+    const ledger = currentLedger(res);
     const { id } = req.params;
-    const entry = ledgerEntries.find(entry => entry.id === id);
-    
-    if (!entry) {
+
+    const existing = ledger.entries.find(entry => entry.id === id);
+    if (!existing) {
       return res.status(404).json({
         error: 'Entry not found'
       });
     }
 
-    res.json(entry);
+    const incoming = ledger.entries.flatMap(entry => (entry.links ?? [])
+      .filter(link => link.target_id === id)
+      .map(link => ({ entry_id: entry.id, link })));
+
+    return res.json({
+      entry_id: id,
+      outgoing: existing.links ?? [],
+      incoming,
+      blocked_by: openBlockers(ledger.entries).get(id) ?? []
+    });
 
   } catch (error) {
-    console.error('Error retrieving entry:', error);
-    res.status(500).json({
+    console.error('Error retrieving entry links:', error);
+    return res.status(500).json({
       error: 'Internal server error'
     });
   }
 });
 
-// Health check endpoint
-app.get('/health', (req, res) => {
-  res.json({
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    totalEntries: ledgerEntries.length
-  });
+// GET /ledger/graph - Dependency edges, blocked entries with their causes, and the critical path
+app.get('/ledger/graph', (_req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    return res.json(buildDependencyGraph(ledger.entries));
+
+  } catch (error) {
+    console.error('Error building dependency graph:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /ledger/next - What can be worked on now: active, unblocked leaf entries
+app.get('/ledger/next', (_req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const workable = findWorkableEntries(ledger.entries);
+
+    return res.json({
+      entries: workable,
+      total: workable.length
+    });
+
+  } catch (error) {
+    console.error('Error finding workable entries:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /ledger/probes - Probe timeboxes, most overdue first (?state=not_started|running|expired|closed)
+app.get('/ledger/probes', (req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const state = parseProbeState(req.query['state']);
+    const probes = buildProbeTimeboxes(ledger.entries, ledger.events);
+
+    return res.json({
+      probes: state ? probes.filter(probe => probe.state === state) : probes,
+      expired: probes.filter(probe => probe.state === 'expired').length,
+      total: probes.length
+    });
+
+  } catch (error) {
+    if (error instanceof LedgerQueryError) {
+      return res.status(400).json({
+        error: error.message
+      });
+    }
+    console.error('Error listing probe timeboxes:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`[accelerate] Systemic Ledger API running on port ${PORT}`);
-  console.log(`[clarify] Health check: http://localhost:${PORT}/health`);
-  console.log(`[clarify] API documentation: http://localhost:${PORT}/ledger/entries`);
+// GET /ledger/roadmap - Get roadmap data organized by level (?as_of= for a past moment)
+app.get('/ledger/roadmap', (req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const entries = entriesAsOf(ledger, parseAsOf(req.query['as_of']));
+    const roadmapData = {
+      mission: entries.filter(entry => entry.level === 'mission'),
+      pillar: entries.filter(entry => entry.level === 'pillar'),
+      epic: entries.filter(entry => entry.level === 'epic'),
+      saga: entries.filter(entry => entry.level === 'saga'),
+      probe: entries.filter(entry => entry.level === 'probe')
+    };
+
+    return res.json(roadmapData);
+
+  } catch (error) {
+    if (error instanceof LedgerQueryError) {
+      return res.status(400).json({
+        error: error.message
+      });
+    }
+    console.error('Error retrieving roadmap data:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
 });
 
+// GET /ledger/roadmap/compare - What moved between ?from= and ?to= (ISO date-times),
+// optionally only entries that reached ?status= (comma-separated)
+app.get('/ledger/roadmap/compare', (req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const from = parseAsOf(req.query['from']);
+    const to = parseAsOf(req.query['to']) ?? new Date().toISOString();
+    const statuses = parseStatusList(req.query['status']);
+
+    if (!from) {
+      return res.status(400).json({
+        error: 'from is required: the ISO date-time to compare against'
+      });
+    }
+    if (Date.parse(from) >= Date.parse(to)) {
+      return res.status(400).json({
+        error: 'from must be earlier than to'
+      });
+    }
+
+    return res.json(compareLedgerSnapshots(
+      entriesAsOf(ledger, from),
+      entriesAsOf(ledger, to),
+      buildLedgerTimeline(ledger.events),
+      from,
+      to,
+      statuses
+    ));
+
+  } catch (error) {
+    if (error instanceof LedgerQueryError) {
+      return res.status(400).json({
+        error: error.message
+      });
+    }
+    console.error('Error comparing roadmap dates:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /ledger/timeline - Every creation and status change, oldest first, for replaying the roadmap
+app.get('/ledger/timeline', (_req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const moments = buildLedgerTimeline(ledger.events);
+
+    res.json({
+      moments,
+      total: moments.length
+    });
+
+  } catch (error) {
+    console.error('Error building ledger timeline:', error);
+    res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /ledger/stream - Server-Sent Events feed of created and status-changed entries
+app.get('/ledger/stream', (req, res) => {
+  try {
+    const ledger = currentLedger(res);
+
+    // Browsers resend the last seen id on reconnect; ?since= lets other clients do the same
+    const lastSeen = Number(req.header('Last-Event-ID') ?? req.query['since'] ?? ledger.events.length);
+    const from = Number.isInteger(lastSeen) && lastSeen >= 0 ? Math.min(lastSeen, ledger.events.length) : ledger.events.length;
+
+    const missed: LedgerChange[] = [];
+    ledger.events.slice(from).forEach((event, index) => {
+      const entryId = event.type === 'entry_created' ? event.entry.id : event.entry_id;
+      const entry = ledger.entries.find(entry => entry.id === entryId);
+      if (entry) {
+        missed.push(toLedgerChange(from + index + 1, event, entry));
+      }
+    });
+
+    ledger.feed.subscribe(req, res, missed);
+
+  } catch (error) {
+    console.error('Error opening ledger stream:', error);
+    res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /ledger/export/journal - Render the ledger as BUILD_JOURNAL.md markdown
+app.get('/ledger/export/journal', (_req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    return res.type('text/markdown').send(exportBuildJournal(ledger.entries));
+
+  } catch (error) {
+    console.error('Error exporting build journal:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /ledger/verify - Walk the stored hash chain and report any breaks, with the signed head
+app.get('/ledger/verify', async (_req, res) => {
+  try {
+    const ledger = currentLedger(res);
+
+    // Read storage again rather than trusting memory: tampering happens on disk
+    let verification: ChainVerification;
+    try {
+      verification = verifyLedgerChain(await ledger.storage.readAll());
+    } catch (error) {
+      if (!(error instanceof LedgerStorageError)) throw error;
+      verification = {
+        valid: false,
+        checked: 0,
+        legacy: 0,
+        head_hash: ledger.head,
+        breaks: [{ seq: 0, event_id: null, kind: 'unreadable', message: error.message }]
+      };
+    }
+
+    const projectId = res.locals['projectId'] as string;
+    return res.json({
+      project_id: projectId,
+      ...verification,
+      head: signLedgerHead(projectId, verification.head_hash, verification.checked)
+    });
+
+  } catch (error) {
+    console.error('Error verifying ledger:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /ledger/export - Download the event log as a JSON backup with a signed head hash
+app.get('/ledger/export', (_req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const projectId = res.locals['projectId'] as string;
+    const backup = createLedgerBackup(projectId, ledger.events, ledger.entries);
+    const date = backup.exported_at.slice(0, 10);
+
+    res.setHeader('Content-Disposition', `attachment; filename="ledger-${projectId}-${date}.json"`);
+    return res.json(backup);
+
+  } catch (error) {
+    console.error('Error exporting ledger:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// POST /ledger/import - Merge entries, a signed backup or journal markdown, as a dry run unless dry_run is false
+app.post('/ledger/import', async (req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const { entries, journal, backup, dry_run = true, resolve = 'keep', trust_unsigned = false } = req.body;
+
+    if ([entries, journal, backup].filter(source => source !== undefined).length !== 1) {
+      return res.status(400).json({
+        error: 'Provide one of entries (a JSON array of ledger entries), backup (from GET /ledger/export) or journal (BUILD_JOURNAL.md markdown)'
+      });
+    }
+
+    if (entries !== undefined && !Array.isArray(entries)) {
+      return res.status(400).json({
+        error: 'entries must be an array of ledger entries'
+      });
+    }
+
+    if (journal !== undefined && typeof journal !== 'string') {
+      return res.status(400).json({
+        error: 'journal must be a markdown string'
+      });
+    }
+
+    if (backup !== undefined && !isLedgerBackup(backup)) {
+      return res.status(400).json({
+        error: 'backup must be a ledger backup from GET /ledger/export'
+      });
+    }
+
+    if (typeof dry_run !== 'boolean' || typeof trust_unsigned !== 'boolean' || (resolve !== 'keep' && resolve !== 'incoming')) {
+      return res.status(400).json({
+        error: 'dry_run and trust_unsigned must be booleans and resolve must be "keep" or "incoming"'
+      });
+    }
+
+    // A backup is only trusted when its chain is intact, matches its signed head and carries this
+    // server's valid signature. One signed by another installation (unknown_key) is imported on
+    // its chain alone only when the caller sends trust_unsigned: true
+    let integrity: BackupVerification | undefined;
+    if (backup !== undefined) {
+      integrity = verifyLedgerBackup(backup, trust_unsigned);
+      if (!integrity.valid) {
+        return res.status(422).json({
+          error: 'Backup failed its integrity check',
+          integrity
+        });
+      }
+    }
+
+    const incoming: unknown[] = backup !== undefined
+      ? replayLedgerEvents(backup.events)
+      : entries ?? parseBuildJournal(journal).entries;
+    const plan = planLedgerImport(ledger.entries, incoming);
+
+    // Into an empty ledger a backup's own events are appended, re-sealed onto this ledger's
+    // chain, so earlier statuses, amendments, links and their times survive. Two histories
+    // cannot be interleaved, so a merge into a ledger with events adds the entries as they
+    // stand now: their history is lost, and the response says so with history: flattened
+    const history: LedgerImportResult['history'] = ledger.events.length === 0 && plan.invalid.length === 0
+      ? 'restored'
+      : 'flattened';
+    const backupReport = integrity ? { history, integrity } : {};
+
+    if (dry_run) {
+      const preview: LedgerImportResult = {
+        dry_run: true,
+        summary: summarizeImportPlan(plan),
+        ...plan
+      };
+      return res.json({ ...preview, ...backupReport });
+    }
+
+    let created = 0;
+    let statusChanged = 0;
+
+    if (backup !== undefined && history === 'restored') {
+      for (const event of backup.events) {
+        if (event.type === 'entry_created') {
+          // Links come back through the backup's own link events
+          const { links, ...entry } = event.entry;
+          await recordEvent(ledger, { ...event, entry });
+          created++;
+        } else {
+          await recordEvent(ledger, event);
+          if (event.type === 'status_changed') statusChanged++;
+        }
+      }
+
+      const restored: LedgerImportResult = {
+        dry_run: false,
+        summary: summarizeImportPlan(plan),
+        applied: { created, status_changed: statusChanged },
+        ...plan
+      };
+      return res.status(backup.events.length > 0 ? 201 : 200).json({ ...restored, ...backupReport });
+    }
+
+    const actor = getActor(req);
+
+    for (const entry of plan.new) {
+      await recordEvent(ledger, {
+        id: uuidv4(),
+        type: 'entry_created',
+        timestamp: new Date().toISOString(),
+        actor,
+        entry
+      });
+      created++;
+    }
+
+    // With resolve=incoming, status conflicts take the incoming status where the status graph allows it
+    const conflicts: ImportConflict[] = [];
+    for (const conflict of plan.conflicts) {
+      const existing = ledger.entries.find(entry => entry.id === conflict.existing_id);
+      const transition = existing && conflict.kind === 'status' && resolve === 'incoming'
+        ? checkStatusTransition(existing.status, conflict.incoming_status)
+        : null;
+
+      if (existing && transition?.allowed) {
+        await recordEvent(ledger, {
+          id: uuidv4(),
+          type: 'status_changed',
+          timestamp: new Date().toISOString(),
+          actor,
+          entry_id: existing.id,
+          from: existing.status,
+          status: conflict.incoming_status,
+          reason: 'Status taken from an imported ledger'
+        });
+        statusChanged++;
+      } else {
+        conflicts.push(transition ? { ...conflict, message: `${conflict.message}. ${transition.reason}` } : conflict);
+      }
+    }
+
+    const result: LedgerImportResult = {
+      dry_run: false,
+      summary: { ...summarizeImportPlan(plan), conflict: conflicts.length },
+      applied: { created, status_changed: statusChanged },
+      ...plan,
+      conflicts
+    };
+    return res.status(created > 0 || statusChanged > 0 ? 201 : 200).json({ ...result, ...backupReport });
+
+  } catch (error) {
+    console.error('Error importing ledger:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /ledger/tree - Nested roadmap with progress rollups (optionally rooted at ?root=<id>, or ?as_of= a past moment)
+app.get('/ledger/tree', (req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const { root } = req.query;
+    const entries = entriesAsOf(ledger, parseAsOf(req.query['as_of']));
+    const tree = buildLedgerTree(entries);
+
+    if (root && typeof root === 'string') {
+      const node = findTreeNode(tree, root);
+      if (!node) {
+        return res.status(404).json({
+          error: 'Entry not found'
+        });
+      }
+      return res.json({ tree: [node], total: node.rollup.descendant_count + 1 });
+    }
+
+    return res.json({
+      tree,
+      total: entries.length
+    });
+
+  } catch (error) {
+    if (error instanceof LedgerQueryError) {
+      return res.status(400).json({
+        error: error.message
+      });
+    }
+    console.error('Error building ledger tree:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /ledger/entries/{id}/history - Status timeline for an entry
+app.get('/ledger/entries/:id/history', (req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const { id } = req.params;
+    const entry = ledger.entries.find(entry => entry.id === id);
+
+    if (!entry) {
+      return res.status(404).json({
+        error: 'Entry not found'
+      });
+    }
+
+    const history = buildEntryHistory(ledger, id);
+
+    return res.json({
+      entry_id: id,
+      current_status: entry.status,
+      history,
+      total: history.length
+    });
+
+  } catch (error) {
+    console.error('Error retrieving entry history:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /ledger/entries/{id}/revisions - Every revision of seek, why and content, each diffed
+// against the one before; ?from=&to= (revision numbers) adds a comparison of any two
+app.get('/ledger/entries/:id/revisions', (req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const { id } = req.params;
+    const revisions = buildEntryRevisions(ledger.events, id);
+    const latest = revisions[revisions.length - 1];
+
+    if (!latest) {
+      return res.status(404).json({
+        error: 'Entry not found'
+      });
+    }
+
+    const pick = (param: string, fallback: number) => {
+      const value = req.query[param];
+      if (value === undefined) return revisions[fallback - 1];
+      const revision = Number(value);
+      return Number.isInteger(revision) ? revisions[revision - 1] : undefined;
+    };
+
+    let comparison = null;
+    if (req.query['from'] !== undefined || req.query['to'] !== undefined) {
+      const from = pick('from', 1);
+      const to = pick('to', latest.revision);
+      if (!from || !to) {
+        return res.status(400).json({
+          error: `from and to must be revision numbers between 1 and ${latest.revision}`
+        });
+      }
+      comparison = diffRevisions(from, to);
+    }
+
+    return res.json({
+      entry_id: id,
+      current_revision: latest.revision,
+      revisions: revisions.map((revision, index) => ({
+        ...revision,
+        diff: index > 0 ? diffRevisions(revisions[index - 1]!, revision).fields : []
+      })),
+      comparison,
+      total: revisions.length
+    });
+
+  } catch (error) {
+    console.error('Error retrieving entry revisions:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /ledger/entries/{id} - Get specific entry (?as_of= for how it stood at a past moment)
+app.get('/ledger/entries/:id', (req, res) => {
+  try {
+    const ledger = currentLedger(res);
+    const { id } = req.params;
+    const asOf = parseAsOf(req.query['as_of']);
+    const entry = entriesAsOf(ledger, asOf).find(entry => entry.id === id);
+    
+    if (!entry) {
+      return res.status(404).json({
+        error: asOf ? `Entry not found as of ${asOf}` : 'Entry not found'
+      });
+    }
+
+    res.json(entry);
+
+  } catch (error) {
+    if (error instanceof LedgerQueryError) {
+      return res.status(400).json({
+        error: error.message
+      });
+    }
+    console.error('Error retrieving entry:', error);
+    res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// GET /projects - Every project, archived ones included
+app.get('/projects', (_req, res) => {
+  try {
+    const list = projects.list();
+
+    return res.json({
+      projects: list,
+      total: list.length
+    });
+
+  } catch (error) {
+    console.error('Error listing projects:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// POST /projects - Create a project; with clone_from, copy that project's ledger, wisdom, chat and documents
+app.post('/projects', async (req, res) => {
+  try {
+    const { name, description = null, clone_from } = req.body;
+
+    if (!name || typeof name !== 'string' || name.trim() === '') {
+      return res.status(400).json({
+        error: 'name field is required'
+      });
+    }
+
+    if (description !== null && typeof description !== 'string') {
+      return res.status(400).json({
+        error: 'description must be a string'
+      });
+    }
+
+    const id: unknown = req.body.id ?? toProjectId(name);
+    if (!isValidProjectId(id)) {
+      return res.status(400).json({
+        error: 'id must be a lowercase slug (letters, digits and dashes)'
+      });
+    }
+
+    if (projects.has(id)) {
+      return res.status(409).json({
+        error: `Project ${id} already exists`
+      });
+    }
+
+    const source = clone_from === undefined ? null : projects.get(String(clone_from));
+    if (clone_from !== undefined && !source) {
+      return res.status(404).json({
+        error: 'clone_from must be the id of an existing project'
+      });
+    }
+
+    const ledger = await loadLedger(id);
+    if (ledger.events.length > 0) {
+      return res.status(409).json({
+        error: `Ledger data for ${id} already exists; choose another id`
+      });
+    }
+
+    // The copy keeps the source's events (and so every entry's history) as they are
+    if (source) {
+      const sourceEvents = [...(await loadLedger(source.id)).events];
+      for (const event of sourceEvents) {
+        await recordEvent(ledger, event);
+      }
+    }
+
+    const project = projects.add({
+      id,
+      name: name.trim().substring(0, 100),
+      description: description ? description.trim().substring(0, 1000) : null,
+      created_at: new Date().toISOString(),
+      archived_at: null,
+      cloned_from: source ? source.id : null
+    });
+
+    // Other services start a project's data on first use, so only a clone needs them
+    const services = source ? await notifyProjectPeers(id, 'clone', { from: source.id }) : {};
+
+    return res.status(201).json({
+      message: 'Project created successfully',
+      project,
+      services: { systemic_ledger: 'ok', ...services }
+    });
+
+  } catch (error) {
+    console.error('Error creating project:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+});
+
+// POST /projects/{id}/archive and /projects/{id}/restore - Make a project read-only in every service, or writable again
+const setProjectArchived = (archived: boolean) => async (req: express.Request, res: express.Response) => {
+  try {
+    const id = req.params['id'] ?? '';
+    const existing = projects.get(id);
+
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Project not found'
+      });
+    }
+
+    if (archived && id === DEFAULT_PROJECT_ID) {
+      return res.status(400).json({
+        error: 'The default project cannot be archived'
+      });
+    }
+
+    const project: ProjectRecord = projects.update(id, {
+      archived_at: archived ? existing.archived_at ?? new Date().toISOString() : null
+    }) ?? existing;
+    const services = await notifyProjectPeers(id, archived ? 'archive' : 'restore');
+
+    return res.json({
+      message: archived ? 'Project archived' : 'Project restored',
+      project,
+      services: { systemic_ledger: 'ok', ...services }
+    });
+
+  } catch (error) {
+    console.error('Error updating project:', error);
+    return res.status(500).json({
+      error: 'Internal server error'
+    });
+  }
+};
+
+app.post('/projects/:id/archive', setProjectArchived(true));
+app.post('/projects/:id/restore', setProjectArchived(false));
+
+// Health check endpoint; totals cover the projects opened since startup
+app.get('/health', async (_req, res) => {
+  try {
+    const opened = await Promise.all(Array.from(ledgers.values()));
+    const total = (count: (ledger: ProjectLedger) => number) =>
+      opened.reduce((sum, ledger) => sum + count(ledger), 0);
+
+    return res.json({
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      totalEntries: total(ledger => ledger.entries.length),
+      totalEvents: total(ledger => ledger.events.length),
+      storage: opened[0]?.storage.kind ?? null,
+      projects: projects.list().length,
+      streamClients: total(ledger => ledger.feed.clientCount)
+    });
+
+  } catch (error) {
+    console.error('Error checking ledger health:', error);
+    return res.status(500).json({
+      status: 'unhealthy',
+      error: 'Ledger storage is unavailable'
+    });
+  }
+});
+
+// Start server once the event log has been replayed
+initializeLedger()
+  .then(() => {
+    probeScheduler.start();
+    app.listen(PORT, () => {
+      console.log(`[accelerate] Systemic Ledger API running on port ${PORT}`);
+      console.log(`[clarify] Health check: http://localhost:${PORT}/health`);
+      console.log(`[clarify] API documentation: http://localhost:${PORT}/ledger/entries`);
+    });
+  })
+  .catch(error => {
+    console.error('[safeguard] Failed to load ledger storage:', error);
+    process.exit(1);
+  });
+
+// Graceful shutdown
+const shutdown = () => {
+  console.log('Shutting down Systemic Ledger API...');
+  probeScheduler.stop();
+  Promise.allSettled(Array.from(ledgers.values()).map(async opening => {
+    const ledger = await opening;
+    ledger.feed.close();
+    await ledger.storage.close();
+  })).finally(() => process.exit(0));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
 export default app; 
\ No newline at end of file
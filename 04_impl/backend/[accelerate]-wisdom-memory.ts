@@ -0,0 +1,173 @@
+// [accelerate] Wisdom Memory
+// Keeps a project's wisdom useful as it grows. Near-duplicate insights are merged into one,
+// relevance fades while an insight goes unused and is reinforced each time it is used, and
+// insights that faded away are forgotten. Pinned insights never fade or get forgotten.
+// Pure module (no Node or network imports) so the browser orchestrator can share it.
+
+// Where an insight came from; merged insights keep the sources of both
+export interface InsightSource {
+  kind: 'chat' | 'manual' | 'default';
+  at: string;
+  message_id?: string; // the chat message the insight was drawn from
+  excerpt?: string;
+}
+
+export interface MemoryInsight {
+  id: string;
+  insight: string;
+  relevance_score: number; // as learned; currentRelevance applies the decay
+  context_triggers: string[];
+  timestamp: string;
+  usage_count: number;
+  pinned?: boolean;
+  last_used_at?: string | null; // last injected into a prompt or restated
+  merged_count?: number; // near-duplicates folded into this insight
+  sources?: InsightSource[];
+}
+
+export const HALF_LIFE_DAYS = 30;
+export const FORGET_BELOW = 0.05;
+export const MERGE_SIMILARITY = 0.6;
+export const MAX_INSIGHTS = 200;
+export const MAX_SOURCES = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words that say nothing about the user, so "User prefers visual feedback" and
+// "The user prefers visual feedback" count as the same insight
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'of', 'on', 'or', 'over', 'than', 'that', 'the', 'their', 'they', 'this', 'to', 'user', 'users',
+  'was', 'when', 'with'
+]);
+
+export const insightTokens = (text: string): Set<string> =>
+  new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 1 && !STOP_WORDS.has(word)));
+
+/**
+ * Share of distinct words two insights have in common (Jaccard index, 0 to 1)
+ */
+export const insightSimilarity = (a: string, b: string): number => {
+  const left = insightTokens(a);
+  const right = insightTokens(b);
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  left.forEach(word => {
+    if (right.has(word)) shared++;
+  });
+  return shared / (left.size + right.size - shared);
+};
+
+/**
+ * The stored insight most like `text`, if any is similar enough to count as the same one
+ */
+export const findSimilarInsight = <T extends MemoryInsight>(memory: T[], text: string, threshold: number = MERGE_SIMILARITY): T | null => {
+  let best: T | null = null;
+  let bestScore = threshold;
+  memory.forEach(insight => {
+    const score = insightSimilarity(insight.insight, text);
+    if (score >= bestScore) {
+      best = insight;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Relevance at `now`. The learned score halves every half-life since the insight was last
+ * used or restated, and use stretches the half-life: one more half-life each time the use
+ * count doubles.
+ */
+export const currentRelevance = (insight: MemoryInsight, now: number = Date.now()): number => {
+  if (insight.pinned) {
+    return insight.relevance_score;
+  }
+  const lastSeen = Date.parse(insight.last_used_at ?? insight.timestamp);
+  const idleDays = Number.isNaN(lastSeen) ? 0 : Math.max(0, now - lastSeen) / DAY_MS;
+  const halfLife = HALF_LIFE_DAYS * (1 + Math.log2(1 + insight.usage_count));
+  return insight.relevance_score * 0.5 ** (idleDays / halfLife);
+};
+
+/**
+ * Fold `source` into `target`, which keeps its id and wording. It gains the other's triggers,
+ * uses and sources, takes the higher current score, stays pinned if either was, and counts
+ * as seen now.
+ */
+export const mergeInsightInto = <T extends MemoryInsight>(target: T, source: MemoryInsight, now: string = new Date().toISOString()): T => {
+  const at = Date.parse(now);
+  const triggers = new Map(target.context_triggers.map(trigger => [trigger.toLowerCase(), trigger]));
+  source.context_triggers.forEach(trigger => {
+    if (!triggers.has(trigger.toLowerCase())) triggers.set(trigger.toLowerCase(), trigger);
+  });
+
+  target.context_triggers = Array.from(triggers.values());
+  target.relevance_score = Math.max(currentRelevance(target, at), currentRelevance(source, at));
+  target.usage_count += source.usage_count;
+  target.last_used_at = now;
+  target.merged_count = (target.merged_count ?? 0) + 1 + (source.merged_count ?? 0);
+  target.pinned = (target.pinned ?? false) || (source.pinned ?? false);
+  target.sources = [...(target.sources ?? []), ...(source.sources ?? [])].slice(-MAX_SOURCES);
+  return target;
+};
+
+/**
+ * Store a new insight, or fold it into a near-duplicate (see mergeInsightInto)
+ */
+export const rememberInsight = <T extends MemoryInsight>(
+  memory: T[],
+  candidate: T,
+  now: string = new Date().toISOString()
+): { insight: T; merged: boolean } => {
+  const existing = findSimilarInsight(memory, candidate.insight);
+  if (!existing) {
+    memory.push(candidate);
+    return { insight: candidate, merged: false };
+  }
+  return { insight: mergeInsightInto(existing, candidate, now), merged: true };
+};
+
+/**
+ * Record that insights were put in front of the AI, which reinforces them
+ */
+export const markInsightsUsed = (insights: MemoryInsight[], now: string = new Date().toISOString()): void => {
+  insights.forEach(insight => {
+    insight.usage_count++;
+    insight.last_used_at = now;
+  });
+};
+
+/**
+ * Forget unpinned insights that faded below FORGET_BELOW, then the least relevant ones
+ * beyond `limit`. Removes them from `memory` and returns them.
+ */
+export const pruneWisdom = <T extends MemoryInsight>(memory: T[], now: number = Date.now(), limit: number = MAX_INSIGHTS): T[] => {
+  const ranked = memory
+    .map(insight => ({ insight, relevance: currentRelevance(insight, now) }))
+    .sort((a, b) => Number(b.insight.pinned ?? false) - Number(a.insight.pinned ?? false) || b.relevance - a.relevance);
+
+  const forgotten = new Set(ranked
+    .filter(({ insight, relevance }, index) => !insight.pinned && (relevance < FORGET_BELOW || index >= limit))
+    .map(({ insight }) => insight));
+
+  if (forgotten.size > 0) {
+    const kept = memory.filter(insight => !forgotten.has(insight));
+    memory.splice(0, memory.length, ...kept);
+  }
+  return Array.from(forgotten);
+};
+
+/**
+ * Insights whose text or triggers contain every word of `query`, most relevant first
+ */
+export const searchWisdom = <T extends MemoryInsight>(memory: T[], query: string, now: number = Date.now()): T[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return memory
+    .filter(insight => {
+      const haystack = `${insight.insight} ${insight.context_triggers.join(' ')}`.toLowerCase();
+      return words.every(word => haystack.includes(word));
+    })
+    .sort((a, b) => currentRelevance(b, now) - currentRelevance(a, now));
+};
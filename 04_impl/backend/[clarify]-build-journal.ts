@@ -0,0 +1,674 @@
+// [clarify] Build Journal Importer/Exporter
+// Converts BUILD_JOURNAL.md sections into ledger entries and renders entries back into journal markdown
+// Based on protocol: /docs/BUILD_JOURNAL_PROTOCOL.md
+
+import type { LedgerEntry } from './[accelerate]-systemic-ledger-api';
+
+// Where an entry came from in the journal. The block text is kept verbatim so that
+// exporting an unchanged ledger reproduces the journal byte for byte.
+export interface JournalSource {
+  section: string; // "## [tag] YYYY-MM-DD - TITLE" line
+  heading?: string; // block heading ("### Mission (🎯)", "**Pillar-01: ...**", "### Saga-01: ..."); absent for the section itself
+  body: string;
+}
+
+export interface JournalParseResult {
+  preamble: string;
+  entries: LedgerEntry[];
+}
+
+export interface JournalExportOptions {
+  preamble?: string;
+}
+
+type PurposeTag = LedgerEntry['purpose_tag'];
+
+const PURPOSES = ['clarify', 'accelerate', 'safeguard', 'monetize', 'empathize', 'delight'];
+
+const DEFAULT_PREAMBLE = [
+  '# BUILD JOURNAL - Vision Holder Project',
+  '*Single, append-only event log for all vision, strategy, and execution*',
+  '',
+  '---',
+  ''
+].join('\n');
+
+const SECTION_HEADING = /^## \[(clarify|accelerate|safeguard|monetize|empathize|delight)\] (\d{4}-\d{2}-\d{2}) - (.+?)\s*$/;
+const MISSION_HEADING = /^#{3,4} Mission(?: \([^)]*\))?\s*$/;
+const PILLAR_HEADING = /^\*\*Pillar(?:-(\w+))?: (.+?)\*\*\s*$/;
+const BLOCK_HEADING = /^(#{3,4}) (Saga|Probe)(?:[- ](\d+|[A-Z]))?\s*[:-]\s*(.+?)\s*$/;
+const SUBHEADING = /^#{3,4} /;
+const STATUS_LINE = /^(?:#{3,4}\s+|\*\*)(?:Epic |Saga |Probe )?Status(?:\*\*)?:\s*(.+)$/i;
+const MARKER = /^<!-- ledger: (.*) -->$/;
+
+// Field lines are "**label**: value". The further lines of a multi-line value follow, each
+// indented by two spaces, and are read back joined with line breaks.
+const FIELD_LINE = /^\*\*([^*]+)\*\*( \(json\))?:\s*(.*?)\s*$/;
+const CONTINUATION = '  ';
+
+// Labels the journal uses for entry fields
+const FIELD_LABELS = {
+  seek: 'seek',
+  why: 'why',
+  statement: 'Mission Statement',
+  description: 'Description'
+};
+
+// Every other content field is written as "**content.<key>**: value", or with "(json)"
+// after the label when the value is not a string (e.g. a probe's outcome). The title is the
+// block heading, and journal is where the entry came from, so neither is written.
+const CONTENT_PREFIX = 'content.';
+const UNWRITTEN_CONTENT = ['title', 'journal'];
+
+type BlockKind = 'section' | 'mission' | 'pillar' | 'saga' | 'probe';
+
+interface RawBlock {
+  kind: BlockKind;
+  heading?: string;
+  title: string;
+  label?: string;
+  marker: Record<string, string>;
+  lines: string[];
+}
+
+const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 60);
+
+interface FieldMatch {
+  index: number;
+  length: number; // the field line and its continuation lines
+  label: string;
+  value: unknown;
+}
+
+const readFieldAt = (lines: string[], index: number): FieldMatch | null => {
+  const match = lines[index]?.match(FIELD_LINE);
+  if (!match) return null;
+
+  const parts = [match[3] ?? ''];
+  let length = 1;
+  while (lines[index + length]?.startsWith(CONTINUATION)) {
+    parts.push((lines[index + length] ?? '').substring(CONTINUATION.length));
+    length++;
+  }
+
+  const text = parts.join('\n');
+  let value: unknown = text;
+  if (match[2]) {
+    try {
+      value = JSON.parse(text);
+    } catch {
+      // Hand-edited JSON that no longer parses is kept as text rather than dropped
+    }
+  }
+  return { index, length, label: match[1] ?? '', value };
+};
+
+const findField = (lines: string[], label: string): FieldMatch | null => {
+  for (let index = 0; index < lines.length; index++) {
+    const field = readFieldAt(lines, index);
+    if (field?.label === label) return field;
+  }
+  return null;
+};
+
+const readField = (lines: string[], field: keyof typeof FIELD_LABELS): string | null => {
+  const value = findField(lines, FIELD_LABELS[field])?.value;
+  return typeof value === 'string' ? value : null;
+};
+
+// The content.<key> fields of a block
+const readContentFields = (lines: string[]): Record<string, unknown> => {
+  const content: Record<string, unknown> = {};
+  for (let index = 0; index < lines.length; index++) {
+    const field = readFieldAt(lines, index);
+    if (!field) continue;
+    const key = field.label.substring(CONTENT_PREFIX.length);
+    if (field.label.startsWith(CONTENT_PREFIX) && key !== '' && !UNWRITTEN_CONTENT.includes(key)) {
+      content[key] = field.value;
+    }
+    index += field.length - 1;
+  }
+  return content;
+};
+
+const renderField = (label: string, value: unknown): string[] => {
+  const json = typeof value !== 'string';
+  const [first = '', ...rest] = (json ? JSON.stringify(value) : value).split('\n');
+  return [`**${label}**${json ? ' (json)' : ''}: ${first}`, ...rest.map(line => `${CONTINUATION}${line}`)];
+};
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  a === b || (typeof a !== 'string' && typeof b !== 'string' && JSON.stringify(a) === JSON.stringify(b));
+
+const toPurposeTag = (seek: string, fallback: PurposeTag): PurposeTag => {
+  const word = seek.trim().toLowerCase();
+  return PURPOSES.includes(word) ? (`[${word}]` as PurposeTag) : fallback;
+};
+
+const mapStatus = (text: string): LedgerEntry['status'] | null => {
+  const value = text.toLowerCase();
+  if (/not started|proposed|planned|todo/.test(value)) return 'proposed';
+  if (/blocked/.test(value)) return 'blocked';
+  if (/in progress|active|ongoing/.test(value)) return 'active';
+  if (/dormant|paused|on hold/.test(value)) return 'dormant';
+  if (/archived|abandoned|cancel/.test(value)) return 'archived';
+  if (/complete|ready|done|✅|integrated|operational|resolved/.test(value)) return 'integrated';
+  return null;
+};
+
+const readStatus = (lines: string[]): LedgerEntry['status'] | null => {
+  for (const line of lines) {
+    const match = line.match(STATUS_LINE);
+    if (match) {
+      const status = mapStatus(match[1] ?? '');
+      if (status) return status;
+    }
+  }
+  return null;
+};
+
+const parseMarker = (line: string | undefined): Record<string, string> | null => {
+  const match = line?.match(MARKER);
+  if (!match) return null;
+  const values: Record<string, string> = {};
+  (match[1] ?? '').split(/\s+/).forEach(pair => {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      values[pair.substring(0, separator)] = pair.substring(separator + 1);
+    }
+  });
+  return values;
+};
+
+const headingTitle = (heading: string): string | null => {
+  const section = heading.match(SECTION_HEADING);
+  if (section) return section[3] ?? null;
+  const pillar = heading.match(PILLAR_HEADING);
+  if (pillar) return pillar[2] ?? null;
+  const block = heading.match(BLOCK_HEADING);
+  if (block) return block[4] ?? null;
+  return null;
+};
+
+const splitBlocks = (sectionLines: string[]): RawBlock[] => {
+  const blocks: RawBlock[] = [];
+  let current: RawBlock = { kind: 'section', title: '', marker: {}, lines: [] };
+
+  const startBlock = (block: RawBlock, lines: string[], index: number): number => {
+    blocks.push(current);
+    current = block;
+    const marker = parseMarker(lines[index + 1]);
+    if (marker) {
+      current.marker = marker;
+      return index + 1;
+    }
+    return index;
+  };
+
+  // A marker directly under the section heading belongs to the section entry
+  let start = 0;
+  const sectionMarker = parseMarker(sectionLines[0]);
+  if (sectionMarker) {
+    current.marker = sectionMarker;
+    start = 1;
+  }
+
+  for (let i = start; i < sectionLines.length; i++) {
+    const line = sectionLines[i] ?? '';
+    const pillar = line.match(PILLAR_HEADING);
+    const block = line.match(BLOCK_HEADING);
+
+    if (MISSION_HEADING.test(line)) {
+      i = startBlock({ kind: 'mission', heading: line, title: '', marker: {}, lines: [] }, sectionLines, i);
+    } else if (pillar) {
+      i = startBlock(
+        { kind: 'pillar', heading: line, title: pillar[2] ?? '', ...(pillar[1] ? { label: pillar[1] } : {}), marker: {}, lines: [] },
+        sectionLines,
+        i
+      );
+    } else if (block) {
+      i = startBlock(
+        {
+          kind: block[2] === 'Probe' ? 'probe' : 'saga',
+          heading: line,
+          title: block[4] ?? '',
+          ...(block[3] ? { label: block[3] } : {}),
+          marker: {},
+          lines: []
+        },
+        sectionLines,
+        i
+      );
+    } else {
+      current.lines.push(line);
+    }
+  }
+
+  blocks.push(current);
+  return blocks;
+};
+
+/**
+ * Parse BUILD_JOURNAL.md into ledger entries, in document order.
+ *
+ * Each "## [tag] date - TITLE" section becomes an epic, unless its only content is a
+ * Mission block. "### Mission", "**Pillar-NN: ...**", "### Saga-NN: ..." and
+ * "### Probe-NN: ..." blocks become entries of those levels. Pillars hang off the
+ * mission; sagas and probes hang off their section. Ids are derived from dates and
+ * headings, so parsing the same journal twice gives the same ids.
+ */
+export const parseBuildJournal = (markdown: string): JournalParseResult => {
+  const lines = markdown.split('\n');
+  const entries: LedgerEntry[] = [];
+  const usedIds = new Set<string>();
+
+  const sectionStarts: number[] = [];
+  lines.forEach((line, index) => {
+    if (SECTION_HEADING.test(line)) sectionStarts.push(index);
+  });
+
+  const preambleEnd = sectionStarts[0] ?? lines.length;
+  const preamble = lines.slice(0, preambleEnd).join('\n');
+  let lastMissionId: string | null = null;
+
+  const uniqueId = (base: string): string => {
+    let id = base;
+    for (let n = 2; usedIds.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    usedIds.add(id);
+    return id;
+  };
+
+  sectionStarts.forEach((start, sectionIndex) => {
+    const end = sectionStarts[sectionIndex + 1] ?? lines.length;
+    const sectionHeading = lines[start] ?? '';
+    const [, tag = 'clarify', date = '', sectionTitle = ''] = sectionHeading.match(SECTION_HEADING) ?? [];
+    const sectionTag = `[${tag}]` as PurposeTag;
+    const blocks = splitBlocks(lines.slice(start + 1, end));
+    const [prelude, ...children] = blocks;
+    const sectionId = `journal-${date}-${slugify(sectionTitle)}`;
+
+    // A blank prelude in front of a Mission (or other block) is just spacing, not an entry
+    const hasSectionEntry = !!prelude && (prelude.lines.some(line => line.trim() !== '') || children.length === 0);
+    let sectionMissionId: string | null = null;
+    let sectionEntryId: string | null = null;
+    let proposedContext = false;
+
+    const toEntry = (block: RawBlock, parentId: string | null): LedgerEntry => {
+      const level: LedgerEntry['level'] = block.kind === 'section' ? 'epic' : block.kind;
+      const title = block.kind === 'section' || block.kind === 'mission' ? sectionTitle : block.title;
+      const seek = readField(block.lines, 'seek') || tag;
+      const why = readField(block.lines, 'why') || title;
+      const statement = readField(block.lines, 'statement');
+      const description = readField(block.lines, 'description');
+      const contentFields = readContentFields(block.lines);
+
+      const defaultStatus: LedgerEntry['status'] =
+        level === 'mission' || level === 'pillar' ? 'active' : proposedContext ? 'proposed' : 'integrated';
+      const idSuffix = block.kind === 'section' ? '' : `-${block.kind}${block.label ? `-${slugify(block.label)}` : block.kind === 'mission' ? '' : `-${slugify(block.title)}`}`;
+      const source: JournalSource = {
+        section: sectionHeading,
+        ...(block.heading ? { heading: block.heading } : {}),
+        body: block.lines.join('\n')
+      };
+
+      const marker = block.marker;
+      const markerParent = marker['parent'];
+      const markerStatus = marker['status'] as LedgerEntry['status'] | undefined;
+      const markerLevel = marker['level'] as LedgerEntry['level'] | undefined;
+
+      return {
+        id: marker['id'] || uniqueId(`${sectionId}${idSuffix}`),
+        timestamp: marker['timestamp'] || `${date}T00:00:00.000Z`,
+        purpose_tag: (marker['tag'] as PurposeTag | undefined) ||
+          (block.kind === 'section' || block.kind === 'mission' ? sectionTag : toPurposeTag(seek, sectionTag)),
+        level: markerLevel || level,
+        seek,
+        why,
+        content: {
+          title,
+          ...(statement !== null ? { statement } : {}),
+          ...(description !== null ? { description } : {}),
+          ...contentFields,
+          journal: source
+        },
+        status: markerStatus || readStatus(block.lines) || defaultStatus,
+        parent_id: markerParent !== undefined ? (markerParent === 'none' ? null : markerParent) : parentId
+      };
+    };
+
+    // Blocks listed under a "Proposed ..." heading are plans, not finished work
+    const updateProposedContext = (block: RawBlock) => {
+      const subheadings = block.lines.filter(line => SUBHEADING.test(line));
+      const last = subheadings[subheadings.length - 1];
+      if (last !== undefined) {
+        proposedContext = /proposed/i.test(last);
+      }
+    };
+
+    if (prelude && hasSectionEntry) {
+      const entry = toEntry(prelude, lastMissionId);
+      sectionEntryId = entry.id;
+      entries.push(entry);
+      updateProposedContext(prelude);
+    }
+
+    for (const block of children) {
+      let parentId: string | null;
+      switch (block.kind) {
+        case 'mission':
+          parentId = null;
+          break;
+        case 'pillar':
+          parentId = sectionMissionId ?? lastMissionId;
+          break;
+        default:
+          parentId = sectionEntryId ?? sectionMissionId ?? lastMissionId;
+      }
+
+      const entry = toEntry(block, parentId);
+      entries.push(entry);
+      updateProposedContext(block);
+
+      if (entry.level === 'mission') {
+        sectionMissionId = entry.id;
+        lastMissionId = entry.id;
+      }
+    }
+  });
+
+  return { preamble, entries };
+};
+
+const getSource = (entry: LedgerEntry): JournalSource | null => {
+  const source = entry.content?.['journal'];
+  return source && typeof source.section === 'string' && typeof source.body === 'string' ? source : null;
+};
+
+const entryTitle = (entry: LedgerEntry): string => {
+  const title = entry.content?.['title'];
+  return typeof title === 'string' && title.trim() !== '' ? title : entry.seek;
+};
+
+// Every field the journal holds for an entry, as [label, value], in the order new blocks list them
+const entryFields = (entry: LedgerEntry): Array<[string, unknown]> => {
+  const content = entry.content ?? {};
+  const fields: Array<[string, unknown]> = [[FIELD_LABELS.seek, entry.seek], [FIELD_LABELS.why, entry.why]];
+  Object.entries(content).forEach(([key, value]) => {
+    if (value === undefined || UNWRITTEN_CONTENT.includes(key)) return;
+    if ((key === 'statement' || key === 'description') && typeof value === 'string') {
+      fields.push([FIELD_LABELS[key], value]);
+    } else {
+      fields.push([`${CONTENT_PREFIX}${key}`, value]);
+    }
+  });
+  return fields;
+};
+
+// Rewrite field lines in place when the value changed, add them when missing and drop those
+// of content fields the entry no longer has
+const applyFields = (bodyLines: string[], entry: LedgerEntry, inferred: { seek: string; why: string }): string[] => {
+  const lines = [...bodyLines];
+  const fields = entryFields(entry);
+  const labels = new Set(fields.map(([label]) => label));
+  const missing: string[] = [];
+
+  fields.forEach(([label, value]) => {
+    const found = findField(lines, label);
+    if (found) {
+      if (!sameValue(found.value, value)) {
+        lines.splice(found.index, found.length, ...renderField(label, value));
+      }
+    } else if (!(label === FIELD_LABELS.seek && value === inferred.seek) && !(label === FIELD_LABELS.why && value === inferred.why)) {
+      missing.push(...renderField(label, value));
+    }
+  });
+
+  const removable = [FIELD_LABELS.statement, FIELD_LABELS.description];
+  for (let index = lines.length - 1; index >= 0; index--) {
+    const field = readFieldAt(lines, index);
+    if (field && !labels.has(field.label) && (field.label.startsWith(CONTENT_PREFIX) || removable.includes(field.label))) {
+      lines.splice(index, field.length);
+    }
+  }
+
+  if (missing.length > 0) {
+    const insertAt = lines.findIndex(line => line.trim() !== '');
+    lines.splice(insertAt < 0 ? lines.length : insertAt, 0, ...missing);
+  }
+
+  return lines;
+};
+
+// Fresh body for entries that did not come from the journal
+const renderNewBody = (entry: LedgerEntry, leadingBlank: boolean): string[] => {
+  const lines = leadingBlank ? [''] : [];
+  const fields = entryFields(entry);
+  // seek and why, then the statement and description as paragraphs of their own
+  fields.slice(0, 2).forEach(([label, value]) => lines.push(...renderField(label, value)));
+  fields.slice(2)
+    .filter(([label]) => !label.startsWith(CONTENT_PREFIX))
+    .forEach(([label, value]) => lines.push('', ...renderField(label, value)));
+  const contentFields = fields.filter(([label]) => label.startsWith(CONTENT_PREFIX));
+  if (contentFields.length > 0) {
+    lines.push('', ...contentFields.flatMap(([label, value]) => renderField(label, value)));
+  }
+  lines.push('');
+  return lines;
+};
+
+const renderBlockHeading = (entry: LedgerEntry, source: JournalSource | null, number: number): string => {
+  const title = entryTitle(entry);
+  if (source?.heading) {
+    const original = headingTitle(source.heading);
+    if (original === null || original === title) return source.heading;
+    return source.heading.replace(original, title);
+  }
+
+  const label = String(number).padStart(2, '0');
+  switch (entry.level) {
+    case 'mission':
+      return '### Mission (🎯)';
+    case 'pillar':
+      return `**Pillar-${label}: ${title}**`;
+    case 'probe':
+      return `### Probe-${label}: ${title}`;
+    default:
+      return `### Saga-${label}: ${title}`;
+  }
+};
+
+interface ExportSection {
+  heading: string;
+  date: string;
+  owner: LedgerEntry | null; // entry rendered as the section itself (epic) or whose title names the section (mission)
+  sectionEntry: LedgerEntry | null;
+  blocks: LedgerEntry[];
+  fromJournal: boolean;
+}
+
+const renderJournal = (
+  entries: LedgerEntry[],
+  preamble: string,
+  markers: Map<string, Record<string, string>>
+): { text: string; order: LedgerEntry[] } => {
+  const byId = new Map(entries.map(entry => [entry.id, entry]));
+  const sections = new Map<string, ExportSection>();
+  const sectionKeys = new Map<string, string>();
+
+  const sectionKeyOf = (entry: LedgerEntry, depth = 0): string => {
+    const known = sectionKeys.get(entry.id);
+    if (known) return known;
+
+    const source = getSource(entry);
+    let key: string;
+    if (source) {
+      key = source.section;
+    } else {
+      const parent = entry.parent_id ? byId.get(entry.parent_id) : undefined;
+      key = parent && depth < 10 && !['mission', 'epic'].includes(entry.level)
+        ? sectionKeyOf(parent, depth + 1)
+        : `new:${entry.id}`;
+    }
+    sectionKeys.set(entry.id, key);
+    return key;
+  };
+
+  entries.forEach(entry => {
+    const key = sectionKeyOf(entry);
+    const source = getSource(entry);
+    let section = sections.get(key);
+
+    if (!section) {
+      const match = source?.section.match(SECTION_HEADING);
+      section = {
+        heading: source?.section ?? '',
+        date: match?.[2] ?? entry.timestamp.substring(0, 10),
+        owner: null,
+        sectionEntry: null,
+        blocks: [],
+        fromJournal: !!source
+      };
+      sections.set(key, section);
+    }
+
+    const isSectionEntry = source ? !source.heading : key === `new:${entry.id}` && entry.level === 'epic';
+    if (isSectionEntry && !section.sectionEntry) {
+      section.sectionEntry = entry;
+      section.owner = entry;
+    } else {
+      section.blocks.push(entry);
+      if (entry.level === 'mission' && !section.owner) {
+        section.owner = entry;
+      }
+    }
+  });
+
+  const output: string[] = preamble.split('\n');
+  const order: LedgerEntry[] = [];
+
+  const pushMarker = (lines: string[], entry: LedgerEntry) => {
+    const marker = markers.get(entry.id);
+    if (marker && Object.keys(marker).length > 0) {
+      lines.push(`<!-- ledger: ${Object.entries(marker).map(([key, value]) => `${key}=${value}`).join(' ')} -->`);
+    }
+  };
+
+  sections.forEach((section, key) => {
+    // Sections of new entries are named after their first block; journal sections keep their heading
+    const owner = section.owner ?? (section.fromJournal ? null : section.blocks[0] ?? null);
+    const ownerTitle = owner ? entryTitle(owner) : '';
+    let heading = section.heading;
+    const parsed = heading.match(SECTION_HEADING);
+    if (owner && (!parsed || `[${parsed[1]}]` !== owner.purpose_tag || parsed[3] !== ownerTitle)) {
+      heading = `## ${owner.purpose_tag} ${section.date} - ${ownerTitle}`;
+    }
+
+    const lines: string[] = [heading];
+    if (key.startsWith('new:') && output[output.length - 1]?.trim() !== '') {
+      lines.unshift('');
+    }
+    const sectionEntry = section.sectionEntry;
+
+    if (sectionEntry) {
+      order.push(sectionEntry);
+      pushMarker(lines, sectionEntry);
+      const source = getSource(sectionEntry);
+      const inferred = { seek: sectionEntry.purpose_tag.slice(1, -1), why: entryTitle(sectionEntry) };
+      lines.push(...(source ? applyFields(source.body.split('\n'), sectionEntry, inferred) : renderNewBody(sectionEntry, true)));
+    } else {
+      lines.push('');
+    }
+
+    const counts: Record<string, number> = {};
+    const appended: string[] = [];
+
+    section.blocks.forEach(entry => {
+      const source = getSource(entry);
+      counts[entry.level] = (counts[entry.level] || 0) + 1;
+      const blockLines: string[] = [renderBlockHeading(entry, source, counts[entry.level] ?? 1)];
+      order.push(entry);
+      pushMarker(blockLines, entry);
+
+      const title = entry.level === 'mission' ? ownerTitle : entryTitle(entry);
+      const inferred = { seek: entry.purpose_tag.slice(1, -1), why: title };
+      blockLines.push(...(source ? applyFields(source.body.split('\n'), entry, inferred) : renderNewBody(entry, false)));
+
+      if (source || !section.fromJournal) {
+        lines.push(...blockLines);
+      } else {
+        appended.push(...blockLines);
+      }
+    });
+
+    // New blocks in a journal section go before its closing "---"
+    if (appended.length > 0) {
+      let separator = lines.length;
+      for (let i = lines.length - 1; i > 0; i--) {
+        if (lines[i]?.trimEnd() === '---') {
+          separator = i;
+          break;
+        }
+        if (lines[i]?.trim() !== '') break;
+      }
+      lines.splice(separator, 0, ...appended);
+    }
+
+    if (key.startsWith('new:')) {
+      lines.push('---', '');
+    }
+
+    output.push(...lines);
+  });
+
+  return { text: output.join('\n'), order };
+};
+
+const MARKER_FIELDS: Array<[string, (entry: LedgerEntry) => string]> = [
+  ['id', entry => entry.id],
+  ['level', entry => entry.level],
+  ['tag', entry => entry.purpose_tag],
+  ['status', entry => entry.status],
+  ['parent', entry => entry.parent_id ?? 'none'],
+  ['timestamp', entry => entry.timestamp]
+];
+
+/**
+ * Render ledger entries as BUILD_JOURNAL.md markdown.
+ *
+ * Entries parsed from the journal are written back from their original text (with
+ * field and title edits applied), so parse → export reproduces the journal. Entries
+ * created elsewhere get new sections or blocks, with every content field written out
+ * (multi-line values as indented continuation lines). Anything the journal format cannot
+ * express (uuid ids, statuses, parents, exact timestamps) goes into an HTML comment
+ * under the heading, which keeps export → parse lossless for those fields as well.
+ */
+export const exportBuildJournal = (entries: LedgerEntry[], options: JournalExportOptions = {}): string => {
+  const preamble = options.preamble ?? DEFAULT_PREAMBLE;
+
+  // First pass without markers, then mark every field the parser would get wrong
+  const draft = renderJournal(entries, preamble, new Map());
+  const reparsed = parseBuildJournal(draft.text).entries;
+  const markers = new Map<string, Record<string, string>>();
+
+  draft.order.forEach((entry, index) => {
+    const parsed = reparsed[index];
+    const marker: Record<string, string> = {};
+    MARKER_FIELDS.forEach(([key, read]) => {
+      if (!parsed || read(parsed) !== read(entry)) {
+        marker[key] = read(entry);
+      }
+    });
+    if (Object.keys(marker).length > 0) {
+      markers.set(entry.id, marker);
+    }
+  });
+
+  return markers.size > 0 ? renderJournal(entries, preamble, markers).text : draft.text;
+};
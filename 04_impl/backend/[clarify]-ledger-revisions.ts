@@ -0,0 +1,200 @@
+// [clarify] Ledger Entry Revisions
+// Amendments replace an entry's seek, why or content without losing the earlier wording:
+// each one is an entry_amended event, so every revision can be rebuilt from the log.
+// Pure module (no Node or network imports) so the browser can render the same diffs.
+
+import { LedgerQueryError, QueryableEntry } from './[accelerate]-ledger-query';
+import { canonicalJson } from './[safeguard]-ledger-import';
+
+type LedgerEntry = QueryableEntry;
+
+export const AMENDABLE_FIELDS = ['seek', 'why', 'content'] as const;
+export type AmendableField = typeof AMENDABLE_FIELDS[number];
+export type EntryAmendment = Partial<Pick<LedgerEntry, AmendableField>>;
+
+// The ledger events revisions are built from (the storage engine's LedgerEvent fits this)
+type RevisionSourceEvent =
+  | { id: string; type: 'entry_created'; timestamp: string; actor: string; entry: LedgerEntry }
+  | { id: string; type: 'entry_amended'; timestamp: string; actor: string; entry_id: string; changes: EntryAmendment; reason: string }
+  | { id: string; type: 'status_changed' | 'link_added' | 'link_removed'; timestamp: string; actor: string };
+
+// An entry's seek, why and content after one event; revision 1 is the entry as created
+export interface EntryRevision {
+  revision: number;
+  event_id: string;
+  timestamp: string;
+  actor: string;
+  reason: string | null;
+  changed: AmendableField[];
+  seek: string;
+  why: string;
+  content: Record<string, any>;
+}
+
+export interface DiffSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface FieldDiff {
+  field: AmendableField;
+  before: string;
+  after: string;
+  segments: DiffSegment[];
+}
+
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  fields: FieldDiff[]; // only fields that differ
+}
+
+// Word diffs are quadratic; past this many token pairs a field is shown as replaced whole
+const MAX_DIFF_CELLS = 250000;
+
+/**
+ * Content as readable text for diffing: one "key: value" line per field, keys sorted
+ */
+export const renderContent = (content: Record<string, any>): string =>
+  Object.keys(content).sort().map(key => {
+    const value = content[key];
+    return `${key}: ${typeof value === 'string' ? value : canonicalJson(value)}`;
+  }).join('\n');
+
+const fieldText = (revision: Pick<LedgerEntry, AmendableField>, field: AmendableField): string =>
+  field === 'content' ? renderContent(revision.content) : revision[field];
+
+/**
+ * The part of an amendment that actually differs from the entry; empty when nothing changes
+ */
+export const changedFields = (
+  entry: Pick<LedgerEntry, AmendableField>,
+  amendment: { [K in AmendableField]?: LedgerEntry[K] | undefined }
+): EntryAmendment => {
+  const changes: EntryAmendment = {};
+  if (amendment.seek !== undefined && amendment.seek !== entry.seek) {
+    changes.seek = amendment.seek;
+  }
+  if (amendment.why !== undefined && amendment.why !== entry.why) {
+    changes.why = amendment.why;
+  }
+  if (amendment.content !== undefined && canonicalJson(amendment.content) !== canonicalJson(entry.content)) {
+    changes.content = amendment.content;
+  }
+  return changes;
+};
+
+/**
+ * Word-level diff (whitespace kept as its own tokens), merged into runs of the same op
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = before.match(/\s+|[^\s]+/g) ?? [];
+  const b = after.match(/\s+|[^\s]+/g) ?? [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ op: 'delete' as const, text: before }] : []),
+      ...(after ? [{ op: 'insert' as const, text: after }] : [])
+    ];
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (op: DiffSegment['op'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) {
+      last.text += text;
+    } else {
+      segments.push({ op, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]!);
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      push('delete', a[i++]!);
+    } else {
+      push('insert', b[j++]!);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]!);
+  while (j < b.length) push('insert', b[j++]!);
+
+  return segments;
+};
+
+/**
+ * Every revision of one entry, oldest first; empty when the log never created it
+ */
+export const buildEntryRevisions = (events: RevisionSourceEvent[], entryId: string): EntryRevision[] => {
+  const revisions: EntryRevision[] = [];
+
+  for (const event of events) {
+    if (event.type === 'entry_created' && event.entry.id === entryId) {
+      revisions.push({
+        revision: 1,
+        event_id: event.id,
+        timestamp: event.timestamp,
+        actor: event.actor,
+        reason: null,
+        changed: [],
+        seek: event.entry.seek,
+        why: event.entry.why,
+        content: event.entry.content
+      });
+    } else if (event.type === 'entry_amended' && event.entry_id === entryId) {
+      const previous = revisions[revisions.length - 1];
+      if (!previous) continue;
+      revisions.push({
+        ...previous,
+        ...event.changes,
+        revision: previous.revision + 1,
+        event_id: event.id,
+        timestamp: event.timestamp,
+        actor: event.actor,
+        reason: event.reason,
+        changed: AMENDABLE_FIELDS.filter(field => event.changes[field] !== undefined)
+      });
+    }
+  }
+
+  return revisions;
+};
+
+/**
+ * Field-by-field diff between two revisions of the same entry
+ */
+export const diffRevisions = (from: EntryRevision, to: EntryRevision): RevisionDiff => ({
+  from: from.revision,
+  to: to.revision,
+  fields: AMENDABLE_FIELDS.flatMap(field => {
+    const before = fieldText(from, field);
+    const after = fieldText(to, field);
+    return before === after ? [] : [{ field, before, after, segments: diffWords(before, after) }];
+  })
+});
+
+/**
+ * Read ?as_of= as an ISO-8601 moment; null when absent. Throws LedgerQueryError otherwise.
+ */
+export const parseAsOf = (value: unknown): string | null => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    throw new LedgerQueryError('as_of must be an ISO-8601 date-time, e.g. 2025-01-31T12:00:00Z');
+  }
+  return new Date(value).toISOString();
+};
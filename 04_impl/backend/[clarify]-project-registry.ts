@@ -0,0 +1,95 @@
+// [clarify] Project Registry
+// The list of projects, kept by the Systemic Ledger API in data/projects.json
+// (in memory when LEDGER_STORAGE=memory). The other services take project ids on trust.
+
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_PROJECT_ID } from './[clarify]-project-scope';
+import { ledgerDataDir } from './[safeguard]-ledger-storage';
+
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  archived_at: string | null; // archived projects are read-only
+  cloned_from: string | null;
+}
+
+export class ProjectRegistry {
+  private projects = new Map<string, ProjectRecord>();
+
+  constructor(private readonly filePath: string | null) {
+    this.load();
+  }
+
+  list(): ProjectRecord[] {
+    return Array.from(this.projects.values()).map(project => ({ ...project }));
+  }
+
+  get(id: string): ProjectRecord | null {
+    const project = this.projects.get(id);
+    return project ? { ...project } : null;
+  }
+
+  has(id: string): boolean {
+    return this.projects.has(id);
+  }
+
+  add(project: ProjectRecord): ProjectRecord {
+    this.projects.set(project.id, { ...project });
+    this.save();
+    return { ...project };
+  }
+
+  update(id: string, changes: Partial<Omit<ProjectRecord, 'id'>>): ProjectRecord | null {
+    const project = this.projects.get(id);
+    if (!project) {
+      return null;
+    }
+    const updated = { ...project, ...changes };
+    this.projects.set(id, updated);
+    this.save();
+    return { ...updated };
+  }
+
+  // The default project always exists: it holds everything created before projects
+  private load(): void {
+    if (this.filePath && fs.existsSync(this.filePath)) {
+      const stored = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as ProjectRecord[];
+      stored.forEach(project => this.projects.set(project.id, project));
+    }
+
+    if (!this.projects.has(DEFAULT_PROJECT_ID)) {
+      this.projects.set(DEFAULT_PROJECT_ID, {
+        id: DEFAULT_PROJECT_ID,
+        name: 'Vision Holder',
+        description: null,
+        created_at: new Date().toISOString(),
+        archived_at: null,
+        cloned_from: null
+      });
+    }
+  }
+
+  // Written whole to a temp file and renamed, so a crash never leaves half a registry
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.list(), null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Registry stored next to the ledger files, or in memory for LEDGER_STORAGE=memory
+ */
+export const createProjectRegistry = (): ProjectRegistry =>
+  new ProjectRegistry(
+    (process.env['LEDGER_STORAGE'] || 'jsonl').toLowerCase() === 'memory'
+      ? null
+      : path.join(ledgerDataDir(), 'projects.json')
+  );
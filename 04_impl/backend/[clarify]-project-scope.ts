@@ -0,0 +1,233 @@
+// [clarify] Project Scope
+// Every service keeps one dataset per project. Requests name their project in the
+// X-Project-Id header (or ?project= where headers cannot be set, e.g. EventSource);
+// without one they use the default project, which holds everything created before
+// projects existed. Express appears only as types, so the browser ledger shares the constants.
+
+import type express from 'express';
+
+export const DEFAULT_PROJECT_ID = 'default';
+export const PROJECT_ID_HEADER = 'X-Project-Id';
+
+// Lowercase slug; also used in storage paths, so no dots or slashes
+const PROJECT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+// The Systemic Ledger API keeps the registry (data/projects.json)
+export const PROJECT_REGISTRY_URL = 'http://localhost:3001';
+
+// Services that hold project data besides the Systemic Ledger API
+export const PROJECT_PEER_SERVICES = {
+  ai_orchestrator: 'http://localhost:3002',
+  knowledge_base: 'http://localhost:3003'
+};
+
+export type ProjectServiceName = 'systemic_ledger' | keyof typeof PROJECT_PEER_SERVICES;
+
+export class ProjectScopeError extends Error {
+  constructor(message: string, public readonly status: 400 | 409) {
+    super(message);
+    this.name = 'ProjectScopeError';
+  }
+}
+
+export const isValidProjectId = (value: unknown): value is string =>
+  typeof value === 'string' && PROJECT_ID_PATTERN.test(value);
+
+// Browser storage key for a project; the default project keeps the key used before projects
+export const projectStorageKey = (baseKey: string, projectId: string): string =>
+  projectId === DEFAULT_PROJECT_ID ? baseKey : `${baseKey}:${projectId}`;
+
+// Slug for a new project's name, e.g. "Garden Planner v2" -> "garden-planner-v2"
+export const toProjectId = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 63) || 'project';
+
+/**
+ * Project named by the request, or the default project. Throws ProjectScopeError (400)
+ * for ids that are not valid slugs.
+ */
+export const getProjectId = (req: express.Request): string => {
+  const requested = req.header(PROJECT_ID_HEADER) ?? req.query['project'];
+  if (requested === undefined || requested === '') {
+    return DEFAULT_PROJECT_ID;
+  }
+  if (!isValidProjectId(requested)) {
+    throw new ProjectScopeError('Project id must be a lowercase slug (letters, digits and dashes)', 400);
+  }
+  return requested;
+};
+
+export const sendProjectScopeError = (res: express.Response, error: ProjectScopeError) =>
+  res.status(error.status).json({ error: error.message });
+
+/**
+ * Ids of the archived projects in the ledger API's registry, or null when it cannot be read
+ */
+export const fetchArchivedProjects = async (): Promise<string[] | null> => {
+  try {
+    const response = await fetch(`${PROJECT_REGISTRY_URL}/projects`, { signal: AbortSignal.timeout(5000) });
+    if (!response.ok) {
+      return null;
+    }
+    const data = await response.json() as { projects?: Array<{ id: string; archived_at: string | null }> };
+    return (data.projects ?? []).filter(project => project.archived_at !== null).map(project => project.id);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Per-project in-memory state for the peer services. A project's state is created on
+ * first use; archived projects stay readable but reject writes. Archive state comes from
+ * the ledger API's registry, read on startup and again on a write until a read succeeds,
+ * then kept current by the lifecycle routes.
+ */
+export class ProjectScoped<T> {
+  private readonly states = new Map<string, T>();
+  private archived = new Set<string>();
+  private registryRead = false;
+
+  constructor(private readonly create: (projectId: string) => T) {}
+
+  get(projectId: string): T {
+    let state = this.states.get(projectId);
+    if (!state) {
+      state = this.create(projectId);
+      this.states.set(projectId, state);
+    }
+    return state;
+  }
+
+  // State of the request's project; use after projectScopeMiddleware
+  of(res: express.Response): T {
+    return this.get(requestProjectId(res));
+  }
+
+  isArchived(projectId: string): boolean {
+    return this.archived.has(projectId);
+  }
+
+  // Archive state from the registry; until it has been read once, every call tries again
+  async checkArchived(projectId: string): Promise<boolean> {
+    if (!this.registryRead) {
+      await this.syncArchived();
+    }
+    return this.isArchived(projectId);
+  }
+
+  // Replace the archive state with the registry's; kept as it is when the ledger API is down
+  async syncArchived(): Promise<void> {
+    const archived = await fetchArchivedProjects();
+    if (archived) {
+      this.archived = new Set(archived);
+      this.registryRead = true;
+    }
+  }
+
+  // Replaces anything already held for `to`; the ledger API only clones into new projects
+  clone(from: string, to: string, copy: (source: T, projectId: string) => T): void {
+    this.states.set(to, copy(this.get(from), to));
+  }
+
+  archive(projectId: string): void {
+    this.archived.add(projectId);
+  }
+
+  restore(projectId: string): void {
+    this.archived.delete(projectId);
+  }
+}
+
+/**
+ * Resolve the project for every request and refuse writes to archived projects
+ */
+export const projectScopeMiddleware = (scoped: ProjectScoped<unknown>): express.RequestHandler =>
+  async (req, res, next) => {
+    try {
+      const projectId = getProjectId(req);
+      if (req.method !== 'GET' && req.method !== 'OPTIONS' && await scoped.checkArchived(projectId)) {
+        throw new ProjectScopeError(`Project ${projectId} is archived and read-only`, 409);
+      }
+      res.locals['projectId'] = projectId;
+      next();
+    } catch (error) {
+      if (error instanceof ProjectScopeError) {
+        sendProjectScopeError(res, error);
+        return;
+      }
+      next(error);
+    }
+  };
+
+export const requestProjectId = (res: express.Response): string =>
+  typeof res.locals['projectId'] === 'string' ? res.locals['projectId'] : DEFAULT_PROJECT_ID;
+
+/**
+ * Lifecycle routes the ledger API calls on each peer when a project is cloned, archived
+ * or restored (creating needs no call: peers start a project's state on first use):
+ *   POST /projects/:id/clone   { from }
+ *   POST /projects/:id/archive
+ *   POST /projects/:id/restore
+ */
+export const mountProjectLifecycle = <T>(
+  app: express.Application,
+  scoped: ProjectScoped<T>,
+  copy: (source: T, projectId: string) => T
+): void => {
+  const withProject = (handler: (projectId: string, req: express.Request) => void): express.RequestHandler =>
+    (req, res) => {
+      try {
+        const projectId = req.params['id'];
+        if (!isValidProjectId(projectId)) {
+          throw new ProjectScopeError('Project id must be a lowercase slug (letters, digits and dashes)', 400);
+        }
+        handler(projectId, req);
+        res.json({ project_id: projectId, archived: scoped.isArchived(projectId) });
+      } catch (error) {
+        if (error instanceof ProjectScopeError) {
+          sendProjectScopeError(res, error);
+          return;
+        }
+        console.error('Error updating project:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    };
+
+  app.post('/projects/:id/clone', withProject((projectId, req) => {
+    const from = req.body?.from;
+    if (!isValidProjectId(from)) {
+      throw new ProjectScopeError('from must be the id of the project to clone', 400);
+    }
+    scoped.clone(from, projectId, copy);
+  }));
+  app.post('/projects/:id/archive', withProject(projectId => scoped.archive(projectId)));
+  app.post('/projects/:id/restore', withProject(projectId => scoped.restore(projectId)));
+};
+
+/**
+ * Tell every peer service about a project change. Resolves with each service's outcome
+ * instead of throwing, so the caller can report services that were down.
+ */
+export const notifyProjectPeers = async (
+  projectId: string,
+  action: 'clone' | 'archive' | 'restore',
+  body: Record<string, unknown> = {}
+): Promise<Partial<Record<ProjectServiceName, string>>> => {
+  const results: Partial<Record<ProjectServiceName, string>> = {};
+
+  await Promise.all(Object.entries(PROJECT_PEER_SERVICES).map(async ([service, url]) => {
+    try {
+      const response = await fetch(`${url}/projects/${projectId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(5000)
+      });
+      const data = await response.json().catch(() => ({})) as { error?: string };
+      results[service as ProjectServiceName] = response.ok ? 'ok' : (data.error || `HTTP ${response.status}`);
+    } catch {
+      results[service as ProjectServiceName] = 'unavailable';
+    }
+  }));
+
+  return results;
+};
@@ -0,0 +1,60 @@
+// [clarify] User Identity
+// Data that belongs to a person rather than a project (onboarding progress) is keyed by
+// the user id in the X-User-Id header. The browser creates the id once, a UUID, and sends
+// it with requests for the user's data, so progress follows the user across reloads and
+// restarts.
+// The id is not authenticated: it names a browser, not a person, and anyone who sends it
+// reads and writes that progress. Keep it to data that is harmless to share.
+// Express appears only as types, like the project scope.
+
+import type express from 'express';
+
+export const USER_ID_HEADER = 'X-User-Id';
+
+const USER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export class UserIdentityError extends Error {
+  constructor(message: string, public readonly status: 400 | 401) {
+    super(message);
+    this.name = 'UserIdentityError';
+  }
+}
+
+export const isValidUserId = (value: unknown): value is string =>
+  typeof value === 'string' && USER_ID_PATTERN.test(value);
+
+/**
+ * User named by the request. Throws UserIdentityError: 401 without an id, 400 for an id
+ * that is not a lowercase UUID.
+ */
+export const getUserId = (req: express.Request): string => {
+  const userId = req.header(USER_ID_HEADER);
+  if (userId === undefined || userId === '') {
+    throw new UserIdentityError(`${USER_ID_HEADER} header is required`, 401);
+  }
+  if (!isValidUserId(userId)) {
+    throw new UserIdentityError('User id must be a lowercase UUID', 400);
+  }
+  return userId;
+};
+
+/**
+ * Resolve the user for every request on the routes it guards; requests without a valid
+ * id are answered here
+ */
+export const userIdentityMiddleware: express.RequestHandler = (req, res, next) => {
+  try {
+    res.locals['userId'] = getUserId(req);
+    next();
+  } catch (error) {
+    if (error instanceof UserIdentityError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+};
+
+// Id resolved by userIdentityMiddleware
+export const requestUserId = (res: express.Response): string =>
+  typeof res.locals['userId'] === 'string' ? res.locals['userId'] : '';
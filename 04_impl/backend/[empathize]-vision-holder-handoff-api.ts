@@ -6,6 +6,7 @@ import express from 'express';
 import cors from 'cors';
 import { v4 as uuidv4 } from 'uuid';
 import { setupSecurityMiddleware } from './[safeguard]-security-middleware';
+import { findBlockedEntries } from './[accelerate]-ledger-dependencies';
 
 // Types for handoff system
 interface ContextMetrics {
@@ -375,10 +376,25 @@ class HandoffReportGenerator {
       .slice(-5);
   }
 
+  // Blocked entries with what blocks them (their blocks/depends_on links), plus entries that mention a blocker
   private extractBlockers(systemicLedgerData: any): any[] {
-    return systemicLedgerData.entries?.filter((entry: any) => 
-      entry.status === 'blocked' || entry.content.toLowerCase().includes('blocker')
-    ) || [];
+    const entries: any[] = Array.isArray(systemicLedgerData.entries) ? systemicLedgerData.entries : [];
+    const blocked = findBlockedEntries(entries).map(({ entry, blocked_by }) => ({
+      ...entry,
+      blocked_by: blocked_by.map(blocker => ({
+        id: blocker.entry.id,
+        title: blocker.entry.content?.title || blocker.entry.seek,
+        status: blocker.entry.status,
+        link_type: blocker.type
+      }))
+    }));
+
+    const mentioned = entries.filter(entry => {
+      const text = typeof entry.content === 'string' ? entry.content : JSON.stringify(entry.content ?? '');
+      return text.toLowerCase().includes('blocker') && !blocked.some(item => item.id === entry.id);
+    });
+
+    return [...blocked, ...mentioned.map(entry => ({ ...entry, blocked_by: [] }))];
   }
 
 
@@ -0,0 +1,122 @@
+// [safeguard] Chat Storage
+// Durable chat for the AI Orchestrator API: a project's threads and messages, with the roadmap
+// changes replies propose, in one JSON file replaced whole on every save, like wisdom memory
+
+import fs from 'fs';
+import path from 'path';
+import type { ChatMessage } from './[accelerate]-ai-orchestrator-api';
+import { ChatThread, GENERAL_THREAD_ID, createGeneralThread } from './[accelerate]-chat-threads';
+import { DEFAULT_PROJECT_ID } from './[clarify]-project-scope';
+
+export interface StoredChat {
+  threads: ChatThread[];
+  messages: ChatMessage[]; // every thread's messages, in the order they were sent
+}
+
+export interface ChatStorage {
+  readonly kind: 'json' | 'memory';
+  load(): StoredChat | null; // null until something has been saved
+  save(chat: StoredChat): void;
+}
+
+export class ChatStorageError extends Error {
+  constructor(message: string, public readonly location?: string) {
+    super(message);
+    this.name = 'ChatStorageError';
+  }
+}
+
+// Action proposals are decided in place, so copies must not share them
+const copyChat = (chat: StoredChat): StoredChat => ({
+  threads: chat.threads.map(thread => ({ ...thread })),
+  messages: chat.messages.map(message => message.actions
+    ? { ...message, actions: message.actions.map(action => ({ ...action })) }
+    : { ...message })
+});
+
+export class MemoryChatStorage implements ChatStorage {
+  readonly kind = 'memory';
+  private chat: StoredChat | null = null;
+
+  load(): StoredChat | null {
+    return this.chat ? copyChat(this.chat) : null;
+  }
+
+  save(chat: StoredChat): void {
+    this.chat = copyChat(chat);
+  }
+}
+
+export class JsonChatStorage implements ChatStorage {
+  readonly kind = 'json';
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Read the stored chat. A file without a threads and a messages array is moved aside
+   * (never overwritten) and the project's chat starts again from nothing.
+   */
+  load(): StoredChat | null {
+    if (!fs.existsSync(this.filePath)) {
+      return null;
+    }
+
+    const raw = fs.readFileSync(this.filePath, 'utf-8');
+    try {
+      const parsed = JSON.parse(raw);
+      if (!parsed || !Array.isArray(parsed.threads) || !Array.isArray(parsed.messages)) {
+        throw new ChatStorageError('Chat file does not hold threads and messages', this.filePath);
+      }
+      return normalizeChat(parsed);
+    } catch (error) {
+      const aside = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, aside);
+      console.error(`[safeguard] Unreadable chat history moved to ${aside}:`, error);
+      return null;
+    }
+  }
+
+  save(chat: StoredChat): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(`${this.filePath}.tmp`, JSON.stringify(chat, null, 2), 'utf-8');
+      fs.renameSync(`${this.filePath}.tmp`, this.filePath);
+    } catch (error) {
+      throw new ChatStorageError(
+        `Failed to write chat history: ${error instanceof Error ? error.message : String(error)}`,
+        this.filePath
+      );
+    }
+  }
+}
+
+// Messages without a thread belong to the general thread, so it always exists
+const normalizeChat = (chat: StoredChat): StoredChat => ({
+  threads: chat.threads.some(thread => thread.id === GENERAL_THREAD_ID)
+    ? chat.threads
+    : [createGeneralThread(), ...chat.threads],
+  messages: chat.messages
+});
+
+export const chatDataDir = (): string =>
+  process.env['CHAT_DATA_DIR'] || path.join(process.cwd(), 'data');
+
+/**
+ * Build the storage selected by CHAT_STORAGE (json | memory) for a project. The default
+ * project keeps data/chat-history.json; others live under data/projects/<id>/, as in the ledger.
+ */
+export const createChatStorage = (projectId: string = DEFAULT_PROJECT_ID): ChatStorage => {
+  const kind = (process.env['CHAT_STORAGE'] || 'json').toLowerCase();
+  const dataDir = projectId === DEFAULT_PROJECT_ID
+    ? chatDataDir()
+    : path.join(chatDataDir(), 'projects', projectId);
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryChatStorage();
+    case 'json':
+      return new JsonChatStorage(path.join(dataDir, 'chat-history.json'));
+    default:
+      throw new ChatStorageError(`Unknown CHAT_STORAGE "${kind}". Use json or memory.`);
+  }
+};
@@ -0,0 +1,224 @@
+// [safeguard] Ledger Import Planner
+// Compares incoming entries (a JSON backup or journal markdown) with the current ledger and
+// works out what an import would add, skip as duplicate, or leave in conflict.
+// Pure module (no Node or network imports) so the browser ledger can share it.
+
+import { LEDGER_LEVELS, QueryableEntry } from './[accelerate]-ledger-query';
+import { validateLedgerEntry, FieldError } from './[safeguard]-ledger-validation';
+
+type LedgerEntry = QueryableEntry;
+
+// Lower number = higher in the hierarchy
+const levelRank = (level: LedgerEntry['level']): number => LEDGER_LEVELS.indexOf(level);
+
+export interface ImportDuplicate {
+  id: string;
+  existing_id: string;
+  match: 'id' | 'content'; // same id, or a different id with identical content
+}
+
+export interface ImportConflict {
+  id: string;
+  existing_id: string;
+  kind: 'status' | 'content';
+  existing_status: LedgerEntry['status'];
+  incoming_status: LedgerEntry['status'];
+  message: string;
+}
+
+export interface ImportInvalid {
+  index: number; // position in the incoming list
+  id: string | null;
+  fields: FieldError[];
+}
+
+export interface LedgerImportPlan {
+  new: LedgerEntry[]; // parents before children, ready to append
+  duplicates: ImportDuplicate[];
+  conflicts: ImportConflict[];
+  invalid: ImportInvalid[];
+}
+
+export interface LedgerImportSummary {
+  new: number;
+  duplicate: number;
+  conflict: number;
+  invalid: number;
+}
+
+// Response of POST /ledger/import
+export interface LedgerImportResult extends LedgerImportPlan {
+  dry_run: boolean;
+  summary: LedgerImportSummary;
+  applied?: { created: number; status_changed: number };
+  // Backups only. restored: the backup's own events were appended, keeping their history;
+  // flattened: its entries were added as they stand, without their earlier events
+  history?: 'restored' | 'flattened';
+}
+
+// JSON with sorted keys, so key order never changes the hash
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// 53-bit string hash (cyrb53); stable across machines and needs no crypto API
+const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+/**
+ * Hash of what an entry says (level, purpose, seek, why, content). Ids, timestamps,
+ * parents and status are left out, so the same entry created on two machines matches.
+ */
+export const ledgerContentHash = (entry: Pick<LedgerEntry, 'level' | 'purpose_tag' | 'seek' | 'why' | 'content'>): string =>
+  hashString(canonicalJson({
+    level: entry.level,
+    purpose_tag: entry.purpose_tag,
+    seek: entry.seek,
+    why: entry.why,
+    content: entry.content
+  }));
+
+/**
+ * The fields an entry is created with. Links, chain hashes and any other keys from the source
+ * are dropped: the ledger seals its own hashes, and links only enter through the link checks.
+ */
+export const toImportedEntry = (entry: LedgerEntry): LedgerEntry => ({
+  id: entry.id,
+  timestamp: entry.timestamp,
+  purpose_tag: entry.purpose_tag,
+  level: entry.level,
+  seek: entry.seek,
+  why: entry.why,
+  content: entry.content,
+  status: entry.status,
+  parent_id: entry.parent_id ?? null
+});
+
+/**
+ * Plan an import without changing anything. Entries whose id or content already exists are
+ * duplicates; the same entry with a different status (or the same id with different content)
+ * is a conflict. Parent links to content duplicates are moved onto the existing entry.
+ */
+export const planLedgerImport = (existing: LedgerEntry[], incoming: unknown[]): LedgerImportPlan => {
+  const byId = new Map(existing.map(entry => [entry.id, entry]));
+  const byHash = new Map<string, LedgerEntry>();
+  existing.forEach(entry => {
+    const hash = ledgerContentHash(entry);
+    if (!byHash.has(hash)) byHash.set(hash, entry);
+  });
+
+  const plan: LedgerImportPlan = { new: [], duplicates: [], conflicts: [], invalid: [] };
+  const accepted: Array<{ index: number; entry: LedgerEntry }> = [];
+  const parentMap = new Map<string, string>(); // incoming id -> id of the existing duplicate
+
+  incoming.forEach((raw, index) => {
+    const validation = validateLedgerEntry(raw);
+    if (validation.success === false) {
+      const id = (raw as { id?: unknown } | null)?.id;
+      plan.invalid.push({ index, id: typeof id === 'string' ? id : null, fields: validation.fields });
+      return;
+    }
+
+    const entry = toImportedEntry(validation.data as LedgerEntry);
+    const hash = ledgerContentHash(entry);
+    const sameId = byId.get(entry.id);
+    const match = sameId ?? byHash.get(hash);
+
+    if (!match) {
+      accepted.push({ index, entry });
+      byId.set(entry.id, entry);
+      byHash.set(hash, entry);
+      return;
+    }
+
+    if (!sameId) {
+      parentMap.set(entry.id, match.id);
+    }
+
+    if (sameId && ledgerContentHash(sameId) !== hash) {
+      plan.conflicts.push({
+        id: entry.id,
+        existing_id: match.id,
+        kind: 'content',
+        existing_status: match.status,
+        incoming_status: entry.status,
+        message: 'An entry with this id already exists with different content'
+      });
+    } else if (match.status !== entry.status) {
+      plan.conflicts.push({
+        id: entry.id,
+        existing_id: match.id,
+        kind: 'status',
+        existing_status: match.status,
+        incoming_status: entry.status,
+        message: `Existing entry is ${match.status}, incoming entry is ${entry.status}`
+      });
+    } else {
+      plan.duplicates.push({ id: entry.id, existing_id: match.id, match: sameId ? 'id' : 'content' });
+    }
+  });
+
+  // Drop entries whose parent is missing or at the wrong level; repeat, since dropping a
+  // parent orphans its children
+  let candidates = accepted.map(({ index, entry }) => ({
+    index,
+    entry: entry.parent_id && parentMap.has(entry.parent_id)
+      ? { ...entry, parent_id: parentMap.get(entry.parent_id) ?? null }
+      : entry
+  }));
+  let dropped = true;
+
+  while (dropped) {
+    dropped = false;
+    const known = new Map(existing.map(entry => [entry.id, entry]));
+    candidates.forEach(({ entry }) => known.set(entry.id, entry));
+
+    candidates = candidates.filter(({ index, entry }) => {
+      if (!entry.parent_id) return true;
+      const parent = known.get(entry.parent_id);
+      const message = !parent
+        ? 'refers to an entry that is neither in the ledger nor in the import'
+        : levelRank(parent.level) >= levelRank(entry.level)
+          ? `is a ${parent.level}, which cannot hold a ${entry.level}`
+          : null;
+
+      if (message) {
+        plan.invalid.push({ index, id: entry.id, fields: [{ field: 'parent_id', message }] });
+        dropped = true;
+        return false;
+      }
+      return true;
+    });
+  }
+
+  plan.new = candidates
+    .map(({ entry }) => entry)
+    .sort((a, b) => levelRank(a.level) - levelRank(b.level) || a.timestamp.localeCompare(b.timestamp));
+  plan.invalid.sort((a, b) => a.index - b.index);
+
+  return plan;
+};
+
+export const summarizeImportPlan = (plan: LedgerImportPlan): LedgerImportSummary => ({
+  new: plan.new.length,
+  duplicate: plan.duplicates.length,
+  conflict: plan.conflicts.length,
+  invalid: plan.invalid.length
+});
@@ -0,0 +1,224 @@
+// [safeguard] Ledger Integrity
+// Tamper-evident hash chain over the stored event log. Each event records the previous
+// event's hash and a SHA-256 of its own contents plus that hash, so editing, removing or
+// reordering stored events breaks the chain. Backups carry the head hash signed with HMAC.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { canonicalJson } from './[safeguard]-ledger-import';
+import { LedgerEvent, isLedgerEvent, ledgerDataDir } from './[safeguard]-ledger-storage';
+
+// prev_hash of the first event
+export const GENESIS_HASH = '0'.repeat(64);
+export const BACKUP_FORMAT = 'vision-holder-ledger-backup';
+
+export interface ChainBreak {
+  seq: number; // 1-based position in the log
+  event_id: string | null;
+  kind: 'hash_mismatch' | 'prev_hash_mismatch' | 'unsealed' | 'unreadable';
+  message: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  legacy: number; // events stored before the chain existed; hashed on the fly
+  head_hash: string;
+  breaks: ChainBreak[];
+}
+
+export interface SignedHead {
+  hash: string;
+  event_count: number;
+  algorithm: 'HMAC-SHA256';
+  key_id: string; // identifies the signing key without revealing it
+  signature: string;
+}
+
+export interface LedgerBackup {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  project_id: string;
+  exported_at: string;
+  head: SignedHead;
+  events: LedgerEvent[];
+  entries: unknown[]; // convenience copy; imports rebuild entries from the events
+}
+
+export interface BackupVerification extends ChainVerification {
+  head_matches: boolean;
+  // unknown_key: signed by another installation, so only the chain can be checked
+  signature: 'valid' | 'invalid' | 'unknown_key' | 'missing';
+  // Accepted on its chain alone because the caller opted in (trust_unsigned)
+  trusted_unsigned: boolean;
+}
+
+const sha256 = (text: string): string => crypto.createHash('sha256').update(text).digest('hex');
+
+// The event without its chain fields (entries inside created events carry their own copies)
+const unsealed = (event: LedgerEvent): LedgerEvent => {
+  const { hash, prev_hash, ...body } = event;
+  if (body.type === 'entry_created') {
+    const { hash: entryHash, prev_hash: entryPrevHash, ...entry } = body.entry;
+    return { ...body, entry };
+  }
+  return body;
+};
+
+export const hashLedgerEvent = (event: LedgerEvent, prevHash: string): string =>
+  sha256(canonicalJson({ ...unsealed(event), prev_hash: prevHash }));
+
+/**
+ * The event with its place in the chain: prev_hash links it to the event before,
+ * hash covers its contents and that link
+ */
+export const sealLedgerEvent = (event: LedgerEvent, prevHash: string): LedgerEvent => ({
+  ...unsealed(event),
+  prev_hash: prevHash,
+  hash: hashLedgerEvent(event, prevHash)
+});
+
+/**
+ * Seal events stored before the chain existed, in memory only (storage is never rewritten)
+ */
+export const sealLegacyEvents = (events: LedgerEvent[]): LedgerEvent[] => {
+  let prevHash = GENESIS_HASH;
+  return events.map(event => {
+    const sealed = event.hash === undefined ? sealLedgerEvent(event, prevHash) : event;
+    prevHash = sealed.hash ?? prevHash;
+    return sealed;
+  });
+};
+
+export const chainHead = (events: LedgerEvent[]): string =>
+  events[events.length - 1]?.hash ?? GENESIS_HASH;
+
+/**
+ * Walk the chain from the first event. Each break is reported once: checking continues
+ * from the stored hash, so one edited event does not flag everything after it.
+ */
+export const verifyLedgerChain = (events: LedgerEvent[]): ChainVerification => {
+  const breaks: ChainBreak[] = [];
+  let prevHash = GENESIS_HASH;
+  let legacy = 0;
+
+  events.forEach((event, index) => {
+    const seq = index + 1;
+
+    if (event.hash === undefined || event.prev_hash === undefined) {
+      if (legacy === index) {
+        legacy++;
+      } else {
+        breaks.push({ seq, event_id: event.id, kind: 'unsealed', message: 'Event has no hash, but earlier events do' });
+      }
+      prevHash = hashLedgerEvent(event, prevHash);
+      return;
+    }
+
+    if (event.prev_hash !== prevHash) {
+      breaks.push({
+        seq,
+        event_id: event.id,
+        kind: 'prev_hash_mismatch',
+        message: 'Event does not follow the one before it: an event was removed, inserted or reordered'
+      });
+    }
+    if (hashLedgerEvent(event, event.prev_hash) !== event.hash) {
+      breaks.push({ seq, event_id: event.id, kind: 'hash_mismatch', message: 'Event contents do not match its hash: it was edited' });
+    }
+    prevHash = event.hash;
+  });
+
+  return { valid: breaks.length === 0, checked: events.length, legacy, head_hash: prevHash, breaks };
+};
+
+let signingKey: Buffer | null = null;
+
+/**
+ * LEDGER_SIGNING_KEY, or a key generated once and kept next to the ledger files
+ * (per process for LEDGER_STORAGE=memory)
+ */
+const getSigningKey = (): Buffer => {
+  if (signingKey) {
+    return signingKey;
+  }
+
+  const configured = process.env['LEDGER_SIGNING_KEY'];
+  if (configured) {
+    signingKey = Buffer.from(configured, 'utf-8');
+  } else if ((process.env['LEDGER_STORAGE'] || 'jsonl').toLowerCase() === 'memory') {
+    signingKey = crypto.randomBytes(32);
+  } else {
+    const keyPath = path.join(ledgerDataDir(), 'signing.key');
+    if (!fs.existsSync(keyPath)) {
+      fs.mkdirSync(path.dirname(keyPath), { recursive: true });
+      fs.writeFileSync(keyPath, crypto.randomBytes(32).toString('hex'), { mode: 0o600 });
+    }
+    signingKey = Buffer.from(fs.readFileSync(keyPath, 'utf-8').trim(), 'utf-8');
+  }
+  return signingKey;
+};
+
+const keyId = (): string => sha256(getSigningKey().toString('hex')).substring(0, 16);
+
+// The project is signed too, so a backup cannot be passed off as another project's
+const headSignature = (projectId: string, hash: string, eventCount: number): string =>
+  crypto.createHmac('sha256', getSigningKey()).update(`${BACKUP_FORMAT}:${projectId}:${eventCount}:${hash}`).digest('hex');
+
+export const signLedgerHead = (projectId: string, hash: string, eventCount: number): SignedHead => ({
+  hash,
+  event_count: eventCount,
+  algorithm: 'HMAC-SHA256',
+  key_id: keyId(),
+  signature: headSignature(projectId, hash, eventCount)
+});
+
+export const createLedgerBackup = (projectId: string, events: LedgerEvent[], entries: unknown[]): LedgerBackup => ({
+  format: BACKUP_FORMAT,
+  version: 1,
+  project_id: projectId,
+  exported_at: new Date().toISOString(),
+  head: signLedgerHead(projectId, chainHead(events), events.length),
+  events,
+  entries
+});
+
+export const isLedgerBackup = (value: unknown): value is LedgerBackup => {
+  if (!value || typeof value !== 'object') return false;
+  const backup = value as Record<string, unknown>;
+  return backup['format'] === BACKUP_FORMAT
+    && Array.isArray(backup['events'])
+    && backup['events'].every(isLedgerEvent);
+};
+
+/**
+ * Check a backup's chain, that its signed head matches the chain, and the signature itself.
+ * Only a valid signature is trusted. A backup signed by another installation (unknown_key)
+ * passes on its chain alone when `trustUnsigned` is set, and says so in trusted_unsigned.
+ */
+export const verifyLedgerBackup = (backup: LedgerBackup, trustUnsigned = false): BackupVerification => {
+  const chain = verifyLedgerChain(backup.events);
+  const head = backup.head as Partial<SignedHead> | undefined;
+
+  if (!head || typeof head.hash !== 'string' || typeof head.signature !== 'string') {
+    return { ...chain, valid: false, head_matches: false, signature: 'missing', trusted_unsigned: false };
+  }
+
+  const headMatches = head.hash === chain.head_hash && head.event_count === backup.events.length;
+  let signature: BackupVerification['signature'] = 'unknown_key';
+  if (head.key_id === keyId()) {
+    const expected = Buffer.from(headSignature(String(backup.project_id), head.hash, head.event_count ?? -1), 'hex');
+    const actual = Buffer.from(head.signature, 'hex');
+    signature = actual.length === expected.length && crypto.timingSafeEqual(actual, expected) ? 'valid' : 'invalid';
+  }
+  const trustedUnsigned = trustUnsigned && signature === 'unknown_key';
+
+  return {
+    ...chain,
+    valid: chain.valid && headMatches && (signature === 'valid' || trustedUnsigned),
+    head_matches: headMatches,
+    signature,
+    trusted_unsigned: trustedUnsigned
+  };
+};
@@ -0,0 +1,204 @@
+// [safeguard] Ledger Contract Schemas
+// GENERATED from /03_contract/ledger.yaml by 04_impl/backend/generate-ledger-schemas.js. Do not edit by hand.
+
+import { z } from 'zod';
+
+export const PurposeTagSchema = z.enum(['[clarify]', '[accelerate]', '[safeguard]', '[monetize]', '[empathize]', '[delight]']);
+
+export type PurposeTag = z.infer<typeof PurposeTagSchema>;
+
+export const LevelSchema = z.enum(['mission', 'pillar', 'epic', 'saga', 'probe']);
+
+export type Level = z.infer<typeof LevelSchema>;
+
+export const StatusSchema = z.enum(['proposed', 'active', 'blocked', 'integrated', 'archived', 'dormant']);
+
+export type Status = z.infer<typeof StatusSchema>;
+
+// Why the project exists
+export const MissionContentSchema = z.object({
+  title: z.string().min(1, 'must not be empty').max(200, 'must be at most 200 characters'),
+  statement: z.string().min(1, 'must not be empty')
+}).passthrough();
+
+export type MissionContent = z.infer<typeof MissionContentSchema>;
+
+// A lasting principle that every epic should serve
+export const PillarContentSchema = z.object({
+  title: z.string().min(1, 'must not be empty').max(200, 'must be at most 200 characters'),
+  description: z.string().optional()
+}).passthrough();
+
+export type PillarContent = z.infer<typeof PillarContentSchema>;
+
+// A large body of work, delivered through sagas
+export const EpicContentSchema = z.object({
+  title: z.string().min(1, 'must not be empty').max(200, 'must be at most 200 characters'),
+  description: z.string().optional(),
+  success_criteria: z.array(z.string().min(1, 'must not be empty')).optional()
+}).passthrough();
+
+export type EpicContent = z.infer<typeof EpicContentSchema>;
+
+// A deliverable slice of an epic
+export const SagaContentSchema = z.object({
+  title: z.string().min(1, 'must not be empty').max(200, 'must be at most 200 characters'),
+  description: z.string().optional()
+}).passthrough();
+
+export type SagaContent = z.infer<typeof SagaContentSchema>;
+
+export const ProbeResultSchema = z.enum(['confirmed', 'refuted', 'inconclusive']);
+
+export type ProbeResult = z.infer<typeof ProbeResultSchema>;
+
+// What a finished probe showed about its hypothesis
+export const ProbeOutcomeSchema = z.object({
+  result: ProbeResultSchema,
+  notes: z.string().max(2000, 'must be at most 2000 characters').optional(),
+  recorded_at: z.string().datetime({ message: 'must be an ISO-8601 date-time' })
+}).passthrough();
+
+export type ProbeOutcome = z.infer<typeof ProbeOutcomeSchema>;
+
+// A focused, time-boxed experiment
+export const ProbeContentSchema = z.object({
+  title: z.string().min(1, 'must not be empty').max(200, 'must be at most 200 characters'),
+  hypothesis: z.string().min(1, 'must not be empty'),
+  timebox: z.string().regex(/^[1-9][0-9]*[hdw]$/, 'must be a duration such as 4h, 3d or 2w'),
+  deadline: z.string().datetime({ message: 'must be an ISO-8601 date-time' }).optional(),
+  description: z.string().optional(),
+  outcome: ProbeOutcomeSchema.optional()
+}).passthrough();
+
+export type ProbeContent = z.infer<typeof ProbeContentSchema>;
+
+export const LEDGER_CONTENT_SCHEMAS = {
+  mission: MissionContentSchema,
+  pillar: PillarContentSchema,
+  epic: EpicContentSchema,
+  saga: SagaContentSchema,
+  probe: ProbeContentSchema
+};
+
+const LedgerEntryInputBaseSchema = z.object({
+  purpose_tag: PurposeTagSchema,
+  seek: z.string().min(1, 'must not be empty').max(200, 'must be at most 200 characters'),
+  why: z.string().min(1, 'must not be empty'),
+  status: StatusSchema.default('proposed'),
+  parent_id: z.string().nullable().default(null),
+  actor: z.string().max(100, 'must be at most 100 characters').optional()
+}).passthrough();
+
+// The level selects the content shape
+export const LedgerEntryInputSchema = z.discriminatedUnion('level', [
+  LedgerEntryInputBaseSchema.extend({ level: z.literal('mission'), content: LEDGER_CONTENT_SCHEMAS.mission }),
+  LedgerEntryInputBaseSchema.extend({ level: z.literal('pillar'), content: LEDGER_CONTENT_SCHEMAS.pillar }),
+  LedgerEntryInputBaseSchema.extend({ level: z.literal('epic'), content: LEDGER_CONTENT_SCHEMAS.epic }),
+  LedgerEntryInputBaseSchema.extend({ level: z.literal('saga'), content: LEDGER_CONTENT_SCHEMAS.saga }),
+  LedgerEntryInputBaseSchema.extend({ level: z.literal('probe'), content: LEDGER_CONTENT_SCHEMAS.probe })
+]);
+
+export type LedgerEntryInput = z.infer<typeof LedgerEntryInputSchema>;
+
+// blocks and depends_on order work (A blocks B = B depends on A); relates_to only cross-references
+export const LinkTypeSchema = z.enum(['blocks', 'depends_on', 'relates_to']);
+
+export type LinkType = z.infer<typeof LinkTypeSchema>;
+
+// A typed link from the entry that holds it to another entry
+export const EntryLinkSchema = z.object({
+  id: z.string(),
+  type: LinkTypeSchema,
+  target_id: z.string(),
+  created_at: z.string().datetime({ message: 'must be an ISO-8601 date-time' }),
+  reason: z.string().optional()
+}).passthrough();
+
+export type EntryLink = z.infer<typeof EntryLinkSchema>;
+
+export const LedgerEntrySchema = z.object({
+  id: z.string(),
+  timestamp: z.string().datetime({ message: 'must be an ISO-8601 date-time' }),
+  purpose_tag: PurposeTagSchema,
+  level: LevelSchema,
+  seek: z.string(),
+  why: z.string(),
+  content: z.record(z.any()),
+  status: StatusSchema,
+  parent_id: z.string().nullable().optional(),
+  hash: z.string().regex(/^[0-9a-f]{64}$/, 'has an invalid format').optional(),
+  prev_hash: z.string().regex(/^[0-9a-f]{64}$/, 'has an invalid format').optional(),
+  links: z.array(EntryLinkSchema).optional()
+}).passthrough();
+
+export type LedgerEntry = z.infer<typeof LedgerEntrySchema>;
+
+// New seek, why or content for an entry; content is checked against the entry's level
+export const LedgerAmendmentSchema = z.object({
+  seek: z.string().min(1, 'must not be empty').max(200, 'must be at most 200 characters').optional(),
+  why: z.string().min(1, 'must not be empty').optional(),
+  content: z.record(z.any()).optional(),
+  reason: z.string().min(1, 'must not be empty').max(1000, 'must be at most 1000 characters'),
+  actor: z.string().max(100, 'must be at most 100 characters').optional()
+}).passthrough();
+
+export type LedgerAmendment = z.infer<typeof LedgerAmendmentSchema>;
+
+// A new link from an entry to target_id; links that would close a dependency cycle are refused
+export const LedgerLinkInputSchema = z.object({
+  type: LinkTypeSchema,
+  target_id: z.string().min(1, 'must not be empty'),
+  reason: z.string().max(1000, 'must be at most 1000 characters').optional(),
+  actor: z.string().max(100, 'must be at most 100 characters').optional()
+}).passthrough();
+
+export type LedgerLinkInput = z.infer<typeof LedgerLinkInputSchema>;
+
+// Close a probe with its result; status defaults to integrated (confirmed), archived (refuted) or dormant (inconclusive)
+export const ProbeOutcomeInputSchema = z.object({
+  result: ProbeResultSchema,
+  notes: z.string().max(2000, 'must be at most 2000 characters').optional(),
+  status: z.enum(['integrated', 'archived', 'dormant']).optional(),
+  actor: z.string().max(100, 'must be at most 100 characters').optional()
+}).passthrough();
+
+export type ProbeOutcomeInput = z.infer<typeof ProbeOutcomeInputSchema>;
+
+export const ValidationErrorSchema = z.object({
+  error: z.string(),
+  fields: z.array(z.object({
+    field: z.string(),
+    message: z.string()
+  }).passthrough())
+}).passthrough();
+
+export type ValidationError = z.infer<typeof ValidationErrorSchema>;
+
+export interface FieldError {
+  field: string; // dotted path, e.g. content.timebox
+  message: string;
+}
+
+// Plain-language messages for the issues zod reports in its own words
+export const ledgerErrorMap: z.ZodErrorMap = (issue, ctx) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return { message: issue.received === 'undefined' ? 'is required' : `must be ${issue.expected}, not ${issue.received}` };
+    case z.ZodIssueCode.invalid_enum_value:
+      return { message: `must be one of: ${issue.options.join(', ')}` };
+    case z.ZodIssueCode.invalid_union_discriminator:
+      return { message: `must be one of: ${issue.options.map(String).join(', ')}` };
+    default:
+      return { message: ctx.defaultError };
+  }
+};
+
+export const toFieldErrors = (error: z.ZodError, root: string): FieldError[] =>
+  error.issues.map(issue => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : root,
+    message: issue.message
+  }));
+
+export const formatFieldErrors = (fields: FieldError[]): string =>
+  fields.map(({ field, message }) => `${field} ${message}`).join('; ');
@@ -0,0 +1,46 @@
+// [safeguard] Ledger Status State Machine
+// Defines which status changes a ledger entry may go through. No Node imports, so the
+// browser ledger checks moves with the same table as the API.
+
+import type { Status } from './[safeguard]-ledger-schemas';
+
+export type LedgerStatus = Status;
+
+// Allowed transitions: archived is terminal, integrated work can only be archived
+export const STATUS_TRANSITIONS: Record<LedgerStatus, LedgerStatus[]> = {
+  proposed: ['active', 'dormant', 'archived'],
+  active: ['blocked', 'integrated', 'dormant', 'archived'],
+  blocked: ['active', 'dormant', 'archived'],
+  dormant: ['proposed', 'active', 'archived'],
+  integrated: ['archived'],
+  archived: []
+};
+
+export interface TransitionCheck {
+  allowed: boolean;
+  reason?: string;
+  allowedNext: LedgerStatus[];
+}
+
+/**
+ * Check whether an entry may move from one status to another
+ */
+export const checkStatusTransition = (from: LedgerStatus, to: LedgerStatus): TransitionCheck => {
+  const allowedNext = STATUS_TRANSITIONS[from];
+
+  if (from === to) {
+    return { allowed: false, reason: `Entry is already ${to}`, allowedNext };
+  }
+
+  if (!allowedNext.includes(to)) {
+    return {
+      allowed: false,
+      reason: allowedNext.length > 0
+        ? `Cannot move from ${from} to ${to}. Allowed: ${allowedNext.join(', ')}`
+        : `Cannot move from ${from}: ${from} is a final status`,
+      allowedNext
+    };
+  }
+
+  return { allowed: true, allowedNext };
+};
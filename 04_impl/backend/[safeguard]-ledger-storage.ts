@@ -0,0 +1,324 @@
+// [safeguard] Systemic Ledger Storage Engine
+// Durable, append-only event storage for the Systemic Ledger API
+// Based on contract: /03_contract/[clarify]-system-architecture-schema.md
+
+import fs from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { LedgerEntry } from './[accelerate]-systemic-ledger-api';
+import { DEFAULT_PROJECT_ID } from './[clarify]-project-scope';
+import type { EntryAmendment } from './[clarify]-ledger-revisions';
+import type { EntryLink } from './[accelerate]-ledger-dependencies';
+
+// Every change to the ledger is stored as an event; entries are rebuilt by replaying them
+interface LedgerEventBase {
+  id: string;
+  timestamp: string;
+  actor: string;
+  // Hash chain (see [safeguard]-ledger-integrity); absent on events stored before it existed
+  prev_hash?: string;
+  hash?: string;
+}
+
+export type LedgerEvent =
+  | (LedgerEventBase & {
+      type: 'entry_created';
+      entry: LedgerEntry;
+    })
+  | (LedgerEventBase & {
+      type: 'status_changed';
+      entry_id: string;
+      from: LedgerEntry['status'];
+      status: LedgerEntry['status'];
+      reason: string;
+    })
+  | (LedgerEventBase & {
+      type: 'entry_amended';
+      entry_id: string;
+      // New values only; earlier values stay in the events before this one
+      changes: EntryAmendment;
+      reason: string;
+    })
+  | (LedgerEventBase & {
+      type: 'link_added' | 'link_removed';
+      entry_id: string; // the entry that holds the link
+      link: EntryLink;
+      reason?: string;
+    });
+
+export interface LedgerStorage {
+  readonly kind: 'jsonl' | 'sqlite' | 'memory';
+  append(event: LedgerEvent): Promise<void>;
+  readAll(): Promise<LedgerEvent[]>;
+  close(): Promise<void>;
+}
+
+export class LedgerStorageError extends Error {
+  constructor(message: string, public readonly location?: string) {
+    super(message);
+    this.name = 'LedgerStorageError';
+  }
+}
+
+// The entry carries the chain hashes of the last event that changed it
+const stampEntry = (entry: LedgerEntry, event: LedgerEvent): LedgerEntry => {
+  if (event.hash !== undefined && event.prev_hash !== undefined) {
+    entry.hash = event.hash;
+    entry.prev_hash = event.prev_hash;
+  }
+  return entry;
+};
+
+/**
+ * Apply a single event to the current entry list, returning the affected entry
+ */
+export const applyLedgerEvent = (entries: LedgerEntry[], event: LedgerEvent): LedgerEntry | null => {
+  switch (event.type) {
+    case 'entry_created': {
+      const entry = { ...event.entry };
+      entries.push(entry);
+      return stampEntry(entry, event);
+    }
+    case 'status_changed': {
+      const entry = entries.find(e => e.id === event.entry_id);
+      if (entry) {
+        entry.status = event.status;
+        stampEntry(entry, event);
+      }
+      return entry ?? null;
+    }
+    case 'entry_amended': {
+      const entry = entries.find(e => e.id === event.entry_id);
+      if (entry) {
+        Object.assign(entry, event.changes);
+        stampEntry(entry, event);
+      }
+      return entry ?? null;
+    }
+    case 'link_added':
+    case 'link_removed': {
+      const entry = entries.find(e => e.id === event.entry_id);
+      if (entry) {
+        const others = (entry.links ?? []).filter(link => link.id !== event.link.id);
+        entry.links = event.type === 'link_added' ? [...others, event.link] : others;
+        stampEntry(entry, event);
+      }
+      return entry ?? null;
+    }
+  }
+};
+
+/**
+ * Rebuild current entries from the event log (oldest event first)
+ */
+export const replayLedgerEvents = (events: LedgerEvent[]): LedgerEntry[] => {
+  const entries: LedgerEntry[] = [];
+  events.forEach(event => applyLedgerEvent(entries, event));
+  return entries;
+};
+
+/**
+ * Entries as they stood at `asOf`: only events stamped at or before it are replayed
+ */
+export const replayLedgerEventsAsOf = (events: LedgerEvent[], asOf: string): LedgerEntry[] => {
+  const cutoff = Date.parse(asOf);
+  return replayLedgerEvents(events.filter(event => Date.parse(event.timestamp) <= cutoff));
+};
+
+export const isLedgerEvent = (value: unknown): value is LedgerEvent => {
+  if (!value || typeof value !== 'object') return false;
+  const event = value as Record<string, unknown>;
+  return typeof event['type'] === 'string' && typeof event['timestamp'] === 'string';
+};
+
+// In-memory storage (tests and throwaway development servers)
+export class MemoryLedgerStorage implements LedgerStorage {
+  readonly kind = 'memory' as const;
+  private events: LedgerEvent[] = [];
+
+  async append(event: LedgerEvent): Promise<void> {
+    this.events.push(event);
+  }
+
+  async readAll(): Promise<LedgerEvent[]> {
+    return [...this.events];
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+/**
+ * Append-only JSON-lines file. Each event is a single line written with an
+ * fsync before the append resolves, so an acknowledged write survives a crash.
+ * A torn final line (crash mid-write) is dropped on replay; corruption anywhere
+ * else is reported instead of silently skipped.
+ */
+export class JsonLinesLedgerStorage implements LedgerStorage {
+  readonly kind = 'jsonl' as const;
+  private fd: number | null = null;
+
+  constructor(private readonly filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  async append(event: LedgerEvent): Promise<void> {
+    const fd = this.open();
+    fs.writeSync(fd, `${JSON.stringify(event)}\n`);
+    fs.fsyncSync(fd);
+  }
+
+  async readAll(): Promise<LedgerEvent[]> {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const raw = fs.readFileSync(this.filePath, 'utf-8');
+    const lines = raw.split('\n');
+    const events: LedgerEvent[] = [];
+    let validBytes = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i] ?? '';
+      const isLast = i === lines.length - 1;
+
+      if (line.trim() === '') {
+        if (!isLast) validBytes += Buffer.byteLength(line) + 1;
+        continue;
+      }
+
+      try {
+        const parsed: unknown = JSON.parse(line);
+        if (!isLedgerEvent(parsed)) {
+          throw new Error('not a ledger event');
+        }
+        if (isLast) {
+          // Complete event without its newline: restore the terminator before appending again
+          fs.appendFileSync(this.filePath, '\n');
+        }
+        events.push(parsed);
+        validBytes += Buffer.byteLength(line) + 1;
+      } catch (error) {
+        if (isLast) {
+          console.warn(`[safeguard] Dropping incomplete trailing ledger event in ${this.filePath}`);
+          this.truncateTo(validBytes);
+          break;
+        }
+        throw new LedgerStorageError(
+          `Corrupted ledger event on line ${i + 1}: ${error instanceof Error ? error.message : 'unknown error'}`,
+          this.filePath
+        );
+      }
+    }
+
+    return events;
+  }
+
+  async close(): Promise<void> {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private open(): number {
+    if (this.fd === null) {
+      this.fd = fs.openSync(this.filePath, 'a');
+    }
+    return this.fd;
+  }
+
+  private truncateTo(length: number): void {
+    fs.truncateSync(this.filePath, length);
+    const fd = fs.openSync(this.filePath, 'r+');
+    fs.fsyncSync(fd);
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * SQLite event table (WAL mode, synchronous=FULL). The native driver is loaded
+ * lazily so the JSON-lines and memory engines work without it installed.
+ */
+export class SqliteLedgerStorage implements LedgerStorage {
+  readonly kind = 'sqlite' as const;
+  private db: BetterSqlite3.Database;
+  private insertStatement: BetterSqlite3.Statement;
+
+  constructor(filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = require('better-sqlite3');
+    } catch {
+      throw new LedgerStorageError(
+        'SQLite ledger storage requires the better-sqlite3 package. Run npm install or set LEDGER_STORAGE=jsonl.',
+        filePath
+      );
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = FULL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ledger_events (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        payload TEXT NOT NULL
+      )
+    `);
+    this.insertStatement = this.db.prepare(
+      'INSERT INTO ledger_events (type, timestamp, payload) VALUES (?, ?, ?)'
+    );
+  }
+
+  async append(event: LedgerEvent): Promise<void> {
+    this.insertStatement.run(event.type, event.timestamp, JSON.stringify(event));
+  }
+
+  async readAll(): Promise<LedgerEvent[]> {
+    const rows = this.db
+      .prepare('SELECT seq, payload FROM ledger_events ORDER BY seq ASC')
+      .all() as Array<{ seq: number; payload: string }>;
+
+    return rows.map(row => {
+      try {
+        return JSON.parse(row.payload) as LedgerEvent;
+      } catch {
+        throw new LedgerStorageError(`Corrupted ledger event at seq ${row.seq}`);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+export const ledgerDataDir = (): string =>
+  process.env['LEDGER_DATA_DIR'] || path.join(process.cwd(), 'data');
+
+/**
+ * Build the storage engine selected by LEDGER_STORAGE (jsonl | sqlite | memory) for a project.
+ * The default project keeps the original files; others live under data/projects/<id>/.
+ */
+export const createLedgerStorage = (projectId: string = DEFAULT_PROJECT_ID): LedgerStorage => {
+  const kind = (process.env['LEDGER_STORAGE'] || 'jsonl').toLowerCase();
+  const dataDir = projectId === DEFAULT_PROJECT_ID
+    ? ledgerDataDir()
+    : path.join(ledgerDataDir(), 'projects', projectId);
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryLedgerStorage();
+    case 'sqlite':
+      return new SqliteLedgerStorage(path.join(dataDir, 'ledger.sqlite'));
+    case 'jsonl':
+      return new JsonLinesLedgerStorage(path.join(dataDir, 'ledger-events.jsonl'));
+    default:
+      throw new LedgerStorageError(`Unknown LEDGER_STORAGE "${kind}". Use jsonl, sqlite or memory.`);
+  }
+};
@@ -0,0 +1,102 @@
+// [safeguard] Ledger Payload Validation
+// Field-level checks for ledger payloads using the schemas generated from /03_contract/ledger.yaml.
+// No Node imports, so the browser ledger clients validate with the same rules as the API.
+
+import type { z } from 'zod';
+import {
+  LedgerEntryInputSchema,
+  LedgerEntryInput,
+  LEDGER_CONTENT_SCHEMAS,
+  Level,
+  LedgerEntrySchema,
+  LedgerEntry,
+  LedgerAmendmentSchema,
+  LedgerAmendment,
+  ProbeOutcomeInputSchema,
+  ProbeOutcomeInput,
+  LedgerLinkInputSchema,
+  LedgerLinkInput,
+  StatusSchema,
+  Status,
+  FieldError,
+  ledgerErrorMap,
+  toFieldErrors,
+  formatFieldErrors
+} from './[safeguard]-ledger-schemas';
+
+export type { FieldError };
+export { formatFieldErrors };
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; fields: FieldError[] };
+
+export class LedgerValidationError extends Error {
+  constructor(public readonly fields: FieldError[]) {
+    super(`Invalid ledger entry: ${formatFieldErrors(fields)}`);
+    this.name = 'LedgerValidationError';
+  }
+}
+
+const check = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown, root: string): ValidationResult<T> => {
+  const result = schema.safeParse(input, { errorMap: ledgerErrorMap });
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, fields: toFieldErrors(result.error, root) };
+};
+
+/**
+ * Validate a new entry against the contract, including the content shape for its level
+ */
+export const validateLedgerEntryInput = (input: unknown): ValidationResult<LedgerEntryInput> =>
+  check(LedgerEntryInputSchema, input, 'entry');
+
+/**
+ * Validate a stored entry (id, timestamp and status included), e.g. from a backup.
+ * Content is only checked to be an object: older entries predate the per-level shapes.
+ */
+export const validateLedgerEntry = (input: unknown): ValidationResult<LedgerEntry> =>
+  check(LedgerEntrySchema, input, 'entry');
+
+/**
+ * Validate an amendment's own fields. New content still needs validateLedgerContent,
+ * which checks it against the entry's level.
+ */
+export const validateLedgerAmendment = (input: unknown): ValidationResult<LedgerAmendment> =>
+  check(LedgerAmendmentSchema, input, 'amendment');
+
+/**
+ * Validate content against the shape for a level. Fields are named as in a whole entry
+ * (content.timebox), so both checks report the same way.
+ */
+export const validateLedgerContent = (level: Level, input: unknown): ValidationResult<Record<string, unknown>> => {
+  const schema: z.ZodType<Record<string, unknown>, z.ZodTypeDef, unknown> = LEDGER_CONTENT_SCHEMAS[level];
+  const validation = check(schema, input, 'content');
+  if (!('fields' in validation)) {
+    return validation;
+  }
+  return {
+    success: false,
+    fields: validation.fields.map(({ field, message }) => ({ field: field === 'content' ? field : `content.${field}`, message }))
+  };
+};
+
+export const validateProbeOutcome = (input: unknown): ValidationResult<ProbeOutcomeInput> =>
+  check(ProbeOutcomeInputSchema, input, 'outcome');
+
+export const validateLedgerLink = (input: unknown): ValidationResult<LedgerLinkInput> =>
+  check(LedgerLinkInputSchema, input, 'link');
+
+export const validateLedgerStatus = (input: unknown): ValidationResult<Status> =>
+  check(StatusSchema, input, 'status');
+
+/**
+ * Throwing form of validateLedgerEntryInput, for callers that report errors by exception
+ */
+export const assertLedgerEntryInput = (input: unknown): LedgerEntryInput => {
+  const validation = validateLedgerEntryInput(input);
+  if (validation.success === false) {
+    throw new LedgerValidationError(validation.fields);
+  }
+  return validation.data;
+};
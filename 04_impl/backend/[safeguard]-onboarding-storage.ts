@@ -0,0 +1,105 @@
+// [safeguard] Onboarding Storage
+// Onboarding progress for the AI Orchestrator API: every user's state in one JSON file,
+// replaced whole on every save, like wisdom memory. Progress belongs to the user, not a
+// project, so there is one file: data/onboarding-states.json.
+
+import fs from 'fs';
+import path from 'path';
+import type { UserOnboardingState } from './[accelerate]-ai-orchestrator-api';
+
+export interface OnboardingStorage {
+  readonly kind: 'json' | 'memory';
+  load(): UserOnboardingState[] | null; // null until something has been saved
+  save(states: UserOnboardingState[]): void;
+}
+
+export class OnboardingStorageError extends Error {
+  constructor(message: string, public readonly location?: string) {
+    super(message);
+    this.name = 'OnboardingStorageError';
+  }
+}
+
+const copyState = (state: UserOnboardingState): UserOnboardingState => ({
+  ...state,
+  completed_steps: [...state.completed_steps]
+});
+
+export class MemoryOnboardingStorage implements OnboardingStorage {
+  readonly kind = 'memory';
+  private states: UserOnboardingState[] | null = null;
+
+  load(): UserOnboardingState[] | null {
+    return this.states ? this.states.map(copyState) : null;
+  }
+
+  save(states: UserOnboardingState[]): void {
+    this.states = states.map(copyState);
+  }
+}
+
+export class JsonOnboardingStorage implements OnboardingStorage {
+  readonly kind = 'json';
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Read the stored states. A file that is not a JSON array is moved aside (never
+   * overwritten) and every user starts onboarding again.
+   */
+  load(): UserOnboardingState[] | null {
+    if (!fs.existsSync(this.filePath)) {
+      return null;
+    }
+
+    const raw = fs.readFileSync(this.filePath, 'utf-8');
+    try {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) {
+        throw new OnboardingStorageError('Onboarding file does not hold an array', this.filePath);
+      }
+      return parsed.map(normalizeState);
+    } catch (error) {
+      const aside = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, aside);
+      console.error(`[safeguard] Unreadable onboarding states moved to ${aside}:`, error);
+      return null;
+    }
+  }
+
+  save(states: UserOnboardingState[]): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(`${this.filePath}.tmp`, JSON.stringify(states, null, 2), 'utf-8');
+      fs.renameSync(`${this.filePath}.tmp`, this.filePath);
+    } catch (error) {
+      throw new OnboardingStorageError(
+        `Failed to write onboarding states: ${error instanceof Error ? error.message : String(error)}`,
+        this.filePath
+      );
+    }
+  }
+}
+
+const normalizeState = (state: UserOnboardingState): UserOnboardingState => ({
+  ...state,
+  completed_steps: Array.isArray(state.completed_steps) ? state.completed_steps : [],
+  completed_at: state.completed_at ?? null
+});
+
+/**
+ * Build the storage selected by ONBOARDING_STORAGE (json | memory)
+ */
+export const createOnboardingStorage = (): OnboardingStorage => {
+  const kind = (process.env['ONBOARDING_STORAGE'] || 'json').toLowerCase();
+  const dataDir = process.env['ONBOARDING_DATA_DIR'] || path.join(process.cwd(), 'data');
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryOnboardingStorage();
+    case 'json':
+      return new JsonOnboardingStorage(path.join(dataDir, 'onboarding-states.json'));
+    default:
+      throw new OnboardingStorageError(`Unknown ONBOARDING_STORAGE "${kind}". Use json or memory.`);
+  }
+};
@@ -0,0 +1,137 @@
+// [safeguard] Prompt Template Storage
+// Builder prompt templates for the AI Orchestrator API. The shipped templates are markdown
+// files in prompt-templates/; their versions, and the versions saved through the API, are
+// kept in one JSON file replaced whole on every save, like wisdom memory.
+
+import fs from 'fs';
+import path from 'path';
+import {
+  PromptTemplate,
+  TemplateDefinition,
+  TEMPLATE_ID_PATTERN,
+  parseTemplateFile
+} from './[accelerate]-prompt-templates';
+
+export interface PromptTemplateStorage {
+  readonly kind: 'json' | 'memory';
+  load(): PromptTemplate[] | null; // null until something has been saved
+  save(templates: PromptTemplate[]): void;
+}
+
+export class PromptTemplateStorageError extends Error {
+  constructor(message: string, public readonly location?: string) {
+    super(message);
+    this.name = 'PromptTemplateStorageError';
+  }
+}
+
+const copyTemplate = (template: PromptTemplate): PromptTemplate => ({
+  ...template,
+  profile: { ...template.profile },
+  versions: template.versions.map(version => ({ ...version }))
+});
+
+export class MemoryPromptTemplateStorage implements PromptTemplateStorage {
+  readonly kind = 'memory';
+  private templates: PromptTemplate[] | null = null;
+
+  load(): PromptTemplate[] | null {
+    return this.templates ? this.templates.map(copyTemplate) : null;
+  }
+
+  save(templates: PromptTemplate[]): void {
+    this.templates = templates.map(copyTemplate);
+  }
+}
+
+export class JsonPromptTemplateStorage implements PromptTemplateStorage {
+  readonly kind = 'json';
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Read the stored templates. A file that is not a JSON array is moved aside (never
+   * overwritten) and the templates start again from prompt-templates/.
+   */
+  load(): PromptTemplate[] | null {
+    if (!fs.existsSync(this.filePath)) {
+      return null;
+    }
+
+    const raw = fs.readFileSync(this.filePath, 'utf-8');
+    try {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) {
+        throw new PromptTemplateStorageError('Prompt template file does not hold an array', this.filePath);
+      }
+      return parsed;
+    } catch (error) {
+      const aside = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, aside);
+      console.error(`[safeguard] Unreadable prompt templates moved to ${aside}:`, error);
+      return null;
+    }
+  }
+
+  save(templates: PromptTemplate[]): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(`${this.filePath}.tmp`, JSON.stringify(templates, null, 2), 'utf-8');
+      fs.renameSync(`${this.filePath}.tmp`, this.filePath);
+    } catch (error) {
+      throw new PromptTemplateStorageError(
+        `Failed to write prompt templates: ${error instanceof Error ? error.message : String(error)}`,
+        this.filePath
+      );
+    }
+  }
+}
+
+export const promptTemplateDir = (): string =>
+  process.env['PROMPT_TEMPLATE_DIR'] || path.join(process.cwd(), 'prompt-templates');
+
+/**
+ * Read every prompt-templates/<id>.md. A file that cannot be parsed is skipped with an
+ * error logged, so one bad edit never takes the other templates down with it.
+ */
+export const loadTemplateDefinitions = (dir: string = promptTemplateDir()): TemplateDefinition[] => {
+  if (!fs.existsSync(dir)) {
+    console.warn(`[safeguard] No prompt template directory at ${dir}; builders get the fallback prompt`);
+    return [];
+  }
+
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.md'))
+    .sort()
+    .flatMap(file => {
+      const id = path.basename(file, '.md');
+      if (!TEMPLATE_ID_PATTERN.test(id)) {
+        console.error(`[safeguard] Skipping prompt template ${file}: ids are lowercase words joined by -`);
+        return [];
+      }
+      try {
+        return [parseTemplateFile(id, fs.readFileSync(path.join(dir, file), 'utf-8'))];
+      } catch (error) {
+        console.error(`[safeguard] Skipping prompt template ${file}:`, error);
+        return [];
+      }
+    });
+};
+
+/**
+ * Build the storage selected by PROMPT_TEMPLATE_STORAGE (json | memory). Templates belong to
+ * the team, not a project, so there is one file: data/prompt-templates.json.
+ */
+export const createPromptTemplateStorage = (): PromptTemplateStorage => {
+  const kind = (process.env['PROMPT_TEMPLATE_STORAGE'] || 'json').toLowerCase();
+  const dataDir = process.env['PROMPT_TEMPLATE_DATA_DIR'] || path.join(process.cwd(), 'data');
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryPromptTemplateStorage();
+    case 'json':
+      return new JsonPromptTemplateStorage(path.join(dataDir, 'prompt-templates.json'));
+    default:
+      throw new PromptTemplateStorageError(`Unknown PROMPT_TEMPLATE_STORAGE "${kind}". Use json or memory.`);
+  }
+};
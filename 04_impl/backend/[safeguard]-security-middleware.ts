@@ -25,7 +25,7 @@ const SECURITY_CONFIG = {
     origin: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'],
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID', 'X-Project-Id', 'X-User-Id'],
   },
   
   // Content Security Policy
@@ -91,8 +91,20 @@ export const rateLimits = {
   })
 };
 
+export interface SecurityMiddlewareOptions {
+  // Paths whose JSON body is stored verbatim (e.g. ledger imports of journal markdown). Their body
+  // is neither sanitized nor scanned, so it must be schema-validated by the route; query and
+  // params are still checked. A pattern matches paths with ids in them.
+  rawBodyPaths?: Array<string | RegExp>;
+}
+
 // Security middleware setup
-export const setupSecurityMiddleware = (app: express.Application) => {
+export const setupSecurityMiddleware = (app: express.Application, options: SecurityMiddlewareOptions = {}) => {
+  const rawBodyPaths = options.rawBodyPaths || [];
+  const isRawBody = (path: string) =>
+    rawBodyPaths.some(rawPath => typeof rawPath === 'string' ? rawPath === path : rawPath.test(path));
+  const checkedBody = (req: Request) => isRawBody(req.path) ? undefined : req.body;
+
   // Basic security headers
   app.use(helmet({
     contentSecurityPolicy: {
@@ -121,13 +133,13 @@ export const setupSecurityMiddleware = (app: express.Application) => {
   app.use(securityLoggingMiddleware);
 
   // Input validation middleware
-  app.use(inputValidationMiddleware);
+  app.use(inputValidationMiddleware(checkedBody));
 
   // SQL injection protection
-  app.use(sqlInjectionProtection);
+  app.use(sqlInjectionProtection(checkedBody));
 
   // XSS protection
-  app.use(xssProtection);
+  app.use(xssProtection(checkedBody));
 
   console.log('Security middleware configured successfully');
 };
@@ -175,7 +187,9 @@ const securityLoggingMiddleware = (req: Request, res: Response, next: NextFuncti
 };
 
 // Input validation middleware
-const inputValidationMiddleware = (req: Request, res: Response, next: NextFunction) => {
+type BodySelector = (req: Request) => unknown;
+
+const inputValidationMiddleware = (checkedBody: BodySelector) => (req: Request, res: Response, next: NextFunction) => {
   const sanitizeString = (str: string): string => {
     return str
       .replace(/[<>]/g, '') // Remove < and >
@@ -202,7 +216,7 @@ const inputValidationMiddleware = (req: Request, res: Response, next: NextFuncti
   };
 
   // Sanitize request body, query, and params
-  if (req.body) {
+  if (checkedBody(req)) {
     req.body = sanitizeObject(req.body);
   }
   if (req.query) {
@@ -216,7 +230,7 @@ const inputValidationMiddleware = (req: Request, res: Response, next: NextFuncti
 };
 
 // SQL injection protection
-const sqlInjectionProtection = (req: Request, res: Response, next: NextFunction) => {
+const sqlInjectionProtection = (checkedBody: BodySelector) => (req: Request, res: Response, next: NextFunction) => {
   const sqlPatterns = [
     /(\b(union|select|insert|update|delete|drop|create|alter|exec|execute)\b)/i,
     /(\b(and|or)\b\s+\d+\s*=\s*\d+)/i,
@@ -226,7 +240,7 @@ const sqlInjectionProtection = (req: Request, res: Response, next: NextFunction)
   ];
 
   const requestData = JSON.stringify({
-    body: req.body,
+    body: checkedBody(req),
     query: req.query,
     params: req.params
   });
@@ -255,7 +269,7 @@ const sqlInjectionProtection = (req: Request, res: Response, next: NextFunction)
 };
 
 // XSS protection
-const xssProtection = (req: Request, res: Response, next: NextFunction) => {
+const xssProtection = (checkedBody: BodySelector) => (req: Request, res: Response, next: NextFunction) => {
   const xssPatterns = [
     /<script[^>]*>.*?<\/script>/gi,
     /javascript:/gi,
@@ -268,7 +282,7 @@ const xssProtection = (req: Request, res: Response, next: NextFunction) => {
   ];
 
   const requestData = JSON.stringify({
-    body: req.body,
+    body: checkedBody(req),
     query: req.query,
     params: req.params
   });
@@ -0,0 +1,111 @@
+// [safeguard] Wisdom Storage
+// Durable wisdom memory for the AI Orchestrator API: one JSON file per project, replaced
+// whole on every save through a temporary file so a crash never leaves half a file behind
+
+import fs from 'fs';
+import path from 'path';
+import type { WisdomInsight } from './[accelerate]-ai-orchestrator-api';
+import { DEFAULT_PROJECT_ID } from './[clarify]-project-scope';
+
+export interface WisdomStorage {
+  readonly kind: 'json' | 'memory';
+  load(): WisdomInsight[] | null; // null until something has been saved
+  save(insights: WisdomInsight[]): void;
+}
+
+export class WisdomStorageError extends Error {
+  constructor(message: string, public readonly location?: string) {
+    super(message);
+    this.name = 'WisdomStorageError';
+  }
+}
+
+export class MemoryWisdomStorage implements WisdomStorage {
+  readonly kind = 'memory';
+  private insights: WisdomInsight[] | null = null;
+
+  load(): WisdomInsight[] | null {
+    return this.insights ? this.insights.map(insight => ({ ...insight })) : null;
+  }
+
+  save(insights: WisdomInsight[]): void {
+    this.insights = insights.map(insight => ({ ...insight }));
+  }
+}
+
+export class JsonWisdomStorage implements WisdomStorage {
+  readonly kind = 'json';
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Read the stored insights. A file that is not a JSON array is moved aside (never
+   * overwritten) and the project starts again from nothing.
+   */
+  load(): WisdomInsight[] | null {
+    if (!fs.existsSync(this.filePath)) {
+      return null;
+    }
+
+    const raw = fs.readFileSync(this.filePath, 'utf-8');
+    try {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) {
+        throw new WisdomStorageError('Wisdom file does not hold an array', this.filePath);
+      }
+      return parsed.map(normalizeInsight);
+    } catch (error) {
+      const aside = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, aside);
+      console.error(`[safeguard] Unreadable wisdom memory moved to ${aside}:`, error);
+      return null;
+    }
+  }
+
+  save(insights: WisdomInsight[]): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(`${this.filePath}.tmp`, JSON.stringify(insights, null, 2), 'utf-8');
+      fs.renameSync(`${this.filePath}.tmp`, this.filePath);
+    } catch (error) {
+      throw new WisdomStorageError(
+        `Failed to write wisdom memory: ${error instanceof Error ? error.message : String(error)}`,
+        this.filePath
+      );
+    }
+  }
+}
+
+// Insights saved before decay, pinning and provenance existed
+const normalizeInsight = (insight: WisdomInsight): WisdomInsight => ({
+  ...insight,
+  context_triggers: Array.isArray(insight.context_triggers) ? insight.context_triggers : [],
+  usage_count: typeof insight.usage_count === 'number' ? insight.usage_count : 0,
+  pinned: insight.pinned === true,
+  last_used_at: insight.last_used_at ?? null,
+  merged_count: insight.merged_count ?? 0,
+  sources: Array.isArray(insight.sources) ? insight.sources : []
+});
+
+export const wisdomDataDir = (): string =>
+  process.env['WISDOM_DATA_DIR'] || path.join(process.cwd(), 'data');
+
+/**
+ * Build the storage selected by WISDOM_STORAGE (json | memory) for a project. The default
+ * project keeps data/wisdom-memory.json; others live under data/projects/<id>/, as in the ledger.
+ */
+export const createWisdomStorage = (projectId: string = DEFAULT_PROJECT_ID): WisdomStorage => {
+  const kind = (process.env['WISDOM_STORAGE'] || 'json').toLowerCase();
+  const dataDir = projectId === DEFAULT_PROJECT_ID
+    ? wisdomDataDir()
+    : path.join(wisdomDataDir(), 'projects', projectId);
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryWisdomStorage();
+    case 'json':
+      return new JsonWisdomStorage(path.join(dataDir, 'wisdom-memory.json'));
+    default:
+      throw new WisdomStorageError(`Unknown WISDOM_STORAGE "${kind}". Use json or memory.`);
+  }
+};
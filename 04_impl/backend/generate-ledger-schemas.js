@@ -0,0 +1,202 @@
+#!/usr/bin/env node
+
+/**
+ * [safeguard] Ledger Schema Generator
+ * Turns the ledger contract (/03_contract/ledger.yaml) into zod validators for the
+ * backend and the web app. Run with `npm run generate:schemas`; add --check to fail
+ * when the generated files are out of date instead of writing them.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const yaml = require('js-yaml');
+
+const CONTRACT_PATH = path.resolve(__dirname, '../../03_contract/ledger.yaml');
+const OUTPUT_PATHS = [
+    path.resolve(__dirname, '[safeguard]-ledger-schemas.ts'),
+    path.resolve(__dirname, '../vision-holder-app/app/services/[safeguard]-ledger-schemas.ts')
+];
+
+// Emitted after the schemas so the API and the web app report invalid fields the same way
+const FIELD_ERROR_HELPERS = `export interface FieldError {
+  field: string; // dotted path, e.g. content.timebox
+  message: string;
+}
+
+// Plain-language messages for the issues zod reports in its own words
+export const ledgerErrorMap: z.ZodErrorMap = (issue, ctx) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return { message: issue.received === 'undefined' ? 'is required' : \`must be \${issue.expected}, not \${issue.received}\` };
+    case z.ZodIssueCode.invalid_enum_value:
+      return { message: \`must be one of: \${issue.options.join(', ')}\` };
+    case z.ZodIssueCode.invalid_union_discriminator:
+      return { message: \`must be one of: \${issue.options.map(String).join(', ')}\` };
+    default:
+      return { message: ctx.defaultError };
+  }
+};
+
+export const toFieldErrors = (error: z.ZodError, root: string): FieldError[] =>
+  error.issues.map(issue => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : root,
+    message: issue.message
+  }));
+
+export const formatFieldErrors = (fields: FieldError[]): string =>
+  fields.map(({ field, message }) => \`\${field} \${message}\`).join('; ');
+`;
+
+const refName = (ref) => {
+    const match = /^#\/components\/schemas\/(\w+)$/.exec(ref);
+    if (!match) {
+        throw new Error(`Unsupported $ref "${ref}"`);
+    }
+    return match[1];
+};
+
+const literal = (value) => JSON.stringify(value).replace(/"/g, "'");
+
+// zod expression for one schema node
+function toZod(schema, defined, indent) {
+    if (schema.$ref) {
+        const name = refName(schema.$ref);
+        if (!defined.has(name)) {
+            throw new Error(`Schema ${name} is referenced before it is defined`);
+        }
+        return withModifiers(`${name}Schema`, schema);
+    }
+
+    switch (schema.type) {
+        case 'string': {
+            if (schema.enum) {
+                return withModifiers(`z.enum([${schema.enum.map(literal).join(', ')}])`, schema);
+            }
+            let expr = 'z.string()';
+            if (schema.format === 'date-time') expr += `.datetime({ message: 'must be an ISO-8601 date-time' })`;
+            if (schema.minLength === 1) expr += `.min(1, 'must not be empty')`;
+            else if (schema.minLength !== undefined) expr += `.min(${schema.minLength}, 'must be at least ${schema.minLength} characters')`;
+            if (schema.maxLength !== undefined) expr += `.max(${schema.maxLength}, 'must be at most ${schema.maxLength} characters')`;
+            if (schema.pattern) expr += `.regex(/${schema.pattern}/, ${literal(schema['x-message'] || 'has an invalid format')})`;
+            return withModifiers(expr, schema);
+        }
+        case 'integer':
+        case 'number': {
+            let expr = schema.type === 'integer' ? 'z.number().int()' : 'z.number()';
+            if (schema.minimum !== undefined) expr += `.min(${schema.minimum})`;
+            if (schema.maximum !== undefined) expr += `.max(${schema.maximum})`;
+            return withModifiers(expr, schema);
+        }
+        case 'boolean':
+            return withModifiers('z.boolean()', schema);
+        case 'array': {
+            let expr = `z.array(${toZod(schema.items, defined, indent)})`;
+            if (schema.minItems !== undefined) expr += `.min(${schema.minItems}, 'must have at least ${schema.minItems} item(s)')`;
+            return withModifiers(expr, schema);
+        }
+        case 'object':
+            return withModifiers(objectToZod(schema, defined, indent), schema);
+        default:
+            throw new Error(`Unsupported schema type "${schema.type}"`);
+    }
+}
+
+function withModifiers(expr, schema) {
+    if (schema.nullable) expr += '.nullable()';
+    if (schema.default !== undefined) expr += `.default(${literal(schema.default)})`;
+    return expr;
+}
+
+function objectToZod(schema, defined, indent, omit = []) {
+    if (!schema.properties) {
+        return 'z.record(z.any())';
+    }
+
+    const required = new Set(schema.required || []);
+    const pad = '  '.repeat(indent + 1);
+    const fields = Object.entries(schema.properties)
+        .filter(([name]) => !omit.includes(name))
+        .map(([name, property]) => {
+            let expr = toZod(property, defined, indent + 1);
+            if (!required.has(name) && property.default === undefined) expr += '.optional()';
+            return `${pad}${name}: ${expr}`;
+        });
+
+    // Extra keys are allowed unless the contract closes the object
+    const mode = schema.additionalProperties === false ? '.strict()' : '.passthrough()';
+    return `z.object({\n${fields.join(',\n')}\n${'  '.repeat(indent)}})${mode}`;
+}
+
+function generate(contract) {
+    const schemas = contract.components.schemas;
+    const defined = new Set();
+    const blocks = [];
+
+    for (const [name, schema] of Object.entries(schemas)) {
+        const byLevel = schema['x-content-by-level'];
+
+        if (byLevel) {
+            Object.keys(byLevel).forEach(level => {
+                if (!/^[a-z_]+$/.test(level)) {
+                    throw new Error(`Unsupported level name "${level}"`);
+                }
+            });
+            const levels = Object.entries(byLevel).map(([level, ref]) => {
+                const contentName = refName(ref);
+                return `  ${level}: ${contentName}Schema`;
+            });
+            const variants = Object.keys(byLevel).map(level =>
+                `  ${name}BaseSchema.extend({ level: z.literal(${literal(level)}), content: LEDGER_CONTENT_SCHEMAS.${level} })`
+            );
+
+            blocks.push(`export const LEDGER_CONTENT_SCHEMAS = {\n${levels.join(',\n')}\n};`);
+            blocks.push(`const ${name}BaseSchema = ${objectToZod(schema, defined, 0, ['level'])};`);
+            blocks.push(`// The level selects the content shape\nexport const ${name}Schema = z.discriminatedUnion('level', [\n${variants.join(',\n')}\n]);`);
+        } else {
+            const comment = schema.description ? `// ${schema.description}\n` : '';
+            blocks.push(`${comment}export const ${name}Schema = ${toZod(schema, defined, 0)};`);
+        }
+
+        blocks.push(`export type ${name} = z.infer<typeof ${name}Schema>;`);
+        defined.add(name);
+    }
+
+    return [
+        '// [safeguard] Ledger Contract Schemas',
+        '// GENERATED from /03_contract/ledger.yaml by 04_impl/backend/generate-ledger-schemas.js. Do not edit by hand.',
+        '',
+        "import { z } from 'zod';",
+        '',
+        blocks.join('\n\n'),
+        '',
+        FIELD_ERROR_HELPERS
+    ].join('\n');
+}
+
+function main() {
+    const check = process.argv.includes('--check');
+    const contract = yaml.load(fs.readFileSync(CONTRACT_PATH, 'utf8'));
+    const output = generate(contract);
+    let stale = false;
+
+    for (const outputPath of OUTPUT_PATHS) {
+        const current = fs.existsSync(outputPath) ? fs.readFileSync(outputPath, 'utf8') : null;
+        const relative = path.relative(process.cwd(), outputPath);
+
+        if (current === output) {
+            console.log(`✓ ${relative} is up to date`);
+        } else if (check) {
+            console.error(`✗ ${relative} is out of date with the contract`);
+            stale = true;
+        } else {
+            fs.writeFileSync(outputPath, output);
+            console.log(`✓ wrote ${relative}`);
+        }
+    }
+
+    if (stale) {
+        process.exit(1);
+    }
+}
+
+main();
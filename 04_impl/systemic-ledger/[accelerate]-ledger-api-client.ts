@@ -1,6 +1,16 @@
 // [accelerate] Systemic Ledger API Client
 // Based on contract: /03_contract/[clarify]-system-architecture-schema.md
 
+import { scoreAlignment, AlignmentResult } from '../backend/[accelerate]-alignment-engine';
+import { queryLedgerEntries, formatLedgerQueryParams, LedgerQuery, LedgerQueryResult } from '../backend/[accelerate]-ledger-query';
+import { assertLedgerEntryInput, LedgerValidationError } from '../backend/[safeguard]-ledger-validation';
+import type { LedgerImportResult } from '../backend/[safeguard]-ledger-import';
+import type { EntryAmendment, EntryRevision, FieldDiff } from '../backend/[clarify]-ledger-revisions';
+import type { LedgerComparison, TimelineMoment } from '../backend/[accelerate]-ledger-timeline';
+import type { ProbeResult, ProbeState, ProbeTimebox } from '../backend/[accelerate]-probe-timebox';
+import type { DependencyGraph, EntryLink, LinkType, WorkableEntry } from '../backend/[accelerate]-ledger-dependencies';
+import { DEFAULT_PROJECT_ID, PROJECT_ID_HEADER } from '../backend/[clarify]-project-scope';
+
 export interface LedgerEntry {
   id: string;
   timestamp: string;
@@ -10,26 +20,96 @@ export interface LedgerEntry {
   why: string;
   content: Record<string, any>;
   status: 'proposed' | 'active' | 'blocked' | 'integrated' | 'archived' | 'dormant';
+  parent_id?: string | null;
+  hash?: string; // set by the server's hash chain
+  prev_hash?: string;
+  links?: EntryLink[];
+}
+
+export type LedgerFilter = LedgerQuery;
+
+export interface LedgerTreeNode {
+  entry: LedgerEntry;
+  children: LedgerTreeNode[];
+  rollup: {
+    progress: number;
+    descendant_count: number;
+    status_counts: Record<LedgerEntry['status'], number>;
+  };
 }
 
-export interface LedgerFilter {
-  level?: LedgerEntry['level'];
-  purpose_tag?: LedgerEntry['purpose_tag'];
-  status?: LedgerEntry['status'];
-  startDate?: string;
-  endDate?: string;
+export interface LedgerHistoryItem {
+  event_id: string;
+  type: 'created' | 'status_changed';
+  timestamp: string;
+  actor: string;
+  from: LedgerEntry['status'] | null;
+  to: LedgerEntry['status'];
+  reason: string | null;
 }
 
+// One revision of seek, why and content, with its diff against the revision before
+export type LedgerRevision = EntryRevision & { diff: FieldDiff[] };
+
+// Message from GET /ledger/stream
+export interface LedgerChange<TEntry = LedgerEntry> {
+  seq: number;
+  event_id: string;
+  type: 'entry_created' | 'status_changed' | 'entry_amended' | 'link_added' | 'link_removed';
+  timestamp: string;
+  actor: string;
+  entry: TEntry;
+  from?: LedgerEntry['status'];
+  reason?: string;
+  changed?: Array<keyof EntryAmendment>;
+  link?: EntryLink;
+}
+
+export type LedgerChangeListener = (change: LedgerChange) => void;
+export type LedgerConnectionListener = (connected: boolean) => void;
+export type ProbeExpiryListener = (probe: ProbeTimebox<LedgerEntry>) => void;
+
 export class SystemicLedgerAPI {
   private readonly apiBaseUrl = 'http://localhost:3001';
+  private readonly orchestratorBaseUrl = 'http://localhost:3002';
   private cache: LedgerEntry[] = [];
   private lastFetch = 0;
   private readonly cacheTimeout = 30000; // 30 seconds
+  private eventSource: EventSource | null = null;
+  private streamConnected = false;
+  private changeListeners = new Set<LedgerChangeListener>();
+  private connectionListeners = new Set<LedgerConnectionListener>();
+  private probeListeners = new Set<ProbeExpiryListener>();
+  private projectId = DEFAULT_PROJECT_ID;
 
   constructor() {
     this.initializeFromAPI();
   }
 
+  getProject(): string {
+    return this.projectId;
+  }
+
+  /**
+   * Point every request and the live stream at another project's ledger
+   */
+  useProject(projectId: string): void {
+    if (projectId === this.projectId) return;
+
+    this.projectId = projectId;
+    this.cache = [];
+    this.lastFetch = 0;
+    if (this.eventSource) {
+      this.closeStream();
+      this.openStream();
+    }
+  }
+
+  // Sent with every request; the services keep one dataset per project
+  private projectHeaders(): Record<string, string> {
+    return { [PROJECT_ID_HEADER]: this.projectId };
+  }
+
   /**
    * Initialize ledger from API
    */
@@ -52,13 +132,21 @@ export class SystemicLedgerAPI {
       return; // Use cached data
     }
 
+    if (this.streamConnected && this.lastFetch > 0) {
+      return; // The live stream keeps the cache current
+    }
+
+    const projectId = this.projectId;
     try {
-      const response = await fetch(`${this.apiBaseUrl}/ledger/entries`);
+      const response = await fetch(`${this.apiBaseUrl}/ledger/entries`, { headers: this.projectHeaders() });
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
       
       const data = await response.json();
+      if (projectId !== this.projectId) {
+        return; // Switched project while this was in flight
+      }
       this.cache = data.entries || [];
       this.lastFetch = now;
     } catch (error) {
@@ -71,17 +159,24 @@ export class SystemicLedgerAPI {
    * Add a new entry to the ledger via API
    */
   async addEntry(entry: Omit<LedgerEntry, 'id' | 'timestamp'>): Promise<LedgerEntry> {
+    // Catch contract violations before the round trip; the server applies the same schemas
+    assertLedgerEntryInput(entry);
+
     try {
       const response = await fetch(`${this.apiBaseUrl}/ledger/entries`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...this.projectHeaders()
         },
         body: JSON.stringify(entry),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (Array.isArray(errorData.fields)) {
+          throw new LedgerValidationError(errorData.fields);
+        }
         throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
       }
 
@@ -99,47 +194,49 @@ export class SystemicLedgerAPI {
   }
 
   /**
-   * Retrieve entries with optional filtering
+   * Retrieve entries matching a query, evaluated against the local cache
    */
   async getEntries(filter?: LedgerFilter): Promise<LedgerEntry[]> {
     await this.refreshCache();
-    
-    let filtered = [...this.cache];
-
-    if (filter?.level) {
-      filtered = filtered.filter(entry => entry.level === filter.level);
-    }
-
-    if (filter?.purpose_tag) {
-      filtered = filtered.filter(entry => entry.purpose_tag === filter.purpose_tag);
-    }
-
-    if (filter?.status) {
-      filtered = filtered.filter(entry => entry.status === filter.status);
-    }
+    return queryLedgerEntries(this.cache, filter || {}).entries;
+  }
 
-    if (filter?.startDate) {
-      filtered = filtered.filter(entry => entry.timestamp >= filter.startDate!);
-    }
+  /**
+   * Search entries on the server, returning the page together with total, facet counts and next cursor
+   */
+  async queryEntries(query: LedgerQuery): Promise<LedgerQueryResult<LedgerEntry>> {
+    try {
+      const params = new URLSearchParams(formatLedgerQueryParams(query)).toString();
+      const response = await fetch(`${this.apiBaseUrl}/ledger/entries${params ? `?${params}` : ''}`, { headers: this.projectHeaders() });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `HTTP error! status: ${response.status}`);
+      }
 
-    if (filter?.endDate) {
-      filtered = filtered.filter(entry => entry.timestamp <= filter.endDate!);
+      return await response.json();
+    } catch (error) {
+      console.error('Failed to query entries:', error);
+      throw error;
     }
-
-    return filtered.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }
 
   /**
-   * Update entry status via API
+   * Update entry status via API (the server rejects transitions outside the status graph)
    */
-  async updateEntryStatus(id: string, status: LedgerEntry['status']): Promise<LedgerEntry | null> {
+  async updateEntryStatus(
+    id: string,
+    status: LedgerEntry['status'],
+    reason: string,
+    actor?: string
+  ): Promise<LedgerEntry | null> {
     try {
       const response = await fetch(`${this.apiBaseUrl}/ledger/entries/${id}/status`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...this.projectHeaders()
         },
-        body: JSON.stringify({ status }),
+        body: JSON.stringify({ status, reason, actor }),
       });
 
       if (!response.ok) {
@@ -163,6 +260,243 @@ export class SystemicLedgerAPI {
     }
   }
 
+  /**
+   * Fix an entry's seek, why or content via API; the earlier values stay as revisions
+   */
+  async amendEntry(
+    id: string,
+    amendment: EntryAmendment,
+    reason: string,
+    actor?: string
+  ): Promise<LedgerEntry> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/ledger/entries/${id}/amend`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.projectHeaders()
+        },
+        body: JSON.stringify({ ...amendment, reason, actor }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      const amendedEntry: LedgerEntry = result.entry;
+
+      const index = this.cache.findIndex(entry => entry.id === id);
+      if (index !== -1) {
+        this.cache[index] = amendedEntry;
+      }
+
+      return amendedEntry;
+    } catch (error) {
+      console.error('Failed to amend entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record what a probe showed and close it (integrated, archived or dormant by default)
+   */
+  async recordProbeOutcome(
+    id: string,
+    outcome: { result: ProbeResult; notes?: string; status?: 'integrated' | 'archived' | 'dormant' },
+    actor?: string
+  ): Promise<LedgerEntry> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/ledger/entries/${id}/outcome`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.projectHeaders()
+        },
+        body: JSON.stringify({ ...outcome, actor }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      const closedEntry: LedgerEntry = result.entry;
+
+      const index = this.cache.findIndex(entry => entry.id === id);
+      if (index !== -1) {
+        this.cache[index] = closedEntry;
+      }
+
+      return closedEntry;
+    } catch (error) {
+      console.error('Failed to record probe outcome:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Probe timeboxes, most overdue first; state 'expired' lists the dormant candidates
+   */
+  async getProbes(state?: ProbeState): Promise<ProbeTimebox<LedgerEntry>[]> {
+    try {
+      const query = state ? `?state=${state}` : '';
+      const response = await fetch(`${this.apiBaseUrl}/ledger/probes${query}`, { headers: this.projectHeaders() });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.probes || [];
+    } catch (error) {
+      console.error('Failed to get probe timeboxes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Link an entry to another: it blocks, depends on or relates to the target
+   */
+  async addLink(id: string, type: LinkType, targetId: string, reason?: string, actor?: string): Promise<LedgerEntry> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/ledger/entries/${id}/links`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.projectHeaders()
+        },
+        body: JSON.stringify({ type, target_id: targetId, reason, actor }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      const linkedEntry: LedgerEntry = result.entry;
+
+      const index = this.cache.findIndex(entry => entry.id === id);
+      if (index !== -1) {
+        this.cache[index] = linkedEntry;
+      }
+
+      return linkedEntry;
+    } catch (error) {
+      console.error('Failed to add link:', error);
+      throw error;
+    }
+  }
+
+  async removeLink(id: string, linkId: string, reason?: string): Promise<LedgerEntry> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/ledger/entries/${id}/links/${linkId}`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.projectHeaders()
+        },
+        body: JSON.stringify({ reason }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = await response.json();
+      const unlinkedEntry: LedgerEntry = result.entry;
+
+      const index = this.cache.findIndex(entry => entry.id === id);
+      if (index !== -1) {
+        this.cache[index] = unlinkedEntry;
+      }
+
+      return unlinkedEntry;
+    } catch (error) {
+      console.error('Failed to remove link:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Blocking edges, blocked entries with their causes, and the critical path
+   */
+  async getDependencyGraph(): Promise<DependencyGraph<LedgerEntry>> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/ledger/graph`, { headers: this.projectHeaders() });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    } catch (error) {
+      console.error('Failed to get dependency graph:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * What can be worked on now, the entries that unblock the most first
+   */
+  async getNextUp(): Promise<WorkableEntry<LedgerEntry>[]> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/ledger/next`, { headers: this.projectHeaders() });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.entries || [];
+    } catch (error) {
+      console.error('Failed to get workable entries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every revision of an entry's seek, why and content, oldest first
+   */
+  async getEntryRevisions(id: string): Promise<LedgerRevision[]> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/ledger/entries/${id}/revisions`, { headers: this.projectHeaders() });
+      if (!response.ok) {
+        if (response.status === 404) {
+          return [];
+        }
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.revisions || [];
+    } catch (error) {
+      console.error('Failed to get entry revisions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the status timeline for an entry
+   */
+  async getEntryHistory(id: string): Promise<LedgerHistoryItem[]> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/ledger/entries/${id}/history`, { headers: this.projectHeaders() });
+      if (!response.ok) {
+        if (response.status === 404) {
+          return [];
+        }
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.history || [];
+    } catch (error) {
+      console.error('Failed to get entry history:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get current mission and pillars
    */
@@ -178,40 +512,47 @@ export class SystemicLedgerAPI {
   /**
    * Check if a new entry aligns with current mission and pillars
    */
-  async checkAlignment(entry: Omit<LedgerEntry, 'id' | 'timestamp'>): Promise<{ aligned: boolean; reasons: string[] }> {
+  async checkAlignment(entry: Omit<LedgerEntry, 'id' | 'timestamp'>): Promise<AlignmentResult> {
     const mission = await this.getCurrentMission();
     const pillars = await this.getCurrentPillars();
-    const reasons: string[] = [];
-
-    if (!mission) {
-      reasons.push('No active mission found');
-      return { aligned: false, reasons };
-    }
 
-    // Check if entry purpose aligns with mission seek
-    if (entry.seek && mission.content.seek && !this.seeksAlign(entry.seek, mission.content.seek)) {
-      reasons.push(`Entry seek "${entry.seek}" may not align with mission seek "${mission.content.seek}"`);
-    }
+    try {
+      const response = await fetch(`${this.orchestratorBaseUrl}/orchestrator/alignment`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.projectHeaders()
+        },
+        body: JSON.stringify({ entry, mission, pillars }),
+      });
 
-    // Check if entry aligns with pillars
-    for (const pillar of pillars) {
-      if (pillar.content.seek && !this.seeksAlign(entry.seek, pillar.content.seek)) {
-        reasons.push(`Entry may conflict with pillar: ${pillar.content.title || pillar.id}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
       }
-    }
 
-    return {
-      aligned: reasons.length === 0,
-      reasons
-    };
+      const data = await response.json();
+      return {
+        aligned: data.aligned,
+        score: data.score,
+        mission: data.mission_score,
+        pillars: data.pillar_scores,
+        reasons: data.reasons,
+        method: data.method
+      };
+    } catch (error) {
+      console.error('Failed to check alignment via orchestrator, scoring locally:', error);
+      // Same engine, without the AI tie-breaker
+      return scoreAlignment(entry, mission, pillars);
+    }
   }
 
   /**
    * Get entries by level for roadmap display
    */
-  async getRoadmapData(): Promise<Record<LedgerEntry['level'], LedgerEntry[]>> {
+  async getRoadmapData(asOf?: string): Promise<Record<LedgerEntry['level'], LedgerEntry[]>> {
     try {
-      const response = await fetch(`${this.apiBaseUrl}/ledger/roadmap`);
+      const query = asOf ? `?as_of=${encodeURIComponent(asOf)}` : '';
+      const response = await fetch(`${this.apiBaseUrl}/ledger/roadmap${query}`, { headers: this.projectHeaders() });
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -220,6 +561,10 @@ export class SystemicLedgerAPI {
       return data;
     } catch (error) {
       console.error('Failed to get roadmap data:', error);
+      // The cache only knows the present
+      if (asOf) {
+        throw error;
+      }
       // Fallback to filtered queries
       const [mission, pillar, epic, saga, probe] = await Promise.all([
         this.getEntries({ level: 'mission' }),
@@ -234,11 +579,130 @@ export class SystemicLedgerAPI {
   }
 
   /**
-   * Get specific entry by ID
+   * Every creation and status change, oldest first
+   */
+  async getTimeline(): Promise<TimelineMoment[]> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/ledger/timeline`, { headers: this.projectHeaders() });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.moments || [];
+    } catch (error) {
+      console.error('Failed to get ledger timeline:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Entries that moved between two ISO date-times, optionally only those reaching `statuses`
    */
-  async getEntry(id: string): Promise<LedgerEntry | null> {
+  async compareRoadmap(from: string, to: string, statuses: LedgerEntry['status'][] = []): Promise<LedgerComparison<LedgerEntry>> {
     try {
-      const response = await fetch(`${this.apiBaseUrl}/ledger/entries/${id}`);
+      const search = new URLSearchParams({ from, to });
+      if (statuses.length > 0) {
+        search.set('status', statuses.join(','));
+      }
+      const response = await fetch(`${this.apiBaseUrl}/ledger/roadmap/compare?${search.toString()}`, { headers: this.projectHeaders() });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Failed to compare roadmap dates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the nested roadmap with progress rollups, optionally rooted at one entry
+   */
+  async getTree(rootId?: string): Promise<LedgerTreeNode[]> {
+    try {
+      const query = rootId ? `?root=${encodeURIComponent(rootId)}` : '';
+      const response = await fetch(`${this.apiBaseUrl}/ledger/tree${query}`, { headers: this.projectHeaders() });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return data.tree || [];
+    } catch (error) {
+      console.error('Failed to get ledger tree:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Import entries, a signed backup from exportLedger() or journal markdown. Runs as a dry run
+   * unless dryRun is false; resolve 'incoming' lets imported statuses win where the status graph
+   * allows. Backups that fail their integrity check are rejected, and so are backups signed by
+   * another server unless trustUnsigned is set.
+   */
+  async importLedger(
+    source: { entries: unknown[] } | { backup: unknown } | { journal: string },
+    options: { dryRun?: boolean; resolve?: 'keep' | 'incoming'; trustUnsigned?: boolean; actor?: string } = {}
+  ): Promise<LedgerImportResult> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/ledger/import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.projectHeaders()
+        },
+        body: JSON.stringify({
+          ...source,
+          dry_run: options.dryRun ?? true,
+          resolve: options.resolve ?? 'keep',
+          trust_unsigned: options.trustUnsigned ?? false,
+          actor: options.actor
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result: LedgerImportResult = await response.json();
+      if (!result.dry_run) {
+        this.lastFetch = 0; // Refetch instead of waiting for the cache to expire
+        await this.refreshCache();
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to import ledger:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download the event log as a backup whose head hash is signed by the server
+   */
+  async exportLedger(): Promise<Record<string, unknown>> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/ledger/export`, { headers: this.projectHeaders() });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    } catch (error) {
+      console.error('Failed to export ledger:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get specific entry by ID, optionally as it stood at an earlier ISO date-time
+   */
+  async getEntry(id: string, asOf?: string): Promise<LedgerEntry | null> {
+    try {
+      const query = asOf ? `?as_of=${encodeURIComponent(asOf)}` : '';
+      const response = await fetch(`${this.apiBaseUrl}/ledger/entries/${id}${query}`, { headers: this.projectHeaders() });
       if (!response.ok) {
         if (response.status === 404) {
           return null;
@@ -253,6 +717,111 @@ export class SystemicLedgerAPI {
     }
   }
 
+  /**
+   * Subscribe to live ledger changes. The first subscriber opens the stream and the
+   * last unsubscribe closes it; while it is open every change also updates the cache.
+   * `onConnectionChange` hears the current state at once and every change after.
+   */
+  subscribe(listener: LedgerChangeListener, onConnectionChange?: LedgerConnectionListener): () => void {
+    this.changeListeners.add(listener);
+    if (onConnectionChange) {
+      this.connectionListeners.add(onConnectionChange);
+      onConnectionChange(this.streamConnected);
+    }
+    this.openStream();
+
+    return () => {
+      this.changeListeners.delete(listener);
+      if (onConnectionChange) {
+        this.connectionListeners.delete(onConnectionChange);
+      }
+      if (this.changeListeners.size === 0) {
+        this.closeStream();
+      }
+    };
+  }
+
+  /**
+   * Hear when the scheduler flags a probe that overran its timebox (while the stream is open)
+   */
+  onProbeExpired(listener: ProbeExpiryListener): () => void {
+    this.probeListeners.add(listener);
+    return () => {
+      this.probeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether the live stream is currently connected
+   */
+  isLive(): boolean {
+    return this.streamConnected;
+  }
+
+  private openStream(): void {
+    if (this.eventSource || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    // EventSource cannot send headers, so the project goes in the query string
+    const source = new EventSource(`${this.apiBaseUrl}/ledger/stream?project=${encodeURIComponent(this.projectId)}`);
+
+    source.onopen = () => {
+      this.setStreamConnected(true);
+    };
+
+    source.onerror = () => {
+      // EventSource reconnects by itself and resumes from the last event id
+      this.setStreamConnected(false);
+    };
+
+    const handleChange = (message: MessageEvent) => {
+      try {
+        const change: LedgerChange = JSON.parse(message.data);
+        this.applyChange(change);
+        this.changeListeners.forEach(listener => listener(change));
+      } catch (error) {
+        console.error('Failed to handle ledger change:', error);
+      }
+    };
+
+    source.addEventListener('entry_created', handleChange as EventListener);
+    source.addEventListener('status_changed', handleChange as EventListener);
+    source.addEventListener('entry_amended', handleChange as EventListener);
+    source.addEventListener('link_added', handleChange as EventListener);
+    source.addEventListener('link_removed', handleChange as EventListener);
+    source.addEventListener('probe_expired', ((message: MessageEvent) => {
+      try {
+        const probe: ProbeTimebox<LedgerEntry> = JSON.parse(message.data);
+        this.probeListeners.forEach(listener => listener(probe));
+      } catch (error) {
+        console.error('Failed to handle probe expiry:', error);
+      }
+    }) as EventListener);
+    this.eventSource = source;
+  }
+
+  private closeStream(): void {
+    this.eventSource?.close();
+    this.eventSource = null;
+    this.setStreamConnected(false);
+  }
+
+  private setStreamConnected(connected: boolean): void {
+    if (this.streamConnected === connected) return;
+    this.streamConnected = connected;
+    this.connectionListeners.forEach(listener => listener(connected));
+  }
+
+  private applyChange(change: LedgerChange): void {
+    const index = this.cache.findIndex(entry => entry.id === change.entry.id);
+    if (index >= 0) {
+      this.cache[index] = change.entry;
+    } else {
+      this.cache.push(change.entry);
+    }
+  }
+
   /**
    * Health check
    */
@@ -265,26 +834,6 @@ export class SystemicLedgerAPI {
       return false;
     }
   }
-
-  private seeksAlign(entrySeek: string, targetSeek: string): boolean {
-    // Simple alignment check - can be enhanced with semantic analysis
-    const seekKeywords: Record<string, string[]> = {
-      'establish': ['establish', 'create', 'initiate', 'found'],
-      'validate': ['validate', 'test', 'verify', 'confirm'],
-      'protect': ['protect', 'safeguard', 'secure', 'defend'],
-      'accelerate': ['accelerate', 'speed', 'optimize', 'improve'],
-      'clarify': ['clarify', 'understand', 'explain', 'document'],
-      'empathize': ['empathize', 'understand', 'support', 'help'],
-      'delight': ['delight', 'satisfy', 'please', 'enjoy']
-    };
-
-    const entryKeywords = seekKeywords[entrySeek.toLowerCase()] || [entrySeek.toLowerCase()];
-    const targetKeywords = seekKeywords[targetSeek.toLowerCase()] || [targetSeek.toLowerCase()];
-
-    return entryKeywords.some((keyword: string) => 
-      targetKeywords.some((target: string) => target.includes(keyword) || keyword.includes(target))
-    );
-  }
 }
 
 // Singleton instance
@@ -1,6 +1,22 @@
 // [accelerate] Systemic Ledger Core Implementation
 // Based on contract: /03_contract/[clarify]-system-architecture-schema.md
 
+import { scoreAlignment, AlignmentResult } from '../backend/[accelerate]-alignment-engine';
+import { queryLedgerEntries, LedgerQuery, LedgerQueryResult } from '../backend/[accelerate]-ledger-query';
+import { assertLedgerEntryInput } from '../backend/[safeguard]-ledger-validation';
+import { checkStatusTransition } from '../backend/[safeguard]-ledger-status-machine';
+import { LedgerTreeNode as HierarchyTreeNode, buildLedgerTree, validateParent } from '../backend/[accelerate]-ledger-hierarchy';
+import { planLedgerImport, LedgerImportPlan } from '../backend/[safeguard]-ledger-import';
+import { DEFAULT_PROJECT_ID, projectStorageKey } from '../backend/[clarify]-project-scope';
+import {
+  StorageAdapter,
+  defaultStorageAdapter,
+  getStoredItems,
+  mergeById,
+  setStoredItems,
+  whenStored
+} from './[safeguard]-storage-adapter';
+
 export interface LedgerEntry {
   id: string;
   timestamp: string;
@@ -10,28 +26,97 @@ export interface LedgerEntry {
   why: string;
   content: Record<string, any>;
   status: 'proposed' | 'active' | 'blocked' | 'integrated' | 'archived' | 'dormant';
+  parent_id?: string | null;
 }
 
-export interface LedgerFilter {
-  level?: LedgerEntry['level'];
-  purpose_tag?: LedgerEntry['purpose_tag'];
-  status?: LedgerEntry['status'];
-  startDate?: string;
-  endDate?: string;
+export type LedgerFilter = LedgerQuery;
+
+export interface LedgerStatusChange {
+  id: string;
+  entry_id: string;
+  timestamp: string;
+  actor: string;
+  from: LedgerEntry['status'];
+  to: LedgerEntry['status'];
+  reason: string;
 }
 
+// Local change, reported to mutation listeners (e.g. the offline sync queue)
+export type LedgerMutation =
+  | { type: 'entry_created'; entry: LedgerEntry }
+  | { type: 'status_changed'; change: LedgerStatusChange };
+
+export type LedgerMutationListener = (mutation: LedgerMutation) => void;
+
+export type LedgerTreeNode = HierarchyTreeNode<LedgerEntry>;
+
 export class SystemicLedger {
   private entries: LedgerEntry[] = [];
-  private readonly storageKey = 'vision-holder-systemic-ledger';
+  private statusHistory: LedgerStatusChange[] = [];
+  private projectId = DEFAULT_PROJECT_ID;
+  private mutationListeners = new Set<LedgerMutationListener>();
+  private loading: Promise<void> | null = null;
+
+  constructor(private storage: StorageAdapter = defaultStorageAdapter()) {
+    this.loadFromStorage();
+  }
+
+  // Each project keeps its own copy in storage
+  private get storageKey(): string {
+    return projectStorageKey('vision-holder-systemic-ledger', this.projectId);
+  }
+
+  private get historyStorageKey(): string {
+    return projectStorageKey('vision-holder-systemic-ledger-history', this.projectId);
+  }
+
+  getProject(): string {
+    return this.projectId;
+  }
+
+  /**
+   * Resolves once stored entries are loaded. Only asynchronous adapters (IndexedDB) need
+   * waiting for; entries added before then are kept alongside the stored ones.
+   */
+  ready(): Promise<void> {
+    return this.loading ?? Promise.resolve();
+  }
+
+  /**
+   * Move to another storage adapter, e.g. a FileStorageAdapter when running in Node
+   */
+  useStorage(storage: StorageAdapter): Promise<void> {
+    this.storage = storage;
+    this.entries = [];
+    this.statusHistory = [];
+    this.loadFromStorage();
+    return this.ready();
+  }
 
-  constructor() {
+  /**
+   * Switch to another project's local ledger
+   */
+  useProject(projectId: string): void {
+    if (projectId === this.projectId) return;
+
+    this.projectId = projectId;
+    this.entries = [];
+    this.statusHistory = [];
     this.loadFromStorage();
   }
 
   /**
-   * Add a new entry to the ledger (append-only)
+   * Add a new entry to the ledger (append-only). Throws LedgerValidationError when the
+   * entry does not match the contract for its level.
    */
   addEntry(entry: Omit<LedgerEntry, 'id' | 'timestamp'>): LedgerEntry {
+    assertLedgerEntryInput(entry);
+
+    const parentError = validateParent(entry.level, entry.parent_id, this.entries);
+    if (parentError) {
+      throw new Error(parentError);
+    }
+
     const newEntry: LedgerEntry = {
       ...entry,
       id: this.generateId(),
@@ -40,50 +125,131 @@ export class SystemicLedger {
 
     this.entries.push(newEntry);
     this.saveToStorage();
+    this.notify({ type: 'entry_created', entry: { ...newEntry } });
     
     return newEntry;
   }
 
   /**
-   * Retrieve entries with optional filtering
+   * Retrieve entries matching a query (see LedgerQuery for the search syntax)
    */
   getEntries(filter?: LedgerFilter): LedgerEntry[] {
-    let filtered = [...this.entries];
+    return queryLedgerEntries(this.entries, filter || {}).entries;
+  }
 
-    if (filter?.level) {
-      filtered = filtered.filter(entry => entry.level === filter.level);
-    }
+  /**
+   * Search entries, returning the page together with total, facet counts and next cursor
+   */
+  queryEntries(query: LedgerQuery): LedgerQueryResult<LedgerEntry> {
+    return queryLedgerEntries(this.entries, query);
+  }
 
-    if (filter?.purpose_tag) {
-      filtered = filtered.filter(entry => entry.purpose_tag === filter.purpose_tag);
-    }
+  /**
+   * Update entry status (only status can be modified, along the transitions the Systemic
+   * Ledger API allows)
+   */
+  updateEntryStatus(
+    id: string,
+    status: LedgerEntry['status'],
+    reason: string,
+    actor: string = 'user'
+  ): LedgerEntry | null {
+    const entryIndex = this.entries.findIndex(entry => entry.id === id);
+    if (entryIndex === -1) return null;
 
-    if (filter?.status) {
-      filtered = filtered.filter(entry => entry.status === filter.status);
+    const entry = this.entries[entryIndex];
+    const transition = checkStatusTransition(entry.status, status);
+    if (!transition.allowed) {
+      throw new Error(transition.reason);
     }
 
-    if (filter?.startDate) {
-      filtered = filtered.filter(entry => entry.timestamp >= filter.startDate!);
+    if (!reason || reason.trim() === '') {
+      throw new Error('A reason is required for every status change');
     }
 
-    if (filter?.endDate) {
-      filtered = filtered.filter(entry => entry.timestamp <= filter.endDate!);
-    }
+    const change: LedgerStatusChange = {
+      id: this.generateId(),
+      entry_id: id,
+      timestamp: new Date().toISOString(),
+      actor,
+      from: entry.status,
+      to: status,
+      reason: reason.trim()
+    };
 
-    return filtered.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    this.statusHistory.push(change);
+    entry.status = status;
+    this.saveToStorage();
+    this.notify({ type: 'status_changed', change });
+    
+    return entry;
   }
 
   /**
-   * Update entry status (only status can be modified)
+   * Listen for local entries and status changes. Changes applied by applyRemote are not reported.
    */
-  updateEntryStatus(id: string, status: LedgerEntry['status']): LedgerEntry | null {
-    const entryIndex = this.entries.findIndex(entry => entry.id === id);
-    if (entryIndex === -1) return null;
+  subscribe(listener: LedgerMutationListener): () => void {
+    this.mutationListeners.add(listener);
+    return () => {
+      this.mutationListeners.delete(listener);
+    };
+  }
 
-    this.entries[entryIndex].status = status;
-    this.saveToStorage();
-    
-    return this.entries[entryIndex];
+  /**
+   * Bring in the Ledger API's state: unknown entries are added, and where the server's status
+   * differs the local entry adopts it. Each adopted status is appended to the local history
+   * as a change by `actor`, so earlier local changes stay on record. Amended seek, why and
+   * content are taken as they are (their revisions live on the server). Returns the number
+   * of entries added or changed.
+   */
+  applyRemote(remoteEntries: LedgerEntry[], actor: string = 'sync'): number {
+    let changed = 0;
+
+    remoteEntries.forEach(remote => {
+      const local = this.entries.find(entry => entry.id === remote.id);
+      if (!local) {
+        this.entries.push({ ...remote });
+        changed++;
+        return;
+      }
+
+      const amended = local.seek !== remote.seek
+        || local.why !== remote.why
+        || JSON.stringify(local.content) !== JSON.stringify(remote.content);
+      if (amended) {
+        local.seek = remote.seek;
+        local.why = remote.why;
+        local.content = remote.content;
+      }
+      if (local.status === remote.status) {
+        if (amended) changed++;
+        return;
+      }
+
+      this.statusHistory.push({
+        id: this.generateId(),
+        entry_id: local.id,
+        timestamp: new Date().toISOString(),
+        actor,
+        from: local.status,
+        to: remote.status,
+        reason: 'Status taken from the Ledger API'
+      });
+      local.status = remote.status;
+      changed++;
+    });
+
+    if (changed > 0) {
+      this.saveToStorage();
+    }
+    return changed;
+  }
+
+  /**
+   * Status timeline for one entry, oldest first
+   */
+  getEntryHistory(id: string): LedgerStatusChange[] {
+    return this.statusHistory.filter(change => change.entry_id === id);
   }
 
   /**
@@ -101,32 +267,8 @@ export class SystemicLedger {
   /**
    * Check if a new entry aligns with current mission and pillars
    */
-  checkAlignment(entry: Omit<LedgerEntry, 'id' | 'timestamp'>): { aligned: boolean; reasons: string[] } {
-    const mission = this.getCurrentMission();
-    const pillars = this.getCurrentPillars();
-    const reasons: string[] = [];
-
-    if (!mission) {
-      reasons.push('No active mission found');
-      return { aligned: false, reasons };
-    }
-
-    // Check if entry purpose aligns with mission seek
-    if (entry.seek && mission.content.seek && !this.seeksAlign(entry.seek, mission.content.seek)) {
-      reasons.push(`Entry seek "${entry.seek}" may not align with mission seek "${mission.content.seek}"`);
-    }
-
-    // Check if entry aligns with pillars
-    for (const pillar of pillars) {
-      if (pillar.content.seek && !this.seeksAlign(entry.seek, pillar.content.seek)) {
-        reasons.push(`Entry may conflict with pillar: ${pillar.content.title || pillar.id}`);
-      }
-    }
-
-    return {
-      aligned: reasons.length === 0,
-      reasons
-    };
+  checkAlignment(entry: Omit<LedgerEntry, 'id' | 'timestamp'>): AlignmentResult {
+    return scoreAlignment(entry, this.getCurrentMission(), this.getCurrentPillars());
   }
 
   /**
@@ -142,6 +284,14 @@ export class SystemicLedger {
     };
   }
 
+  /**
+   * Get the nested roadmap with progress rollups (integrated share of non-archived children),
+   * built the same way as the API's GET /ledger/tree
+   */
+  getTree(): LedgerTreeNode[] {
+    return buildLedgerTree(this.entries);
+  }
+
   /**
    * Export ledger for backup or analysis
    */
@@ -150,55 +300,78 @@ export class SystemicLedger {
   }
 
   /**
-   * Import ledger entries (for migration or backup restoration)
+   * Preview an import: which entries are new, duplicates (same id or content) or conflicting
    */
-  importLedger(entries: LedgerEntry[]): void {
-    this.entries = [...this.entries, ...entries];
-    this.saveToStorage();
+  planImport(entries: unknown[]): LedgerImportPlan {
+    return planLedgerImport(this.entries, entries);
   }
 
-  private generateId(): string {
-    return `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  /**
+   * Import ledger entries (for migration or backup restoration). Only new entries are added;
+   * duplicates are skipped and conflicting or invalid entries are reported in the returned plan.
+   */
+  importLedger(entries: unknown[]): LedgerImportPlan {
+    const plan = this.planImport(entries);
+    this.entries = [...this.entries, ...plan.new];
+    this.saveToStorage();
+    plan.new.forEach(entry => this.notify({ type: 'entry_created', entry: { ...entry } }));
+    return plan;
   }
 
-  private seeksAlign(entrySeek: string, targetSeek: string): boolean {
-    // Simple alignment check - can be enhanced with semantic analysis
-    const seekKeywords: Record<string, string[]> = {
-      'establish': ['establish', 'create', 'initiate', 'found'],
-      'validate': ['validate', 'test', 'verify', 'confirm'],
-      'protect': ['protect', 'safeguard', 'secure', 'defend'],
-      'accelerate': ['accelerate', 'speed', 'optimize', 'improve'],
-      'clarify': ['clarify', 'understand', 'explain', 'document'],
-      'empathize': ['empathize', 'understand', 'support', 'help'],
-      'delight': ['delight', 'satisfy', 'please', 'enjoy']
-    };
-
-    const entryKeywords = seekKeywords[entrySeek.toLowerCase()] || [entrySeek.toLowerCase()];
-    const targetKeywords = seekKeywords[targetSeek.toLowerCase()] || [targetSeek.toLowerCase()];
+  private notify(mutation: LedgerMutation): void {
+    this.mutationListeners.forEach(listener => {
+      try {
+        listener(mutation);
+      } catch (error) {
+        console.error('Ledger mutation listener failed:', error);
+      }
+    });
+  }
 
-    return entryKeywords.some((keyword: string) => 
-      targetKeywords.some((target: string) => target.includes(keyword) || keyword.includes(target))
-    );
+  private generateId(): string {
+    return `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   private saveToStorage(): void {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(this.storageKey, JSON.stringify(this.entries));
+    // Writing before an asynchronous read finishes would replace what is stored
+    if (this.loading) {
+      void this.loading.then(() => this.saveToStorage());
+      return;
     }
+
+    setStoredItems(this.storage, {
+      [this.storageKey]: JSON.stringify(this.entries),
+      [this.historyStorageKey]: JSON.stringify(this.statusHistory)
+    }, 'ledger');
   }
 
   private loadFromStorage(): void {
-    if (typeof window !== 'undefined') {
-      const stored = localStorage.getItem(this.storageKey);
+    const { storage, projectId } = this;
+
+    const loading = whenStored(getStoredItems(storage, [this.storageKey, this.historyStorageKey]), ([stored, storedHistory]) => {
+      // The project or adapter changed while an asynchronous read was running
+      if (storage !== this.storage || projectId !== this.projectId) return;
+
       if (stored) {
         try {
-          this.entries = JSON.parse(stored);
+          this.entries = mergeById(JSON.parse(stored), this.entries);
         } catch (error) {
           console.error('Failed to load ledger from storage:', error);
-          this.entries = [];
         }
       }
-    }
+
+      if (storedHistory) {
+        try {
+          this.statusHistory = mergeById(JSON.parse(storedHistory), this.statusHistory);
+        } catch (error) {
+          console.error('Failed to load ledger history from storage:', error);
+        }
+      }
+    }, 'ledger');
+
+    this.loading = loading && loading.then(() => {
+      if (storage === this.storage && projectId === this.projectId) this.loading = null;
+    });
   }
 }
 
@@ -0,0 +1,35 @@
+// [safeguard] File Storage Adapter
+// Node storage for the ledger, sync and orchestrator cores: one JSON file per key in a
+// directory. Reads and writes are synchronous, like localStorage, and each write goes to a
+// temporary file first so a crash never leaves half a file behind.
+
+import fs from 'fs';
+import path from 'path';
+import type { StorageAdapter } from './[safeguard]-storage-adapter';
+
+export class FileStorageAdapter implements StorageAdapter {
+  readonly kind = 'filesystem';
+
+  constructor(private readonly directory: string) {}
+
+  getItem(key: string): string | null {
+    const file = this.fileFor(key);
+    return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : null;
+  }
+
+  setItem(key: string, value: string): void {
+    const file = this.fileFor(key);
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(`${file}.tmp`, value, 'utf-8');
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  removeItem(key: string): void {
+    fs.rmSync(this.fileFor(key), { force: true });
+  }
+
+  // Keys such as vision-holder-systemic-ledger:garden become safe file names
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+}
@@ -0,0 +1,384 @@
+// [safeguard] Ledger Sync
+// Keeps the local ledger and the Ledger API in step. Local changes are queued in an
+// outbox while the API is unreachable and replayed, oldest first, once it is back.
+//
+// Conflicts follow the ledger's append-only event semantics: a queued status change only
+// applies if the server entry is still in the status the change started from. Otherwise the
+// server has recorded a newer event, so it wins; the local change stays in the local history,
+// the conflict is reported, and the local entry adopts the server status as a new 'sync' change.
+
+import { SystemicLedger, LedgerEntry, LedgerMutation, LedgerStatusChange, systemicLedger } from './[accelerate]-ledger-core';
+import { SystemicLedgerAPI, systemicLedgerAPI } from './[accelerate]-ledger-api-client';
+import { MAX_QUERY_LIMIT } from '../backend/[accelerate]-ledger-query';
+import { formatFieldErrors } from '../backend/[safeguard]-ledger-validation';
+import { DEFAULT_PROJECT_ID, projectStorageKey } from '../backend/[clarify]-project-scope';
+import {
+  StorageAdapter,
+  defaultStorageAdapter,
+  getStoredItems,
+  mergeById,
+  setStoredItems,
+  whenStored
+} from './[safeguard]-storage-adapter';
+
+export type PendingMutation =
+  | { id: string; type: 'entry_created'; queued_at: string; entry: LedgerEntry }
+  | { id: string; type: 'status_changed'; queued_at: string; change: LedgerStatusChange };
+
+export interface SyncConflict {
+  mutation_id: string;
+  entry_id: string;
+  type: PendingMutation['type'];
+  message: string;
+  detected_at: string;
+}
+
+export interface LedgerSyncState {
+  status: 'synced' | 'pending' | 'syncing' | 'offline' | 'error';
+  pending: number; // queued mutations not yet on the server
+  conflicts: SyncConflict[];
+  last_synced_at: string | null;
+  last_error: string | null;
+}
+
+export type LedgerSyncListener = (state: LedgerSyncState) => void;
+
+const INITIAL_STATE: LedgerSyncState = {
+  status: 'pending',
+  pending: 0,
+  conflicts: [],
+  last_synced_at: null,
+  last_error: null
+};
+
+export class LedgerSync {
+  private projectId = DEFAULT_PROJECT_ID;
+  private readonly retryInterval = 30000; // 30 seconds
+  private readonly actor = 'sync';
+  private outbox: PendingMutation[] = [];
+  private state: LedgerSyncState = { ...INITIAL_STATE };
+  private listeners = new Set<LedgerSyncListener>();
+  private running: Promise<LedgerSyncState> | null = null;
+  private stopLocal: (() => void) | null = null;
+  private retryTimer: ReturnType<typeof setInterval> | null = null;
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    private readonly local: SystemicLedger,
+    private readonly remote: SystemicLedgerAPI,
+    private readonly storage: StorageAdapter = defaultStorageAdapter()
+  ) {
+    this.loadFromStorage();
+  }
+
+  // Each project has its own outbox and sync state
+  private get outboxStorageKey(): string {
+    return projectStorageKey('vision-holder-ledger-outbox', this.projectId);
+  }
+
+  private get stateStorageKey(): string {
+    return projectStorageKey('vision-holder-ledger-sync', this.projectId);
+  }
+
+  getProject(): string {
+    return this.projectId;
+  }
+
+  /**
+   * Switch the local ledger, the API client and the outbox to another project. Waits for a
+   * running sync first, so no queued change is sent to the wrong project.
+   */
+  async useProject(projectId: string): Promise<void> {
+    await this.running;
+    if (projectId === this.projectId) return;
+
+    this.projectId = projectId;
+    this.local.useProject(projectId);
+    this.remote.useProject(projectId);
+    this.outbox = [];
+    this.state = { ...INITIAL_STATE };
+    this.loadFromStorage();
+    await this.loading;
+    this.setState({});
+
+    if (this.stopLocal) {
+      void this.sync();
+    }
+  }
+
+  /**
+   * Start queueing local changes and syncing: now, whenever the browser comes back online,
+   * after each local change, and on a timer while anything is left to do. Safe to call twice.
+   */
+  start(): void {
+    if (this.stopLocal) return;
+
+    this.stopLocal = this.local.subscribe(mutation => {
+      this.enqueue(mutation);
+      void this.sync();
+    });
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+    this.retryTimer = setInterval(() => {
+      if (this.state.status !== 'synced') {
+        void this.sync();
+      }
+    }, this.retryInterval);
+
+    void this.sync();
+  }
+
+  stop(): void {
+    this.stopLocal?.();
+    this.stopLocal = null;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  getState(): LedgerSyncState {
+    return { ...this.state, conflicts: [...this.state.conflicts] };
+  }
+
+  getPending(): PendingMutation[] {
+    return [...this.outbox];
+  }
+
+  subscribe(listener: LedgerSyncListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replay the outbox, then pull the server's entries into the local ledger. Calls made while
+   * a sync is running share its result.
+   */
+  sync(): Promise<LedgerSyncState> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  dismissConflict(mutationId: string): void {
+    this.setState({ conflicts: this.state.conflicts.filter(conflict => conflict.mutation_id !== mutationId) });
+  }
+
+  private handleOnline = (): void => {
+    void this.sync();
+  };
+
+  private enqueue(mutation: LedgerMutation): void {
+    const queuedAt = new Date().toISOString();
+    const id = `mutation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    this.outbox.push(mutation.type === 'entry_created'
+      ? { id, type: 'entry_created', queued_at: queuedAt, entry: mutation.entry }
+      : { id, type: 'status_changed', queued_at: queuedAt, change: mutation.change });
+    this.saveOutbox();
+    this.setState({ status: this.state.status === 'syncing' ? 'syncing' : 'pending', pending: this.outbox.length });
+  }
+
+  private async run(): Promise<LedgerSyncState> {
+    // Replaying before the stored outbox is read could send changes twice or skip them
+    await Promise.all([this.loading, this.local.ready()]);
+
+    if (!(await this.remote.healthCheck())) {
+      this.setState({ status: 'offline' });
+      return this.getState();
+    }
+
+    this.setState({ status: 'syncing', last_error: null });
+
+    try {
+      // First sync from this browser: send what was written before the queue existed.
+      // The import skips entries the server already has, so a retry is harmless.
+      if (!this.state.last_synced_at) {
+        const existing = this.local.exportLedger();
+        if (existing.length > 0) {
+          await this.remote.importLedger({ entries: existing }, { dryRun: false, actor: this.actor });
+        }
+      }
+
+      const server = await this.fetchRemote();
+
+      while (this.outbox.length > 0) {
+        const batch = this.nextBatch();
+        const conflicts = await this.replay(batch, server);
+        // Mutations queued while this batch was in flight stay behind it
+        this.outbox = this.outbox.slice(batch.length);
+        this.saveOutbox();
+        this.setState({ pending: this.outbox.length, conflicts: [...this.state.conflicts, ...conflicts] });
+      }
+
+      this.local.applyRemote(Array.from(new Set(server.values())), this.actor);
+      this.setState({ status: 'synced', last_synced_at: new Date().toISOString() });
+    } catch (error) {
+      // Whatever was being sent stays queued for the next attempt
+      const offline = !(await this.remote.healthCheck());
+      this.setState({
+        status: offline ? 'offline' : 'error',
+        last_error: offline ? null : (error instanceof Error ? error.message : String(error))
+      });
+    }
+
+    return this.getState();
+  }
+
+  // All server entries by id
+  private async fetchRemote(): Promise<Map<string, LedgerEntry>> {
+    const server = new Map<string, LedgerEntry>();
+    let cursor: string | null = null;
+
+    do {
+      const page = await this.remote.queryEntries(cursor ? { limit: MAX_QUERY_LIMIT, cursor } : { limit: MAX_QUERY_LIMIT });
+      page.entries.forEach(entry => server.set(entry.id, entry));
+      cursor = page.next_cursor;
+    } while (cursor);
+
+    return server;
+  }
+
+  // Consecutive creates go to the server as one import; status changes go one at a time
+  private nextBatch(): PendingMutation[] {
+    const creates: PendingMutation[] = [];
+    for (const mutation of this.outbox) {
+      if (mutation.type !== 'entry_created') break;
+      creates.push(mutation);
+    }
+    return creates.length > 0 ? creates : this.outbox.slice(0, 1);
+  }
+
+  /**
+   * Send a batch of queued mutations, keeping `server` up to date. Returns conflicts for the
+   * mutations the server's log rules out; throws, leaving the batch queued, if a request fails.
+   */
+  private async replay(batch: PendingMutation[], server: Map<string, LedgerEntry>): Promise<SyncConflict[]> {
+    const conflict = (mutation: PendingMutation, entryId: string, message: string): SyncConflict => ({
+      mutation_id: mutation.id,
+      entry_id: entryId,
+      type: mutation.type,
+      message,
+      detected_at: new Date().toISOString()
+    });
+
+    const first = batch[0];
+    if (first?.type === 'status_changed') {
+      const { change } = first;
+      const current = server.get(change.entry_id);
+
+      if (!current) {
+        return [conflict(first, change.entry_id, `Entry is not on the server, so the move to ${change.to} was not applied`)];
+      }
+      if (current.status === change.to) {
+        return [];
+      }
+      if (current.status !== change.from) {
+        return [conflict(
+          first,
+          change.entry_id,
+          `Server moved the entry to ${current.status} first, so the local change from ${change.from} to ${change.to} was not applied`
+        )];
+      }
+
+      // current.id differs from entry_id when the server had this entry under another id
+      const updated = await this.remote.updateEntryStatus(current.id, change.to, change.reason, change.actor);
+      if (updated) {
+        server.set(change.entry_id, updated);
+        server.set(updated.id, updated);
+      }
+      return [];
+    }
+
+    const creates = batch.flatMap(mutation => mutation.type === 'entry_created' ? [mutation] : []);
+    const result = await this.remote.importLedger({ entries: creates.map(mutation => mutation.entry) }, { dryRun: false, actor: this.actor });
+    const conflicts: SyncConflict[] = [];
+
+    result.new.forEach(entry => server.set(entry.id, entry as LedgerEntry));
+    result.duplicates.forEach(duplicate => {
+      const existing = server.get(duplicate.existing_id);
+      if (existing) server.set(duplicate.id, existing);
+    });
+    result.invalid.forEach(invalid => {
+      const mutation = creates[invalid.index];
+      if (mutation) {
+        conflicts.push(conflict(mutation, mutation.entry.id, `Server rejected the entry: ${formatFieldErrors(invalid.fields)}`));
+      }
+    });
+    result.conflicts.forEach(item => {
+      const mutation = creates.find(create => create.entry.id === item.id);
+      if (mutation && item.kind === 'content') {
+        conflicts.push(conflict(mutation, item.id, item.message));
+      }
+      // A status conflict means the server already has the entry and has moved it on since
+    });
+
+    return conflicts;
+  }
+
+  private setState(update: Partial<LedgerSyncState>): void {
+    this.state = { ...this.state, ...update };
+    this.saveState();
+    const snapshot = this.getState();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private saveOutbox(): void {
+    if (this.loading) {
+      void this.loading.then(() => this.saveOutbox());
+      return;
+    }
+    setStoredItems(this.storage, { [this.outboxStorageKey]: JSON.stringify(this.outbox) }, 'ledger outbox');
+  }
+
+  private saveState(): void {
+    if (this.loading) {
+      void this.loading.then(() => this.saveState());
+      return;
+    }
+    const { conflicts, last_synced_at } = this.state;
+    setStoredItems(this.storage, { [this.stateStorageKey]: JSON.stringify({ conflicts, last_synced_at }) }, 'ledger sync state');
+  }
+
+  private loadFromStorage(): void {
+    const { projectId } = this;
+
+    const loading = whenStored(getStoredItems(this.storage, [this.outboxStorageKey, this.stateStorageKey]), ([storedOutbox, storedState]) => {
+      if (projectId !== this.projectId) return;
+
+      try {
+        // Changes queued while an asynchronous read was running go after the stored ones
+        this.outbox = storedOutbox ? mergeById(JSON.parse(storedOutbox), this.outbox) : this.outbox;
+        if (storedState) {
+          const { conflicts, last_synced_at } = JSON.parse(storedState);
+          this.state = { ...this.state, conflicts: conflicts ?? [], last_synced_at: last_synced_at ?? null };
+        }
+      } catch (error) {
+        console.error('Failed to load ledger sync state from storage:', error);
+      }
+
+      this.state = { ...this.state, pending: this.outbox.length };
+    }, 'ledger sync state');
+
+    this.loading = loading && loading.then(() => {
+      if (projectId === this.projectId) {
+        this.loading = null;
+        this.setState({});
+      }
+    });
+  }
+}
+
+// Singleton instance
+export const ledgerSync = new LedgerSync(systemicLedger, systemicLedgerAPI);
@@ -0,0 +1,176 @@
+// [safeguard] Storage Adapter
+// Where the ledger, sync and orchestrator cores keep their data, so the same classes run in
+// the browser, in Node and in tests. The cores hold their state in memory and write it
+// through to an adapter. localStorage and memory answer at once, IndexedDB with a promise:
+// reads that return a value are applied straight away, so browser pages render stored data
+// on first paint as before. The filesystem adapter needs Node and lives in
+// [safeguard]-file-storage-adapter.ts to keep `fs` out of the browser bundle.
+
+export type MaybePromise<T> = T | Promise<T>;
+
+export interface StorageAdapter {
+  readonly kind: 'localStorage' | 'indexedDB' | 'filesystem' | 'memory';
+  getItem(key: string): MaybePromise<string | null>;
+  setItem(key: string, value: string): MaybePromise<void>;
+  removeItem(key: string): MaybePromise<void>;
+}
+
+/**
+ * Keeps items in a Map for the life of the process (tests, or a server without a disk)
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly kind = 'memory';
+  private items: Map<string, string>;
+
+  constructor(initial: Record<string, string> = {}) {
+    this.items = new Map(Object.entries(initial));
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly kind = 'localStorage';
+
+  constructor(private readonly storage: Storage = window.localStorage) {}
+
+  getItem(key: string): string | null {
+    return this.storage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage.removeItem(key);
+  }
+}
+
+/**
+ * Keeps items in one IndexedDB object store, for data beyond localStorage's few megabytes
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly kind = 'indexedDB';
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly databaseName: string = 'vision-holder',
+    private readonly storeName: string = 'storage'
+  ) {}
+
+  getItem(key: string): Promise<string | null> {
+    return this.request('readonly', store => store.get(key))
+      .then(value => typeof value === 'string' ? value : null);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return this.request('readwrite', store => store.put(value, key)).then(() => undefined);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.request('readwrite', store => store.delete(key)).then(() => undefined);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call try again, e.g. after the user re-enables storage
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  // Transactions are queued in the order they are created, so writes land in call order
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(database.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * localStorage in a browser that allows it, otherwise memory. Node backends that need the
+ * data to survive a restart pass a FileStorageAdapter instead.
+ */
+export const defaultStorageAdapter = (): StorageAdapter => {
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return new LocalStorageAdapter(window.localStorage);
+    }
+  } catch {
+    // Reading window.localStorage throws when the browser blocks storage
+  }
+  return new MemoryStorageAdapter();
+};
+
+/**
+ * Read several keys at once; the result is a promise only if the adapter's reads are
+ */
+export const getStoredItems = (storage: StorageAdapter, keys: string[]): MaybePromise<Array<string | null>> => {
+  const values = keys.map(key => storage.getItem(key));
+  return values.some(value => value instanceof Promise)
+    ? Promise.all(values)
+    : values as Array<string | null>;
+};
+
+/**
+ * Apply a read now if it already has its value (returning null), or once it resolves
+ * (returning the promise). A failed read is logged with `context` and applies nothing.
+ */
+export const whenStored = <T>(value: MaybePromise<T>, apply: (value: T) => void, context: string): Promise<void> | null => {
+  if (!(value instanceof Promise)) {
+    apply(value);
+    return null;
+  }
+  return value.then(apply).catch(error => {
+    console.error(`Failed to load ${context} from storage:`, error);
+  });
+};
+
+/**
+ * Write several items, logging rather than throwing when storage is full or unavailable
+ */
+export const setStoredItems = (storage: StorageAdapter, items: Record<string, string>, context: string): void => {
+  const fail = (error: unknown) => console.error(`Failed to save ${context} to storage:`, error);
+  Object.entries(items).forEach(([key, value]) => {
+    try {
+      const written = storage.setItem(key, value);
+      if (written instanceof Promise) {
+        written.catch(fail);
+      }
+    } catch (error) {
+      fail(error);
+    }
+  });
+};
+
+/**
+ * Stored items followed by the ones added in memory while an asynchronous read was running
+ */
+export const mergeById = <T extends { id: string }>(stored: T[], current: T[]): T[] => {
+  const ids = new Set(stored.map(item => item.id));
+  return [...stored, ...current.filter(item => !ids.has(item.id))];
+};
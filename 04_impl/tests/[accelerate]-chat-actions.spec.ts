@@ -0,0 +1,72 @@
+/* [accelerate] Chat Actions Spec
+   Mission: accelerate
+   Roadmap changes proposed in a ledger-actions block are taken off the reply and checked
+   against the contract; a cut-off block proposes nothing, and streaming never shows any of it.
+   Needs no browser or running service.
+*/
+
+import { test, expect } from '@playwright/test';
+import { ACTIONS_FENCE, KnownEntry, extractChatActions, streamableLength } from '../backend/[accelerate]-chat-actions';
+
+const entries: KnownEntry[] = [
+  { id: 'saga-voice', level: 'saga', status: 'active', seek: 'Dictation in chat' },
+  { id: 'saga-done', level: 'saga', status: 'archived', seek: 'Old idea' }
+];
+
+const probe = {
+  type: 'create_entry',
+  entry: {
+    level: 'probe',
+    purpose_tag: '[accelerate]',
+    seek: 'Try voice commands',
+    why: 'See whether speaking is faster than typing',
+    parent_id: 'saga-voice',
+    content: { title: 'Voice commands', hypothesis: 'Users plan faster by voice', timebox: '3d' }
+  }
+};
+
+const block = (actions: unknown[]): string => `${ACTIONS_FENCE}\n${JSON.stringify(actions)}\n\`\`\``;
+
+test.describe('[chat] Actions', () => {
+  test('a complete block is taken off the reply and its proposals are checked', () => {
+    const reply = `I suggest a probe and blocking the saga.\n\n${block([
+      probe,
+      { type: 'update_status', entry_id: 'saga-voice', status: 'blocked', reason: 'Waiting on the design review' },
+      { type: 'update_status', entry_id: 'saga-done', status: 'active', reason: 'Bring it back' },
+      { type: 'delete_entry', entry_id: 'saga-voice' }
+    ])}`;
+
+    const { text, actions, rejected } = extractChatActions(reply, entries);
+    expect(text).toBe('I suggest a probe and blocking the saga.');
+    expect(actions.map(action => action.type)).toEqual(['create_entry', 'update_status']);
+    expect(rejected.map(({ error }) => error)).toEqual([
+      'Cannot move from archived: archived is a final status',
+      'type must be create_entry or update_status'
+    ]);
+  });
+
+  test('a cut-off fence proposes nothing and is not shown', () => {
+    const reply = `Here is my plan.\n${ACTIONS_FENCE}\n[{"type": "create_entry", "entry": {"level": "pro`;
+
+    expect(extractChatActions(reply, entries)).toEqual({ text: 'Here is my plan.', actions: [], rejected: [] });
+    expect(streamableLength(reply)).toBe('Here is my plan.\n'.length);
+  });
+
+  test('a block that is not JSON is reported, not applied', () => {
+    const { actions, rejected } = extractChatActions(`Plan.\n${ACTIONS_FENCE}\n[{not json}]\n\`\`\``, entries);
+    expect(actions).toEqual([]);
+    expect(rejected).toEqual([{ action: '[{not json}]', error: 'not valid JSON' }]);
+  });
+
+  test('a reply without a block is left alone', () => {
+    expect(extractChatActions('Just talking.', entries)).toEqual({ text: 'Just talking.', actions: [], rejected: [] });
+  });
+
+  test('streaming holds back a tail that may be the start of the fence', () => {
+    expect(streamableLength('Nothing to hide')).toBe('Nothing to hide'.length);
+    expect(streamableLength('Almost there\n``')).toBe('Almost there\n'.length);
+    expect(streamableLength('Almost there\n```ledger-act')).toBe('Almost there\n'.length);
+    // Backticks that turn out to be something else are released once they stop matching
+    expect(streamableLength('Code: ```ts')).toBe('Code: ```ts'.length);
+  });
+});
@@ -0,0 +1,122 @@
+/* [accelerate] Chat Threads Spec
+   Mission: accelerate
+   Messages belong to threads, untitled threads are named after their first message, search
+   finds titles and message text, and a project's chat, proposed actions included, survives a
+   restart of the AI Orchestrator. Needs no browser or running service.
+*/
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import {
+  ChatThread,
+  DEFAULT_THREAD_TITLE,
+  GENERAL_THREAD_ID,
+  createGeneralThread,
+  createThread,
+  searchThreads,
+  summarizeThread,
+  threadMessages,
+  titleFromMessage
+} from '../backend/[accelerate]-chat-threads';
+import { JsonChatStorage } from '../backend/[safeguard]-chat-storage';
+import type { ChatMessage } from '../backend/[accelerate]-ai-orchestrator-api';
+
+const message = (id: string, content: string, thread_id?: string, minute: number = 0): ChatMessage => ({
+  id,
+  role: 'user',
+  content,
+  timestamp: `2026-10-01T09:${String(minute).padStart(2, '0')}:00.000Z`,
+  ...(thread_id ? { thread_id } : {})
+});
+
+const threads: ChatThread[] = [
+  createGeneralThread('2026-10-01T09:00:00.000Z'),
+  createThread('voice', { title: 'Voice input', entry_id: 'probe-voice' }, '2026-10-01T09:05:00.000Z'),
+  createThread('pricing', {}, '2026-10-01T09:10:00.000Z')
+];
+
+const history: ChatMessage[] = [
+  message('m1', 'Messages from before threads go to the general thread'),
+  message('m2', 'Should dictation work offline?', 'voice', 1),
+  message('m3', 'A monthly plan with a generous free tier', 'pricing', 2)
+];
+
+test.describe('[chat] Threads', () => {
+  test('messages without a thread belong to the general thread', () => {
+    expect(threadMessages(history, GENERAL_THREAD_ID).map(msg => msg.id)).toEqual(['m1']);
+    expect(threadMessages(history, 'voice').map(msg => msg.id)).toEqual(['m2']);
+  });
+
+  test('untitled threads are named after their first message, cut to length', () => {
+    expect(threads[2]?.title).toBe(DEFAULT_THREAD_TITLE);
+    expect(titleFromMessage('Plan the launch\nwith more detail below')).toBe('Plan the launch');
+    expect(titleFromMessage('   ')).toBe(DEFAULT_THREAD_TITLE);
+
+    const long = titleFromMessage('word '.repeat(40));
+    expect(long.length).toBeLessThanOrEqual(80);
+    expect(long.endsWith('...')).toBe(true);
+  });
+
+  test('search matches titles and message text, most recently active first', () => {
+    expect(summarizeThread(threads[1]!, history)).toMatchObject({ message_count: 1, last_message: 'Should dictation work offline?' });
+
+    expect(searchThreads(threads, history, '').map(thread => thread.id)).toEqual(['pricing', 'voice', GENERAL_THREAD_ID]);
+    expect(searchThreads(threads, history, 'voice').map(thread => thread.id)).toEqual(['voice']);
+
+    const [byMessage] = searchThreads(threads, history, 'FREE TIER');
+    expect(byMessage).toMatchObject({ id: 'pricing', match: 'A monthly plan with a generous free tier' });
+  });
+});
+
+test.describe('[chat] Storage', () => {
+  let dir: string;
+  let filePath: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chat-storage-'));
+    filePath = path.join(dir, 'chat-history.json');
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('threads, messages and pending actions are read back after a restart', () => {
+    const reply: ChatMessage = {
+      ...message('m4', 'I can mark the voice saga blocked.', 'voice', 3),
+      role: 'assistant',
+      actions: [{
+        type: 'update_status',
+        entry_id: 'saga-voice',
+        status: 'blocked',
+        reason: 'Waiting on the design review',
+        id: 'action-1',
+        summary: 'Mark saga "Voice" blocked',
+        decision: 'pending',
+        decided_at: null,
+        result_entry_id: null
+      }]
+    };
+    new JsonChatStorage(filePath).save({ threads, messages: [...history, reply] });
+
+    const restored = new JsonChatStorage(filePath).load();
+    expect(restored?.threads.map(thread => thread.id)).toEqual([GENERAL_THREAD_ID, 'voice', 'pricing']);
+    const action = restored?.messages.flatMap(msg => msg.actions ?? []).find(candidate => candidate.id === 'action-1');
+    expect(action).toMatchObject({ decision: 'pending', entry_id: 'saga-voice' });
+  });
+
+  test('the general thread is restored if the file lacks it', () => {
+    fs.writeFileSync(filePath, JSON.stringify({ threads: [threads[1]], messages: [] }));
+    expect(new JsonChatStorage(filePath).load()?.threads.map(thread => thread.id)).toEqual([GENERAL_THREAD_ID, 'voice']);
+  });
+
+  test('an unreadable file is moved aside, not overwritten', () => {
+    fs.writeFileSync(filePath, '{"threads": ');
+
+    expect(new JsonChatStorage(filePath).load()).toBeNull();
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(fs.readdirSync(dir).some(name => name.startsWith('chat-history.json.corrupt-'))).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+/* [accelerate] Context Budget Spec
+   Mission: accelerate
+   Context sections go in by priority until the token budget is spent: one that partly fits is
+   trimmed, the rest are dropped, and the report says which. Needs no browser or running service.
+*/
+
+import { test, expect } from '@playwright/test';
+import {
+  ContextSection,
+  MIN_TRIMMED_TOKENS,
+  assembleContext,
+  createTokenCounter,
+  resolveContextBudget
+} from '../backend/[accelerate]-context-budget';
+
+// 4 characters per token
+const counter = createTokenCounter('openai', 'gpt-4o');
+
+const words = (count: number, word: string = 'word'): string => Array(count).fill(word).join(' ');
+
+const section = (id: string, kind: ContextSection['kind'], priority: number, text: string, required?: boolean): ContextSection => ({
+  id,
+  kind,
+  label: id,
+  text,
+  priority,
+  ...(required ? { required } : {})
+});
+
+const statuses = (report: ReturnType<typeof assembleContext>['report']) =>
+  Object.fromEntries(report.items.map(item => [item.id, item.status]));
+
+test.describe('[context] Token budget', () => {
+  test('everything that fits goes in whole, under headings in a fixed order', () => {
+    const { text, report } = assembleContext([
+      section('insight', 'wisdom', 10, 'Prefers short answers'),
+      section('message', 'message', 100, 'How do I start?', true),
+      section('mission', 'ledger', 80, 'Mission: calm planning')
+    ], 1000, counter);
+
+    expect(statuses(report)).toEqual({ message: 'included', mission: 'included', insight: 'included' });
+    expect(text).toBe('User Message:\nHow do I start?\n\nSystemic Ledger Context:\nMission: calm planning\n\nUser Insights:\nPrefers short answers');
+    expect(report.used).toBe(counter.count(text));
+  });
+
+  test('the section that only partly fits is trimmed and the rest are dropped', () => {
+    const { text, report } = assembleContext([
+      section('message', 'message', 100, 'Plan the launch', true),
+      section('mission', 'ledger', 80, words(40, 'mission')),
+      section('history', 'history', 50, words(200, 'earlier')),
+      section('insight', 'wisdom', 10, words(20, 'insight'))
+    ], 200, counter);
+
+    expect(statuses(report)).toEqual({ message: 'included', mission: 'included', history: 'trimmed', insight: 'dropped' });
+    expect(report).toMatchObject({ budget: 200, included: 2, trimmed: 1, dropped: 1 });
+    expect(report.used).toBeLessThanOrEqual(200);
+    expect(text).toContain('earlier [...]');
+    expect(text).not.toContain('insight');
+
+    const history = report.items.find(item => item.id === 'history');
+    expect(history?.tokens).toBeLessThan(history?.original_tokens ?? 0);
+    expect(report.items.find(item => item.id === 'insight')?.tokens).toBe(0);
+  });
+
+  test('a section is dropped rather than trimmed to almost nothing', () => {
+    const budget = counter.count('Plan the launch') + MIN_TRIMMED_TOKENS;
+    const { report } = assembleContext([
+      section('message', 'message', 100, 'Plan the launch', true),
+      section('history', 'history', 50, words(200, 'earlier'))
+    ], budget, counter);
+
+    expect(statuses(report)).toEqual({ message: 'included', history: 'dropped' });
+  });
+
+  test('required sections go first and are trimmed, not dropped, when they alone overflow', () => {
+    const { report } = assembleContext([
+      section('mission', 'ledger', 80, 'Mission: calm planning'),
+      section('task', 'task', 1, words(400, 'task'), true)
+    ], 100, counter);
+
+    expect(report.items.map(item => item.id)).toEqual(['task', 'mission']);
+    expect(statuses(report)).toEqual({ task: 'trimmed', mission: 'dropped' });
+    expect(report.used).toBeLessThanOrEqual(100);
+  });
+
+  test('the budget leaves room for the reply within the model\'s window', () => {
+    expect(resolveContextBudget(4000, 'openai', 'gpt-4o', 1000)).toBe(4000);
+    // Ollama's 2048-token window: the reply gets at most half
+    expect(resolveContextBudget(4000, 'ollama', 'llama3', 1500)).toBe(1024);
+    expect(resolveContextBudget(1, 'openai', 'gpt-4o', 1000)).toBe(MIN_TRIMMED_TOKENS);
+  });
+
+  test('characters outside ASCII count as a token each', () => {
+    expect(counter.count('abcd')).toBe(1);
+    expect(counter.count('ééé')).toBe(3);
+  });
+});
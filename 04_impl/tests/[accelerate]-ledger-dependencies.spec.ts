@@ -0,0 +1,85 @@
+/* [accelerate] Ledger Dependencies Spec
+   Mission: accelerate
+   A link that would close a dependency cycle is refused, with the cycle it would close, and
+   work blocked by unfinished entries is kept off the next-up list.
+*/
+
+import { test, expect } from '@playwright/test';
+import { EntryLink, findCriticalPath, findDependencyCycle, findWorkableEntries } from '../backend/[accelerate]-ledger-dependencies';
+import type { QueryableEntry } from '../backend/[accelerate]-ledger-query';
+
+// Helper: returns ledger API base URL
+const ledgerBase = process.env['LEDGER_API_URL'] || 'http://localhost:3001';
+
+type LinkedEntry = QueryableEntry & { links?: EntryLink[] };
+
+const link = (id: string, type: EntryLink['type'], target_id: string): EntryLink => ({
+  id,
+  type,
+  target_id,
+  created_at: '2026-10-01T09:00:00.000Z'
+});
+
+const saga = (id: string, minute: number, links: EntryLink[] = [], status: QueryableEntry['status'] = 'active'): LinkedEntry => ({
+  id,
+  timestamp: `2026-10-01T09:${String(minute).padStart(2, '0')}:00.000Z`,
+  purpose_tag: '[accelerate]',
+  level: 'saga',
+  seek: id,
+  why: 'Dependencies spec',
+  content: { title: id },
+  status,
+  parent_id: 'epic',
+  links
+});
+
+// schema blocks api, ui depends_on api: schema -> api -> ui
+const entries: LinkedEntry[] = [
+  saga('schema', 0, [link('l1', 'blocks', 'api')]),
+  saga('api', 1),
+  saga('ui', 2, [link('l2', 'depends_on', 'api'), link('l3', 'relates_to', 'schema')])
+];
+
+test.describe('[ledger] Dependencies', () => {
+  test('a link that closes a cycle is found, whichever way it is written', () => {
+    expect(findDependencyCycle(entries, 'ui', { type: 'blocks', target_id: 'schema' })).toEqual(['ui', 'schema', 'api', 'ui']);
+    expect(findDependencyCycle(entries, 'schema', { type: 'depends_on', target_id: 'ui' })).toEqual(['ui', 'schema', 'api', 'ui']);
+    expect(findDependencyCycle(entries, 'api', { type: 'blocks', target_id: 'schema' })).toEqual(['api', 'schema', 'api']);
+  });
+
+  test('links that keep the graph acyclic pass', () => {
+    expect(findDependencyCycle(entries, 'schema', { type: 'blocks', target_id: 'ui' })).toBeNull();
+    // relates_to never orders work
+    expect(findDependencyCycle(entries, 'ui', { type: 'relates_to', target_id: 'schema' })).toBeNull();
+  });
+
+  test('blocked work waits and the critical path runs blocker first', () => {
+    expect(findWorkableEntries(entries).map(({ entry, unblocks }) => ({ id: entry.id, unblocks }))).toEqual([
+      { id: 'schema', unblocks: 2 }
+    ]);
+    expect(findCriticalPath(entries).map(entry => entry.id)).toEqual(['schema', 'api', 'ui']);
+
+    // Finished work no longer blocks
+    const schemaDone = entries.map(entry => entry.id === 'schema' ? { ...entry, status: 'integrated' as const } : entry);
+    expect(findWorkableEntries(schemaDone).map(({ entry }) => entry.id)).toEqual(['api']);
+  });
+
+  test('POST /ledger/entries/{id}/links answers a cycle with 409', async ({ request }) => {
+    const create = async (seek: string) => {
+      const response = await request.post(`${ledgerBase}/ledger/entries`, {
+        data: { purpose_tag: '[accelerate]', level: 'epic', seek, why: 'Check the cycle refusal', content: { title: seek } }
+      });
+      expect(response.status()).toBe(201);
+      return (await response.json()).entry.id as string;
+    };
+    const first = await create('Cycle spec first');
+    const second = await create('Cycle spec second');
+
+    const linked = await request.post(`${ledgerBase}/ledger/entries/${first}/links`, { data: { type: 'blocks', target_id: second } });
+    expect(linked.status()).toBe(201);
+
+    const refused = await request.post(`${ledgerBase}/ledger/entries/${second}/links`, { data: { type: 'blocks', target_id: first } });
+    expect(refused.status()).toBe(409);
+    expect(await refused.json()).toEqual({ error: 'Link would create a dependency cycle', cycle: [second, first, second] });
+  });
+});
@@ -0,0 +1,75 @@
+/* [accelerate] Ledger Hierarchy Spec
+   Mission: accelerate
+   Parents sit higher than their children, and progress rolls up from integrated leaves. The
+   browser ledger builds its tree with the same module as GET /ledger/tree.
+   Needs no browser or running service.
+*/
+
+import { test, expect } from '@playwright/test';
+import { buildLedgerTree, findTreeNode, validateParent, HierarchyEntry } from '../backend/[accelerate]-ledger-hierarchy';
+import { SystemicLedger } from '../systemic-ledger/[accelerate]-ledger-core';
+import { MemoryStorageAdapter } from '../systemic-ledger/[safeguard]-storage-adapter';
+
+const entry = (id: string, level: HierarchyEntry['level'], status: HierarchyEntry['status'], parent_id: string | null, minute: number): HierarchyEntry => ({
+  id,
+  level,
+  status,
+  parent_id,
+  timestamp: `2026-10-01T09:${String(minute).padStart(2, '0')}:00.000Z`
+});
+
+const roadmap: HierarchyEntry[] = [
+  entry('saga-b', 'saga', 'active', 'epic', 5),
+  entry('mission', 'mission', 'active', null, 0),
+  entry('epic', 'epic', 'active', 'pillar', 2),
+  entry('pillar', 'pillar', 'active', 'mission', 1),
+  entry('saga-a', 'saga', 'integrated', 'epic', 3),
+  entry('saga-dropped', 'saga', 'archived', 'epic', 4),
+  entry('orphan-probe', 'probe', 'proposed', 'missing', 6)
+];
+
+test.describe('[ledger] Hierarchy', () => {
+  test('parents must exist, sit higher and not be archived', () => {
+    expect(validateParent('epic', null, roadmap)).toBeNull();
+    expect(validateParent('saga', 'epic', roadmap)).toBeNull();
+    expect(validateParent('mission', 'pillar', roadmap)).toBe('A mission cannot have a parent');
+    expect(validateParent('saga', 'nowhere', roadmap)).toBe('Parent entry nowhere not found');
+    expect(validateParent('pillar', 'epic', roadmap)).toBe('A pillar cannot sit under a epic. Parents must be at a higher level.');
+    expect(validateParent('probe', 'saga-dropped', roadmap)).toBe('Cannot add children to an archived entry');
+  });
+
+  test('the tree nests by parent and sorts by level, then time', () => {
+    const tree = buildLedgerTree(roadmap);
+
+    // Entries whose parent is unknown become roots
+    expect(tree.map(node => node.entry.id)).toEqual(['mission', 'orphan-probe']);
+    const epic = findTreeNode(tree, 'epic');
+    expect(epic?.children.map(node => node.entry.id)).toEqual(['saga-a', 'saga-dropped', 'saga-b']);
+  });
+
+  test('progress ignores archived work and rolls up to the mission', () => {
+    const tree = buildLedgerTree(roadmap);
+    const epic = findTreeNode(tree, 'epic');
+
+    expect(epic?.rollup.progress).toBe(0.5);
+    expect(epic?.rollup.descendant_count).toBe(3);
+    expect(epic?.rollup.status_counts).toMatchObject({ integrated: 1, archived: 1, active: 1 });
+    expect(findTreeNode(tree, 'mission')?.rollup.progress).toBe(0.5);
+    expect(findTreeNode(tree, 'mission')?.rollup.descendant_count).toBe(5);
+  });
+
+  test('the browser ledger applies the same parent rules', () => {
+    const ledger = new SystemicLedger(new MemoryStorageAdapter());
+    const base = { purpose_tag: '[accelerate]' as const, why: 'Hierarchy spec', status: 'proposed' as const };
+    const epic = ledger.addEntry({ ...base, level: 'epic', seek: 'Epic', content: { title: 'Epic' }, parent_id: null });
+
+    expect(() => ledger.addEntry({ ...base, level: 'pillar', seek: 'Pillar', content: { title: 'Pillar' }, parent_id: epic.id }))
+      .toThrow(/cannot sit under a epic/);
+
+    ledger.updateEntryStatus(epic.id, 'archived', 'Dropped');
+    expect(() => ledger.addEntry({ ...base, level: 'saga', seek: 'Saga', content: { title: 'Saga' }, parent_id: epic.id }))
+      .toThrow('Cannot add children to an archived entry');
+
+    expect(ledger.getTree().map(node => node.entry.id)).toEqual([epic.id]);
+  });
+});
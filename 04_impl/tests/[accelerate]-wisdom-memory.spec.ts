@@ -0,0 +1,104 @@
+/* [accelerate] Wisdom Memory Spec
+   Mission: accelerate
+   Near-duplicate insights merge into one, unused insights fade and are forgotten, and the
+   wisdom routes answer malformed triggers with 400.
+*/
+
+import { test, expect } from '@playwright/test';
+import {
+  HALF_LIFE_DAYS,
+  MemoryInsight,
+  currentRelevance,
+  insightSimilarity,
+  pruneWisdom,
+  rememberInsight
+} from '../backend/[accelerate]-wisdom-memory';
+
+// Helper: returns AI Orchestrator API base URL
+const apiBase = process.env['VITE_API_URL'] || 'http://localhost:3002';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-10-01T09:00:00.000Z');
+
+const insight = (id: string, text: string, triggers: string[], overrides: Partial<MemoryInsight> = {}): MemoryInsight => ({
+  id,
+  insight: text,
+  relevance_score: 1,
+  context_triggers: triggers,
+  timestamp: new Date(NOW).toISOString(),
+  usage_count: 0,
+  last_used_at: null,
+  merged_count: 0,
+  sources: [{ kind: 'manual', at: new Date(NOW).toISOString() }],
+  ...overrides
+});
+
+test.describe('[wisdom] Memory', () => {
+  test('a near-duplicate reinforces the stored insight instead of adding another', () => {
+    const memory = [insight('visual', 'User prefers visual feedback', ['ui', 'Design'])];
+    expect(insightSimilarity('User prefers visual feedback', 'The user prefers visual feedback')).toBe(1);
+
+    const { insight: stored, merged } = rememberInsight(
+      memory,
+      insight('again', 'The user prefers visual feedback', ['design', 'charts'], { usage_count: 2 }),
+      new Date(NOW).toISOString()
+    );
+
+    expect(merged).toBe(true);
+    expect(memory).toHaveLength(1);
+    expect(stored).toMatchObject({
+      id: 'visual',
+      insight: 'User prefers visual feedback',
+      context_triggers: ['ui', 'Design', 'charts'],
+      usage_count: 2,
+      merged_count: 1
+    });
+    expect(stored.sources).toHaveLength(2);
+  });
+
+  test('a different insight is stored on its own', () => {
+    const memory = [insight('visual', 'User prefers visual feedback', ['ui'])];
+    const { merged } = rememberInsight(memory, insight('voice', 'Dictation works better than typing', ['voice']));
+
+    expect(merged).toBe(false);
+    expect(memory.map(entry => entry.id)).toEqual(['visual', 'voice']);
+  });
+
+  test('unused insights fade by half each half-life, pinned ones never', () => {
+    const later = NOW + HALF_LIFE_DAYS * DAY_MS;
+
+    expect(currentRelevance(insight('idle', 'Idle insight', []), later)).toBeCloseTo(0.5);
+    expect(currentRelevance(insight('pinned', 'Pinned insight', [], { pinned: true }), later)).toBe(1);
+  });
+
+  test('faded insights are forgotten and the rest are capped by relevance', () => {
+    const longAgo = new Date(NOW - 10 * HALF_LIFE_DAYS * DAY_MS).toISOString();
+    const memory = [
+      insight('faded', 'Long forgotten', [], { timestamp: longAgo }),
+      insight('faded-pinned', 'Pinned long ago', [], { timestamp: longAgo, pinned: true }),
+      insight('weak', 'Weak insight', [], { relevance_score: 0.3 }),
+      insight('strong', 'Strong insight', [], { relevance_score: 0.9 })
+    ];
+
+    const forgotten = pruneWisdom(memory, NOW, 2);
+    expect(forgotten.map(entry => entry.id).sort()).toEqual(['faded', 'weak']);
+    expect(memory.map(entry => entry.id)).toEqual(['faded-pinned', 'strong']);
+  });
+
+  test('POST and PUT /orchestrator/wisdom answer malformed triggers with 400', async ({ request }) => {
+    const body = { insight: 'Wisdom spec insight about keyboard shortcuts', user_preference: {} };
+
+    for (const context_triggers of [['ui', 42], ['ui', '  '], 'ui']) {
+      const refused = await request.post(`${apiBase}/orchestrator/wisdom`, { data: { ...body, context_triggers } });
+      expect(refused.status()).toBe(400);
+    }
+
+    const created = await request.post(`${apiBase}/orchestrator/wisdom`, { data: { ...body, context_triggers: [' keys '] } });
+    expect(created.ok()).toBeTruthy();
+    const { insight: stored } = await created.json();
+    expect(stored.context_triggers).toEqual(['keys']);
+
+    const refused = await request.put(`${apiBase}/orchestrator/wisdom/${stored.id}`, { data: { context_triggers: [null] } });
+    expect(refused.status()).toBe(400);
+  });
+});
@@ -0,0 +1,115 @@
+/* [clarify] Build Journal Round-Trip Spec
+   Mission: clarify
+   Parsing the journal, exporting the ledger and parsing the export again must give back the
+   same entries, for entries seeded from BUILD_JOURNAL.md and for entries created through the API.
+   Needs no browser or running service.
+*/
+
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import { parseBuildJournal, exportBuildJournal } from '../backend/[clarify]-build-journal';
+import type { LedgerEntry } from '../backend/[accelerate]-systemic-ledger-api';
+
+const JOURNAL = fs.readFileSync(path.resolve(__dirname, '../../BUILD_JOURNAL.md'), 'utf-8');
+
+// Entries as the ledger holds them; where an entry sat in the journal is not part of it
+const withoutSource = (entries: LedgerEntry[]) =>
+  entries.map(({ content: { journal, ...content }, ...entry }) => ({ ...entry, parent_id: entry.parent_id ?? null, content }));
+
+// One entry of every level, as POST /ledger/entries stores them
+const apiEntries: LedgerEntry[] = [
+  {
+    id: '0b6f3c1e-1d2a-4c3b-9e8f-000000000001',
+    timestamp: '2026-10-01T09:15:00.000Z',
+    purpose_tag: '[clarify]',
+    level: 'mission',
+    seek: 'Ship a calmer planning tool',
+    why: 'Planning should not feel like a wall of text.\nEspecially for people with ADHD.',
+    content: { title: 'Calm planning', statement: 'Help every user see\nthe next step' },
+    status: 'active',
+    parent_id: null
+  },
+  {
+    id: '0b6f3c1e-1d2a-4c3b-9e8f-000000000002',
+    timestamp: '2026-10-01T09:16:00.000Z',
+    purpose_tag: '[empathize]',
+    level: 'pillar',
+    seek: 'Low reading load',
+    why: 'Short text, clear structure',
+    content: { title: 'Low reading load', principle: 'One idea per line' },
+    status: 'active',
+    parent_id: '0b6f3c1e-1d2a-4c3b-9e8f-000000000001'
+  },
+  {
+    id: '0b6f3c1e-1d2a-4c3b-9e8f-000000000003',
+    timestamp: '2026-10-02T10:00:00.000Z',
+    purpose_tag: '[accelerate]',
+    level: 'epic',
+    seek: 'Voice first',
+    why: 'Typing is slow for some users',
+    content: { title: 'Voice first', description: 'Speak instead of type.\n\n  Indented second paragraph.', owners: ['sam', 'lee'] },
+    status: 'proposed',
+    parent_id: '0b6f3c1e-1d2a-4c3b-9e8f-000000000002'
+  },
+  {
+    id: '0b6f3c1e-1d2a-4c3b-9e8f-000000000004',
+    timestamp: '2026-10-03T11:30:00.000Z',
+    purpose_tag: '[accelerate]',
+    level: 'saga',
+    seek: 'Dictation in chat',
+    why: 'The chat is where ideas start',
+    content: { title: 'Dictation in chat', description: 'Microphone button in the chat box' },
+    status: 'blocked',
+    parent_id: '0b6f3c1e-1d2a-4c3b-9e8f-000000000003'
+  },
+  {
+    id: '0b6f3c1e-1d2a-4c3b-9e8f-000000000005',
+    timestamp: '2026-10-04T08:00:00.000Z',
+    purpose_tag: '[delight]',
+    level: 'probe',
+    seek: 'Try voice commands',
+    why: 'See whether speaking is faster than typing\nfor planning sessions',
+    content: {
+      title: 'Voice commands',
+      hypothesis: 'Users plan faster by voice',
+      timebox: '3d',
+      deadline: '2026-10-07T08:00:00.000Z',
+      outcome: { result: 'confirmed', notes: 'Twice as fast\nfor short notes', recorded_at: '2026-10-06T16:00:00.000Z' }
+    },
+    status: 'integrated',
+    parent_id: '0b6f3c1e-1d2a-4c3b-9e8f-000000000004'
+  }
+];
+
+test.describe('[journal] BUILD_JOURNAL.md round trip', () => {
+  test('exporting the parsed journal reproduces it byte for byte', () => {
+    const { preamble, entries } = parseBuildJournal(JOURNAL);
+    expect(exportBuildJournal(entries, { preamble })).toBe(JOURNAL);
+  });
+
+  test('API-created entries of every level survive export and re-parse', () => {
+    const exported = exportBuildJournal(apiEntries);
+    const reparsed = parseBuildJournal(exported).entries;
+
+    expect(withoutSource(reparsed)).toEqual(withoutSource(apiEntries));
+    // And a second round changes nothing
+    expect(exportBuildJournal(reparsed)).toBe(exported);
+  });
+
+  test('content added to journal entries survives export and re-parse', () => {
+    const { preamble, entries } = parseBuildJournal(JOURNAL);
+    const probe = entries.find(entry => entry.level === 'probe');
+    expect(probe).toBeDefined();
+    const amended = entries.map(entry => entry === probe
+      ? {
+          ...entry,
+          why: `${entry.why}\nNow with a second line`,
+          content: { ...entry.content, hypothesis: 'The journal keeps this', timebox: '2w' }
+        }
+      : entry);
+
+    const reparsed = parseBuildJournal(exportBuildJournal([...amended, ...apiEntries], { preamble })).entries;
+    expect(withoutSource(reparsed)).toEqual(withoutSource([...amended, ...apiEntries]));
+  });
+});
@@ -1,42 +1,81 @@
 /* [clarify] Onboarding Flow E2E Spec
    Mission: onboard_users
    This Playwright spec walks a fresh user through the onboarding wizard and validates API/UI sync.
+   The browser and the API checks share one user identity (X-User-Id), so both read the same store.
 */
 
-import { test, expect } from '@playwright/test';
+import { randomUUID } from 'crypto';
+import { test, expect, APIRequestContext } from '@playwright/test';
 
 // Helper: returns onboarding API base URL
 const apiBase = process.env['VITE_API_URL'] || 'http://localhost:3002';
 
-// Initial user session (anonymous)
-const USER_ID = `test-user-${Date.now()}`;
-
 test.describe('[onboarding] Guided onboarding wizard', () => {
+  // Fresh user per test: the app reads its identity from localStorage, so seed it before the first load
+  let USER_ID: string;
+
+  test.beforeEach(async ({ page }) => {
+    USER_ID = randomUUID();
+    await page.addInitScript(userId => {
+      localStorage.setItem('vision-holder-user-id', userId);
+    }, USER_ID);
+  });
+
+  const getState = async (request: APIRequestContext) => {
+    const stateResp = await request.get(`${apiBase}/onboarding/state`, {
+      headers: { 'X-User-Id': USER_ID }
+    });
+    expect(stateResp.ok()).toBeTruthy();
+    return (await stateResp.json()).data;
+  };
+
   test('user completes first 3 steps and state is synced', async ({ page, request }) => {
+    const { data: steps } = await (await request.get(`${apiBase}/onboarding/steps`)).json();
+
     // 1. Launch app fresh
     await page.goto('http://localhost:3000');
 
     // 2. Ensure onboarding wizard appears
     await expect(page.locator('[data-testid="onboarding-wizard"]')).toBeVisible();
 
-    // 3. Walk first three steps (placeholder selectors)
+    // 3. Walk first three steps
     for (let i = 0; i < 3; i++) {
-      await expect(page.locator('[data-testid="onboarding-step-title"]')).toBeVisible();
+      await expect(page.locator('[data-testid="onboarding-step-title"]')).toHaveText(steps[i].title);
       await page.click('[data-testid="onboarding-next"]');
     }
 
-    // 4. Fetch onboarding state via API
-    const stateResp = await request.get(`${apiBase}/onboarding/state`, {
-      headers: { 'x-mock-user': USER_ID }
-    });
-    expect(stateResp.ok()).toBeTruthy();
-    const { data } = await stateResp.json();
+    // 4. Fetch onboarding state via API once the last step has been saved
+    await expect.poll(async () => (await getState(request)).completed_steps.length).toBe(3);
+    const data = await getState(request);
 
-    // 5. Assert current_step reflects third step and completed_steps length === 3
-    expect(data.completed_steps.length).toBe(3);
-    expect(data.current_step).toBe(data.completed_steps[2]);
+    // 5. Assert the first three steps are complete and the user is on the fourth
+    expect(data.user_id).toBe(USER_ID);
+    expect(data.completed_steps).toEqual(steps.slice(0, 3).map((step: { id: string }) => step.id));
+    expect(data.current_step).toBe(steps[3].id);
+    expect(data.completed_at).toBeNull();
 
     // 6. UI badge shows 3/… progress
     await expect(page.locator('[data-testid="onboarding-progress"]')).toHaveText(/3\s*\/\s*\d+/);
+
+    // 7. A reload resumes at the saved step instead of starting over
+    await page.reload();
+    await expect(page.locator('[data-testid="onboarding-step-title"]')).toHaveText(steps[3].title);
+    await expect(page.locator('[data-testid="onboarding-progress"]')).toHaveText(/3\s*\/\s*\d+/);
+  });
+
+  test('finishing the last step closes the wizard for good', async ({ page, request }) => {
+    const { data: steps } = await (await request.get(`${apiBase}/onboarding/steps`)).json();
+
+    await page.goto('http://localhost:3000');
+    for (const step of steps) {
+      await expect(page.locator('[data-testid="onboarding-step-title"]')).toHaveText(step.title);
+      await page.click('[data-testid="onboarding-next"]');
+    }
+    await expect(page.locator('[data-testid="onboarding-wizard"]')).toBeHidden();
+
+    await expect.poll(async () => (await getState(request)).completed_at).not.toBeNull();
+
+    await page.reload();
+    await expect(page.locator('[data-testid="onboarding-wizard"]')).toBeHidden();
   });
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,68 @@
+/* [safeguard] Ledger Import Spec
+   Mission: safeguard
+   An import is planned before anything changes: each incoming entry is new, a duplicate, a
+   conflict or invalid, and only its own fields are kept. Needs no browser or running service.
+*/
+
+import { test, expect } from '@playwright/test';
+import { planLedgerImport, summarizeImportPlan } from '../backend/[safeguard]-ledger-import';
+import type { QueryableEntry } from '../backend/[accelerate]-ledger-query';
+
+const entry = (id: string, level: QueryableEntry['level'], seek: string, parent_id: string | null, status: QueryableEntry['status'] = 'active'): QueryableEntry => ({
+  id,
+  timestamp: '2026-10-01T09:00:00.000Z',
+  purpose_tag: '[safeguard]',
+  level,
+  seek,
+  why: 'Import spec',
+  content: { title: seek },
+  status,
+  parent_id
+});
+
+const existing: QueryableEntry[] = [
+  entry('mission', 'mission', 'Mission', null),
+  entry('epic', 'epic', 'Backups', 'mission')
+];
+
+test.describe('[ledger] Import planning', () => {
+  test('incoming entries are sorted into new, duplicate, conflict and invalid', () => {
+    const plan = planLedgerImport(existing, [
+      entry('saga', 'saga', 'Signed export', 'epic'),
+      entry('epic', 'epic', 'Backups', 'mission'),
+      entry('epic-copy', 'epic', 'Backups', 'mission', 'integrated'),
+      { ...entry('broken', 'saga', 'No status', 'epic'), status: 'finished' }
+    ]);
+
+    expect(summarizeImportPlan(plan)).toEqual({ new: 1, duplicate: 1, conflict: 1, invalid: 1 });
+    expect(plan.duplicates).toEqual([{ id: 'epic', existing_id: 'epic', match: 'id' }]);
+    expect(plan.conflicts[0]).toMatchObject({ id: 'epic-copy', existing_id: 'epic', kind: 'status', incoming_status: 'integrated' });
+    expect(plan.invalid[0]).toMatchObject({ index: 3, id: 'broken' });
+  });
+
+  test('children follow a content duplicate and orphans are refused', () => {
+    const plan = planLedgerImport(existing, [
+      entry('their-epic', 'epic', 'Backups', 'mission'),
+      entry('their-saga', 'saga', 'Restore drill', 'their-epic'),
+      entry('lost-saga', 'saga', 'Nowhere', 'missing-epic')
+    ]);
+
+    expect(plan.new.map(({ id, parent_id }) => ({ id, parent_id }))).toEqual([{ id: 'their-saga', parent_id: 'epic' }]);
+    expect(plan.invalid).toEqual([
+      { index: 2, id: 'lost-saga', fields: [{ field: 'parent_id', message: 'refers to an entry that is neither in the ledger nor in the import' }] }
+    ]);
+  });
+
+  test('links, chain hashes and unknown keys are dropped from new entries', () => {
+    const forged = {
+      ...entry('saga', 'saga', 'Signed export', 'epic'),
+      hash: 'a'.repeat(64),
+      prev_hash: 'b'.repeat(64),
+      links: [{ id: 'link-1', type: 'blocks', target_id: 'epic', created_at: '2026-10-01T09:00:00.000Z' }],
+      admin: true
+    };
+
+    const [imported] = planLedgerImport(existing, [forged]).new;
+    expect(imported).toEqual(entry('saga', 'saga', 'Signed export', 'epic'));
+  });
+});
@@ -0,0 +1,109 @@
+/* [safeguard] Ledger Integrity Spec
+   Mission: safeguard
+   The hash chain reports an edited, a removed and a reordered event, and a backup is only
+   trusted with this server's signature over its head and project. Needs no browser or running service.
+*/
+
+import { test, expect } from '@playwright/test';
+import type { LedgerEvent } from '../backend/[safeguard]-ledger-storage';
+import {
+  GENESIS_HASH,
+  chainHead,
+  createLedgerBackup,
+  sealLedgerEvent,
+  verifyLedgerBackup,
+  verifyLedgerChain
+} from '../backend/[safeguard]-ledger-integrity';
+
+// Read on the first signature, so setting it here is early enough
+process.env['LEDGER_SIGNING_KEY'] = 'integrity-spec-key';
+
+const events: LedgerEvent[] = [
+  {
+    id: 'event-1',
+    type: 'entry_created',
+    timestamp: '2026-10-01T09:00:00.000Z',
+    actor: 'spec',
+    entry: {
+      id: 'epic',
+      timestamp: '2026-10-01T09:00:00.000Z',
+      purpose_tag: '[safeguard]',
+      level: 'epic',
+      seek: 'Tamper-evident ledger',
+      why: 'Integrity spec',
+      content: { title: 'Tamper-evident ledger' },
+      status: 'proposed',
+      parent_id: null
+    }
+  },
+  { id: 'event-2', type: 'status_changed', timestamp: '2026-10-01T09:01:00.000Z', actor: 'spec', entry_id: 'epic', from: 'proposed', status: 'active', reason: 'Started' },
+  { id: 'event-3', type: 'status_changed', timestamp: '2026-10-01T09:02:00.000Z', actor: 'spec', entry_id: 'epic', from: 'active', status: 'blocked', reason: 'Waiting' },
+  { id: 'event-4', type: 'status_changed', timestamp: '2026-10-01T09:03:00.000Z', actor: 'spec', entry_id: 'epic', from: 'blocked', status: 'active', reason: 'Unblocked' }
+];
+
+const sealAll = (): LedgerEvent[] => {
+  let head = GENESIS_HASH;
+  return events.map(event => {
+    const sealed = sealLedgerEvent(event, head);
+    head = sealed.hash ?? head;
+    return sealed;
+  });
+};
+
+test.describe('[ledger] Hash chain', () => {
+  test('an untouched chain verifies', () => {
+    const chain = sealAll();
+
+    expect(verifyLedgerChain(chain)).toEqual({ valid: true, checked: 4, legacy: 0, head_hash: chainHead(chain), breaks: [] });
+  });
+
+  test('an edited event breaks its own hash', () => {
+    const chain = sealAll();
+    chain[1] = { ...chain[1], reason: 'Rewritten' } as LedgerEvent;
+
+    const result = verifyLedgerChain(chain);
+    expect(result.valid).toBe(false);
+    expect(result.breaks.map(({ seq, event_id, kind }) => ({ seq, event_id, kind }))).toEqual([
+      { seq: 2, event_id: 'event-2', kind: 'hash_mismatch' }
+    ]);
+  });
+
+  test('a removed event breaks the link of the one after it', () => {
+    const chain = sealAll();
+    chain.splice(1, 1);
+
+    expect(verifyLedgerChain(chain).breaks.map(({ seq, event_id, kind }) => ({ seq, event_id, kind }))).toEqual([
+      { seq: 2, event_id: 'event-3', kind: 'prev_hash_mismatch' }
+    ]);
+  });
+
+  test('reordered events are reported where the order changed', () => {
+    const [first, second, third, fourth] = sealAll();
+
+    const result = verifyLedgerChain([first, third, second, fourth] as LedgerEvent[]);
+    expect(result.valid).toBe(false);
+    expect(result.breaks.map(({ event_id, kind }) => ({ event_id, kind }))).toEqual([
+      { event_id: 'event-3', kind: 'prev_hash_mismatch' },
+      { event_id: 'event-2', kind: 'prev_hash_mismatch' },
+      { event_id: 'event-4', kind: 'prev_hash_mismatch' }
+    ]);
+  });
+});
+
+test.describe('[ledger] Signed backups', () => {
+  test('only this server\'s signature over the head and project is trusted', () => {
+    const backup = createLedgerBackup('default', sealAll(), []);
+
+    expect(verifyLedgerBackup(backup)).toMatchObject({ valid: true, head_matches: true, signature: 'valid', trusted_unsigned: false });
+    expect(verifyLedgerBackup({ ...backup, project_id: 'other' })).toMatchObject({ valid: false, signature: 'invalid' });
+    expect(verifyLedgerBackup({ ...backup, events: backup.events.slice(0, 3) })).toMatchObject({ valid: false, head_matches: false });
+  });
+
+  test('a backup from another server needs trust_unsigned', () => {
+    const backup = createLedgerBackup('default', sealAll(), []);
+    const foreign = { ...backup, head: { ...backup.head, key_id: 'another-server' } };
+
+    expect(verifyLedgerBackup(foreign)).toMatchObject({ valid: false, signature: 'unknown_key', trusted_unsigned: false });
+    expect(verifyLedgerBackup(foreign, true)).toMatchObject({ valid: true, signature: 'unknown_key', trusted_unsigned: true });
+  });
+});
@@ -0,0 +1,70 @@
+/* [safeguard] Ledger Status Machine Spec
+   Mission: safeguard
+   Status moves follow one table: the API answers a refused move with 409 and the moves it
+   allows, and the browser ledger refuses the same moves.
+*/
+
+import { test, expect } from '@playwright/test';
+import { STATUS_TRANSITIONS, checkStatusTransition } from '../backend/[safeguard]-ledger-status-machine';
+import { SystemicLedger } from '../systemic-ledger/[accelerate]-ledger-core';
+import { MemoryStorageAdapter } from '../systemic-ledger/[safeguard]-storage-adapter';
+
+// Helper: returns ledger API base URL
+const ledgerBase = process.env['LEDGER_API_URL'] || 'http://localhost:3001';
+
+test.describe('[ledger] Status transitions', () => {
+  test('allowed moves are the ones in the table', () => {
+    expect(checkStatusTransition('proposed', 'active')).toEqual({ allowed: true, allowedNext: STATUS_TRANSITIONS.proposed });
+    expect(checkStatusTransition('active', 'integrated').allowed).toBe(true);
+    expect(checkStatusTransition('dormant', 'proposed').allowed).toBe(true);
+  });
+
+  test('illegal moves are refused with the moves that are allowed', () => {
+    const skipped = checkStatusTransition('proposed', 'integrated');
+    expect(skipped.allowed).toBe(false);
+    expect(skipped.reason).toBe('Cannot move from proposed to integrated. Allowed: active, dormant, archived');
+    expect(skipped.allowedNext).toEqual(['active', 'dormant', 'archived']);
+
+    expect(checkStatusTransition('archived', 'active').reason).toBe('Cannot move from archived: archived is a final status');
+    expect(checkStatusTransition('active', 'active').reason).toBe('Entry is already active');
+  });
+
+  test('the browser ledger refuses the same moves', () => {
+    const ledger = new SystemicLedger(new MemoryStorageAdapter());
+    const entry = ledger.addEntry({
+      purpose_tag: '[safeguard]',
+      level: 'epic',
+      seek: 'Status spec',
+      why: 'Check the shared table',
+      content: { title: 'Status spec' },
+      status: 'proposed',
+      parent_id: null
+    });
+
+    expect(() => ledger.updateEntryStatus(entry.id, 'integrated', 'Skipping ahead')).toThrow(/Cannot move from proposed to integrated/);
+    expect(ledger.updateEntryStatus(entry.id, 'active', 'Started')?.status).toBe('active');
+    expect(ledger.getEntryHistory(entry.id).map(change => change.to)).toEqual(['active']);
+  });
+
+  test('PUT /ledger/entries/{id}/status answers an illegal move with 409', async ({ request }) => {
+    const created = await request.post(`${ledgerBase}/ledger/entries`, {
+      data: { purpose_tag: '[safeguard]', level: 'epic', seek: 'Status spec', why: 'Check the 409', content: { title: 'Status spec' } }
+    });
+    expect(created.status()).toBe(201);
+    const { entry } = await created.json();
+
+    const refused = await request.put(`${ledgerBase}/ledger/entries/${entry.id}/status`, {
+      data: { status: 'integrated', reason: 'Skipping ahead' }
+    });
+    expect(refused.status()).toBe(409);
+    expect(await refused.json()).toMatchObject({
+      current_status: 'proposed',
+      allowed_statuses: ['active', 'dormant', 'archived']
+    });
+
+    const moved = await request.put(`${ledgerBase}/ledger/entries/${entry.id}/status`, {
+      data: { status: 'active', reason: 'Started' }
+    });
+    expect(moved.status()).toBe(200);
+  });
+});
@@ -0,0 +1,89 @@
+/* [safeguard] Ledger Storage Spec
+   Mission: safeguard
+   The JSON-lines engine keeps every acknowledged event across a crash: a torn last line is cut
+   off, anything else that does not parse is reported. Needs no browser or running service.
+*/
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import {
+  JsonLinesLedgerStorage,
+  LedgerStorageError,
+  LedgerEvent,
+  replayLedgerEvents
+} from '../backend/[safeguard]-ledger-storage';
+
+const created = (id: string, seek: string): LedgerEvent => ({
+  id: `event-${id}`,
+  type: 'entry_created',
+  timestamp: '2026-10-01T09:00:00.000Z',
+  actor: 'spec',
+  entry: {
+    id,
+    timestamp: '2026-10-01T09:00:00.000Z',
+    purpose_tag: '[clarify]',
+    level: 'epic',
+    seek,
+    why: 'Spec entry',
+    content: { title: seek },
+    status: 'proposed',
+    parent_id: null
+  }
+});
+
+test.describe('[ledger] JSON-lines storage', () => {
+  let dir: string;
+  let filePath: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-storage-'));
+    filePath = path.join(dir, 'ledger-events.jsonl');
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('appended events are read back in order', async () => {
+    const storage = new JsonLinesLedgerStorage(filePath);
+    await storage.append(created('a', 'First'));
+    await storage.append(created('b', 'Second'));
+    await storage.close();
+
+    const events = await new JsonLinesLedgerStorage(filePath).readAll();
+    expect(events.map(event => event.id)).toEqual(['event-a', 'event-b']);
+    expect(replayLedgerEvents(events).map(entry => entry.seek)).toEqual(['First', 'Second']);
+  });
+
+  test('a torn last line is truncated and the file stays appendable', async () => {
+    const complete = `${JSON.stringify(created('a', 'First'))}\n`;
+    fs.writeFileSync(filePath, complete + JSON.stringify(created('b', 'Second')).slice(0, 40));
+
+    const storage = new JsonLinesLedgerStorage(filePath);
+    expect((await storage.readAll()).map(event => event.id)).toEqual(['event-a']);
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe(complete);
+
+    await storage.append(created('c', 'Third'));
+    await storage.close();
+    expect((await new JsonLinesLedgerStorage(filePath).readAll()).map(event => event.id)).toEqual(['event-a', 'event-c']);
+  });
+
+  test('a complete last event without its newline is kept', async () => {
+    fs.writeFileSync(filePath, JSON.stringify(created('a', 'First')));
+
+    const storage = new JsonLinesLedgerStorage(filePath);
+    expect(await storage.readAll()).toHaveLength(1);
+    await storage.append(created('b', 'Second'));
+    await storage.close();
+    expect(await new JsonLinesLedgerStorage(filePath).readAll()).toHaveLength(2);
+  });
+
+  test('a corrupted line before the end is reported, not skipped', async () => {
+    fs.writeFileSync(filePath, `${JSON.stringify(created('a', 'First'))}\n{"broken"\n${JSON.stringify(created('b', 'Second'))}\n`);
+
+    await expect(new JsonLinesLedgerStorage(filePath).readAll()).rejects.toThrow(LedgerStorageError);
+    await expect(new JsonLinesLedgerStorage(filePath).readAll()).rejects.toThrow(/line 2/);
+  });
+});
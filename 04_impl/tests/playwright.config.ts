@@ -19,6 +19,12 @@ const config: PlaywrightTestConfig = {
     },
   ],
   webServer: [
+    {
+      command: 'cd ../backend && LEDGER_STORAGE=memory npm run dev:ledger',
+      url: 'http://localhost:3001/health',
+      reuseExistingServer: !process.env['CI'],
+      timeout: 5000,
+    },
     {
       command: 'cd ../backend && npm run dev:orchestrator',
       url: 'http://localhost:3002/health',
@@ -4,10 +4,11 @@
 // Integrates roadmap and chat interfaces for complete Vision Holder experience
 
 import React, { useState, useEffect } from 'react';
-import { systemicLedgerAPI } from './app/services/[accelerate]-service-integration';
+import { systemicLedgerAPI, ServiceError, useActiveProject, useOnboarding } from './app/services/[accelerate]-service-integration';
 import { RoadmapView } from './app/components/[empathize]-roadmap-view';
 import { ChatInterface } from './app/components/[empathize]-chat-interface';
 import { TerminalView } from './app/components/[safeguard]-terminal-view';
+import { ProjectSwitcher } from './app/components/[clarify]-project-switcher';
 import { OnboardingWizard } from './components/[delight]-onboarding-wizard';
 import { AccessibilityAudit } from './components/[empathize]-accessibility-checklist';
 import { 
@@ -42,7 +43,10 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
   });
   const [showWelcome, setShowWelcome] = useState(true);
   const [hasSeenWelcome, setHasSeenWelcome] = useState(false);
-  const [showOnboarding, setShowOnboarding] = useState(false);
+  const activeProjectId = useActiveProject();
+  // Onboarding progress is kept per user by the AI Orchestrator
+  const onboarding = useOnboarding();
+  const showOnboarding = onboarding.state !== null && !onboarding.isComplete;
 
   // API client is imported from service integration
 
@@ -60,12 +64,6 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
       setShowWelcome(false);
       setHasSeenWelcome(true);
     }
-    
-    // Check if user needs onboarding
-    const hasCompletedOnboarding = localStorage.getItem('vision-holder-onboarding-completed');
-    if (hasCompletedOnboarding !== 'true') {
-      setShowOnboarding(true);
-    }
   }, []);
 
   useEffect(() => {
@@ -133,21 +131,18 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
     localStorage.setItem('vision-holder-welcome-seen', 'true');
   };
 
-  const completeOnboarding = () => {
-    setShowOnboarding(false);
-    localStorage.setItem('vision-holder-onboarding-completed', 'true');
-  };
-
   const handleNewEntry = async (entry: any) => {
     try {
       // Add entry to ledger via API
-      await systemicLedgerAPI.post('/ledger/entries', entry);
+      await systemicLedgerAPI.createEntry(entry);
       console.log('New entry created:', entry);
       // Refresh roadmap data
       setSelectedEntry(null);
     } catch (error) {
       console.error('Failed to create entry:', error);
-      setError('Failed to save entry. Please try again.');
+      setError(error instanceof ServiceError && error.fields
+        ? error.message
+        : 'Failed to save entry. Please try again.');
     }
   };
 
@@ -330,7 +325,7 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
           <button
             onClick={() => {
               dismissWelcome();
-              setShowOnboarding(true);
+              void onboarding.restart();
             }}
             className="px-6 py-3 bg-secondary-600 text-white rounded-lg hover:bg-secondary-700 transition-colors text-dyslexia-friendly font-medium"
           >
@@ -342,11 +337,7 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
   )}
 
       {/* Onboarding Wizard */}
-      <OnboardingWizard
-        isOpen={showOnboarding}
-        onComplete={completeOnboarding}
-        onClose={() => setShowOnboarding(false)}
-      />
+      <OnboardingWizard isOpen={showOnboarding} />
       {/* Sidebar */}
       <div className={`${isSidebarOpen ? 'w-64' : 'w-16'} bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700 transition-all duration-300 flex flex-col min-w-0`}>
         {/* Header */}
@@ -402,7 +393,7 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
                   Settings
                 </span>
                 <button
-                  onClick={() => setShowOnboarding(true)}
+                  onClick={() => void onboarding.restart()}
                   className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors text-dyslexia-friendly"
                 >
                   Restart Tutorial
@@ -440,6 +431,7 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
             </div>
             
             <div className="flex items-center space-x-4">
+              <ProjectSwitcher />
               {/* API Status Indicators */}
               <div className="flex items-center space-x-2">
                 <div className={`w-2 h-2 rounded-full ${apiStatus.ledger ? 'bg-green-500' : 'bg-red-500'}`} title="Systemic Ledger API"></div>
@@ -452,8 +444,8 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
           </div>
         </header>
 
-        {/* Content Area */}
-        <main className="flex-1 overflow-hidden">
+        {/* Content Area (remounted per project, so every view loads the new project's data) */}
+        <main key={activeProjectId} className="flex-1 overflow-hidden">
           {renderTabContent()}
         </main>
       </div>
@@ -13,6 +13,8 @@ import { KnowledgeBaseView } from './components/[accelerate]-knowledge-base-view
 import { TerminalView } from './components/[safeguard]-terminal-view';
 import { DevelopmentWorkspace } from './components/[delight]-development-workspace';
 import { ProjectDashboard } from './components/[empathize]-project-dashboard';
+import { ProjectSwitcher } from './components/[clarify]-project-switcher';
+import { useActiveProject, useOnboarding } from './services/[accelerate]-service-integration';
 import { 
   Map, 
   MessageCircle, 
@@ -37,11 +39,7 @@ interface MainApplicationProps {
 
 type ActiveTab = 'dashboard' | 'workspace' | 'roadmap' | 'chat' | 'wisdom' | 'knowledge' | 'terminal';
 
-// Mock user ID for development
-const MOCK_USER_ID = `user-${Date.now()}`;
-
 export const MainApplication: React.FC<MainApplicationProps> = ({ className = '' }) => {
-  const [showOnboarding, setShowOnboarding] = useState(true);
   const [activeTab, setActiveTab] = useState<ActiveTab>('dashboard');
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
@@ -52,6 +50,10 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
     ledger: false,
     orchestrator: false
   });
+  const activeProjectId = useActiveProject();
+  // The wizard shows until the user finishes or skips it; progress is kept per user by the orchestrator
+  const onboarding = useOnboarding();
+  const showOnboarding = onboarding.state !== null && !onboarding.isComplete;
 
   // Initialize API client using service integration
   // const ledgerAPI = new SystemicLedgerAPI(); // Commented out - using service integration instead
@@ -107,27 +109,6 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
     checkAPIHealth();
   }, []);
 
-  // Check if onboarding is completed
-  useEffect(() => {
-    const checkOnboarding = async () => {
-      try {
-        const response = await fetch('http://localhost:3002/onboarding/state', {
-          headers: { 'x-mock-user': MOCK_USER_ID }
-        });
-        const { data } = await response.json();
-        setShowOnboarding(!data.completed_at);
-      } catch (err) {
-        console.error('Failed to check onboarding state:', err);
-      }
-    };
-    checkOnboarding();
-  }, []);
-
-  // Handle onboarding completion
-  const handleOnboardingComplete = () => {
-    setShowOnboarding(false);
-  };
-
   // Switch to component tab when onboarding step changes
   const handleTabChange = (value: string) => {
     setActiveTab(value as ActiveTab);
@@ -205,7 +186,7 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
         );
       case 'roadmap':
         return (
-          <OnboardingTooltip component="roadmap" userId={MOCK_USER_ID}>
+          <OnboardingTooltip component="roadmap">
             <RoadmapView 
               onEntrySelect={setSelectedEntry}
               className="h-full"
@@ -214,7 +195,7 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
         );
       case 'chat':
         return (
-          <OnboardingTooltip component="chat" userId={MOCK_USER_ID}>
+          <OnboardingTooltip component="chat">
             <ChatInterface 
               onNewEntry={handleNewEntry}
               className="h-full"
@@ -246,13 +227,13 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
         );
       case 'knowledge':
         return (
-          <OnboardingTooltip component="knowledge" userId={MOCK_USER_ID}>
+          <OnboardingTooltip component="knowledge">
             <KnowledgeBaseView className="h-full" />
           </OnboardingTooltip>
         );
       case 'terminal':
         return (
-          <OnboardingTooltip component="terminal" userId={MOCK_USER_ID}>
+          <OnboardingTooltip component="terminal">
             <TerminalView className="h-full" />
           </OnboardingTooltip>
         );
@@ -275,11 +256,7 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
     <div className={`flex h-screen bg-gray-50 dark:bg-gray-900 ${className}`}>
       {/* Onboarding wizard */}
       {showOnboarding && (
-        <OnboardingWizard
-          isOpen={showOnboarding}
-          onComplete={handleOnboardingComplete}
-          onClose={() => setShowOnboarding(false)}
-        />
+        <OnboardingWizard isOpen={showOnboarding} />
       )}
 
       {/* Sidebar */}
@@ -368,6 +345,7 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
             </div>
             
             <div className="flex items-center space-x-4">
+              <ProjectSwitcher />
               <div className="text-sm text-gray-500 dark:text-gray-400 text-dyslexia-friendly">
                 {typeof window !== 'undefined' ? new Date().toLocaleDateString() : ''}
               </div>
@@ -375,8 +353,8 @@ export const MainApplication: React.FC<MainApplicationProps> = ({ className = ''
           </div>
         </header>
 
-        {/* Content Area */}
-        <main className="flex-1 overflow-hidden">
+        {/* Content Area (remounted per project, so every view loads the new project's data) */}
+        <main key={activeProjectId} className="flex-1 overflow-hidden">
           <Tabs value={activeTab} onValueChange={handleTabChange}>
             <TabsList>
               <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
@@ -30,6 +30,7 @@ import {
   Brain,
   MessageSquare
 } from 'lucide-react';
+import { projectHeaders } from '../services/[accelerate]-service-integration';
 
 interface KnowledgeDocument {
   id: string;
@@ -81,7 +82,9 @@ export const KnowledgeBaseView: React.FC<KnowledgeBaseViewProps> = ({ className
       setIsLoading(true);
       setError(null);
 
-      const response = await fetch('http://localhost:3003/knowledge/documents');
+      const response = await fetch('http://localhost:3003/knowledge/documents', {
+        headers: projectHeaders()
+      });
       if (response.ok) {
         const data = await response.json();
         setDocuments(data.documents || []);
@@ -130,6 +133,7 @@ export const KnowledgeBaseView: React.FC<KnowledgeBaseViewProps> = ({ className
 
     const response = await fetch('http://localhost:3003/knowledge/upload', {
       method: 'POST',
+      headers: projectHeaders(),
       body: formData
     });
 
@@ -145,7 +149,8 @@ export const KnowledgeBaseView: React.FC<KnowledgeBaseViewProps> = ({ className
   const analyzeDocument = async (documentId: string) => {
     try {
       const response = await fetch(`http://localhost:3003/knowledge/analyze/${documentId}`, {
-        method: 'POST'
+        method: 'POST',
+        headers: projectHeaders()
       });
 
       if (response.ok) {
@@ -165,7 +170,8 @@ export const KnowledgeBaseView: React.FC<KnowledgeBaseViewProps> = ({ className
   const deleteDocument = async (documentId: string) => {
     try {
       const response = await fetch(`http://localhost:3003/knowledge/documents/${documentId}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: projectHeaders()
       });
 
       if (response.ok) {
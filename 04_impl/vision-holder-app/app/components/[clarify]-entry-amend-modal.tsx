@@ -0,0 +1,190 @@
+'use client';
+
+// [clarify] Entry Amend Modal
+// Fix an entry's seek, why or content with a reason; earlier wording stays visible as revisions
+
+import React, { useState, useEffect } from 'react';
+import { X, History } from 'lucide-react';
+import {
+  systemicLedgerAPI,
+  LedgerRevision,
+  LedgerFieldDiff
+} from '../services/[accelerate]-service-integration';
+import type { LedgerAmendment } from '../services/[safeguard]-ledger-schemas';
+
+interface AmendableEntry {
+  id: string;
+  seek: string;
+  why: string;
+  content: Record<string, any>;
+}
+
+interface EntryAmendModalProps {
+  entry: AmendableEntry;
+  onSubmit: (id: string, amendment: LedgerAmendment) => Promise<void>;
+  onClose: () => void;
+}
+
+const DIFF_STYLE = {
+  equal: 'text-gray-700 dark:text-gray-300',
+  insert: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  delete: 'bg-red-100 text-red-800 line-through dark:bg-red-900/40 dark:text-red-300'
+};
+
+const FieldDiffView: React.FC<{ diff: LedgerFieldDiff }> = ({ diff }) => (
+  <div className="mt-1">
+    <span className="text-xs font-medium text-gray-500 dark:text-gray-400">{diff.field}</span>
+    <p className="text-sm whitespace-pre-wrap text-dyslexia-friendly">
+      {diff.segments.map((segment, index) => (
+        <span key={index} className={DIFF_STYLE[segment.op]}>{segment.text}</span>
+      ))}
+    </p>
+  </div>
+);
+
+export const EntryAmendModal: React.FC<EntryAmendModalProps> = ({ entry, onSubmit, onClose }) => {
+  const [seek, setSeek] = useState(entry.seek);
+  const [why, setWhy] = useState(entry.why);
+  const [content, setContent] = useState(JSON.stringify(entry.content, null, 2));
+  const [reason, setReason] = useState('');
+  const [revisions, setRevisions] = useState<LedgerRevision[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    systemicLedgerAPI.getRevisions(entry.id)
+      .then(result => setRevisions(result.revisions))
+      .catch(err => console.error('Failed to load revisions:', err));
+  }, [entry.id]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    let parsedContent: Record<string, any>;
+    try {
+      parsedContent = JSON.parse(content);
+    } catch {
+      setError('Content must be valid JSON');
+      return;
+    }
+
+    // Send only what changed; the server keeps the rest as it is
+    const amendment: LedgerAmendment = { reason: reason.trim() };
+    if (seek !== entry.seek) amendment.seek = seek;
+    if (why !== entry.why) amendment.why = why;
+    if (JSON.stringify(parsedContent) !== JSON.stringify(entry.content)) amendment.content = parsedContent;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit(entry.id, amendment);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to amend entry');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-dyslexia-friendly focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 text-dyslexia-friendly mb-2';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white text-dyslexia-friendly">
+            Amend Entry
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="amend-seek" className={labelClass}>Seek</label>
+            <input id="amend-seek" type="text" value={seek} onChange={(e) => setSeek(e.target.value)} className={inputClass} />
+          </div>
+
+          <div>
+            <label htmlFor="amend-why" className={labelClass}>Why</label>
+            <textarea id="amend-why" value={why} onChange={(e) => setWhy(e.target.value)} rows={3} className={inputClass} />
+          </div>
+
+          <div>
+            <label htmlFor="amend-content" className={labelClass}>Content (JSON)</label>
+            <textarea
+              id="amend-content"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={6}
+              className={`${inputClass} font-mono text-sm`}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="amend-reason" className={labelClass}>Reason for the change</label>
+            <input
+              id="amend-reason"
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Typo in the seek"
+              className={inputClass}
+            />
+          </div>
+
+          {error && (
+            <p role="alert" className="text-sm text-red-600 dark:text-red-400 text-dyslexia-friendly">{error}</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-dyslexia-friendly"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !reason.trim()}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 text-dyslexia-friendly"
+            >
+              {saving ? 'Saving...' : 'Save Amendment'}
+            </button>
+          </div>
+        </form>
+
+        {revisions.length > 1 && (
+          <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-4">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white mb-3 text-dyslexia-friendly">
+              <History className="w-4 h-4" />
+              Revisions
+            </h3>
+            <ol className="space-y-3">
+              {revisions.slice().reverse().map(revision => (
+                <li key={revision.event_id} className="text-sm">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    Revision {revision.revision} · {new Date(revision.timestamp).toLocaleString()} · {revision.actor}
+                  </div>
+                  {revision.reason ? (
+                    <p className="text-gray-700 dark:text-gray-300 text-dyslexia-friendly">{revision.reason}</p>
+                  ) : (
+                    <p className="text-gray-500 dark:text-gray-400 text-dyslexia-friendly">Original entry</p>
+                  )}
+                  {revision.diff.map(diff => <FieldDiffView key={diff.field} diff={diff} />)}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EntryAmendModal;
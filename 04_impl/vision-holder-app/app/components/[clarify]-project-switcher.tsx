@@ -0,0 +1,158 @@
+'use client';
+
+// [clarify] Project Switcher
+// Pick, create, copy and archive projects; every service follows the active project
+
+import React, { useState } from 'react';
+import { FolderOpen, Plus, Archive, RotateCcw, Copy } from 'lucide-react';
+import { useProjects, DEFAULT_PROJECT_ID } from '../services/[accelerate]-service-integration';
+
+interface ProjectSwitcherProps {
+  className?: string;
+}
+
+export const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({ className = '' }) => {
+  const {
+    projects,
+    activeProject,
+    activeProjectId,
+    error,
+    switchProject,
+    createProject,
+    archiveProject,
+    restoreProject
+  } = useProjects();
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [copyCurrent, setCopyCurrent] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Project update failed');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+
+    const created = await run(() => createProject(name.trim(), copyCurrent ? activeProjectId : undefined));
+    if (created) {
+      setName('');
+      setCopyCurrent(false);
+      setIsCreating(false);
+    }
+  };
+
+  const isArchived = !!activeProject?.archived_at;
+  const message = actionError || error;
+
+  return (
+    <div className={`flex flex-col items-end gap-1 ${className}`}>
+      <div className="flex items-center gap-2">
+        <FolderOpen className="w-4 h-4 text-gray-500 dark:text-gray-400" aria-hidden="true" />
+        <label htmlFor="project-switcher" className="sr-only">Active project</label>
+        <select
+          id="project-switcher"
+          value={activeProjectId}
+          onChange={(e) => run(() => switchProject(e.target.value))}
+          disabled={busy}
+          className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-dyslexia-friendly"
+        >
+          {/* Keep the active id selectable while the list loads or if the API is down */}
+          {!activeProject && <option value={activeProjectId}>{activeProjectId}</option>}
+          {projects.map(project => (
+            <option key={project.id} value={project.id}>
+              {project.archived_at ? `${project.name} (archived)` : project.name}
+            </option>
+          ))}
+        </select>
+
+        {isArchived && (
+          <span className="px-2 py-0.5 text-xs rounded-full bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-dyslexia-friendly">
+            Read-only
+          </span>
+        )}
+
+        <button
+          onClick={() => setIsCreating(!isCreating)}
+          aria-expanded={isCreating}
+          className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+          title="New project"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+
+        {activeProjectId !== DEFAULT_PROJECT_ID && (
+          isArchived ? (
+            <button
+              onClick={() => run(() => restoreProject(activeProjectId))}
+              disabled={busy}
+              className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+              title="Restore project"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              onClick={() => run(() => archiveProject(activeProjectId))}
+              disabled={busy}
+              className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+              title="Archive project (keeps it readable everywhere)"
+            >
+              <Archive className="w-4 h-4" />
+            </button>
+          )
+        )}
+      </div>
+
+      {isCreating && (
+        <form onSubmit={handleCreate} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Project name"
+            aria-label="Project name"
+            autoFocus
+            className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-dyslexia-friendly"
+          />
+          <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400 text-dyslexia-friendly">
+            <input
+              type="checkbox"
+              checked={copyCurrent}
+              onChange={(e) => setCopyCurrent(e.target.checked)}
+            />
+            <Copy className="w-3 h-3" aria-hidden="true" />
+            Copy current
+          </label>
+          <button
+            type="submit"
+            disabled={busy || !name.trim()}
+            className="px-3 py-1 bg-primary-600 text-white rounded-md text-sm hover:bg-primary-700 transition-colors disabled:opacity-50 text-dyslexia-friendly"
+          >
+            Create
+          </button>
+        </form>
+      )}
+
+      {message && (
+        <p role="alert" className="text-xs text-red-600 dark:text-red-400 text-dyslexia-friendly">
+          {message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
@@ -0,0 +1,111 @@
+'use client';
+
+// [empathize] Chat Action Card
+// A roadmap change the AI proposed in the chat. Nothing reaches the Systemic Ledger until the
+// user confirms; declining just closes the proposal, so the user stays in control
+
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import {
+  aiOrchestratorAPI,
+  systemicLedgerAPI,
+  ChatActionProposal
+} from '../services/[accelerate]-service-integration';
+
+interface ChatActionCardProps {
+  action: ChatActionProposal;
+  onDecided: (action: ChatActionProposal) => void;
+}
+
+const contentLines = (content: Record<string, unknown>): Array<[string, string]> =>
+  Object.entries(content)
+    .filter(([key, value]) => key !== 'title' && (typeof value === 'string' || Array.isArray(value)))
+    .map(([key, value]) => [key.replace(/_/g, ' '), Array.isArray(value) ? value.join(', ') : String(value)]);
+
+export const ChatActionCard: React.FC<ChatActionCardProps> = ({ action, onDecided }) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Set once the ledger has the change, so a retry only records the decision again
+  const [appliedEntryId, setAppliedEntryId] = useState<string | null>(null);
+
+  const confirm = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      let entryId = appliedEntryId;
+      if (!entryId) {
+        const entry = action.type === 'create_entry'
+          ? await systemicLedgerAPI.createEntry<{ id: string }>(action.entry)
+          : await systemicLedgerAPI.updateEntryStatus<{ id: string }>(action.entry_id, action.status, action.reason);
+        entryId = entry.id;
+        setAppliedEntryId(entryId);
+      }
+      const { action: decided } = await aiOrchestratorAPI.decideChatAction(action.id, 'confirmed', entryId);
+      onDecided(decided);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the roadmap');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const decline = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { action: decided } = await aiOrchestratorAPI.decideChatAction(action.id, 'declined');
+      onDecided(decided);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to decline the proposal');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 p-3 text-sm bg-white dark:bg-gray-800 border border-blue-200 dark:border-blue-800 rounded-lg">
+      <p className="font-medium text-gray-900 dark:text-white text-dyslexia-friendly">{action.summary}</p>
+
+      {action.type === 'create_entry' ? (
+        <dl className="mt-1 space-y-0.5 text-xs text-gray-600 dark:text-gray-400">
+          <div><dt className="inline font-medium">Purpose: </dt><dd className="inline">{action.entry.purpose_tag}</dd></div>
+          <div><dt className="inline font-medium">Why: </dt><dd className="inline">{action.entry.why}</dd></div>
+          {contentLines(action.entry.content as Record<string, unknown>).map(([label, value]) => (
+            <div key={label}><dt className="inline font-medium capitalize">{label}: </dt><dd className="inline">{value}</dd></div>
+          ))}
+        </dl>
+      ) : (
+        <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">Reason: {action.reason}</p>
+      )}
+
+      {error && <p role="alert" className="mt-2 text-xs text-red-600">{error}</p>}
+
+      {action.decision === 'pending' ? (
+        <div className="flex gap-2 mt-2">
+          <button
+            onClick={confirm}
+            disabled={busy}
+            className="flex items-center gap-1 px-3 py-1 text-xs bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Check className="w-3 h-3" />
+            {appliedEntryId ? 'Retry' : 'Confirm'}
+          </button>
+          <button
+            onClick={decline}
+            disabled={busy || appliedEntryId !== null}
+            className="flex items-center gap-1 px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50"
+          >
+            <X className="w-3 h-3" />
+            Decline
+          </button>
+        </div>
+      ) : (
+        <p className={`mt-2 text-xs font-medium ${action.decision === 'confirmed' ? 'text-green-700 dark:text-green-400' : 'text-gray-500'}`}>
+          {action.decision === 'confirmed' ? 'Roadmap updated' : 'Declined'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ChatActionCard;
@@ -15,10 +15,22 @@ import {
   MessageCircle,
   Bot,
   User,
-  Loader
+  Loader,
+  Square
 } from 'lucide-react';
-import { aiOrchestratorAPI } from '../services/[accelerate]-service-integration';
+import {
+  aiOrchestratorAPI,
+  projectHeaders,
+  ServiceError,
+  ChatThreadSummary,
+  ChatActionProposal,
+  ContextBudgetReport,
+  GENERAL_THREAD_ID
+} from '../services/[accelerate]-service-integration';
 import HandoffManager from './[empathize]-handoff-manager';
+import ChatThreadSidebar from './[empathize]-chat-thread-sidebar';
+import ContextBudgetReportDetails from './[empathize]-context-budget-report';
+import ChatActionCard from './[empathize]-chat-action-card';
 
 interface ChatMessage {
   id: string;
@@ -27,6 +39,10 @@ interface ChatMessage {
   timestamp: Date;
   attachments?: File[];
   isTyping?: boolean;
+  isStreaming?: boolean;
+  stopped?: boolean; // the user stopped the reply part way
+  contextReport?: ContextBudgetReport; // on replies: what the AI was given as context
+  actions?: ChatActionProposal[]; // roadmap changes the reply proposes
 }
 
 interface ChatInterfaceProps {
@@ -51,6 +67,10 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const [userPreferences, setUserPreferences] = useState<any>({});
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const replyAbortRef = useRef<AbortController | null>(null);
+  const [activeThread, setActiveThread] = useState<ChatThreadSummary | null>(null);
+  const [threadsRefresh, setThreadsRefresh] = useState(0);
+  const activeThreadId = activeThread?.id ?? GENERAL_THREAD_ID;
 
   // Initialize speech recognition
   useEffect(() => {
@@ -85,6 +105,31 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   }, []);
 
+  // Show the selected thread's own history
+  useEffect(() => {
+    let cancelled = false;
+    aiOrchestratorAPI.getThread(activeThreadId)
+      .then(({ thread, messages: history }) => {
+        if (cancelled) return;
+        setActiveThread(thread);
+        setMessages(history
+          .filter(message => message.role !== 'system')
+          .map(message => ({
+            id: message.id,
+            type: message.role === 'user' ? 'user' : 'ai',
+            content: message.content,
+            timestamp: new Date(message.timestamp),
+            ...(message.stopped ? { stopped: true } : {}),
+            ...(message.context_report ? { contextReport: message.context_report } : {}),
+            ...(message.actions ? { actions: message.actions } : {})
+          })));
+      })
+      .catch(error => console.error('[empathize] Failed to load conversation:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeThreadId]);
+
   // Auto-scroll to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -177,6 +222,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       // Upload to knowledge base (port 3003)
       await fetch('http://localhost:3003/knowledge/upload', {
         method: 'POST',
+        headers: projectHeaders(),
         body: formData
       });
 
@@ -279,6 +325,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     try {
       console.log('Making API call to /orchestrator/chat');
       const requestData = {
+        thread_id: activeThreadId,
         message: messageText,
         systemicLedger: systemicLedger,
         attachments: messageAttachments.map(f => ({ name: f.name, size: f.size, type: f.type }))
@@ -290,61 +337,74 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       console.log('Message field empty check:', requestData.message === '');
       console.log('Message field undefined check:', requestData.message === undefined);
       
-      // Call the new real AI chat endpoint
-      const response = await aiOrchestratorAPI.post<{
-        response: string;
-        context: string;
-        wisdom_insights: any[];
-        new_insights_count: number;
-      }>('/orchestrator/chat', requestData);
-      console.log('API response received:', response);
-      
-      // Remove typing indicator
-      setMessages(prev => prev.filter(m => m.id !== 'typing'));
+      // Stream the reply into a message that grows as tokens arrive
+      const aiMessageId = (Date.now() + 1).toString();
+      let wisdomInsights: any[] = [];
+      let contextReport: ContextBudgetReport | undefined;
+      const abortController = new AbortController();
+      replyAbortRef.current = abortController;
+
+      const result = await aiOrchestratorAPI.streamChat(requestData, {
+        onStart: (start) => {
+          wisdomInsights = start.wisdom_insights;
+          contextReport = start.context_report;
+          setActiveThread(prev => prev && prev.id === start.thread_id ? { ...prev, title: start.thread_title } : prev);
+        },
+        onToken: (text) => {
+          setMessages(prev => prev.some(m => m.id === aiMessageId)
+            ? prev.map(m => m.id === aiMessageId ? { ...m, content: m.content + text } : m)
+            : [
+                ...prev.filter(m => m.id !== 'typing'),
+                { id: aiMessageId, type: 'ai', content: text, timestamp: new Date(), isStreaming: true }
+              ]);
+        }
+      }, abortController.signal);
+      console.log('API response received:', result);
 
-      // Add AI response
       const aiMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
+        id: aiMessageId,
         type: 'ai',
-        content: response.response || 'I understand your request. How can I help you with your vision?',
-        timestamp: new Date()
+        content: result.response || (result.stopped ? '' : 'I understand your request. How can I help you with your vision?'),
+        timestamp: new Date(),
+        stopped: result.stopped,
+        ...(contextReport ? { contextReport } : {}),
+        ...(result.actions.length > 0 ? { actions: result.actions } : {})
       };
 
-      setMessages(prev => [...prev, aiMessage]);
-
-      // Save conversation to knowledge base for future context retrieval
-      await saveConversationToKnowledgeBase(userMessage, aiMessage);
-
-      // Trigger new entry callback if provided
-      if (onNewEntry) {
-        onNewEntry({
-          type: 'chat',
-          content: messageText,
-          response: aiMessage.content,
-          timestamp: new Date(),
-          wisdom_insights: response.wisdom_insights,
-          new_insights_count: response.new_insights_count
-        });
+      // Replace the streaming message (or the typing indicator, if nothing arrived) with the final one
+      setMessages(prev => [
+        ...prev.filter(m => m.id !== 'typing' && m.id !== aiMessageId),
+        ...(aiMessage.content || aiMessage.stopped || aiMessage.actions ? [aiMessage] : [])
+      ]);
+
+      if (!result.stopped) {
+        // Save conversation to knowledge base for future context retrieval
+        await saveConversationToKnowledgeBase(userMessage, aiMessage);
+
+        // Trigger new entry callback if provided
+        if (onNewEntry) {
+          onNewEntry({
+            type: 'chat',
+            content: messageText,
+            response: aiMessage.content,
+            timestamp: new Date(),
+            wisdom_insights: wisdomInsights
+          });
+        }
       }
 
     } catch (error) {
       console.error('Failed to get AI response:', error);
-      console.error('Full error object:', JSON.stringify(error, null, 2));
       
       let errorContent = 'Sorry, I encountered an error processing your request. Please try again.';
       
-      if (error.response) {
-        console.error('Error response data:', error.response.data);
-        console.error('Error response status:', error.response.status);
-        
-        // Show the actual backend error if it's a validation error
-        if (error.response.status === 400 && error.response.data?.error) {
-          errorContent = `Error: ${error.response.data.error}`;
-        }
+      // Show the actual backend error if it's a validation error
+      if (error instanceof ServiceError && error.statusCode === 400) {
+        errorContent = `Error: ${error.message}`;
       }
       
-      // Remove typing indicator
-      setMessages(prev => prev.filter(m => m.id !== 'typing'));
+      // Remove typing indicator and any partial reply
+      setMessages(prev => prev.filter(m => m.id !== 'typing' && !m.isStreaming));
 
       // Add error message
       const errorMessage: ChatMessage = {
@@ -356,10 +416,25 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
       setMessages(prev => [...prev, errorMessage]);
     } finally {
+      replyAbortRef.current = null;
       setIsProcessing(false);
+      // A new thread takes its title from its first message
+      setThreadsRefresh(count => count + 1);
     }
   };
 
+  // Stop the reply being streamed; what has arrived so far is kept
+  const stopReply = () => {
+    replyAbortRef.current?.abort();
+  };
+
+  // Show the user's decision on a proposed roadmap change in the message that proposed it
+  const updateAction = (decided: ChatActionProposal) => {
+    setMessages(prev => prev.map(message => message.actions?.some(action => action.id === decided.id)
+      ? { ...message, actions: message.actions.map(action => action.id === decided.id ? decided : action) }
+      : message));
+  };
+
   // Handle key press
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -385,6 +460,9 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         <div className="flex items-center space-x-2">
           <MessageCircle className="w-5 h-5 text-blue-600" />
           <h3 className="font-semibold text-gray-900 dark:text-white">Co-Vision Chat</h3>
+          {activeThread && activeThread.id !== GENERAL_THREAD_ID && (
+            <span className="text-sm text-gray-500 truncate">/ {activeThread.title}</span>
+          )}
         </div>
         <div className="flex items-center space-x-4">
           <button
@@ -400,183 +478,221 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         </div>
       </div>
 
-      {/* Handoff Manager */}
-      {showHandoffManager && (
-        <div className="border-b bg-gray-50 dark:bg-gray-900/50">
-          <HandoffManager
-            className="p-4"
-            systemicLedgerData={systemicLedger}
-            wisdomMemoryData={wisdomMemoryData}
-            conversationHistory={messages}
-            userPreferences={userPreferences}
-            onHandoffTriggered={(handoffId) => {
-              console.log('[empathize] Handoff triggered:', handoffId);
-              // In production, this would initiate the actual AI handoff
-            }}
-            onHandoffComplete={(handoffId) => {
-              console.log('[empathize] Handoff completed:', handoffId);
-              // Add system message about seamless transition
-              const systemMessage: ChatMessage = {
-                id: Date.now().toString(),
-                type: 'ai',
-                content: 'I\'m your fresh AI assistant, seamlessly continuing our conversation. All your preferences and context have been preserved. How can I help you next?',
-                timestamp: new Date()
-              };
-              setMessages(prev => [...prev, systemMessage]);
-            }}
-          />
-        </div>
-      )}
-
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 ? (
-          <div className="text-center text-gray-500 py-8">
-            <Bot className="w-12 h-12 mx-auto mb-4 text-gray-300" />
-            <p className="text-lg font-medium mb-2">Welcome to your AI Co-Vision Holder!</p>
-            <p className="text-sm">Start a conversation to get personalized guidance for your vision.</p>
-          </div>
-        ) : (
-          messages.map((message) => (
-            <div
-              key={message.id}
-              className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
-            >
-              <div
-                className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
-                  message.type === 'user'
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-gray-100 text-gray-900'
-                }`}
-              >
-                {message.isTyping ? (
-                  <div className="flex items-center space-x-1">
-                    <Loader className="w-4 h-4 animate-spin" />
-                    <span className="text-sm">AI is thinking...</span>
-                  </div>
-                ) : (
-                  <div>
-                    <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                    {message.attachments && message.attachments.length > 0 && (
-                      <div className="mt-2 space-y-1">
-                        {message.attachments.map((file, index) => (
-                          <div key={index} className="flex items-center space-x-2 text-xs opacity-75">
-                            <File className="w-3 h-3" />
-                            <span>{file.name}</span>
-                            <span>({formatFileSize(file.size)})</span>
-                          </div>
+      <div className="flex flex-1 min-h-0">
+        <ChatThreadSidebar
+          className="hidden md:flex w-64 flex-shrink-0"
+          activeThreadId={activeThreadId}
+          refreshKey={threadsRefresh}
+          onSelect={(thread) => {
+            if (isProcessing) stopReply();
+            setActiveThread(thread);
+          }}
+        />
+        <div className="flex flex-col flex-1 min-w-0">
+          {/* Handoff Manager */}
+          {showHandoffManager && (
+            <div className="border-b bg-gray-50 dark:bg-gray-900/50">
+              <HandoffManager
+                className="p-4"
+                systemicLedgerData={systemicLedger}
+                wisdomMemoryData={wisdomMemoryData}
+                conversationHistory={messages}
+                userPreferences={userPreferences}
+                onHandoffTriggered={(handoffId) => {
+                  console.log('[empathize] Handoff triggered:', handoffId);
+                  // In production, this would initiate the actual AI handoff
+                }}
+                onHandoffComplete={(handoffId) => {
+                  console.log('[empathize] Handoff completed:', handoffId);
+                  // Add system message about seamless transition
+                  const systemMessage: ChatMessage = {
+                    id: Date.now().toString(),
+                    type: 'ai',
+                    content: 'I\'m your fresh AI assistant, seamlessly continuing our conversation. All your preferences and context have been preserved. How can I help you next?',
+                    timestamp: new Date()
+                  };
+                  setMessages(prev => [...prev, systemMessage]);
+                }}
+              />
+            </div>
+          )}
+
+          {/* Messages */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {messages.length === 0 ? (
+              <div className="text-center text-gray-500 py-8">
+                <Bot className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+                <p className="text-lg font-medium mb-2">Welcome to your AI Co-Vision Holder!</p>
+                <p className="text-sm">Start a conversation to get personalized guidance for your vision.</p>
+              </div>
+            ) : (
+              messages.map((message) => (
+                <div
+                  key={message.id}
+                  className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
+                >
+                  <div
+                    className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
+                      message.type === 'user'
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-900'
+                    }`}
+                  >
+                    {message.isTyping ? (
+                      <div className="flex items-center space-x-1">
+                        <Loader className="w-4 h-4 animate-spin" />
+                        <span className="text-sm">AI is thinking...</span>
+                      </div>
+                    ) : (
+                      <div>
+                        <p className="text-sm whitespace-pre-wrap">
+                          {message.content}
+                          {message.isStreaming && <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" aria-hidden="true" />}
+                        </p>
+                        {message.stopped && (
+                          <p className="text-xs italic text-gray-500 mt-1">Stopped</p>
+                        )}
+                        {message.actions?.map(action => (
+                          <ChatActionCard key={action.id} action={action} onDecided={updateAction} />
                         ))}
+                        {message.contextReport && !message.isStreaming && (
+                          <ContextBudgetReportDetails report={message.contextReport} className="mt-2" />
+                        )}
+                        {message.attachments && message.attachments.length > 0 && (
+                          <div className="mt-2 space-y-1">
+                            {message.attachments.map((file, index) => (
+                              <div key={index} className="flex items-center space-x-2 text-xs opacity-75">
+                                <File className="w-3 h-3" />
+                                <span>{file.name}</span>
+                                <span>({formatFileSize(file.size)})</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     )}
+                    <div className={`text-xs mt-1 ${message.type === 'user' ? 'text-blue-100' : 'text-gray-500'}`}>
+                      {message.timestamp.toLocaleTimeString()}
+                    </div>
                   </div>
-                )}
-                <div className={`text-xs mt-1 ${message.type === 'user' ? 'text-blue-100' : 'text-gray-500'}`}>
-                  {message.timestamp.toLocaleTimeString()}
                 </div>
-              </div>
-            </div>
-          ))
-        )}
-        <div ref={messagesEndRef} />
-      </div>
+              ))
+            )}
+            <div ref={messagesEndRef} />
+          </div>
 
-      {/* Input Area */}
-      <div className="p-4 border-t bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700">
-        {/* Attachments */}
-        {attachments.length > 0 && (
-          <div className="mb-3 p-2 bg-white rounded border">
-            <div className="flex items-center justify-between mb-2">
-              <span className="text-sm font-medium text-gray-700">Attachments:</span>
-              <button
-                onClick={() => setAttachments([])}
-                className="text-xs text-red-500 hover:text-red-700"
-              >
-                Clear all
-              </button>
-            </div>
-            <div className="space-y-1">
-              {attachments.map((file, index) => (
-                <div key={index} className="flex items-center justify-between text-xs">
-                  <div className="flex items-center space-x-2">
-                    <File className="w-3 h-3 text-gray-500" />
-                    <span className="text-gray-700">{file.name}</span>
-                    <span className="text-gray-500">({formatFileSize(file.size)})</span>
-                  </div>
+          {/* Input Area */}
+          <div className="p-4 border-t bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700">
+            {/* Attachments */}
+            {attachments.length > 0 && (
+              <div className="mb-3 p-2 bg-white rounded border">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-gray-700">Attachments:</span>
                   <button
-                    onClick={() => removeAttachment(index)}
-                    className="text-red-500 hover:text-red-700"
+                    onClick={() => setAttachments([])}
+                    className="text-xs text-red-500 hover:text-red-700"
                   >
-                    <X className="w-3 h-3" />
+                    Clear all
                   </button>
                 </div>
-              ))}
-            </div>
-          </div>
-        )}
-
-        {/* Input */}
-        <div className="flex items-end space-x-2">
-          <div className="flex-1 relative">
-            <textarea
-              value={inputValue}
-              onChange={(e) => {
-                console.log('Input changed:', JSON.stringify(e.target.value));
-                setInputValue(e.target.value);
-              }}
-              onKeyPress={handleKeyPress}
-              placeholder="Type your message or use voice input..."
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900 dark:bg-gray-800 dark:text-white dark:border-gray-600"
-              rows={1}
-              disabled={isProcessing}
-            />
-            <input
-              ref={fileInputRef}
-              type="file"
-              multiple
-              onChange={handleFileUpload}
-              className="hidden"
-              accept=".txt,.md,.pdf,.doc,.docx,.jpg,.jpeg,.png,.gif"
-            />
-          </div>
-          
-          {/* Voice Button */}
-          <button
-            onClick={isRecording ? stopRecording : startRecording}
-            disabled={isProcessing}
-            className={`p-2 rounded-lg ${
-              isRecording
-                ? 'bg-red-500 text-white hover:bg-red-600'
-                : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
-            } disabled:opacity-50 disabled:cursor-not-allowed`}
-            title={isRecording ? 'Stop recording' : 'Start voice input'}
-          >
-            {isRecording ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
-          </button>
+                <div className="space-y-1">
+                  {attachments.map((file, index) => (
+                    <div key={index} className="flex items-center justify-between text-xs">
+                      <div className="flex items-center space-x-2">
+                        <File className="w-3 h-3 text-gray-500" />
+                        <span className="text-gray-700">{file.name}</span>
+                        <span className="text-gray-500">({formatFileSize(file.size)})</span>
+                      </div>
+                      <button
+                        onClick={() => removeAttachment(index)}
+                        className="text-red-500 hover:text-red-700"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Input */}
+            <div className="flex items-end space-x-2">
+              <div className="flex-1 relative">
+                <textarea
+                  value={inputValue}
+                  onChange={(e) => {
+                    console.log('Input changed:', JSON.stringify(e.target.value));
+                    setInputValue(e.target.value);
+                  }}
+                  onKeyPress={handleKeyPress}
+                  placeholder="Type your message or use voice input..."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900 dark:bg-gray-800 dark:text-white dark:border-gray-600"
+                  rows={1}
+                  disabled={isProcessing || Boolean(activeThread?.archived_at)}
+                />
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  onChange={handleFileUpload}
+                  className="hidden"
+                  accept=".txt,.md,.pdf,.doc,.docx,.jpg,.jpeg,.png,.gif"
+                />
+              </div>
+              
+              {/* Voice Button */}
+              <button
+                onClick={isRecording ? stopRecording : startRecording}
+                disabled={isProcessing}
+                className={`p-2 rounded-lg ${
+                  isRecording
+                    ? 'bg-red-500 text-white hover:bg-red-600'
+                    : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                } disabled:opacity-50 disabled:cursor-not-allowed`}
+                title={isRecording ? 'Stop recording' : 'Start voice input'}
+              >
+                {isRecording ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+              </button>
 
-          {/* Upload Button */}
-          <button
-            onClick={() => fileInputRef.current?.click()}
-            disabled={isProcessing}
-            className="p-2 bg-gray-200 text-gray-600 rounded-lg hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Upload files"
-          >
-            <Upload className="w-5 h-5" />
-          </button>
+              {/* Upload Button */}
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isProcessing}
+                className="p-2 bg-gray-200 text-gray-600 rounded-lg hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Upload files"
+              >
+                <Upload className="w-5 h-5" />
+              </button>
 
-          {/* Send Button */}
-          <button
-            onClick={sendMessage}
-            disabled={(!inputValue.trim() && attachments.length === 0) || isProcessing}
-            className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Send message"
-          >
-            <Send className="w-5 h-5" />
-          </button>
-        </div>
+              {/* Send Button, or Stop while a reply is streaming */}
+              {isProcessing ? (
+                <button
+                  onClick={stopReply}
+                  className="p-2 bg-red-500 text-white rounded-lg hover:bg-red-600"
+                  title="Stop the reply"
+                  aria-label="Stop the reply"
+                >
+                  <Square className="w-5 h-5" />
+                </button>
+              ) : (
+                <button
+                  onClick={sendMessage}
+                  disabled={!inputValue.trim() && attachments.length === 0}
+                  className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Send message"
+                >
+                  <Send className="w-5 h-5" />
+                </button>
+              )}
+            </div>
 
-        {/* Accessibility Note */}
-        <div className="mt-2 text-xs text-gray-500">
-          💡 Tip: Use voice input for easier communication, or upload files to share context with your AI partner.
+            {/* Accessibility Note */}
+            <div className="mt-2 text-xs text-gray-500">
+              {activeThread?.archived_at
+                ? 'This conversation is archived. Restore it from the list to continue it.'
+                : '💡 Tip: Use voice input for easier communication, or upload files to share context with your AI partner.'}
+            </div>
+          </div>
         </div>
       </div>
     </div>
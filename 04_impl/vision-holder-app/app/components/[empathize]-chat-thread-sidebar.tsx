@@ -0,0 +1,253 @@
+'use client';
+
+// [empathize] Chat Thread Sidebar
+// Conversation threads for the chat: one per topic, optionally about a ledger entry, so each
+// conversation keeps its own history and the AI's context stays on that topic
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Search, Archive, ArchiveRestore, Pencil, Link2 } from 'lucide-react';
+import {
+  aiOrchestratorAPI,
+  systemicLedgerAPI,
+  ChatThreadSummary,
+  GENERAL_THREAD_ID
+} from '../services/[accelerate]-service-integration';
+
+interface ChatThreadSidebarProps {
+  activeThreadId: string;
+  onSelect: (thread: ChatThreadSummary) => void;
+  refreshKey?: number; // bump to reload, e.g. after a message renames a new thread
+  className?: string;
+}
+
+interface LedgerEntryOption {
+  id: string;
+  seek: string;
+  level: string;
+}
+
+const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-dyslexia-friendly focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export const ChatThreadSidebar: React.FC<ChatThreadSidebarProps> = ({
+  activeThreadId,
+  onSelect,
+  refreshKey = 0,
+  className = ''
+}) => {
+  const [threads, setThreads] = useState<ChatThreadSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [entries, setEntries] = useState<LedgerEntryOption[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+  const [newEntryId, setNewEntryId] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [renameTitle, setRenameTitle] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadThreads = useCallback(async () => {
+    try {
+      const result = await aiOrchestratorAPI.listThreads({
+        q: query.trim() || undefined,
+        archived: showArchived ? 'all' : 'false'
+      });
+      setThreads(result.threads);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversations');
+    }
+  }, [query, showArchived]);
+
+  useEffect(() => {
+    const timer = setTimeout(loadThreads, 250);
+    return () => clearTimeout(timer);
+  }, [loadThreads, refreshKey]);
+
+  // Ledger entries a new thread can be about; the chat works without them
+  useEffect(() => {
+    systemicLedgerAPI.get<{ entries: LedgerEntryOption[] }>('/ledger/entries')
+      .then(result => setEntries(result.entries))
+      .catch(err => console.warn('[empathize] Could not load ledger entries for threads:', err));
+  }, []);
+
+  const entryLabel = (entryId: string) => {
+    const entry = entries.find(candidate => candidate.id === entryId);
+    return entry ? `${entry.level}: ${entry.seek}` : entryId;
+  };
+
+  const createThread = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const { thread } = await aiOrchestratorAPI.createThread({
+        ...(newTitle.trim() ? { title: newTitle.trim() } : {}),
+        entry_id: newEntryId || null
+      });
+      setCreating(false);
+      setNewTitle('');
+      setNewEntryId('');
+      onSelect(thread);
+      await loadThreads();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start a conversation');
+    }
+  };
+
+  const rename = async (event: React.FormEvent, id: string) => {
+    event.preventDefault();
+    if (!renameTitle.trim()) return;
+    try {
+      const { thread } = await aiOrchestratorAPI.updateThread(id, { title: renameTitle.trim() });
+      setRenaming(null);
+      if (thread.id === activeThreadId) onSelect(thread);
+      await loadThreads();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename the conversation');
+    }
+  };
+
+  const setArchived = async (thread: ChatThreadSummary, archived: boolean) => {
+    try {
+      const { thread: updated } = await aiOrchestratorAPI.setThreadArchived(thread.id, archived);
+      if (updated.id === activeThreadId) {
+        // Leave an archived conversation for the general one, which is never archived
+        const general = threads.find(candidate => candidate.id === GENERAL_THREAD_ID);
+        onSelect(archived && general ? general : updated);
+      }
+      await loadThreads();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the conversation');
+    }
+  };
+
+  return (
+    <nav aria-label="Conversations" className={`flex flex-col border-r border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 ${className}`}>
+      <div className="p-3 space-y-2 border-b border-gray-200 dark:border-gray-700">
+        <button
+          onClick={() => setCreating(!creating)}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          New conversation
+        </button>
+
+        {creating && (
+          <form onSubmit={createThread} className="space-y-2">
+            <input
+              type="text"
+              aria-label="Conversation title"
+              placeholder="Title (optional)"
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              className={inputClass}
+            />
+            <select
+              aria-label="Ledger entry"
+              value={newEntryId}
+              onChange={(e) => setNewEntryId(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Not about a ledger entry</option>
+              {entries.map(entry => (
+                <option key={entry.id} value={entry.id}>{entry.level}: {entry.seek}</option>
+              ))}
+            </select>
+            <button type="submit" className="w-full px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300">
+              Start
+            </button>
+          </form>
+        )}
+
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+          <input
+            type="text"
+            aria-label="Search conversations"
+            placeholder="Search conversations..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className={`${inputClass} pl-8`}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+          <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+          Show archived
+        </label>
+      </div>
+
+      {error && <p role="alert" className="p-3 text-xs text-red-600">{error}</p>}
+
+      <ul className="flex-1 overflow-y-auto">
+        {threads.map(thread => (
+          <li
+            key={thread.id}
+            className={`group border-b border-gray-100 dark:border-gray-800 ${thread.id === activeThreadId ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+          >
+            {renaming === thread.id ? (
+              <form onSubmit={(e) => rename(e, thread.id)} className="p-2">
+                <input
+                  type="text"
+                  aria-label="New title"
+                  value={renameTitle}
+                  onChange={(e) => setRenameTitle(e.target.value)}
+                  onBlur={() => setRenaming(null)}
+                  onKeyDown={(e) => e.key === 'Escape' && setRenaming(null)}
+                  autoFocus
+                  className={inputClass}
+                />
+              </form>
+            ) : (
+              <div className="flex items-start gap-1 p-2">
+                <button
+                  onClick={() => onSelect(thread)}
+                  aria-current={thread.id === activeThreadId ? 'true' : undefined}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <p className={`text-sm font-medium truncate text-dyslexia-friendly ${thread.archived_at ? 'text-gray-400' : 'text-gray-900 dark:text-white'}`}>
+                    {thread.title}
+                  </p>
+                  {thread.entry_id && (
+                    <p className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 truncate">
+                      <Link2 className="w-3 h-3 flex-shrink-0" aria-hidden="true" />
+                      {entryLabel(thread.entry_id)}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 truncate">
+                    {thread.match ?? thread.last_message ?? 'No messages yet'}
+                  </p>
+                </button>
+                <div className="flex flex-col opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                  <button
+                    onClick={() => {
+                      setRenaming(thread.id);
+                      setRenameTitle(thread.title);
+                    }}
+                    className="p-1 text-gray-400 hover:text-gray-700"
+                    title="Rename"
+                    aria-label={`Rename ${thread.title}`}
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  {thread.id !== GENERAL_THREAD_ID && (
+                    <button
+                      onClick={() => setArchived(thread, !thread.archived_at)}
+                      className="p-1 text-gray-400 hover:text-gray-700"
+                      title={thread.archived_at ? 'Restore' : 'Archive'}
+                      aria-label={`${thread.archived_at ? 'Restore' : 'Archive'} ${thread.title}`}
+                    >
+                      {thread.archived_at ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+        {threads.length === 0 && !error && (
+          <li className="p-3 text-xs text-gray-500">{query ? 'No conversations match.' : 'No conversations yet.'}</li>
+        )}
+      </ul>
+    </nav>
+  );
+};
+
+export default ChatThreadSidebar;
@@ -0,0 +1,64 @@
+'use client';
+
+// [empathize] Context Budget Report
+// What the AI saw when it replied: which parts of the ledger, earlier messages, knowledge base
+// and wisdom fit in its context, which were cut short and which were left out
+
+import React from 'react';
+import { ContextBudgetReport, ContextBudgetItem } from '../services/[accelerate]-service-integration';
+
+interface ContextBudgetReportProps {
+  report: ContextBudgetReport;
+  className?: string;
+}
+
+const KIND_LABELS: Record<ContextBudgetItem['kind'], string> = {
+  message: 'Message',
+  task: 'Task',
+  ledger: 'Ledger',
+  knowledge: 'Knowledge base',
+  history: 'Earlier message',
+  wisdom: 'Insight'
+};
+
+const STATUS_STYLES: Record<ContextBudgetItem['status'], string> = {
+  included: 'text-green-700 dark:text-green-400',
+  trimmed: 'text-yellow-700 dark:text-yellow-400',
+  dropped: 'text-gray-400 line-through'
+};
+
+const describeTokens = (item: ContextBudgetItem): string => {
+  switch (item.status) {
+    case 'included':
+      return `${item.tokens} tokens`;
+    case 'trimmed':
+      return `${item.tokens} of ${item.original_tokens} tokens`;
+    case 'dropped':
+      return `left out (${item.original_tokens} tokens)`;
+  }
+};
+
+export const ContextBudgetReportDetails: React.FC<ContextBudgetReportProps> = ({ report, className = '' }) => (
+  <details className={`text-xs text-gray-600 dark:text-gray-400 ${className}`}>
+    <summary className="cursor-pointer select-none hover:text-gray-900 dark:hover:text-white">
+      What the AI saw: {report.used} of {report.budget} tokens
+      {report.trimmed > 0 && `, ${report.trimmed} trimmed`}
+      {report.dropped > 0 && `, ${report.dropped} left out`}
+    </summary>
+    <p className="mt-1 text-gray-500">
+      Most important first, counted for {report.provider} ({report.model}).
+    </p>
+    <ul className="mt-1 space-y-0.5">
+      {report.items.map(item => (
+        <li key={`${item.kind}-${item.id}`} className="flex justify-between gap-2">
+          <span className={`truncate ${STATUS_STYLES[item.status]}`} title={item.label}>
+            <span className="font-medium">{KIND_LABELS[item.kind]}:</span> {item.label}
+          </span>
+          <span className="flex-shrink-0 text-gray-500">{describeTokens(item)}</span>
+        </li>
+      ))}
+    </ul>
+  </details>
+);
+
+export default ContextBudgetReportDetails;
@@ -0,0 +1,196 @@
+'use client';
+
+// [empathize] Probe Timeboxes
+// Probes that overran their timebox, with a quick way to record what they showed
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlarmClock, Hourglass } from 'lucide-react';
+import {
+  systemicLedgerAPI,
+  useLedgerChanges,
+  ProbeTimebox
+} from '../services/[accelerate]-service-integration';
+import type { ProbeOutcomeInput } from '../services/[safeguard]-ledger-schemas';
+
+interface ProbeTimeboxesProps {
+  // Ids of the probes that overran, e.g. to mark them in the roadmap
+  onExpiredChange?: (ids: Set<string>) => void;
+  // Also list running probes with the time they have left
+  showRunning?: boolean;
+}
+
+const RESULTS: Array<{ value: ProbeOutcomeInput['result']; label: string; closes: string }> = [
+  { value: 'confirmed', label: 'Confirmed', closes: 'integrated' },
+  { value: 'refuted', label: 'Refuted', closes: 'archived' },
+  { value: 'inconclusive', label: 'Inconclusive', closes: 'dormant' }
+];
+
+const HOUR = 60 * 60 * 1000;
+
+const formatDuration = (ms: number) => {
+  const hours = Math.max(1, Math.round(Math.abs(ms) / HOUR));
+  return hours >= 48 ? `${Math.round(hours / 24)} days` : `${hours}h`;
+};
+
+const probeTitle = (probe: ProbeTimebox) =>
+  probe.entry?.content?.title || probe.entry?.seek || 'Untitled probe';
+
+export const ProbeTimeboxes: React.FC<ProbeTimeboxesProps> = ({ onExpiredChange, showRunning = false }) => {
+  const [probes, setProbes] = useState<ProbeTimebox[]>([]);
+  const [closing, setClosing] = useState<string | null>(null);
+  const [result, setResult] = useState<ProbeOutcomeInput['result']>('confirmed');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProbes = useCallback(() => {
+    systemicLedgerAPI.getProbes()
+      .then(response => setProbes(response.probes))
+      .catch(err => console.warn('Could not load probe timeboxes:', err));
+  }, []);
+
+  useEffect(() => {
+    loadProbes();
+    return systemicLedgerAPI.onProbeExpired(loadProbes);
+  }, [loadProbes]);
+
+  // A probe that started, closed or got a new deadline changes its timebox
+  useLedgerChanges(change => {
+    if (change.entry?.level === 'probe') loadProbes();
+  });
+
+  const expired = probes.filter(probe => probe.state === 'expired');
+  const running = probes.filter(probe => probe.state === 'running');
+
+  useEffect(() => {
+    onExpiredChange?.(new Set(expired.map(probe => probe.entry.id)));
+  }, [probes]);
+
+  const recordOutcome = async (event: React.FormEvent, id: string) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await systemicLedgerAPI.recordProbeOutcome(id, notes.trim() ? { result, notes: notes.trim() } : { result });
+      setClosing(null);
+      setNotes('');
+      loadProbes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record the outcome');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (expired.length === 0 && (!showRunning || running.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {expired.length > 0 && (
+        <div className="p-4 border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
+          <h3 className="flex items-center gap-2 font-semibold text-amber-900 dark:text-amber-200 mb-2 text-dyslexia-friendly">
+            <AlarmClock className="w-4 h-4" />
+            {expired.length === 1 ? '1 probe overran its timebox' : `${expired.length} probes overran their timebox`}
+          </h3>
+          <ul className="space-y-3">
+            {expired.map(probe => (
+              <li key={probe.entry.id} className="text-sm text-dyslexia-friendly">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <span className="font-medium text-gray-900 dark:text-white">{probeTitle(probe)}</span>
+                    <span className="ml-2 text-amber-800 dark:text-amber-300">
+                      {formatDuration(probe.remaining_ms ?? 0)} over
+                    </span>
+                    {probe.entry.content?.hypothesis && (
+                      <p className="text-gray-600 dark:text-gray-400">Hypothesis: {probe.entry.content.hypothesis}</p>
+                    )}
+                  </div>
+                  {closing !== probe.entry.id && (
+                    <button
+                      onClick={() => {
+                        setClosing(probe.entry.id);
+                        setError(null);
+                      }}
+                      className="px-3 py-1 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors whitespace-nowrap"
+                    >
+                      Record outcome
+                    </button>
+                  )}
+                </div>
+
+                {closing === probe.entry.id && (
+                  <form onSubmit={(e) => recordOutcome(e, probe.entry.id)} className="mt-2 space-y-2">
+                    <fieldset className="flex flex-wrap gap-3">
+                      <legend className="sr-only">What did the probe show?</legend>
+                      {RESULTS.map(option => (
+                        <label key={option.value} className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                          <input
+                            type="radio"
+                            name={`outcome-${probe.entry.id}`}
+                            value={option.value}
+                            checked={result === option.value}
+                            onChange={() => setResult(option.value)}
+                          />
+                          {option.label}
+                          <span className="text-xs text-gray-500 dark:text-gray-400">({option.closes})</span>
+                        </label>
+                      ))}
+                    </fieldset>
+                    <label htmlFor={`outcome-notes-${probe.entry.id}`} className="sr-only">What was learned</label>
+                    <textarea
+                      id={`outcome-notes-${probe.entry.id}`}
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      rows={2}
+                      placeholder="What was learned (optional)"
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-dyslexia-friendly"
+                    />
+                    {error && (
+                      <p role="alert" className="text-red-600 dark:text-red-400">{error}</p>
+                    )}
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setClosing(null)}
+                        className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={saving}
+                        className="px-3 py-1 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50"
+                      >
+                        {saving ? 'Saving...' : 'Close probe'}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {showRunning && running.length > 0 && (
+        <ul className="space-y-1 text-sm text-dyslexia-friendly" aria-label="Running probes">
+          {running.map(probe => (
+            <li key={probe.entry.id} className="flex items-center justify-between gap-4">
+              <span className="flex items-center gap-2 text-gray-900 dark:text-white">
+                <Hourglass className="w-4 h-4 text-gray-500 dark:text-gray-400" aria-hidden="true" />
+                {probeTitle(probe)}
+              </span>
+              <span className="text-gray-500 dark:text-gray-400">
+                {probe.remaining_ms === null ? 'no timebox' : `${formatDuration(probe.remaining_ms)} left`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProbeTimeboxes;
@@ -22,6 +22,8 @@ import {
   Brain,
   Trophy
 } from 'lucide-react';
+import { systemicLedgerAPI, useLedgerChanges } from '../services/[accelerate]-service-integration';
+import { ProbeTimeboxes } from './[empathize]-probe-timeboxes';
 
 interface ProjectMetrics {
   completion: number;
@@ -51,6 +53,13 @@ interface ProgressItem {
   assignee: 'user' | 'ai' | 'both';
 }
 
+// The ledger fields the dashboard needs to count goals
+interface LedgerProgressEntry {
+  id: string;
+  level: 'mission' | 'pillar' | 'epic' | 'saga' | 'probe';
+  status: 'proposed' | 'active' | 'blocked' | 'integrated' | 'archived' | 'dormant';
+}
+
 interface ProjectDashboardProps {
   className?: string;
 }
@@ -131,6 +140,35 @@ export const ProjectDashboard: React.FC<ProjectDashboardProps> = ({ className =
   ]);
 
   const [activeView, setActiveView] = useState<'overview' | 'detailed' | 'timeline'>('overview');
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerProgressEntry[]>([]);
+
+  // Goals come from the Systemic Ledger and stay current through its live feed
+  useEffect(() => {
+    systemicLedgerAPI.get<{ entries: LedgerProgressEntry[] }>('/ledger/entries')
+      .then(response => setLedgerEntries(response.entries || []))
+      .catch(error => console.warn('Could not load ledger goals, showing saved metrics:', error));
+  }, []);
+
+  const { live } = useLedgerChanges<LedgerProgressEntry>(change => {
+    setLedgerEntries(prev => prev.some(entry => entry.id === change.entry.id)
+      ? prev.map(entry => entry.id === change.entry.id ? change.entry : entry)
+      : [...prev, change.entry]
+    );
+  });
+
+  useEffect(() => {
+    const work = ledgerEntries.filter(entry =>
+      ['epic', 'saga', 'probe'].includes(entry.level) && entry.status !== 'archived'
+    );
+    if (work.length === 0) return;
+
+    const completed = work.filter(entry => entry.status === 'integrated').length;
+    setMetrics(prev => ({
+      ...prev,
+      completion: Math.round((completed / work.length) * 100),
+      goals: { completed, total: work.length }
+    }));
+  }, [ledgerEntries]);
 
   const getCategoryColor = (category: string) => {
     switch (category) {
@@ -236,7 +274,7 @@ export const ProjectDashboard: React.FC<ProjectDashboardProps> = ({ className =
           <div className="bg-gradient-to-r from-green-500 to-green-600 p-4 rounded-lg text-white">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-green-100 text-sm">Goals Complete</p>
+                <p className="text-green-100 text-sm">Goals Complete{live ? ' · Live' : ''}</p>
                 <p className="text-2xl font-bold">{metrics.goals.completed}/{metrics.goals.total}</p>
               </div>
               <Trophy className="w-8 h-8 text-green-200" />
@@ -267,6 +305,11 @@ export const ProjectDashboard: React.FC<ProjectDashboardProps> = ({ className =
 
       {/* Content */}
       <div className="flex-1 overflow-auto p-6">
+        {/* Open experiments: overrun probes first, so none is forgotten */}
+        <div className="mb-6 empty:hidden">
+          <ProbeTimeboxes showRunning />
+        </div>
+
         {activeView === 'overview' && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Progress Overview */}
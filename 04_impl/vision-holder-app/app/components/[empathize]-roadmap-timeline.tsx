@@ -0,0 +1,186 @@
+'use client';
+
+// [empathize] Roadmap Timeline
+// Scrub or replay the roadmap's history, and compare two dates for retrospectives
+
+import React, { useState, useEffect } from 'react';
+import { Play, Pause, RotateCcw, GitCompare } from 'lucide-react';
+import {
+  systemicLedgerAPI,
+  LedgerTimelineMoment,
+  LedgerComparison,
+  LedgerEntry
+} from '../services/[accelerate]-service-integration';
+
+const STATUSES = ['proposed', 'active', 'blocked', 'integrated', 'archived', 'dormant'];
+
+// Pause between steps while replaying
+const REPLAY_INTERVAL = 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+interface RoadmapTimelineProps {
+  // null while showing the present
+  onAsOfChange: (asOf: string | null) => void;
+}
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const describeMoment = (moment: LedgerTimelineMoment) =>
+  moment.type === 'entry_created'
+    ? `${moment.title} added as ${moment.to}`
+    : `${moment.title}: ${moment.from} → ${moment.to}`;
+
+const entryTitle = (entry: LedgerEntry): string =>
+  entry.content['title'] || entry.content['statement'] || entry.seek || 'Untitled entry';
+
+export const RoadmapTimeline: React.FC<RoadmapTimelineProps> = ({ onAsOfChange }) => {
+  const [moments, setMoments] = useState<LedgerTimelineMoment[]>([]);
+  // Index of the last moment shown; moments.length means now
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [compareFrom, setCompareFrom] = useState(toDateInput(new Date(Date.now() - 7 * DAY)));
+  const [compareTo, setCompareTo] = useState(toDateInput(new Date()));
+  const [compareStatus, setCompareStatus] = useState('integrated');
+  const [comparison, setComparison] = useState<LedgerComparison<LedgerEntry> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    systemicLedgerAPI.getTimeline()
+      .then(loaded => {
+        setMoments(loaded);
+        setPosition(loaded.length);
+      })
+      .catch(err => {
+        console.error('Failed to load roadmap timeline:', err);
+        setError('Failed to load the roadmap history.');
+      });
+  }, []);
+
+  const isNow = position >= moments.length;
+  const current = isNow ? null : moments[position];
+
+  useEffect(() => {
+    onAsOfChange(current ? current.timestamp : null);
+  }, [current?.event_id]);
+
+  // Replay: step forward through the moments until the present
+  useEffect(() => {
+    if (!playing) return;
+    if (isNow) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setPosition(prev => prev + 1), REPLAY_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [playing, position, moments.length]);
+
+  const togglePlay = () => {
+    if (!playing && isNow) {
+      setPosition(0);
+    }
+    setPlaying(!playing);
+  };
+
+  const runComparison = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    try {
+      // Whole days in local time: from the start of the first to the end of the last
+      const from = new Date(`${compareFrom}T00:00:00`).toISOString();
+      const to = new Date(new Date(`${compareTo}T00:00:00`).getTime() + DAY - 1).toISOString();
+      setComparison(await systemicLedgerAPI.compareRoadmap<LedgerEntry>(from, to, compareStatus ? [compareStatus] : []));
+    } catch (err) {
+      console.error('Failed to compare roadmap dates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to compare the two dates.');
+    }
+  };
+
+  const controlClass = 'px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-dyslexia-friendly';
+
+  return (
+    <div className="mt-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlay}
+          disabled={moments.length === 0}
+          className="p-1 text-gray-600 hover:text-primary-600 dark:text-gray-300 dark:hover:text-primary-400 disabled:opacity-50"
+          title={playing ? 'Pause replay' : 'Replay status changes'}
+        >
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <label htmlFor="roadmap-timeline" className="sr-only">Roadmap moment</label>
+        <input
+          id="roadmap-timeline"
+          type="range"
+          min={0}
+          max={moments.length}
+          value={Math.min(position, moments.length)}
+          onChange={(e) => {
+            setPlaying(false);
+            setPosition(Number(e.target.value));
+          }}
+          className="flex-1"
+        />
+        <button
+          onClick={() => {
+            setPlaying(false);
+            setPosition(moments.length);
+          }}
+          disabled={isNow}
+          className="flex items-center gap-1 px-2 py-1 text-sm text-gray-600 hover:text-primary-600 dark:text-gray-300 disabled:opacity-50 text-dyslexia-friendly"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Now
+        </button>
+      </div>
+
+      <p role="status" aria-live="polite" className="text-sm text-gray-600 dark:text-gray-400 text-dyslexia-friendly">
+        {current
+          ? `${new Date(current.timestamp).toLocaleString()} · ${describeMoment(current)} (step ${position + 1} of ${moments.length})`
+          : `Now · ${moments.length} changes recorded`}
+      </p>
+
+      <form onSubmit={runComparison} className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300 text-dyslexia-friendly">
+        <GitCompare className="w-4 h-4 text-gray-500 dark:text-gray-400" aria-hidden="true" />
+        <span>What moved to</span>
+        <select value={compareStatus} onChange={(e) => setCompareStatus(e.target.value)} aria-label="Status reached" className={controlClass}>
+          <option value="">any status</option>
+          {STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+        </select>
+        <span>between</span>
+        <input type="date" value={compareFrom} onChange={(e) => setCompareFrom(e.target.value)} aria-label="From date" className={controlClass} />
+        <span>and</span>
+        <input type="date" value={compareTo} onChange={(e) => setCompareTo(e.target.value)} aria-label="To date" className={controlClass} />
+        <button
+          type="submit"
+          className="px-3 py-1 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+        >
+          Compare
+        </button>
+      </form>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400 text-dyslexia-friendly">{error}</p>
+      )}
+
+      {comparison && (
+        comparison.moves.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-dyslexia-friendly">Nothing moved in that period.</p>
+        ) : (
+          <ul className="space-y-1 text-sm text-dyslexia-friendly" aria-label="Entries that moved">
+            {comparison.moves.map(move => (
+              <li key={move.entry.id} className="flex items-center justify-between gap-4">
+                <span className="text-gray-900 dark:text-white">{entryTitle(move.entry)}</span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {move.from ?? 'new'} → {move.transitions.map(moment => moment.to).join(' → ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
+
+export default RoadmapTimeline;
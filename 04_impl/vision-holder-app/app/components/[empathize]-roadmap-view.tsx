@@ -19,9 +19,25 @@ import {
   Filter,
   SortAsc,
   Eye,
-  EyeOff
+  EyeOff,
+  GitBranch,
+  Layers,
+  History
 } from 'lucide-react';
-import { systemicLedgerAPI } from '../services/[accelerate]-service-integration';
+import {
+  systemicLedgerAPI,
+  localLedger,
+  useLedgerChanges,
+  useLedgerSync,
+  isServiceUnavailable,
+  LedgerQueryResult,
+  LedgerSyncState,
+  ServiceError
+} from '../services/[accelerate]-service-integration';
+import type { LedgerAmendment } from '../services/[safeguard]-ledger-schemas';
+import { EntryAmendModal } from './[clarify]-entry-amend-modal';
+import { RoadmapTimeline } from './[empathize]-roadmap-timeline';
+import { ProbeTimeboxes } from './[empathize]-probe-timeboxes';
 
 // Types from Systemic Ledger API
 export interface LedgerEntry {
@@ -33,8 +49,43 @@ export interface LedgerEntry {
   why: string;
   content: Record<string, any>;
   status: 'proposed' | 'active' | 'blocked' | 'integrated' | 'archived' | 'dormant';
+  parent_id?: string | null;
 }
 
+// Nested roadmap node from GET /ledger/tree
+export interface LedgerTreeNode {
+  entry: LedgerEntry;
+  children: LedgerTreeNode[];
+  rollup: {
+    progress: number;
+    descendant_count: number;
+    status_counts: Record<LedgerEntry['status'], number>;
+  };
+}
+
+// Entries fetched per page and the pause after typing before searching
+const PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE = 300;
+
+// Sync indicator for the local ledger's offline queue
+const SYNC_DOT: Record<LedgerSyncState['status'], string> = {
+  synced: 'bg-green-500',
+  pending: 'bg-yellow-500',
+  syncing: 'bg-blue-500 animate-pulse',
+  offline: 'bg-gray-400',
+  error: 'bg-red-500'
+};
+
+const syncLabel = (status: LedgerSyncState['status'], pending: number): string => {
+  switch (status) {
+    case 'synced': return 'Synced';
+    case 'syncing': return 'Syncing…';
+    case 'error': return 'Sync failed';
+    case 'offline': return pending > 0 ? `${pending} change${pending === 1 ? '' : 's'} waiting to sync` : 'Working offline';
+    default: return `${pending} unsynced change${pending === 1 ? '' : 's'}`;
+  }
+};
+
 interface RoadmapViewProps {
   className?: string;
   onEntrySelect?: (entry: LedgerEntry) => void;
@@ -53,109 +104,158 @@ export const RoadmapView: React.FC<RoadmapViewProps> = ({
   const [showEditModal, setShowEditModal] = useState(false);
   const [filterLevel, setFilterLevel] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState<'timestamp' | 'level' | 'status'>('timestamp');
-
-  // Load entries from API
-  useEffect(() => {
-    loadEntries();
-  }, []);
-
-  // Filter and sort entries with null safety
-  const filteredEntries = (entries || [])
-    .filter(entry => filterLevel === 'all' || entry.level === filterLevel)
-    .filter(entry => 
-      searchTerm === '' || 
-      entry.seek.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      entry.why.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      entry.content.statement?.toLowerCase().includes(searchTerm.toLowerCase())
-    )
-    .sort((a, b) => {
-      switch (sortBy) {
-        case 'timestamp':
-          return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
-        case 'level':
-          const levelOrder = { mission: 0, pillar: 1, epic: 2, saga: 3, probe: 4 };
-          return levelOrder[a.level] - levelOrder[b.level];
-        case 'status':
-          const statusOrder = { active: 0, proposed: 1, blocked: 2, integrated: 3, archived: 4, dormant: 5 };
-          return statusOrder[a.status] - statusOrder[b.status];
-        default:
-          return 0;
-      }
-    });
+  const [sortBy, setSortBy] = useState<'timestamp' | 'level' | 'status' | 'relevance'>('timestamp');
+  const [viewMode, setViewMode] = useState<'levels' | 'tree'>('levels');
+  const [tree, setTree] = useState<LedgerTreeNode[]>([]);
+  const [collapsedNodes, setCollapsedNodes] = useState<Set<string>>(new Set());
 
-  // Lazy loading state
-  const [visibleItems, setVisibleItems] = useState(20);
+  const [facets, setFacets] = useState<LedgerQueryResult['facets'] | null>(null);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [usingLocalCopy, setUsingLocalCopy] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  // Moment picked on the timeline; null shows the present
+  const [asOf, setAsOf] = useState<string | null>(null);
+  // Probes that overran their timebox (GET /ledger/probes)
+  const [expiredProbes, setExpiredProbes] = useState<Set<string>>(new Set());
   const observerRef = useRef<IntersectionObserver>();
 
-  // Lazy loading for roadmap entries
-  const loadMoreItems = useCallback(async () => {
-    if (isLoadingMore) return;
-    
-    setIsLoadingMore(true);
-    // Simulate loading delay for better UX
-    await new Promise(resolve => setTimeout(resolve, 200));
-    
-    setVisibleItems(prev => prev + 20);
-    setIsLoadingMore(false);
-  }, [isLoadingMore]);
+  // Query the ledger again when filters change (debounced while typing)
+  useEffect(() => {
+    const timer = setTimeout(() => loadEntries(), searchTerm ? SEARCH_DEBOUNCE : 0);
+    return () => clearTimeout(timer);
+  }, [filterLevel, searchTerm, sortBy, asOf]);
+
+  // Apply live changes from the ledger stream (not while looking at the past)
+  const { live } = useLedgerChanges<LedgerEntry>(change => {
+    if (asOf) return;
+    if (!(entries || []).some(entry => entry.id === change.entry.id)) {
+      // New entries may or may not match the current search, so ask the server
+      loadEntries();
+      return;
+    }
+    setEntries(prev => (prev || []).map(entry => entry.id === change.entry.id ? change.entry : entry));
+    setSelectedEntry(prev => prev && prev.id === change.entry.id ? change.entry : prev);
+  });
+
+  // Offline queue for changes made while the Ledger API is down
+  const sync = useLedgerSync();
+
+  // Back on the server's copy once the queue has been replayed
+  useEffect(() => {
+    if (usingLocalCopy && sync.status === 'synced') {
+      loadEntries();
+    }
+  }, [sync.last_synced_at]);
+
+  // Load the nested roadmap when switching to tree view
+  useEffect(() => {
+    if (viewMode === 'tree') {
+      loadTree();
+    }
+  }, [viewMode, entries, asOf]);
 
-  // Intersection Observer for infinite scroll
+  // The server already filtered and sorted; relevance without a search falls back to date
+  const filteredEntries = entries || [];
+  const querySort = sortBy === 'relevance' && searchTerm.trim() === '' ? 'timestamp' : sortBy;
+  const isFiltering = searchTerm.trim() !== '' || filterLevel !== 'all';
+
+  // Infinite scroll: fetch the next page when the last entry scrolls into view
   const lastItemRef = useCallback((node: HTMLDivElement) => {
     if (isLoadingMore) return;
     
     if (observerRef.current) observerRef.current.disconnect();
     
     observerRef.current = new IntersectionObserver(entries => {
-      if (entries[0].isIntersecting && visibleItems < filteredEntries.length) {
-        loadMoreItems();
+      if (entries[0].isIntersecting && nextCursor) {
+        loadEntries(nextCursor);
       }
     }, { threshold: 0.1 });
     
     if (node) observerRef.current.observe(node);
-  }, [isLoadingMore, visibleItems, filteredEntries.length, loadMoreItems]);
+  }, [isLoadingMore, nextCursor]);
 
-  const loadEntries = async () => {
+  const loadEntries = async (cursor?: string) => {
     try {
-      setLoading(true);
+      if (cursor) {
+        setIsLoadingMore(true);
+      }
       setError(null);
       
-      const response = await systemicLedgerAPI.get<{ data: LedgerEntry[] }>('/ledger/entries');
-      setEntries(response.data);
+      const query = {
+        q: searchTerm.trim(),
+        level: filterLevel === 'all' ? undefined : filterLevel as LedgerEntry['level'],
+        sort: querySort,
+        limit: PAGE_SIZE,
+        cursor
+      };
+      let response: LedgerQueryResult<LedgerEntry>;
+      try {
+        response = await systemicLedgerAPI.queryEntries<LedgerEntry>({ ...query, as_of: asOf ?? undefined });
+        setUsingLocalCopy(false);
+      } catch (err) {
+        // The browser's copy only knows the present
+        if (!isServiceUnavailable(err) || asOf) throw err;
+        // Ledger API unreachable: show the browser's copy, which supports the same query
+        response = localLedger.queryEntries(query);
+        setUsingLocalCopy(true);
+      }
+      setEntries(prev => cursor ? [...(prev || []), ...response.entries] : response.entries);
+      setTotal(response.total);
+      setFacets(response.facets);
+      setNextCursor(response.next_cursor);
     } catch (err) {
       console.error('Failed to load entries:', err);
       setError('Failed to load roadmap data. Please check your connection.');
     } finally {
       setLoading(false);
+      setIsLoadingMore(false);
+    }
+  };
+
+  const loadTree = async () => {
+    try {
+      const query = asOf ? `?as_of=${encodeURIComponent(asOf)}` : '';
+      const response = await systemicLedgerAPI.get<{ tree: LedgerTreeNode[] }>(`/ledger/tree${query}`);
+      setTree(response.tree || []);
+    } catch (err) {
+      console.error('Failed to load roadmap tree:', err);
+      setError('Failed to load roadmap tree. Please check your connection.');
     }
   };
 
   // Create new entry
   const createEntry = async (entryData: Omit<LedgerEntry, 'id' | 'timestamp'>) => {
     try {
-      const newEntry = await systemicLedgerAPI.post<{ data: LedgerEntry }>('/ledger/entries', entryData);
-      setEntries(prev => [...prev, newEntry.data]);
+      let newEntry: LedgerEntry;
+      try {
+        newEntry = await systemicLedgerAPI.createEntry<LedgerEntry>(entryData);
+      } catch (err) {
+        if (!isServiceUnavailable(err)) throw err;
+        // Save locally; the sync queue sends it once the Ledger API is back
+        newEntry = localLedger.addEntry(entryData);
+      }
+      setEntries(prev => [...prev, newEntry]);
       setShowCreateModal(false);
     } catch (err) {
       console.error('Failed to create entry:', err);
-      setError('Failed to create entry. Please try again.');
+      setError(err instanceof ServiceError && err.fields
+        ? err.message
+        : 'Failed to create entry. Please try again.');
     }
   };
 
-  // Update entry
-  const updateEntry = async (id: string, updates: Partial<LedgerEntry>) => {
-    try {
-      const updatedEntry = await systemicLedgerAPI.put<{ data: LedgerEntry }>(`/ledger/entries/${id}`, updates);
-      setEntries(prev => prev.map(entry => 
-        entry.id === id ? updatedEntry.data : entry
-      ));
-      setShowEditModal(false);
-      setSelectedEntry(null);
-    } catch (err) {
-      console.error('Failed to update entry:', err);
-      setError('Failed to update entry. Please try again.');
-    }
+  // Amend seek, why or content; the ledger keeps the earlier values as revisions.
+  // Errors are shown in the modal, which stays open.
+  const updateEntry = async (id: string, amendment: LedgerAmendment) => {
+    const { entry: updatedEntry } = await systemicLedgerAPI.amendEntry<LedgerEntry>(id, amendment);
+    setEntries(prev => prev.map(entry =>
+      entry.id === id ? updatedEntry : entry
+    ));
+    setShowEditModal(false);
+    setSelectedEntry(null);
   };
 
   // Delete entry
@@ -185,6 +285,17 @@ export const RoadmapView: React.FC<RoadmapViewProps> = ({
     setExpandedLevels(newExpanded);
   };
 
+  // Toggle a tree node open or closed
+  const toggleNode = (id: string) => {
+    const newCollapsed = new Set(collapsedNodes);
+    if (newCollapsed.has(id)) {
+      newCollapsed.delete(id);
+    } else {
+      newCollapsed.add(id);
+    }
+    setCollapsedNodes(newCollapsed);
+  };
+
   // Group entries by level with null safety
   const groupedEntries = filteredEntries.reduce((acc, entry) => {
     if (!acc[entry.level]) {
@@ -232,6 +343,80 @@ export const RoadmapView: React.FC<RoadmapViewProps> = ({
     }
   };
 
+  // Past views show statuses as they were, so only the present marks overrun probes
+  const renderOverranBadge = (entry: LedgerEntry) =>
+    !asOf && expiredProbes.has(entry.id) ? (
+      <span className="px-2 py-1 text-xs rounded border text-amber-700 bg-amber-50 border-amber-200 dark:text-amber-300 dark:bg-amber-900/30 dark:border-amber-700">
+        timebox over
+      </span>
+    ) : null;
+
+  // Render one node of the nested roadmap with its progress rollup
+  const renderTreeNode = (node: LedgerTreeNode, depth: number): React.ReactNode => {
+    const { entry, children, rollup } = node;
+    const isCollapsed = collapsedNodes.has(entry.id);
+    const progressPercent = Math.round(rollup.progress * 100);
+
+    return (
+      <div key={entry.id} style={{ marginLeft: depth * 24 }} className="mt-2">
+        <div
+          className={`flex items-center gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+            selectedEntry?.id === entry.id
+              ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+              : 'border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+          }`}
+          onClick={() => {
+            setSelectedEntry(entry);
+            onEntrySelect?.(entry);
+          }}
+        >
+          {children.length > 0 ? (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleNode(entry.id);
+              }}
+              aria-label={isCollapsed ? 'Expand' : 'Collapse'}
+              aria-expanded={!isCollapsed}
+              className="text-gray-500 dark:text-gray-400"
+            >
+              {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+          ) : (
+            <span className="w-4" />
+          )}
+          {getLevelIcon(entry.level)}
+          <span className={`px-2 py-1 text-xs text-white rounded ${getPurposeTagColor(entry.purpose_tag)}`}>
+            {entry.purpose_tag}
+          </span>
+          <span className="flex-1 font-medium text-gray-900 dark:text-white text-dyslexia-friendly">
+            {entry.content.title || entry.content.statement || entry.seek}
+          </span>
+          <span className={`px-2 py-1 text-xs rounded border ${getStatusColor(entry.status)}`}>
+            {entry.status}
+          </span>
+          {renderOverranBadge(entry)}
+          {children.length > 0 && (
+            <div className="flex items-center gap-2 w-40" title={`${rollup.descendant_count} items below`}>
+              <div
+                className="flex-1 h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden"
+                role="progressbar"
+                aria-valuenow={progressPercent}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-label={`${progressPercent}% integrated`}
+              >
+                <div className="h-full bg-green-500" style={{ width: `${progressPercent}%` }} />
+              </div>
+              <span className="text-xs text-gray-600 dark:text-gray-400">{progressPercent}%</span>
+            </div>
+          )}
+        </div>
+        {!isCollapsed && children.map(child => renderTreeNode(child, depth + 1))}
+      </div>
+    );
+  };
+
   if (loading) {
     return (
       <div className={`flex items-center justify-center h-full ${className}`}>
@@ -251,7 +436,7 @@ export const RoadmapView: React.FC<RoadmapViewProps> = ({
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2 text-dyslexia-friendly">Connection Error</h3>
           <p className="text-gray-600 dark:text-gray-400 mb-4 text-dyslexia-friendly">{error}</p>
           <button
-            onClick={loadEntries}
+            onClick={() => loadEntries()}
             className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors text-dyslexia-friendly"
           >
             Retry Connection
@@ -266,7 +451,35 @@ export const RoadmapView: React.FC<RoadmapViewProps> = ({
       {/* Header */}
       <div className="p-6 border-b border-gray-200 dark:border-gray-700">
         <div className="flex items-center justify-between mb-4">
-          <h1 className="text-2xl font-bold text-gray-900 dark:text-white text-dyslexia-friendly">Vision Roadmap</h1>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white text-dyslexia-friendly">Vision Roadmap</h1>
+            <span
+              role="status"
+              aria-live="polite"
+              className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 text-dyslexia-friendly"
+            >
+              <span className={`w-2 h-2 rounded-full ${live ? 'bg-green-500' : 'bg-gray-400'}`} aria-hidden="true" />
+              {live ? 'Live' : 'Offline'}
+            </span>
+            <span
+              role="status"
+              aria-live="polite"
+              title={sync.last_error || (sync.last_synced_at ? `Last synced ${new Date(sync.last_synced_at).toLocaleString()}` : 'Not synced yet')}
+              className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 text-dyslexia-friendly"
+            >
+              <span className={`w-2 h-2 rounded-full ${SYNC_DOT[sync.status]}`} aria-hidden="true" />
+              {syncLabel(sync.status, sync.pending)}
+            </span>
+            {sync.conflicts.length > 0 && (
+              <button
+                onClick={() => setShowConflicts(!showConflicts)}
+                className="text-xs text-red-600 dark:text-red-400 underline text-dyslexia-friendly"
+                aria-expanded={showConflicts}
+              >
+                {sync.conflicts.length} sync conflict{sync.conflicts.length === 1 ? '' : 's'}
+              </button>
+            )}
+          </div>
           <button
             onClick={() => setShowCreateModal(true)}
             className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors text-dyslexia-friendly"
@@ -276,6 +489,31 @@ export const RoadmapView: React.FC<RoadmapViewProps> = ({
           </button>
         </div>
 
+        {usingLocalCopy && (
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-400 text-dyslexia-friendly">
+            The Ledger API is unreachable, so this is the copy saved in your browser. New entries are kept here and sent when it is back.
+          </p>
+        )}
+
+        {showConflicts && sync.conflicts.length > 0 && (
+          <ul className="mb-4 space-y-2" aria-label="Sync conflicts">
+            {sync.conflicts.map(conflict => (
+              <li
+                key={conflict.mutation_id}
+                className="flex items-start justify-between gap-4 p-3 text-sm bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-dyslexia-friendly"
+              >
+                <span className="text-red-800 dark:text-red-200">{conflict.message}</span>
+                <button
+                  onClick={() => sync.dismissConflict(conflict.mutation_id)}
+                  className="text-red-600 dark:text-red-400 hover:underline"
+                >
+                  Dismiss
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
         {/* Filters and Search */}
         <div className="flex flex-wrap gap-4 items-center">
           <div className="flex items-center gap-2">
@@ -286,11 +524,11 @@ export const RoadmapView: React.FC<RoadmapViewProps> = ({
               className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-dyslexia-friendly"
             >
               <option value="all">All Levels</option>
-              <option value="mission">Mission</option>
-              <option value="pillar">Pillars</option>
-              <option value="epic">Epics</option>
-              <option value="saga">Sagas</option>
-              <option value="probe">Probes</option>
+              {[['mission', 'Mission'], ['pillar', 'Pillars'], ['epic', 'Epics'], ['saga', 'Sagas'], ['probe', 'Probes']].map(([level, label]) => (
+                <option key={level} value={level}>
+                  {facets ? `${label} (${facets.level[level] ?? 0})` : label}
+                </option>
+              ))}
             </select>
           </div>
 
@@ -304,26 +542,82 @@ export const RoadmapView: React.FC<RoadmapViewProps> = ({
               <option value="timestamp">Date</option>
               <option value="level">Level</option>
               <option value="status">Status</option>
+              <option value="relevance">Relevance</option>
             </select>
           </div>
 
+          <div className="flex items-center gap-1" role="group" aria-label="Roadmap layout">
+            <button
+              onClick={() => setViewMode('levels')}
+              aria-pressed={viewMode === 'levels'}
+              className={`flex items-center gap-1 px-3 py-1 rounded-md text-sm text-dyslexia-friendly ${
+                viewMode === 'levels' ? 'bg-primary-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <Layers className="w-4 h-4" />
+              Levels
+            </button>
+            <button
+              onClick={() => setViewMode('tree')}
+              aria-pressed={viewMode === 'tree'}
+              className={`flex items-center gap-1 px-3 py-1 rounded-md text-sm text-dyslexia-friendly ${
+                viewMode === 'tree' ? 'bg-primary-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <GitBranch className="w-4 h-4" />
+              Tree
+            </button>
+            <button
+              onClick={() => {
+                // Closing the timeline returns to the present
+                if (showTimeline) setAsOf(null);
+                setShowTimeline(!showTimeline);
+              }}
+              aria-pressed={showTimeline}
+              className={`flex items-center gap-1 px-3 py-1 rounded-md text-sm text-dyslexia-friendly ${
+                showTimeline ? 'bg-primary-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              <History className="w-4 h-4" />
+              History
+            </button>
+          </div>
+
           <div className="flex items-center gap-2 flex-1 max-w-md">
             <Search className="w-4 h-4 text-gray-500 dark:text-gray-400" />
             <input
               type="text"
-              placeholder="Search entries..."
+              placeholder='Search entries... (e.g. status:active "offline mode")'
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="flex-1 px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 text-dyslexia-friendly"
             />
           </div>
         </div>
+
+        {showTimeline && <RoadmapTimeline onAsOfChange={setAsOf} />}
+
+        {!asOf && (
+          <div className="mt-4">
+            <ProbeTimeboxes onExpiredChange={setExpiredProbes} />
+          </div>
+        )}
+
+        {asOf && (
+          <p role="status" className="mt-4 text-sm text-gray-600 dark:text-gray-400 text-dyslexia-friendly">
+            Showing the roadmap as it stood on {new Date(asOf).toLocaleString()}. Editing is available in the present.
+          </p>
+        )}
       </div>
 
       {/* Roadmap Content */}
       <div className="flex-1 overflow-auto">
         <div className="p-6">
-          {Object.keys(groupedEntries).length > 0 ? (
+          {viewMode === 'tree' ? (
+            tree.length > 0 ? (
+              <div>{tree.map(node => renderTreeNode(node, 0))}</div>
+            ) : null
+          ) : Object.keys(groupedEntries).length > 0 ? (
             Object.entries(groupedEntries).map(([level, levelEntries]) => (
               <div key={level} className="mb-6">
                 {/* Level Header */}
@@ -338,14 +632,14 @@ export const RoadmapView: React.FC<RoadmapViewProps> = ({
                   )}
                   {getLevelIcon(level)}
                   <span className="font-semibold text-gray-900 dark:text-white capitalize text-dyslexia-friendly">
-                    {level} ({levelEntries.length})
+                    {level} ({facets?.level[level] ?? levelEntries.length})
                   </span>
                 </button>
 
                 {/* Level Entries */}
                 {expandedLevels.has(level) && (
                   <div className="mt-3 space-y-3">
-                    {levelEntries.slice(0, visibleItems).map((entry, index) => (
+                    {levelEntries.map((entry, index) => (
                       <div
                         key={entry.id}
                         ref={index === levelEntries.length - 1 ? lastItemRef : undefined}
@@ -368,6 +662,7 @@ export const RoadmapView: React.FC<RoadmapViewProps> = ({
                               <span className={`px-2 py-1 text-xs rounded border ${getStatusColor(entry.status)}`}>
                                 {entry.status}
                               </span>
+                              {renderOverranBadge(entry)}
                             </div>
                             
                             <h3 className="font-semibold text-gray-900 dark:text-white mb-1 text-dyslexia-friendly">
@@ -383,7 +678,7 @@ export const RoadmapView: React.FC<RoadmapViewProps> = ({
                             </div>
                           </div>
 
-                          <div className="flex items-center gap-1">
+                          <div className={`flex items-center gap-1 ${asOf ? 'hidden' : ''}`}>
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
@@ -415,16 +710,31 @@ export const RoadmapView: React.FC<RoadmapViewProps> = ({
             ))
           ) : null}
 
-          {filteredEntries.length === 0 && (
+          {viewMode === 'levels' && filteredEntries.length > 0 && (
+            <div className="flex items-center justify-center gap-3 py-4 text-sm text-gray-500 dark:text-gray-400 text-dyslexia-friendly">
+              <span>Showing {filteredEntries.length} of {total} entries</span>
+              {nextCursor && (
+                <button
+                  onClick={() => loadEntries(nextCursor)}
+                  disabled={isLoadingMore}
+                  className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  {isLoadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              )}
+            </div>
+          )}
+
+          {(viewMode === 'tree' ? tree.length === 0 : filteredEntries.length === 0) && (
             <div className="text-center py-12">
               <Map className="w-12 h-12 text-gray-400 mx-auto mb-4" />
               <p className="text-gray-500 dark:text-gray-400 text-dyslexia-friendly">
-                {entries && entries.length > 0 
+                {isFiltering
                   ? "No entries found matching your criteria." 
                   : "No roadmap entries found. Start by adding your first mission or pillar."
                 }
               </p>
-              {(!entries || entries.length === 0) && (
+              {!isFiltering && (
                 <button
                   onClick={() => setShowCreateModal(true)}
                   className="mt-4 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors text-dyslexia-friendly"
@@ -438,8 +748,16 @@ export const RoadmapView: React.FC<RoadmapViewProps> = ({
         </div>
       </div>
 
-      {/* Create/Edit Modals would go here */}
-      {/* For now, we'll implement these in the next iteration */}
+      {showEditModal && selectedEntry && (
+        <EntryAmendModal
+          entry={selectedEntry}
+          onSubmit={updateEntry}
+          onClose={() => setShowEditModal(false)}
+        />
+      )}
+
+      {/* Create Modal would go here */}
+      {/* For now, we'll implement it in the next iteration */}
     </div>
   );
 };
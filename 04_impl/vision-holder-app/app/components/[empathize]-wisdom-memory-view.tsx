@@ -1,17 +1,242 @@
 'use client';
 
-import React from 'react';
-import { Brain } from 'lucide-react';
+// [empathize] Wisdom Memory View
+// What the AI has learned about the user, where each insight came from, and the user's own
+// preferences, all editable: insights can be reworded, pinned so they never fade, merged or forgotten
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Brain, Search, Pin, PinOff, Pencil, Trash2, Merge, MessageSquare, Save } from 'lucide-react';
+import {
+  aiOrchestratorAPI,
+  WisdomMemoryInsight,
+  OrchestratorPreferences
+} from '../services/[accelerate]-service-integration';
 
 interface WisdomMemoryViewProps {
   className?: string;
 }
 
-export const WisdomMemoryView: React.FC<WisdomMemoryViewProps> = ({ 
-  className = '' 
+interface InsightDraft {
+  insight: string;
+  triggers: string;
+  score: number;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-dyslexia-friendly focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 text-dyslexia-friendly mb-1';
+const iconButtonClass = 'p-1.5 rounded-md text-gray-500 hover:text-gray-700 hover:bg-gray-100 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:bg-gray-700 transition-colors';
+
+const PREFERENCE_OPTIONS = {
+  communication_style: ['visual', 'text', 'voice', 'mixed'],
+  detail_level: ['high', 'medium', 'low'],
+  learning_pace: ['fast', 'moderate', 'slow']
+} as const;
+
+const PREFERENCE_LABELS: Record<keyof OrchestratorPreferences, string> = {
+  communication_style: 'Communication style',
+  detail_level: 'Detail level',
+  learning_pace: 'Learning pace',
+  accessibility_needs: 'Accessibility needs',
+  preferred_feedback: 'Preferred feedback'
+};
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+// Where an insight came from, newest source first
+const Provenance: React.FC<{ insight: WisdomMemoryInsight }> = ({ insight }) => {
+  const sources = [...(insight.sources ?? [])].reverse();
+  if (sources.length === 0) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">Source unknown (saved before sources were kept)</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {sources.map((source, index) => (
+        <li key={`${source.at}-${index}`} className="flex items-start gap-1 text-xs text-gray-500 dark:text-gray-400">
+          <MessageSquare className="w-3 h-3 mt-0.5 flex-shrink-0" aria-hidden="true" />
+          {source.kind === 'chat' && (
+            <span>
+              From chat on {formatDate(source.at)}
+              {source.excerpt && <>: <q className="italic">{source.excerpt}</q></>}
+            </span>
+          )}
+          {source.kind === 'manual' && <span>Added by hand on {formatDate(source.at)}</span>}
+          {source.kind === 'default' && <span>Starting insight</span>}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const PreferencesPanel: React.FC = () => {
+  const [preferences, setPreferences] = useState<OrchestratorPreferences | null>(null);
+  const [needs, setNeeds] = useState('');
+  const [feedback, setFeedback] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    aiOrchestratorAPI.getPreferences()
+      .then(loaded => {
+        setPreferences(loaded);
+        setNeeds(loaded.accessibility_needs.join(', '));
+        setFeedback(loaded.preferred_feedback.join(', '));
+      })
+      .catch(err => console.warn('Could not load preferences:', err));
+  }, []);
+
+  if (!preferences) {
+    return null;
+  }
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setStatus(null);
+    try {
+      const result = await aiOrchestratorAPI.updatePreferences({
+        ...preferences,
+        accessibility_needs: splitList(needs),
+        preferred_feedback: splitList(feedback)
+      });
+      setPreferences(result.preferences);
+      setStatus('Preferences saved');
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to save preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={save} className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-4">
+      <h3 className="font-semibold text-gray-900 dark:text-white text-dyslexia-friendly">Your preferences</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {(Object.keys(PREFERENCE_OPTIONS) as Array<keyof typeof PREFERENCE_OPTIONS>).map(field => (
+          <div key={field}>
+            <label htmlFor={`preference-${field}`} className={labelClass}>{PREFERENCE_LABELS[field]}</label>
+            <select
+              id={`preference-${field}`}
+              value={preferences[field]}
+              onChange={(e) => setPreferences({ ...preferences, [field]: e.target.value })}
+              className={inputClass}
+            >
+              {PREFERENCE_OPTIONS[field].map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="preference-accessibility" className={labelClass}>{PREFERENCE_LABELS.accessibility_needs}</label>
+          <input id="preference-accessibility" type="text" value={needs} onChange={(e) => setNeeds(e.target.value)} placeholder="Comma separated, e.g. dyslexia-friendly fonts" className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="preference-feedback" className={labelClass}>{PREFERENCE_LABELS.preferred_feedback}</label>
+          <input id="preference-feedback" type="text" value={feedback} onChange={(e) => setFeedback(e.target.value)} placeholder="Comma separated, e.g. visual, step-by-step" className={inputClass} />
+        </div>
+      </div>
+      <div className="flex items-center justify-end gap-3">
+        {status && <span role="status" className="text-sm text-gray-600 dark:text-gray-400">{status}</span>}
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 text-dyslexia-friendly"
+        >
+          <Save className="w-4 h-4" />
+          {saving ? 'Saving...' : 'Save preferences'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export const WisdomMemoryView: React.FC<WisdomMemoryViewProps> = ({
+  className = ''
 }) => {
+  const [insights, setInsights] = useState<WisdomMemoryInsight[]>([]);
+  const [total, setTotal] = useState(0);
+  const [query, setQuery] = useState('');
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+  const [sort, setSort] = useState<'relevance' | 'usage' | 'timestamp'>('relevance');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<InsightDraft>({ insight: '', triggers: '', score: 1 });
+  const [merging, setMerging] = useState<string | null>(null);
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  const loadInsights = useCallback(async () => {
+    try {
+      const result = await aiOrchestratorAPI.searchWisdom({
+        q: query.trim() || undefined,
+        pinned: pinnedOnly || undefined,
+        sort,
+        limit: 200
+      });
+      setInsights(result.insights);
+      setTotal(result.total);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load wisdom memory');
+    } finally {
+      setLoading(false);
+    }
+  }, [query, pinnedOnly, sort]);
+
+  // Search as the user types, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(loadInsights, 250);
+    return () => clearTimeout(timer);
+  }, [loadInsights]);
+
+  const act = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      await loadInsights();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const startEdit = (insight: WisdomMemoryInsight) => {
+    setEditing(insight.id);
+    setMerging(null);
+    setDraft({ insight: insight.insight, triggers: insight.context_triggers.join(', '), score: insight.relevance_score });
+  };
+
+  const saveEdit = (event: React.FormEvent, id: string) => {
+    event.preventDefault();
+    void act(async () => {
+      await aiOrchestratorAPI.updateWisdom(id, {
+        insight: draft.insight,
+        context_triggers: splitList(draft.triggers),
+        relevance_score: draft.score
+      });
+      setEditing(null);
+    }, 'Failed to update the insight');
+  };
+
+  const forget = (insight: WisdomMemoryInsight) => {
+    if (!confirm(`Forget "${insight.insight}"?`)) return;
+    void act(() => aiOrchestratorAPI.forgetWisdom(insight.id), 'Failed to forget the insight');
+  };
+
+  const merge = (sourceId: string) => {
+    if (!mergeTarget) return;
+    void act(async () => {
+      await aiOrchestratorAPI.mergeWisdom(mergeTarget, sourceId);
+      setMerging(null);
+      setMergeTarget('');
+    }, 'Failed to merge the insights');
+  };
+
   return (
-    <div className={`p-6 space-y-6 ${className}`}>
+    <div className={`p-6 space-y-6 overflow-y-auto ${className}`}>
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-2">
           <Brain className="w-6 h-6 text-blue-600" />
@@ -19,15 +244,172 @@ export const WisdomMemoryView: React.FC<WisdomMemoryViewProps> = ({
             Wisdom Memory
           </h2>
         </div>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {total === 1 ? '1 insight' : `${total} insights`}
+        </span>
       </div>
-      
-      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
-        <p className="text-gray-600 dark:text-gray-400">
-          User preferences and AI insights will be displayed here.
-        </p>
+
+      <PreferencesPanel />
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+          <input
+            type="text"
+            aria-label="Search insights"
+            placeholder="Search insights and triggers..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className={`${inputClass} pl-10`}
+          />
+        </div>
+        <select
+          aria-label="Sort insights"
+          value={sort}
+          onChange={(e) => setSort(e.target.value as typeof sort)}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-dyslexia-friendly"
+        >
+          <option value="relevance">Most relevant</option>
+          <option value="usage">Most used</option>
+          <option value="timestamp">Newest</option>
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 text-dyslexia-friendly">
+          <input type="checkbox" checked={pinnedOnly} onChange={(e) => setPinnedOnly(e.target.checked)} />
+          Pinned only
+        </label>
       </div>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400 text-dyslexia-friendly">{error}</p>
+      )}
+
+      {loading ? (
+        <p className="text-gray-600 dark:text-gray-400">Loading wisdom memory...</p>
+      ) : insights.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+          <p className="text-gray-600 dark:text-gray-400 text-dyslexia-friendly">
+            {query || pinnedOnly ? 'No insights match.' : 'No insights yet. They are learned from your chats.'}
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {insights.map(insight => (
+            <li
+              key={insight.id}
+              className={`bg-white dark:bg-gray-800 rounded-lg border p-4 space-y-2 ${insight.pinned ? 'border-primary-300 dark:border-primary-700' : 'border-gray-200 dark:border-gray-700'}`}
+            >
+              {editing === insight.id ? (
+                <form onSubmit={(e) => saveEdit(e, insight.id)} className="space-y-3">
+                  <div>
+                    <label htmlFor={`insight-text-${insight.id}`} className={labelClass}>Insight</label>
+                    <textarea id={`insight-text-${insight.id}`} value={draft.insight} onChange={(e) => setDraft({ ...draft, insight: e.target.value })} rows={2} className={inputClass} />
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                      <label htmlFor={`insight-triggers-${insight.id}`} className={labelClass}>Triggers (comma separated)</label>
+                      <input id={`insight-triggers-${insight.id}`} type="text" value={draft.triggers} onChange={(e) => setDraft({ ...draft, triggers: e.target.value })} className={inputClass} />
+                    </div>
+                    <div>
+                      <label htmlFor={`insight-score-${insight.id}`} className={labelClass}>Score: {Math.round(draft.score * 100)}%</label>
+                      <input id={`insight-score-${insight.id}`} type="range" min={0} max={1} step={0.05} value={draft.score} onChange={(e) => setDraft({ ...draft, score: Number(e.target.value) })} className="w-full" />
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <button type="button" onClick={() => setEditing(null)} className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300">
+                      Cancel
+                    </button>
+                    <button type="submit" disabled={!draft.insight.trim()} className="px-3 py-1 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50">
+                      Save
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <>
+                  <div className="flex items-start justify-between gap-4">
+                    <p className="text-gray-900 dark:text-white text-dyslexia-friendly">
+                      {insight.pinned && <Pin className="inline w-4 h-4 mr-1 text-primary-600" aria-label="Pinned" />}
+                      {insight.insight}
+                    </p>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => act(() => aiOrchestratorAPI.pinWisdom(insight.id, !insight.pinned), 'Failed to pin the insight')}
+                        className={iconButtonClass}
+                        title={insight.pinned ? 'Unpin' : 'Pin so it never fades'}
+                        aria-label={insight.pinned ? 'Unpin insight' : 'Pin insight'}
+                      >
+                        {insight.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                      </button>
+                      <button onClick={() => startEdit(insight)} className={iconButtonClass} title="Edit" aria-label="Edit insight">
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          setMerging(merging === insight.id ? null : insight.id);
+                          setMergeTarget('');
+                          setEditing(null);
+                        }}
+                        className={iconButtonClass}
+                        title="Merge into another insight"
+                        aria-label="Merge insight"
+                      >
+                        <Merge className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => forget(insight)} className={iconButtonClass} title="Forget" aria-label="Forget insight">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-1">
+                    {insight.context_triggers.map(trigger => (
+                      <span key={trigger} className="px-2 py-0.5 text-xs rounded-full bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">
+                        {trigger}
+                      </span>
+                    ))}
+                  </div>
+
+                  <div className="flex flex-wrap gap-4 text-xs text-gray-600 dark:text-gray-400">
+                    <span title={`Learned score ${Math.round(insight.relevance_score * 100)}%, faded by time since last use`}>
+                      Relevance {Math.round(insight.current_relevance * 100)}%
+                    </span>
+                    <span>Used {insight.usage_count === 1 ? 'once' : `${insight.usage_count} times`}</span>
+                    {insight.last_used_at && <span>Last used {formatDate(insight.last_used_at)}</span>}
+                    {insight.merged_count > 0 && <span>Merged from {insight.merged_count + 1} insights</span>}
+                  </div>
+
+                  <Provenance insight={insight} />
+
+                  {merging === insight.id && (
+                    <div className="flex flex-col md:flex-row gap-2 pt-2">
+                      <label htmlFor={`merge-target-${insight.id}`} className="sr-only">Merge into</label>
+                      <select
+                        id={`merge-target-${insight.id}`}
+                        value={mergeTarget}
+                        onChange={(e) => setMergeTarget(e.target.value)}
+                        className={inputClass}
+                      >
+                        <option value="">Merge into...</option>
+                        {insights.filter(other => other.id !== insight.id).map(other => (
+                          <option key={other.id} value={other.id}>{other.insight}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => merge(insight.id)}
+                        disabled={!mergeTarget}
+                        className="px-3 py-1 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50 whitespace-nowrap"
+                      >
+                        Merge
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
 
-export default WisdomMemoryView;
\ No newline at end of file
+export default WisdomMemoryView;
@@ -2,6 +2,11 @@
 // Connects frontend to all backend services with proper error handling
 
 import React from 'react';
+import { LedgerEntryInputSchema, LedgerEntryInput, LedgerEntry, Status, LedgerAmendmentSchema, LedgerAmendment, ProbeOutcomeInputSchema, ProbeOutcomeInput, LedgerLinkInput, EntryLink, FieldError, ledgerErrorMap, toFieldErrors, formatFieldErrors } from './[safeguard]-ledger-schemas';
+import { systemicLedger as localLedger } from '../../../systemic-ledger/[accelerate]-ledger-core';
+import { ledgerSync, LedgerSyncState } from '../../../systemic-ledger/[safeguard]-ledger-sync';
+import { systemicLedgerAPI as ledgerStream, LedgerChange, LedgerConnectionListener } from '../../../systemic-ledger/[accelerate]-ledger-api-client';
+import { isValidUserId } from '../../../backend/[clarify]-user-identity';
 
 export interface ServiceStatus {
   name: string;
@@ -41,6 +46,70 @@ const SERVICES = {
   }
 };
 
+// Active project: every service call carries it in X-Project-Id, and the choice survives reloads
+export const DEFAULT_PROJECT_ID = 'default';
+const PROJECT_STORAGE_KEY = 'vision-holder-project';
+
+// Project record from the Systemic Ledger API (GET /projects)
+export interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  archived_at: string | null;
+  cloned_from: string | null;
+}
+
+// Outcome per service of creating, cloning, archiving or restoring a project
+export type ProjectServiceResults = Record<string, string>;
+
+let activeProjectId: string | null = null;
+const projectListeners = new Set<(projectId: string) => void>();
+
+export const getActiveProject = (): string => {
+  if (activeProjectId === null) {
+    activeProjectId = (typeof window !== 'undefined' && localStorage.getItem(PROJECT_STORAGE_KEY)) || DEFAULT_PROJECT_ID;
+  }
+  return activeProjectId;
+};
+
+// Headers for requests made with fetch directly (uploads, knowledge base views)
+export const projectHeaders = (): Record<string, string> => ({ 'X-Project-Id': getActiveProject() });
+
+// The user's identity: a UUID created once per browser and kept with the theme and project.
+// Requests for what belongs to the person rather than a project (onboarding) send it in X-User-Id.
+const USER_ID_STORAGE_KEY = 'vision-holder-user-id';
+let currentUserId: string | null = null;
+
+// crypto.randomUUID only exists in secure contexts (https or localhost), so build a v4 UUID
+// from random bytes when the app is served over plain http
+const createUserId = (): string => {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// A stored id the API would refuse (edited by hand, or from an older build) is replaced
+export const getUserId = (): string => {
+  if (currentUserId === null && typeof window !== 'undefined') {
+    const stored = localStorage.getItem(USER_ID_STORAGE_KEY);
+    if (isValidUserId(stored)) {
+      currentUserId = stored;
+    } else {
+      currentUserId = createUserId();
+      localStorage.setItem(USER_ID_STORAGE_KEY, currentUserId);
+    }
+  }
+  return currentUserId ?? '';
+};
+
+export const userHeaders = (): Record<string, string> => ({ 'X-User-Id': getUserId() });
+
 // Service status tracking
 let serviceStatuses: Record<string, ServiceStatus> = {};
 
@@ -122,7 +191,7 @@ export const getServiceStatuses = (): Record<string, ServiceStatus> => {
 
 // API client functions with error handling and retry logic
 export class APIClient {
-  private baseURL: string;
+  protected baseURL: string;
   private serviceName: string;
   private maxRetries: number = 3;
   private retryDelay: number = 1000; // 1 second
@@ -141,29 +210,38 @@ export class APIClient {
     
     try {
       const response = await fetch(url, {
+        signal: AbortSignal.timeout(10000), // 10 second timeout
+        ...options,
+        // After the spread, so a request's own headers add to these instead of replacing them
         headers: {
           'Content-Type': 'application/json',
+          ...projectHeaders(),
           ...options.headers
-        },
-        signal: AbortSignal.timeout(10000), // 10 second timeout
-        ...options
+        }
       });
 
       if (!response.ok) {
         // Don't retry on client errors (4xx)
         if (response.status >= 400 && response.status < 500) {
           let errorMessage = `${this.serviceName} error: ${response.status} ${response.statusText}`;
+          let fields: FieldError[] | undefined;
           try {
             const errorData = await response.text();
             console.error('Detailed API Error:', errorData);
             errorMessage += ` - ${errorData}`;
+            // Contract violations list the invalid fields
+            const parsed = JSON.parse(errorData);
+            if (Array.isArray(parsed?.fields)) {
+              fields = parsed.fields;
+            }
           } catch (e) {
             // Ignore parsing errors
           }
           throw new ServiceError(
             errorMessage,
             this.serviceName,
-            response.status
+            response.status,
+            fields
           );
         }
         
@@ -245,8 +323,450 @@ export class APIClient {
   }
 }
 
+// Message from the ledger's live feed (GET /ledger/stream)
+export type { LedgerChange };
+
+// Revisions of an entry's seek, why and content (GET /ledger/entries/{id}/revisions)
+export type LedgerAmendableField = 'seek' | 'why' | 'content';
+
+export interface LedgerFieldDiff {
+  field: LedgerAmendableField;
+  before: string;
+  after: string;
+  segments: Array<{ op: 'equal' | 'insert' | 'delete'; text: string }>;
+}
+
+export interface LedgerRevision {
+  revision: number;
+  event_id: string;
+  timestamp: string;
+  actor: string;
+  reason: string | null;
+  changed: LedgerAmendableField[];
+  seek: string;
+  why: string;
+  content: Record<string, any>;
+  diff: LedgerFieldDiff[]; // against the previous revision
+}
+
+export interface LedgerRevisionsResult {
+  entry_id: string;
+  current_revision: number;
+  revisions: LedgerRevision[];
+  comparison: { from: number; to: number; fields: LedgerFieldDiff[] } | null;
+  total: number;
+}
+
+// Search parameters for GET /ledger/entries; list facets are comma-separated
+export interface LedgerQueryParams {
+  q?: string;
+  level?: string;
+  purpose_tag?: string;
+  status?: string;
+  parent_id?: string;
+  sort?: 'timestamp' | 'level' | 'status' | 'title' | 'relevance';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+  as_of?: string; // ISO date-time: entries as they stood then
+}
+
+export interface LedgerQueryResult<TEntry = any> {
+  entries: TEntry[];
+  total: number;
+  facets: {
+    level: Record<string, number>;
+    purpose_tag: Record<string, number>;
+    status: Record<string, number>;
+  };
+  next_cursor: string | null;
+}
+
+// The roadmap's history (GET /ledger/timeline): creations and status changes, oldest first
+export interface LedgerTimelineMoment {
+  seq: number;
+  event_id: string;
+  type: 'entry_created' | 'status_changed';
+  timestamp: string;
+  actor: string;
+  entry_id: string;
+  level: string;
+  title: string;
+  from: string | null;
+  to: string;
+  reason: string | null;
+}
+
+// What moved between two dates (GET /ledger/roadmap/compare)
+export interface LedgerComparison<TEntry = any> {
+  from: string;
+  to: string;
+  moves: Array<{ entry: TEntry; from: string | null; to: string; transitions: LedgerTimelineMoment[] }>;
+  reached: Record<string, number>;
+  total: number;
+}
+
+// The stored hash chain checked end to end (GET /ledger/verify)
+export interface LedgerVerification {
+  project_id: string;
+  valid: boolean;
+  checked: number;
+  legacy: number;
+  head_hash: string;
+  breaks: Array<{
+    seq: number;
+    event_id: string | null;
+    kind: 'hash_mismatch' | 'prev_hash_mismatch' | 'unsealed' | 'unreadable';
+    message: string;
+  }>;
+  head: LedgerSignedHead;
+}
+
+export interface LedgerSignedHead {
+  hash: string;
+  event_count: number;
+  algorithm: 'HMAC-SHA256';
+  key_id: string;
+  signature: string;
+}
+
+// A signed backup from GET /ledger/export; POST /ledger/import checks it before merging
+export interface LedgerBackup<TEntry = any> {
+  format: 'vision-holder-ledger-backup';
+  version: 1;
+  project_id: string;
+  exported_at: string;
+  head: LedgerSignedHead;
+  events: unknown[];
+  entries: TEntry[];
+}
+
+// What blocks an entry: an unfinished entry linked with blocks or depends_on
+export interface LedgerBlocker<TEntry = any> {
+  entry: TEntry;
+  link_id: string;
+  type: 'blocks' | 'depends_on';
+}
+
+// Dependencies between entries (GET /ledger/graph); edges point from blocker to blocked
+export interface LedgerDependencyGraph<TEntry = any> {
+  edges: Array<{ blocker_id: string; blocked_id: string; link_id: string; holder_id: string; type: 'blocks' | 'depends_on' }>;
+  related: Array<{ from_id: string; to_id: string; link_id: string }>;
+  blocked: Array<{ entry: TEntry; blocked_by: LedgerBlocker<TEntry>[] }>;
+  critical_path: TEntry[];
+}
+
+// A probe's timebox (GET /ledger/probes); expired probes are candidates for dormant
+export interface ProbeTimebox<TEntry = any> {
+  entry: TEntry;
+  state: 'not_started' | 'running' | 'expired' | 'closed';
+  timebox: string | null;
+  started_at: string | null;
+  deadline: string | null;
+  remaining_ms: number | null;
+}
+
+// Extended Systemic Ledger API; the live change feed is the ledger client's shared stream
+class SystemicLedgerClient extends APIClient {
+  constructor() {
+    super('SYSTEMIC_LEDGER');
+  }
+
+  // Create an entry after checking it against the contract schemas, so field errors show before the round trip
+  async createEntry<TEntry = any>(entry: unknown): Promise<TEntry> {
+    const validation = LedgerEntryInputSchema.safeParse(entry, { errorMap: ledgerErrorMap });
+    if (!validation.success) {
+      const fields = toFieldErrors(validation.error, 'entry');
+      throw new ServiceError(
+        `Invalid ledger entry: ${formatFieldErrors(fields)}`,
+        SERVICES.SYSTEMIC_LEDGER.name,
+        400,
+        fields
+      );
+    }
+
+    const response = await this.post<{ entry: TEntry }>('/ledger/entries', validation.data);
+    return response.entry;
+  }
+
+  // Fix seek, why or content; the server keeps the earlier values as revisions
+  async amendEntry<TEntry = any>(id: string, amendment: LedgerAmendment): Promise<{ entry: TEntry; revision: number }> {
+    const validation = LedgerAmendmentSchema.safeParse(amendment, { errorMap: ledgerErrorMap });
+    if (!validation.success) {
+      const fields = toFieldErrors(validation.error, 'amendment');
+      throw new ServiceError(
+        `Invalid amendment: ${formatFieldErrors(fields)}`,
+        SERVICES.SYSTEMIC_LEDGER.name,
+        400,
+        fields
+      );
+    }
+
+    return this.post(`/ledger/entries/${encodeURIComponent(id)}/amend`, validation.data);
+  }
+
+  getRevisions(id: string, compare?: { from: number; to: number }): Promise<LedgerRevisionsResult> {
+    const query = compare ? `?from=${compare.from}&to=${compare.to}` : '';
+    return this.get(`/ledger/entries/${encodeURIComponent(id)}/revisions${query}`);
+  }
+
+  // Search entries with free text, facets, sorting and cursor pagination
+  queryEntries<TEntry = any>(params: LedgerQueryParams): Promise<LedgerQueryResult<TEntry>> {
+    const search = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        search.set(key, String(value));
+      }
+    });
+    const query = search.toString();
+    return this.get<LedgerQueryResult<TEntry>>(`/ledger/entries${query ? `?${query}` : ''}`);
+  }
+
+  // Every creation and status change, for replaying the roadmap
+  async getTimeline(): Promise<LedgerTimelineMoment[]> {
+    const response = await this.get<{ moments: LedgerTimelineMoment[] }>('/ledger/timeline');
+    return response.moments;
+  }
+
+  // Entries that moved between two ISO date-times, optionally only those reaching `statuses`
+  compareRoadmap<TEntry = any>(from: string, to: string, statuses: string[] = []): Promise<LedgerComparison<TEntry>> {
+    const search = new URLSearchParams({ from, to });
+    if (statuses.length > 0) {
+      search.set('status', statuses.join(','));
+    }
+    return this.get(`/ledger/roadmap/compare?${search.toString()}`);
+  }
+
+  // Link an entry to another; the server refuses links that would close a dependency cycle
+  addLink<TEntry = any>(id: string, link: LedgerLinkInput): Promise<{ link: EntryLink; entry: TEntry }> {
+    return this.post(`/ledger/entries/${encodeURIComponent(id)}/links`, link);
+  }
+
+  // Move an entry to another status; the server refuses changes its status machine does not allow
+  async updateEntryStatus<TEntry = any>(id: string, status: Status, reason: string): Promise<TEntry> {
+    const response = await this.put<{ entry: TEntry }>(`/ledger/entries/${encodeURIComponent(id)}/status`, { status, reason });
+    return response.entry;
+  }
+
+  removeLink<TEntry = any>(id: string, linkId: string): Promise<{ entry: TEntry }> {
+    return this.delete(`/ledger/entries/${encodeURIComponent(id)}/links/${encodeURIComponent(linkId)}`);
+  }
+
+  getDependencyGraph<TEntry = any>(): Promise<LedgerDependencyGraph<TEntry>> {
+    return this.get('/ledger/graph');
+  }
+
+  // What can be worked on now: active, unblocked leaf work, the items that unblock the most first
+  async getNextUp<TEntry = any>(): Promise<Array<{ entry: TEntry; unblocks: number }>> {
+    const response = await this.get<{ entries: Array<{ entry: TEntry; unblocks: number }> }>('/ledger/next');
+    return response.entries;
+  }
+
+  getProbes<TEntry = any>(state?: ProbeTimebox['state']): Promise<{ probes: ProbeTimebox<TEntry>[]; expired: number; total: number }> {
+    return this.get(`/ledger/probes${state ? `?state=${state}` : ''}`);
+  }
+
+  // Close a probe with what it showed; the server picks the status unless one is given
+  async recordProbeOutcome<TEntry = any>(id: string, outcome: ProbeOutcomeInput): Promise<TEntry> {
+    const validation = ProbeOutcomeInputSchema.safeParse(outcome, { errorMap: ledgerErrorMap });
+    if (!validation.success) {
+      const fields = toFieldErrors(validation.error, 'outcome');
+      throw new ServiceError(
+        `Invalid outcome: ${formatFieldErrors(fields)}`,
+        SERVICES.SYSTEMIC_LEDGER.name,
+        400,
+        fields
+      );
+    }
+
+    const response = await this.post<{ entry: TEntry }>(`/ledger/entries/${encodeURIComponent(id)}/outcome`, validation.data);
+    return response.entry;
+  }
+
+  // Check the stored events against their hash chain
+  verifyLedger(): Promise<LedgerVerification> {
+    return this.get('/ledger/verify');
+  }
+
+  exportLedger<TEntry = any>(): Promise<LedgerBackup<TEntry>> {
+    return this.get('/ledger/export');
+  }
+
+  // Projects live in the ledger API, which tells the other services when one is cloned or archived
+  listProjects(): Promise<{ projects: Project[]; total: number }> {
+    return this.get('/projects');
+  }
+
+  createProject(project: { name: string; id?: string; description?: string; clone_from?: string }): Promise<{ project: Project; services: ProjectServiceResults }> {
+    return this.post('/projects', project);
+  }
+
+  archiveProject(projectId: string): Promise<{ project: Project; services: ProjectServiceResults }> {
+    return this.post(`/projects/${encodeURIComponent(projectId)}/archive`);
+  }
+
+  restoreProject(projectId: string): Promise<{ project: Project; services: ProjectServiceResults }> {
+    return this.post(`/projects/${encodeURIComponent(projectId)}/restore`);
+  }
+
+  // Listen for ledger changes on the active project's feed; returns an unsubscribe function
+  subscribe(onChange: (change: LedgerChange<any>) => void, onConnectionChange?: LedgerConnectionListener): () => void {
+    ledgerStream.useProject(getActiveProject());
+    return ledgerStream.subscribe(onChange, onConnectionChange);
+  }
+
+  // Hear when the scheduler flags a probe that overran its timebox (while the feed is open)
+  onProbeExpired(listener: (probe: ProbeTimebox) => void): () => void {
+    return ledgerStream.onProbeExpired(listener);
+  }
+}
+
+// Insight from the AI Orchestrator's wisdom memory (GET /orchestrator/wisdom)
+export interface WisdomMemoryInsight {
+  id: string;
+  insight: string;
+  relevance_score: number;
+  current_relevance: number; // relevance_score after decay
+  context_triggers: string[];
+  user_preference: Record<string, any>;
+  timestamp: string;
+  usage_count: number;
+  pinned: boolean;
+  last_used_at: string | null;
+  merged_count: number;
+  sources: Array<{
+    kind: 'chat' | 'manual' | 'default';
+    at: string;
+    message_id?: string; // the chat message the insight was drawn from
+    excerpt?: string;
+  }>;
+}
+
+export type WisdomInsightChanges = Partial<Pick<WisdomMemoryInsight, 'insight' | 'context_triggers' | 'relevance_score' | 'user_preference'>>;
+
+// Body of POST /orchestrator/chat and /orchestrator/chat/stream
+export interface ChatRequest {
+  message: string;
+  systemicLedger?: any;
+  attachments?: Array<{ name: string; size: number; type: string }>;
+  thread_id?: string; // defaults to the general thread
+  context_budget?: number; // tokens of context; defaults to the server's CONTEXT_TOKEN_BUDGET
+}
+
+// What went into the context sent with a prompt: each section included whole, trimmed to fit
+// the token budget, or dropped
+export interface ContextBudgetItem {
+  id: string;
+  kind: 'message' | 'task' | 'ledger' | 'knowledge' | 'history' | 'wisdom';
+  label: string;
+  priority: number;
+  tokens: number;
+  original_tokens: number;
+  status: 'included' | 'trimmed' | 'dropped';
+}
+
+export interface ContextBudgetReport {
+  provider: string;
+  model: string;
+  budget: number;
+  used: number;
+  included: number;
+  trimmed: number;
+  dropped: number;
+  items: ContextBudgetItem[]; // highest priority first
+}
+
+// A named conversation in the orchestrator chat, optionally about one ledger entry
+export const GENERAL_THREAD_ID = 'general';
+
+export interface ChatThreadSummary {
+  id: string;
+  title: string;
+  entry_id: string | null;
+  created_at: string;
+  updated_at: string;
+  archived_at: string | null;
+  message_count: number;
+  last_message: string | null;
+  match?: string; // excerpt of the message that matched a search
+}
+
+export interface ChatThreadMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: string;
+  stopped?: boolean;
+  context_report?: ContextBudgetReport; // on replies
+  actions?: ChatActionProposal[]; // on replies that propose roadmap changes
+}
+
+// A roadmap change the AI proposed in a reply; nothing changes until the user confirms it
+export type ChatActionProposal = (
+  | { type: 'create_entry'; entry: LedgerEntryInput }
+  | { type: 'update_status'; entry_id: string; status: Status; reason: string }
+) & {
+  id: string;
+  summary: string;
+  decision: 'pending' | 'confirmed' | 'declined';
+  decided_at: string | null;
+  result_entry_id: string | null;
+};
+
+// The start event of a streamed reply, sent before the first token
+export interface ChatStreamStart {
+  thread_id: string;
+  thread_title: string; // a new thread is named after its first message
+  message_id: string; // the stored user message
+  context: string;
+  context_report: ContextBudgetReport;
+  wisdom_insights: WisdomMemoryInsight[];
+}
+
+// One event of POST /orchestrator/chat/stream, with its payload
+type ChatStreamEvent =
+  | { event: 'start'; data: ChatStreamStart }
+  | { event: 'token'; data: { text: string } }
+  | { event: 'done'; data: { message_id: string | null; response: string; actions?: ChatActionProposal[] } }
+  | { event: 'error'; data: { error: string } };
+
+export interface ChatStreamResult {
+  message_id: string | null; // null when the reply was stopped
+  response: string;
+  stopped: boolean;
+  actions: ChatActionProposal[];
+}
+
+// The user's preferences kept by the AI Orchestrator (shared by every project)
+export interface OrchestratorPreferences {
+  communication_style: 'visual' | 'text' | 'voice' | 'mixed';
+  detail_level: 'high' | 'medium' | 'low';
+  learning_pace: 'fast' | 'moderate' | 'slow';
+  accessibility_needs: string[];
+  preferred_feedback: string[];
+}
+
+// Onboarding steps and the user's progress through them (/onboarding, onboarding.yaml)
+export interface OnboardingStep {
+  id: string;
+  title: string;
+  description: string;
+  order: number;
+  component: 'roadmap' | 'chat' | 'knowledge' | 'terminal';
+  tooltip: string;
+  cta: string;
+}
+
+export interface OnboardingState {
+  user_id: string;
+  current_step: string;
+  completed_steps: string[];
+  started_at: string;
+  completed_at: string | null;
+}
+
 // Service-specific API clients
-export const systemicLedgerAPI = new APIClient('SYSTEMIC_LEDGER');
+export const systemicLedgerAPI = new SystemicLedgerClient();
 
 // Extended AI Orchestrator API with specific methods
 class AIOrchestrator extends APIClient {
@@ -266,13 +786,178 @@ class AIOrchestrator extends APIClient {
 
   async getWisdomInsights() {
     try {
-      const response: any = await this.get('/health');
-      return response.wisdom_memory || [];
+      const response = await this.searchWisdom({ sort: 'relevance', limit: 50 });
+      return response.insights;
     } catch (error) {
       console.warn('Could not load wisdom insights, using empty array');
       return [];
     }
   }
+
+  // Stored insights with their relevance after decay; q matches text and triggers
+  searchWisdom(options: { q?: string; pinned?: boolean; sort?: 'usage' | 'relevance' | 'timestamp'; limit?: number } = {}) {
+    const params = new URLSearchParams();
+    Object.entries(options).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    const query = params.toString();
+    return this.get<{ insights: WisdomMemoryInsight[]; matched: number; total: number }>(
+      `/orchestrator/wisdom${query ? `?${query}` : ''}`
+    );
+  }
+
+  // Pinned insights never fade or get forgotten
+  pinWisdom(id: string, pinned: boolean) {
+    return this.put<{ insight: WisdomMemoryInsight }>(`/orchestrator/wisdom/${encodeURIComponent(id)}/pin`, { pinned });
+  }
+
+  forgetWisdom(id: string) {
+    return this.delete<{ insight: WisdomMemoryInsight }>(`/orchestrator/wisdom/${encodeURIComponent(id)}`);
+  }
+
+  updateWisdom(id: string, changes: WisdomInsightChanges) {
+    return this.put<{ insight: WisdomMemoryInsight }>(`/orchestrator/wisdom/${encodeURIComponent(id)}`, changes);
+  }
+
+  // Fold sourceId into targetId; the source is removed
+  mergeWisdom(targetId: string, sourceId: string) {
+    return this.post<{ insight: WisdomMemoryInsight; merged_id: string }>(
+      `/orchestrator/wisdom/${encodeURIComponent(targetId)}/merge`,
+      { source_id: sourceId }
+    );
+  }
+
+  getPreferences() {
+    return this.get<OrchestratorPreferences>('/orchestrator/preferences');
+  }
+
+  updatePreferences(preferences: Partial<OrchestratorPreferences>) {
+    return this.put<{ preferences: OrchestratorPreferences }>('/orchestrator/preferences', preferences);
+  }
+
+  getOnboardingSteps() {
+    return this.get<{ data: OnboardingStep[] }>('/onboarding/steps');
+  }
+
+  // The user's progress; the first request starts it at the first step
+  getOnboardingState() {
+    return this.get<{ data: OnboardingState }>('/onboarding/state', userHeaders());
+  }
+
+  updateOnboardingState(state: OnboardingState) {
+    return this.post<{ data: OnboardingState }>('/onboarding/state', state, userHeaders());
+  }
+
+  listThreads(options: { q?: string; archived?: 'true' | 'false' | 'all'; entry_id?: string } = {}) {
+    const params = new URLSearchParams();
+    Object.entries(options).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    const query = params.toString();
+    return this.get<{ threads: ChatThreadSummary[]; matched: number; total: number }>(
+      `/orchestrator/threads${query ? `?${query}` : ''}`
+    );
+  }
+
+  createThread(thread: { title?: string; entry_id?: string | null } = {}) {
+    return this.post<{ thread: ChatThreadSummary }>('/orchestrator/threads', thread);
+  }
+
+  getThread(id: string, limit: number = 100) {
+    return this.get<{ thread: ChatThreadSummary; messages: ChatThreadMessage[] }>(
+      `/orchestrator/threads/${encodeURIComponent(id)}?limit=${limit}`
+    );
+  }
+
+  // Rename a thread or change the ledger entry it is about (null unties it)
+  updateThread(id: string, changes: { title?: string; entry_id?: string | null }) {
+    return this.put<{ thread: ChatThreadSummary }>(`/orchestrator/threads/${encodeURIComponent(id)}`, changes);
+  }
+
+  // Archived threads stay searchable but take no new messages until restored
+  setThreadArchived(id: string, archived: boolean) {
+    return this.post<{ thread: ChatThreadSummary }>(
+      `/orchestrator/threads/${encodeURIComponent(id)}/${archived ? 'archive' : 'restore'}`
+    );
+  }
+
+  // Record that the user confirmed (after making the change, giving its entry) or declined a proposal
+  decideChatAction(id: string, decision: 'confirmed' | 'declined', entryId?: string) {
+    return this.post<{ action: ChatActionProposal }>(`/orchestrator/chat/actions/${encodeURIComponent(id)}`, {
+      decision,
+      ...(entryId ? { entry_id: entryId } : {})
+    });
+  }
+
+  /**
+   * Chat with the reply streamed in: onToken gets each piece as it arrives. Aborting `signal`
+   * stops the reply, and the promise resolves with what had arrived marked as stopped.
+   */
+  async streamChat(
+    request: ChatRequest,
+    handlers: { onStart?: (start: ChatStreamStart) => void; onToken: (text: string) => void },
+    signal?: AbortSignal
+  ): Promise<ChatStreamResult> {
+    const serviceName = SERVICES.AI_ORCHESTRATOR.name;
+    let response = '';
+    let messageId: string | null = null;
+    let actions: ChatActionProposal[] = [];
+
+    const handle = (message: ChatStreamEvent) => {
+      if (message.event === 'start') {
+        handlers.onStart?.(message.data);
+      } else if (message.event === 'token') {
+        response += message.data.text;
+        handlers.onToken(message.data.text);
+      } else if (message.event === 'done') {
+        messageId = message.data.message_id;
+        actions = message.data.actions ?? [];
+      } else if (message.event === 'error') {
+        throw new ServiceError(`${serviceName} error: ${message.data.error}`, serviceName, 500);
+      }
+    };
+
+    try {
+      const res = await fetch(`${this.baseURL}/orchestrator/chat/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...projectHeaders() },
+        body: JSON.stringify(request),
+        signal
+      });
+      if (!res.ok || !res.body) {
+        const detail = await res.text().catch(() => '');
+        throw new ServiceError(`${serviceName} error: ${res.status} ${res.statusText} - ${detail}`, serviceName, res.status);
+      }
+
+      // Server-Sent Events: blocks separated by a blank line, each with an event and a data line
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+        const blocks = buffered.split('\n\n');
+        buffered = done ? '' : blocks.pop() ?? '';
+        blocks.forEach(block => {
+          const event = block.match(/^event: (.*)$/m)?.[1];
+          const data = block.match(/^data: (.*)$/m)?.[1];
+          if (event && data) handle({ event, data: JSON.parse(data) } as ChatStreamEvent);
+        });
+        if (done) break;
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        return { message_id: null, response, stopped: true, actions: [] };
+      }
+      if (error instanceof ServiceError) throw error;
+      throw new ServiceError(
+        `${serviceName} is unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        serviceName
+      );
+    }
+
+    return { message_id: messageId, response, stopped: false, actions };
+  }
 }
 
 export const aiOrchestratorAPI = new AIOrchestrator();
@@ -306,18 +991,244 @@ export const useServiceMonitoring = () => {
   return { statuses, loading, checkHealth };
 };
 
+// Live ledger changes for a component; returns whether the feed is connected
+export const useLedgerChanges = <TEntry = any>(onChange: (change: LedgerChange<TEntry>) => void) => {
+  const [live, setLive] = React.useState(false);
+  const handlerRef = React.useRef(onChange);
+  handlerRef.current = onChange;
+
+  React.useEffect(() => {
+    return systemicLedgerAPI.subscribe(change => handlerRef.current(change), setLive);
+  }, []);
+
+  return { live };
+};
+
+// Offline-first ledger: the browser's local copy, synced with the Ledger API by ledgerSync
+export { localLedger, ledgerSync };
+export type { LedgerSyncState };
+
+// The local ledger and its outbox follow the stored project from the first page load
+if (typeof window !== 'undefined') {
+  void ledgerSync.useProject(getActiveProject());
+}
+
+/**
+ * Switch every service client, the live feed and the local ledger to another project
+ */
+export const setActiveProject = async (projectId: string): Promise<void> => {
+  if (projectId === getActiveProject()) return;
+
+  // Also moves the shared live feed, which the sync's remote client owns
+  await ledgerSync.useProject(projectId);
+  activeProjectId = projectId;
+  localStorage.setItem(PROJECT_STORAGE_KEY, projectId);
+  projectListeners.forEach(listener => listener(projectId));
+};
+
+// Id of the active project; components keyed on it start fresh after a switch
+export const useActiveProject = () => {
+  const [projectId, setProjectId] = React.useState(DEFAULT_PROJECT_ID);
+
+  React.useEffect(() => {
+    setProjectId(getActiveProject());
+    projectListeners.add(setProjectId);
+    return () => {
+      projectListeners.delete(setProjectId);
+    };
+  }, []);
+
+  return projectId;
+};
+
+// Project list and lifecycle actions for the project switcher
+export const useProjects = () => {
+  const activeProjectId = useActiveProject();
+  const [projects, setProjects] = React.useState<Project[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const { projects } = await systemicLedgerAPI.listProjects();
+      setProjects(projects);
+      setError(null);
+    } catch (err) {
+      setError(handleServiceError(err, 'Systemic Ledger API').message);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Runs a lifecycle call and refreshes the list; services that could not follow are reported
+  const run = async (action: () => Promise<{ project: Project; services: ProjectServiceResults }>) => {
+    const result = await action();
+    await refresh();
+    const failed = Object.entries(result.services).filter(([, outcome]) => outcome !== 'ok');
+    setError(failed.length > 0
+      ? `Not every service was updated: ${failed.map(([service, outcome]) => `${service} (${outcome})`).join(', ')}`
+      : null);
+    return result.project;
+  };
+
+  return {
+    projects,
+    activeProject: projects.find(project => project.id === activeProjectId) ?? null,
+    activeProjectId,
+    error,
+    refresh,
+    switchProject: setActiveProject,
+    createProject: async (name: string, cloneFrom?: string) => {
+      const project = await run(() => systemicLedgerAPI.createProject(cloneFrom ? { name, clone_from: cloneFrom } : { name }));
+      await setActiveProject(project.id);
+      return project;
+    },
+    archiveProject: (projectId: string) => run(() => systemicLedgerAPI.archiveProject(projectId)),
+    restoreProject: (projectId: string) => run(() => systemicLedgerAPI.restoreProject(projectId))
+  };
+};
+
+// Sync state of the local ledger; the first caller starts syncing
+export const useLedgerSync = () => {
+  const [state, setState] = React.useState<LedgerSyncState>(() => ledgerSync.getState());
+
+  React.useEffect(() => {
+    ledgerSync.start();
+    return ledgerSync.subscribe(setState);
+  }, []);
+
+  return {
+    ...state,
+    syncNow: () => ledgerSync.sync(),
+    dismissConflict: (mutationId: string) => ledgerSync.dismissConflict(mutationId)
+  };
+};
+
+// Onboarding progress, loaded once and shared by the wizard, the tooltips and the app shell
+interface OnboardingSnapshot {
+  steps: OnboardingStep[];
+  state: OnboardingState | null; // null until loaded, or when the orchestrator is unreachable
+  loading: boolean;
+  error: string | null;
+}
+
+let onboarding: OnboardingSnapshot = { steps: [], state: null, loading: true, error: null };
+let onboardingLoad: Promise<void> | null = null;
+let onboardingSaves: Promise<void> = Promise.resolve();
+let onboardingRevision = 0;
+const onboardingListeners = new Set<(snapshot: OnboardingSnapshot) => void>();
+
+const publishOnboarding = (changes: Partial<OnboardingSnapshot>) => {
+  onboarding = { ...onboarding, ...changes };
+  onboardingListeners.forEach(listener => listener(onboarding));
+};
+
+const loadOnboarding = (): Promise<void> => {
+  if (!onboardingLoad) {
+    onboardingLoad = Promise.all([aiOrchestratorAPI.getOnboardingSteps(), aiOrchestratorAPI.getOnboardingState()])
+      .then(([{ data: steps }, { data: state }]) => publishOnboarding({ steps, state, loading: false, error: null }))
+      .catch(err => {
+        onboardingLoad = null; // the next component to mount tries again
+        publishOnboarding({ loading: false, error: handleServiceError(err, 'AI Orchestrator API').message });
+      });
+  }
+  return onboardingLoad;
+};
+
+// Shows the new state at once; saves run one after another so the last click wins
+const saveOnboarding = (state: OnboardingState) => {
+  const previous = onboarding.state;
+  const revision = ++onboardingRevision;
+  publishOnboarding({ state });
+  onboardingSaves = onboardingSaves.then(async () => {
+    try {
+      const { data } = await aiOrchestratorAPI.updateOnboardingState(state);
+      if (revision === onboardingRevision) publishOnboarding({ state: data, error: null });
+    } catch (err) {
+      if (revision === onboardingRevision) {
+        publishOnboarding({ state: previous, error: handleServiceError(err, 'AI Orchestrator API').message });
+      }
+    }
+  });
+  return onboardingSaves;
+};
+
+export const useOnboarding = () => {
+  const [snapshot, setSnapshot] = React.useState<OnboardingSnapshot>(onboarding);
+
+  React.useEffect(() => {
+    onboardingListeners.add(setSnapshot);
+    setSnapshot(onboarding);
+    void loadOnboarding();
+    return () => {
+      onboardingListeners.delete(setSnapshot);
+    };
+  }, []);
+
+  const { steps, state } = snapshot;
+  const index = state ? steps.findIndex(step => step.id === state.current_step) : -1;
+
+  // Actions read the shared state, so a click never works from a stale copy
+  const move = (offset: 1 | -1) => {
+    const current = onboarding.state;
+    const position = current ? onboarding.steps.findIndex(step => step.id === current.current_step) : -1;
+    const step = onboarding.steps[position];
+    if (!current || !step) return Promise.resolve();
+
+    if (offset === -1) {
+      const previous = onboarding.steps[position - 1];
+      return previous ? saveOnboarding({ ...current, current_step: previous.id }) : Promise.resolve();
+    }
+    const completedSteps = current.completed_steps.includes(step.id)
+      ? current.completed_steps
+      : [...current.completed_steps, step.id];
+    const next = onboarding.steps[position + 1];
+    return saveOnboarding(next
+      ? { ...current, current_step: next.id, completed_steps: completedSteps }
+      : { ...current, completed_steps: completedSteps, completed_at: new Date().toISOString() });
+  };
+
+  return {
+    ...snapshot,
+    currentStep: steps[index] ?? null,
+    isComplete: state?.completed_at != null,
+    // Complete the current step and go on; completing the last step finishes onboarding
+    next: () => move(1),
+    previous: () => move(-1),
+    // Finish without completing the remaining steps
+    skip: () => onboarding.state
+      ? saveOnboarding({ ...onboarding.state, completed_at: new Date().toISOString() })
+      : Promise.resolve(),
+    // Start again from the first step, e.g. to take the tutorial a second time
+    restart: () => onboarding.state && onboarding.steps[0]
+      ? saveOnboarding({ ...onboarding.state, current_step: onboarding.steps[0].id, completed_steps: [], completed_at: null })
+      : Promise.resolve()
+  };
+};
+
+// A stored ledger entry, as the contract schemas describe it
+export type { LedgerEntry };
+
 // Error handling utilities
+export type { FieldError };
+
 export class ServiceError extends Error {
   constructor(
     message: string,
     public service: string,
-    public statusCode?: number
+    public statusCode?: number,
+    public fields?: FieldError[]
   ) {
     super(message);
     this.name = 'ServiceError';
   }
 }
 
+// True when the request never got an answer (network down, service stopped)
+export const isServiceUnavailable = (error: unknown): boolean =>
+  error instanceof ServiceError && error.statusCode === undefined;
+
 export const handleServiceError = (error: unknown, serviceName: string): ServiceError => {
   if (error instanceof ServiceError) {
     return error;
@@ -1,75 +1,29 @@
 // [empathize] OnboardingTooltip Component
 // Provides contextual guidance based on current onboarding step
 
-import React, { useEffect, useState } from 'react';
+import React from 'react';
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from './ui/tooltip';
-
-interface OnboardingStep {
-  id: string;
-  title: string;
-  description: string;
-  order: number;
-  component: 'roadmap' | 'chat' | 'knowledge' | 'terminal';
-  tooltip: string;
-  cta: string;
-}
+import { OnboardingStep, useOnboarding } from '../app/services/[accelerate]-service-integration';
 
 interface OnboardingTooltipProps {
   children: React.ReactNode;
-  component: 'roadmap' | 'chat' | 'knowledge' | 'terminal';
-  userId: string;
+  component: OnboardingStep['component'];
 }
 
 export const OnboardingTooltip: React.FC<OnboardingTooltipProps> = ({
   children,
-  component,
-  userId
+  component
 }) => {
-  const [currentStep, setCurrentStep] = useState<OnboardingStep | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  // Fetch current onboarding step
-  useEffect(() => {
-    const fetchCurrentStep = async () => {
-      try {
-        // Get onboarding state
-        const stateResponse = await fetch('http://localhost:3002/onboarding/state', {
-          headers: { 'x-mock-user': userId }
-        });
-        const { data: stateData } = await stateResponse.json();
-
-        // If onboarding is complete, don't show tooltips
-        if (stateData.completed_at) {
-          setCurrentStep(null);
-          setLoading(false);
-          return;
-        }
-
-        // Get all steps
-        const stepsResponse = await fetch('http://localhost:3002/onboarding/steps');
-        const { data: steps } = await stepsResponse.json();
-
-        // Find current step
-        const step = steps.find((s: OnboardingStep) => s.id === stateData.current_step);
-        setCurrentStep(step || null);
-      } catch (err) {
-        console.error('Failed to fetch onboarding step:', err);
-        setCurrentStep(null);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchCurrentStep();
-  }, [userId]);
+  // The same progress the wizard shows, so the tip follows each step as it is completed
+  const { loading, currentStep, isComplete } = useOnboarding();
 
-  // Don't show tooltip if loading or no current step
-  if (loading || !currentStep) {
+  // Don't show tooltip if loading, onboarding is complete or there is no current step
+  if (loading || isComplete || !currentStep) {
     return <>{children}</>;
   }
 
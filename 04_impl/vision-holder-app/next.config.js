@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   transpilePackages: ['lucide-react'],
+  experimental: {
+    // The offline ledger and its sync queue live in ../systemic-ledger
+    externalDir: true,
+  },
   compiler: {
     removeConsole: process.env.NODE_ENV === 'production',
   },